@@ -0,0 +1,183 @@
+import type {
+  SDKMessage,
+  SDKUserMessage,
+} from "@anthropic-ai/claude-agent-sdk";
+
+export type BudgetLimits = {
+  maxCostUsd?: number;
+  maxDurationMs?: number;
+};
+
+export type BudgetStopReason = "cost" | "duration";
+
+/** Share of the budget after which Claude is asked to wrap up */
+export const WRAP_UP_THRESHOLD = 0.8;
+
+type ModelPricing = {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+};
+
+// Checked in order, so more specific patterns come first. Unknown models are
+// priced like Opus so that the estimate errs on the side of wrapping up early.
+const MODEL_PRICING: [RegExp, ModelPricing][] = [
+  [/opus-4-[5-9]/, { input: 5, output: 25 }],
+  [/opus/, { input: 15, output: 75 }],
+  [/sonnet/, { input: 3, output: 15 }],
+  [/haiku-4/, { input: 1, output: 5 }],
+  [/3-5-haiku|haiku-3-5/, { input: 0.8, output: 4 }],
+  [/haiku/, { input: 0.25, output: 1.25 }],
+];
+const DEFAULT_PRICING: ModelPricing = { input: 15, output: 75 };
+
+function parsePositiveNumber(
+  value: string | undefined,
+  inputName: string,
+): number | undefined {
+  if (!value?.trim()) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${inputName} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Parses the max_cost_usd and max_duration_minutes inputs.
+ * @throws Error if a limit is not a positive number
+ */
+export function parseBudgetLimits(
+  maxCostUsd?: string,
+  maxDurationMinutes?: string,
+): BudgetLimits {
+  const cost = parsePositiveNumber(maxCostUsd, "max_cost_usd");
+  const minutes = parsePositiveNumber(
+    maxDurationMinutes,
+    "max_duration_minutes",
+  );
+  return {
+    ...(cost !== undefined && { maxCostUsd: cost }),
+    ...(minutes !== undefined && { maxDurationMs: minutes * 60_000 }),
+  };
+}
+
+export function hasBudgetLimits(limits: BudgetLimits): boolean {
+  return limits.maxCostUsd !== undefined || limits.maxDurationMs !== undefined;
+}
+
+/**
+ * Estimates the cost of a model call from its token usage. The SDK only
+ * reports the exact cost once the run ends.
+ */
+export function estimateCostUsd(
+  model: string,
+  usage: Record<string, unknown>,
+): number {
+  const pricing =
+    MODEL_PRICING.find(([pattern]) => pattern.test(model))?.[1] ??
+    DEFAULT_PRICING;
+  const tokens = (key: string) =>
+    typeof usage[key] === "number" ? (usage[key] as number) : 0;
+
+  return (
+    (tokens("input_tokens") * pricing.input +
+      tokens("cache_creation_input_tokens") * pricing.input * 1.25 +
+      tokens("cache_read_input_tokens") * pricing.input * 0.1 +
+      tokens("output_tokens") * pricing.output) /
+    1_000_000
+  );
+}
+
+/**
+ * Tracks the estimated spend of a run from its streamed messages.
+ */
+export function createCostTracker() {
+  let model = "";
+  // The SDK emits one message per content block, each repeating the usage of
+  // the whole model call, so usage is kept per call
+  const usageByCall = new Map<string, Record<string, unknown>>();
+
+  return {
+    record(message: SDKMessage): void {
+      if (message.type === "system" && message.subtype === "init") {
+        model = message.model;
+      } else if (message.type === "assistant" && message.message.usage) {
+        usageByCall.set(
+          message.message.id ?? message.uuid,
+          message.message.usage as unknown as Record<string, unknown>,
+        );
+      }
+    },
+    estimate(): number {
+      let total = 0;
+      for (const usage of usageByCall.values()) {
+        total += estimateCostUsd(model, usage);
+      }
+      return total;
+    },
+  };
+}
+
+export function createWrapUpMessage(reason: string): SDKUserMessage {
+  return {
+    type: "user",
+    session_id: "",
+    message: {
+      role: "user",
+      content: `${reason} Wrap up now: finish or save the change you are working on, commit and push your work, update your tracking comment with what is done and what is left, and stop. Do not start anything new.`,
+    },
+    parent_tool_use_id: null,
+  };
+}
+
+/**
+ * A queue of user messages that can be fed to the SDK as streaming input,
+ * so instructions can be added while Claude is working.
+ */
+export function createMessageChannel(initial: AsyncIterable<SDKUserMessage>) {
+  const queue: (SDKUserMessage | null)[] = [];
+  let notify: (() => void) | undefined;
+  let closed = false;
+
+  const push = (message: SDKUserMessage | null) => {
+    queue.push(message);
+    notify?.();
+    notify = undefined;
+  };
+
+  async function* messages(): AsyncGenerator<SDKUserMessage> {
+    yield* initial;
+    while (true) {
+      while (queue.length === 0) {
+        await new Promise<void>((resolve) => {
+          notify = resolve;
+        });
+      }
+      const message = queue.shift();
+      if (!message) {
+        return;
+      }
+      yield message;
+    }
+  }
+
+  return {
+    messages: messages(),
+    send(message: SDKUserMessage): void {
+      if (!closed) {
+        push(message);
+      }
+    },
+    /** Ends the input, which lets the SDK finish once it is idle */
+    close(): void {
+      if (!closed) {
+        closed = true;
+        push(null);
+      }
+    },
+  };
+}
@@ -6,6 +6,7 @@ import { runClaude } from "./run-claude";
 import { setupClaudeCodeSettings } from "./setup-claude-code-settings";
 import { validateEnvironmentVariables } from "./validate-env";
 import { installPlugins } from "./install-plugins";
+import { restoreSession } from "./session";
 
 async function run() {
   try {
@@ -28,6 +29,11 @@ async function run() {
       promptFile: process.env.INPUT_PROMPT_FILE || "",
     });
 
+    const resumeSessionId = await restoreSession(
+      process.env.INPUT_RESUME_SESSION_ID,
+      process.env.INPUT_RESUME_SESSION_DIR,
+    );
+
     await runClaude(promptConfig.path, {
       claudeArgs: process.env.INPUT_CLAUDE_ARGS,
       allowedTools: process.env.INPUT_ALLOWED_TOOLS,
@@ -41,6 +47,10 @@ async function run() {
       pathToClaudeCodeExecutable:
         process.env.INPUT_PATH_TO_CLAUDE_CODE_EXECUTABLE,
       showFullOutput: process.env.INPUT_SHOW_FULL_OUTPUT,
+      maxCostUsd: process.env.INPUT_MAX_COST_USD,
+      maxDurationMinutes: process.env.INPUT_MAX_DURATION_MINUTES,
+      resumeSessionId,
+      progressCommentId: process.env.INPUT_PROGRESS_COMMENT_ID,
     });
   } catch (error) {
     core.setFailed(`Action failed with error: ${error}`);
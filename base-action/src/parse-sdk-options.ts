@@ -1,6 +1,8 @@
 import { parse as parseShellArgs } from "shell-quote";
 import type { ClaudeOptions } from "./run-claude";
 import type { Options as SdkOptions } from "@anthropic-ai/claude-agent-sdk";
+import { parseBudgetLimits, type BudgetLimits } from "./budget";
+import { getProgressTarget, type ProgressTarget } from "./progress";
 
 /**
  * Result of parsing ClaudeOptions for SDK usage
@@ -9,6 +11,9 @@ export type ParsedSdkOptions = {
   sdkOptions: SdkOptions;
   showFullOutput: boolean;
   hasJsonSchema: boolean;
+  budget: BudgetLimits;
+  /** Comment to keep updated with live progress, if any */
+  progress?: ProgressTarget;
 };
 
 // Flags that should accumulate multiple values instead of overwriting
@@ -263,9 +268,30 @@ export function parseSdkOptions(options: ClaudeOptions): ParsedSdkOptions {
   // Remove setting-sources from extraArgs to avoid passing it twice
   delete extraArgs["setting-sources"];
 
+  // Resume the restored session unless claudeArgs already picks one
+  const userPicksSession = ["resume", "continue", "session-id"].some(
+    (flag) => flag in extraArgs,
+  );
+  if (options.resumeSessionId && !userPicksSession) {
+    sdkOptions.resume = options.resumeSessionId;
+  }
+
+  // The SDK stops the run itself once the exact cost passes the limit
+  const budget = parseBudgetLimits(
+    options.maxCostUsd,
+    options.maxDurationMinutes,
+  );
+  if (budget.maxCostUsd !== undefined) {
+    sdkOptions.maxBudgetUsd = budget.maxCostUsd;
+  }
+
+  const progress = getProgressTarget(options.progressCommentId);
+
   return {
     sdkOptions,
     showFullOutput,
     hasJsonSchema,
+    budget,
+    ...(progress && { progress }),
   };
 }
@@ -0,0 +1,429 @@
+import type { SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import { withCommentLock } from "./comment-lock";
+import { sanitizeContent } from "./sanitizer";
+
+/** Comment that live progress is written into */
+export type ProgressTarget = {
+  apiUrl: string;
+  repository: string;
+  commentId: number;
+  isPullRequestReviewComment: boolean;
+  token: string;
+};
+
+export type TodoItem = {
+  content: string;
+  status: "pending" | "in_progress" | "completed";
+  activeForm?: string;
+};
+
+export type ProgressState = {
+  startedAt: number;
+  /** The TodoWrite item Claude is working on */
+  currentStep?: string;
+  lastTool?: { name: string; detail?: string };
+  todos: TodoItem[];
+  /**
+   * Times Claude updated the comment itself. Its updates replace the whole
+   * body, dropping the progress section until it is written again.
+   */
+  commentUpdates: number;
+};
+
+export const PROGRESS_START_MARKER = "<!-- claude-progress-start -->";
+export const PROGRESS_END_MARKER = "<!-- claude-progress-end -->";
+
+/** How often the comment is updated at most */
+export const PROGRESS_INTERVAL_MS = 15_000;
+
+const PROGRESS_SECTION_PATTERN =
+  /\n*<!-- claude-progress-start -->[\s\S]*?<!-- claude-progress-end -->/g;
+
+const COMMENT_UPDATE_TOOL = "mcp__github_comment__update_claude_comment";
+
+const MAX_DETAIL_LENGTH = 80;
+const REQUEST_TIMEOUT_MS = 10_000;
+// Reporting stops after this many failed updates in a row
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+/**
+ * Reads the comment to report progress in from the progress_comment_id input.
+ * @returns The target, or undefined when live progress is off
+ */
+export function getProgressTarget(
+  commentId: string | undefined,
+  env: NodeJS.ProcessEnv = process.env,
+): ProgressTarget | undefined {
+  if (!commentId?.trim()) {
+    return undefined;
+  }
+
+  const id = parseInt(commentId, 10);
+  if (isNaN(id)) {
+    throw new Error(
+      `progress_comment_id must be a comment ID, got "${commentId}"`,
+    );
+  }
+  const token = env.INPUT_GITHUB_TOKEN || env.GITHUB_TOKEN;
+  if (!token || !env.GITHUB_REPOSITORY) {
+    console.warn(
+      "Live progress needs GITHUB_TOKEN and GITHUB_REPOSITORY, skipping it",
+    );
+    return undefined;
+  }
+
+  return {
+    apiUrl: env.GITHUB_API_URL || "https://api.github.com",
+    repository: env.GITHUB_REPOSITORY,
+    commentId: id,
+    isPullRequestReviewComment:
+      env.GITHUB_EVENT_NAME === "pull_request_review_comment",
+    token,
+  };
+}
+
+/**
+ * Shortens text for the comment. It is sanitized first, so that a token is
+ * redacted before truncation could cut it beyond recognition.
+ */
+function toSingleLine(text: string): string {
+  const line = sanitizeContent(text).replace(/\s+/g, " ").trim();
+  return line.length > MAX_DETAIL_LENGTH
+    ? `${line.substring(0, MAX_DETAIL_LENGTH - 3)}...`
+    : line;
+}
+
+/**
+ * Drops the credentials, query and fragment of a URL, which may carry
+ * secrets.
+ */
+function stripUrlSecrets(url: string): string {
+  try {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname}`;
+  } catch {
+    return url.replace(/[?#].*$/, "");
+  }
+}
+
+/**
+ * Describes a tool call for the public comment. Bash commands are never
+ * shown, only their description, since they may hold secrets.
+ */
+function describeToolUse(input: Record<string, unknown>): string | undefined {
+  for (const key of [
+    "description",
+    "file_path",
+    "notebook_path",
+    "pattern",
+    "url",
+  ]) {
+    const value = input[key];
+    if (typeof value === "string" && value.trim()) {
+      return toSingleLine(key === "url" ? stripUrlSecrets(value) : value);
+    }
+  }
+  return undefined;
+}
+
+function parseTodos(input: Record<string, unknown>): TodoItem[] | undefined {
+  if (!Array.isArray(input.todos)) {
+    return undefined;
+  }
+  return input.todos
+    .filter(
+      (todo): todo is TodoItem =>
+        typeof todo?.content === "string" &&
+        ["pending", "in_progress", "completed"].includes(todo.status),
+    )
+    .map(({ content, status, activeForm }) => ({
+      content,
+      status,
+      ...(typeof activeForm === "string" && { activeForm }),
+    }));
+}
+
+/**
+ * Follows the SDK message stream to know what Claude is doing.
+ */
+export function createProgressTracker(startedAt: number = Date.now()) {
+  const state: ProgressState = { startedAt, todos: [], commentUpdates: 0 };
+
+  // Comment updates count once they are done, as only then is the progress
+  // section gone
+  const commentUpdateIds = new Set<string>();
+
+  return {
+    record(message: SDKMessage): void {
+      if (message.type === "user") {
+        const content = message.message.content;
+        for (const block of Array.isArray(content) ? content : []) {
+          if (
+            block.type === "tool_result" &&
+            commentUpdateIds.delete(block.tool_use_id)
+          ) {
+            state.commentUpdates++;
+          }
+        }
+        return;
+      }
+      if (message.type !== "assistant") {
+        return;
+      }
+      for (const block of message.message.content) {
+        if (block.type !== "tool_use") {
+          continue;
+        }
+        const input = (block.input ?? {}) as Record<string, unknown>;
+        if (block.name === COMMENT_UPDATE_TOOL) {
+          commentUpdateIds.add(block.id);
+        } else if (block.name === "TodoWrite") {
+          const todos = parseTodos(input);
+          if (todos) {
+            state.todos = todos;
+            const current = todos.find((todo) => todo.status === "in_progress");
+            state.currentStep = current
+              ? toSingleLine(current.activeForm || current.content)
+              : undefined;
+          }
+        }
+        state.lastTool = { name: block.name, detail: describeToolUse(input) };
+      }
+    },
+    getState(): ProgressState {
+      return state;
+    },
+  };
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+/**
+ * Renders the progress section, without the elapsed time so that it can be
+ * compared between updates.
+ */
+function formatProgressContent(state: ProgressState): string {
+  const lines: string[] = [];
+  if (state.currentStep) {
+    lines.push(`**Current step:** ${state.currentStep}`);
+  }
+  if (state.lastTool) {
+    // Code spans keep commands and paths from being rendered as markdown
+    const detail = state.lastTool.detail
+      ? ` \`${state.lastTool.detail.replace(/`/g, "'")}\``
+      : "";
+    lines.push(`**Last tool:** \`${state.lastTool.name}\`${detail}`);
+  }
+
+  let content = lines.join("  \n");
+  if (state.todos.length > 0) {
+    const checklist = state.todos.map((todo) => {
+      const text = toSingleLine(todo.content);
+      if (todo.status === "completed") return `- [x] ${text}`;
+      if (todo.status === "in_progress") return `- [ ] **${text}**`;
+      return `- [ ] ${text}`;
+    });
+    content += `${content ? "\n\n" : ""}${checklist.join("\n")}`;
+  }
+  return content;
+}
+
+/**
+ * Renders the progress section that is kept at the end of the comment.
+ */
+export function formatProgressSection(
+  state: ProgressState,
+  now: number = Date.now(),
+): string {
+  const content = formatProgressContent(state);
+  return [
+    PROGRESS_START_MARKER,
+    `### Live progress`,
+    "",
+    `_Updated ${formatElapsed(now - state.startedAt)} into the run_`,
+    ...(content ? ["", content] : []),
+    PROGRESS_END_MARKER,
+  ].join("\n");
+}
+
+/**
+ * Replaces the progress section of a comment body, leaving everything else
+ * as written. Passing no section removes it.
+ */
+export function setProgressSection(body: string, section?: string): string {
+  const rest = body.replace(PROGRESS_SECTION_PATTERN, "").trimEnd();
+  return section ? `${rest}\n\n${section}` : rest;
+}
+
+class RateLimitError extends Error {
+  constructor(public retryAt: number) {
+    super(`Rate limited until ${new Date(retryAt).toISOString()}`);
+  }
+}
+
+/**
+ * Time after which a rate-limited request may be retried, or undefined if
+ * the response is not a rate limit.
+ */
+export function getRateLimitRetryAt(
+  response: Response,
+  now: number = Date.now(),
+): number | undefined {
+  if (response.status !== 403 && response.status !== 429) {
+    return undefined;
+  }
+  const retryAfter = Number(response.headers.get("retry-after"));
+  if (retryAfter > 0) {
+    return now + retryAfter * 1000;
+  }
+  if (response.headers.get("x-ratelimit-remaining") === "0") {
+    const reset = Number(response.headers.get("x-ratelimit-reset"));
+    return reset > 0 ? reset * 1000 : now + 60_000;
+  }
+  // GitHub recommends waiting at least a minute after a secondary rate limit
+  return response.status === 429 ? now + 60_000 : undefined;
+}
+
+type ProgressReporterOptions = {
+  fetch?: typeof fetch;
+  now?: () => number;
+  lockPath?: string;
+};
+
+/**
+ * Keeps the progress section of the target comment up to date. Only the
+ * section between the progress markers is ever changed, and each update
+ * reads the comment first so that what Claude wrote is kept.
+ */
+export function createProgressReporter(
+  target: ProgressTarget,
+  getState: () => ProgressState,
+  {
+    fetch: fetchFn = fetch,
+    now = Date.now,
+    lockPath,
+  }: ProgressReporterOptions = {},
+) {
+  // What was last written, to skip updates that would change nothing
+  let lastWritten: string | undefined;
+  let retryAt = 0;
+  let failures = 0;
+  let pending: Promise<void> | undefined;
+  let timer: ReturnType<typeof setInterval> | undefined;
+
+  const request = async (
+    path: string,
+    init: RequestInit = {},
+  ): Promise<Response> => {
+    const response = await fetchFn(`${target.apiUrl}${path}`, {
+      ...init,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${target.token}`,
+        "X-GitHub-Api-Version": "2022-11-28",
+        ...(init.body && { "Content-Type": "application/json" }),
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const rateLimitedUntil = getRateLimitRetryAt(response, now());
+    if (rateLimitedUntil !== undefined) {
+      throw new RateLimitError(rateLimitedUntil);
+    }
+    if (!response.ok) {
+      throw new Error(`GitHub API returned ${response.status} for ${path}`);
+    }
+    return response;
+  };
+
+  const issueCommentPath = `/repos/${target.repository}/issues/comments/${target.commentId}`;
+  let commentPath = target.isPullRequestReviewComment
+    ? `/repos/${target.repository}/pulls/comments/${target.commentId}`
+    : issueCommentPath;
+
+  const readBody = async (): Promise<string> => {
+    try {
+      const response = await request(commentPath);
+      return ((await response.json()) as { body?: string }).body ?? "";
+    } catch (error) {
+      // Comments on a PR that are not review comments live on the issue
+      if (
+        commentPath !== issueCommentPath &&
+        error instanceof Error &&
+        error.message.startsWith("GitHub API returned 404")
+      ) {
+        commentPath = issueCommentPath;
+        return readBody();
+      }
+      throw error;
+    }
+  };
+
+  const writeSection = (section?: string) =>
+    withCommentLock(async () => {
+      const body = await readBody();
+      const newBody = setProgressSection(body, section);
+      if (newBody !== body) {
+        await request(commentPath, {
+          method: "PATCH",
+          body: JSON.stringify({ body: newBody }),
+        });
+      }
+    }, lockPath);
+
+  const run = async (update: () => Promise<void>): Promise<void> => {
+    try {
+      await update();
+      failures = 0;
+    } catch (error) {
+      if (error instanceof RateLimitError) {
+        retryAt = error.retryAt;
+        console.warn(`Live progress paused: ${error.message}`);
+        return;
+      }
+      failures++;
+      console.warn(`Failed to update live progress: ${error}`);
+      if (failures >= MAX_CONSECUTIVE_FAILURES) {
+        console.warn("Giving up on live progress after repeated failures");
+      }
+    }
+  };
+
+  /**
+   * Writes the current progress, unless an update is still running, the
+   * comment is rate limited or nothing changed since the last update.
+   */
+  const flush = async (): Promise<void> => {
+    if (pending || failures >= MAX_CONSECUTIVE_FAILURES) return;
+    if (now() < retryAt) return;
+
+    const state = getState();
+    const key = `${state.commentUpdates}\n${formatProgressContent(state)}`;
+    if (key === lastWritten) return;
+
+    pending = run(async () => {
+      await writeSection(formatProgressSection(state, now()));
+      lastWritten = key;
+    });
+    await pending;
+    pending = undefined;
+  };
+
+  return {
+    flush,
+    start(intervalMs: number = PROGRESS_INTERVAL_MS): void {
+      timer = setInterval(flush, intervalMs);
+    },
+    /** Stops updating and removes the progress section */
+    async finish(): Promise<void> {
+      clearInterval(timer);
+      await pending;
+      if (lastWritten === undefined || now() < retryAt) return;
+      await run(() => writeSection(undefined));
+    },
+  };
+}
@@ -8,6 +8,16 @@ import type {
   SDKUserMessage,
 } from "@anthropic-ai/claude-agent-sdk";
 import type { ParsedSdkOptions } from "./parse-sdk-options";
+import { getSessionTranscriptPath } from "./session";
+import {
+  createCostTracker,
+  createMessageChannel,
+  createWrapUpMessage,
+  hasBudgetLimits,
+  WRAP_UP_THRESHOLD,
+  type BudgetStopReason,
+} from "./budget";
+import { createProgressReporter, createProgressTracker } from "./progress";
 
 const EXECUTION_FILE = `${process.env.RUNNER_TEMP}/claude-execution-output.json`;
 
@@ -76,6 +86,17 @@ async function createPromptConfig(
   return createMultiBlockMessage();
 }
 
+async function* createSingleMessage(
+  prompt: string,
+): AsyncGenerator<SDKUserMessage> {
+  yield {
+    type: "user",
+    session_id: "",
+    message: { role: "user", content: prompt },
+    parent_tool_use_id: null,
+  };
+}
+
 /**
  * Sanitizes SDK output to match CLI sanitization behavior
  */
@@ -128,11 +149,25 @@ function sanitizeSdkOutput(
  */
 export async function runClaudeWithSdk(
   promptPath: string,
-  { sdkOptions, showFullOutput, hasJsonSchema }: ParsedSdkOptions,
+  {
+    sdkOptions,
+    showFullOutput,
+    hasJsonSchema,
+    budget,
+    progress,
+  }: ParsedSdkOptions,
 ): Promise<void> {
   // Create prompt configuration - may be a string or multi-block message
   const prompt = await createPromptConfig(promptPath, showFullOutput);
 
+  // With a budget, the prompt is sent as streaming input so that a wrap-up
+  // instruction can be added while Claude works
+  const channel = hasBudgetLimits(budget)
+    ? createMessageChannel(
+        typeof prompt === "string" ? createSingleMessage(prompt) : prompt,
+      )
+    : undefined;
+
   if (!showFullOutput) {
     console.log(
       "Running Claude Code via SDK (full output hidden for security)...",
@@ -149,9 +184,54 @@ export async function runClaudeWithSdk(
 
   const messages: SDKMessage[] = [];
   let resultMessage: SDKResultMessage | undefined;
+  let stopReason: BudgetStopReason | undefined;
+  let wrapUpSent = false;
+  const costTracker = createCostTracker();
+  const progressTracker = createProgressTracker();
+  const progressReporter =
+    progress && createProgressReporter(progress, progressTracker.getState);
+  progressReporter?.start();
+
+  const wrapUp = (reason: string) => {
+    if (wrapUpSent || !channel) return;
+    wrapUpSent = true;
+    core.warning(`${reason} Asking Claude to wrap up.`);
+    channel.send(createWrapUpMessage(reason));
+  };
+
+  const claudeQuery = query({
+    prompt: channel ? channel.messages : prompt,
+    options: sdkOptions,
+  });
+
+  const timers: ReturnType<typeof setTimeout>[] = [];
+  if (budget.maxDurationMs !== undefined) {
+    const minutes = budget.maxDurationMs / 60_000;
+    timers.push(
+      setTimeout(
+        () =>
+          wrapUp(
+            `This run has used ${WRAP_UP_THRESHOLD * 100}% of its ${minutes}-minute time limit.`,
+          ),
+        budget.maxDurationMs * WRAP_UP_THRESHOLD,
+      ),
+      setTimeout(() => {
+        stopReason = "duration";
+        core.warning(
+          `Stopping Claude: the ${minutes}-minute time limit was reached`,
+        );
+        claudeQuery
+          .interrupt()
+          .catch((error) => {
+            core.warning(`Failed to interrupt Claude: ${error}`);
+          })
+          .finally(() => channel?.close());
+      }, budget.maxDurationMs),
+    );
+  }
 
   try {
-    for await (const message of query({ prompt, options: sdkOptions })) {
+    for await (const message of claudeQuery) {
       messages.push(message);
 
       const sanitized = sanitizeSdkOutput(message, showFullOutput);
@@ -159,14 +239,37 @@ export async function runClaudeWithSdk(
         console.log(sanitized);
       }
 
+      costTracker.record(message);
+      progressTracker.record(message);
+      if (
+        budget.maxCostUsd !== undefined &&
+        costTracker.estimate() >= budget.maxCostUsd * WRAP_UP_THRESHOLD
+      ) {
+        wrapUp(
+          `This run has spent about $${costTracker.estimate().toFixed(2)} of its $${budget.maxCostUsd} budget.`,
+        );
+      }
+
       if (message.type === "result") {
         resultMessage = message as SDKResultMessage;
+        // Nothing more to send once Claude has finished
+        channel?.close();
       }
     }
   } catch (error) {
     console.error("SDK execution error:", error);
     core.setOutput("conclusion", "failure");
     process.exit(1);
+  } finally {
+    timers.forEach(clearTimeout);
+    await progressReporter?.finish();
+  }
+
+  if (resultMessage?.subtype === "error_max_budget_usd") {
+    stopReason = "cost";
+  }
+  if (stopReason) {
+    core.setOutput("budget_exceeded", stopReason);
   }
 
   // Write execution file
@@ -185,6 +288,12 @@ export async function runClaudeWithSdk(
   if (initMessage && "session_id" in initMessage && initMessage.session_id) {
     core.setOutput("session_id", initMessage.session_id);
     core.info(`Set session_id: ${initMessage.session_id}`);
+
+    // Expose the transcript so it can be saved for resuming later
+    const transcriptPath = getSessionTranscriptPath(initMessage.session_id);
+    if (await fileExists(transcriptPath)) {
+      core.setOutput("session_file", transcriptPath);
+    }
   }
 
   if (!resultMessage) {
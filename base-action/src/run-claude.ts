@@ -13,6 +13,12 @@ export type ClaudeOptions = {
   appendSystemPrompt?: string;
   fallbackModel?: string;
   showFullOutput?: string;
+  maxCostUsd?: string;
+  maxDurationMinutes?: string;
+  /** Session to resume, once its transcript has been restored */
+  resumeSessionId?: string;
+  /** Comment to keep updated with live progress */
+  progressCommentId?: string;
 };
 
 export async function runClaude(promptPath: string, options: ClaudeOptions) {
@@ -0,0 +1,71 @@
+import { access, copyFile, mkdir } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Directory where Claude Code keeps session transcripts for a working
+ * directory.
+ */
+export function getSessionDir(
+  cwd: string = process.cwd(),
+  configDir: string = process.env.CLAUDE_CONFIG_DIR ||
+    join(homedir(), ".claude"),
+): string {
+  return join(configDir, "projects", cwd.replace(/[^a-zA-Z0-9]/g, "-"));
+}
+
+export function getSessionTranscriptPath(
+  sessionId: string,
+  sessionDir: string = getSessionDir(),
+): string {
+  return join(sessionDir, `${sessionId}.jsonl`);
+}
+
+/**
+ * Copies a transcript restored from an earlier run into the session
+ * directory so the session can be resumed.
+ * @returns The session ID to resume, or undefined to start a fresh session
+ */
+export async function restoreSession(
+  sessionId: string | undefined,
+  restoredDir: string | undefined,
+  sessionDir: string = getSessionDir(),
+): Promise<string | undefined> {
+  if (!sessionId || !restoredDir) {
+    return undefined;
+  }
+
+  const restoredPath = join(restoredDir, `${sessionId}.jsonl`);
+  if (!(await fileExists(restoredPath))) {
+    console.log(
+      `Transcript for session ${sessionId} was not restored, starting a fresh session`,
+    );
+    return undefined;
+  }
+
+  try {
+    await mkdir(sessionDir, { recursive: true });
+    await copyFile(
+      restoredPath,
+      getSessionTranscriptPath(sessionId, sessionDir),
+    );
+  } catch (error) {
+    console.warn(
+      `Failed to restore session ${sessionId}, starting a fresh session:`,
+      error,
+    );
+    return undefined;
+  }
+
+  console.log(`Resuming session ${sessionId}`);
+  return sessionId;
+}
@@ -0,0 +1,106 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect } from "bun:test";
+import type { SDKUserMessage } from "@anthropic-ai/claude-agent-sdk";
+import {
+  createCostTracker,
+  createMessageChannel,
+  createWrapUpMessage,
+  estimateCostUsd,
+  parseBudgetLimits,
+} from "../src/budget";
+
+describe("parseBudgetLimits", () => {
+  test("should parse both limits", () => {
+    expect(parseBudgetLimits("2.5", "30")).toEqual({
+      maxCostUsd: 2.5,
+      maxDurationMs: 30 * 60_000,
+    });
+  });
+
+  test("should leave empty limits unset", () => {
+    expect(parseBudgetLimits("", undefined)).toEqual({});
+  });
+
+  test("should reject limits that are not positive numbers", () => {
+    expect(() => parseBudgetLimits("abc")).toThrow(
+      'max_cost_usd must be a positive number, got "abc"',
+    );
+    expect(() => parseBudgetLimits(undefined, "0")).toThrow(
+      "max_duration_minutes must be a positive number",
+    );
+  });
+});
+
+describe("estimateCostUsd", () => {
+  test("should price tokens by model", () => {
+    const usage = {
+      input_tokens: 1_000_000,
+      output_tokens: 100_000,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 1_000_000,
+    };
+
+    // 1M input at $3, 1M cache reads at $0.30, 100k output at $15/M
+    expect(estimateCostUsd("claude-sonnet-4-5-20250929", usage)).toBeCloseTo(
+      4.8,
+    );
+    expect(estimateCostUsd("claude-opus-4-1-20250805", usage)).toBeCloseTo(24);
+  });
+
+  test("should price unknown models like Opus", () => {
+    expect(
+      estimateCostUsd("custom-model", { output_tokens: 1_000_000 }),
+    ).toBeCloseTo(75);
+  });
+});
+
+describe("createCostTracker", () => {
+  test("should count the usage of each model call once", () => {
+    const tracker = createCostTracker();
+    const assistant = (id: string, text: string) =>
+      ({
+        type: "assistant",
+        uuid: `${id}-${text}`,
+        message: {
+          id,
+          content: [{ type: "text", text }],
+          usage: { input_tokens: 1_000_000, output_tokens: 0 },
+        },
+      }) as any;
+
+    tracker.record({
+      type: "system",
+      subtype: "init",
+      model: "claude-sonnet-4-5",
+    } as any);
+    tracker.record(assistant("msg_1", "first block"));
+    tracker.record(assistant("msg_1", "second block"));
+    tracker.record(assistant("msg_2", "next call"));
+
+    expect(tracker.estimate()).toBeCloseTo(6);
+  });
+});
+
+describe("createMessageChannel", () => {
+  test("should send queued messages after the prompt until closed", async () => {
+    async function* prompt(): AsyncGenerator<SDKUserMessage> {
+      yield createWrapUpMessage("Prompt.");
+    }
+    const channel = createMessageChannel(prompt());
+    const received: string[] = [];
+
+    const reading = (async () => {
+      for await (const message of channel.messages) {
+        received.push(String(message.message.content).split(" ")[0]!);
+      }
+    })();
+
+    channel.send(createWrapUpMessage("Budget."));
+    channel.close();
+    channel.send(createWrapUpMessage("Ignored."));
+    await reading;
+
+    expect(received).toEqual(["Prompt.", "Budget."]);
+  });
+});
@@ -367,4 +367,44 @@ describe("parseSdkOptions", () => {
       );
     });
   });
+
+  describe("session resume", () => {
+    test("should resume the restored session", () => {
+      const result = parseSdkOptions({ resumeSessionId: "abc-123" });
+
+      expect(result.sdkOptions.resume).toBe("abc-123");
+    });
+
+    test("should leave the session to --resume in claudeArgs", () => {
+      const result = parseSdkOptions({
+        claudeArgs: "--resume other-session",
+        resumeSessionId: "abc-123",
+      });
+
+      expect(result.sdkOptions.resume).toBeUndefined();
+      expect(result.sdkOptions.extraArgs?.["resume"]).toBe("other-session");
+    });
+  });
+
+  describe("budget", () => {
+    test("should pass max_cost_usd to the SDK as maxBudgetUsd", () => {
+      const result = parseSdkOptions({
+        maxCostUsd: "1.5",
+        maxDurationMinutes: "10",
+      });
+
+      expect(result.sdkOptions.maxBudgetUsd).toBe(1.5);
+      expect(result.budget).toEqual({
+        maxCostUsd: 1.5,
+        maxDurationMs: 600_000,
+      });
+    });
+
+    test("should not set a budget by default", () => {
+      const result = parseSdkOptions({});
+
+      expect(result.sdkOptions.maxBudgetUsd).toBeUndefined();
+      expect(result.budget).toEqual({});
+    });
+  });
 });
@@ -0,0 +1,56 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getSessionDir,
+  getSessionTranscriptPath,
+  restoreSession,
+} from "../src/session";
+
+describe("getSessionDir", () => {
+  test("should encode the working directory like Claude Code", () => {
+    expect(
+      getSessionDir("/home/runner/work/my.repo", "/home/runner/.claude"),
+    ).toBe("/home/runner/.claude/projects/-home-runner-work-my-repo");
+  });
+});
+
+describe("restoreSession", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "claude-session-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("should copy the restored transcript into the session directory", async () => {
+    const restoredDir = join(tempDir, "restored");
+    const sessionDir = join(tempDir, "projects", "repo");
+    await Bun.write(join(restoredDir, "abc-123.jsonl"), '{"type":"user"}\n');
+
+    const sessionId = await restoreSession("abc-123", restoredDir, sessionDir);
+
+    expect(sessionId).toBe("abc-123");
+    expect(
+      await readFile(getSessionTranscriptPath("abc-123", sessionDir), "utf-8"),
+    ).toBe('{"type":"user"}\n');
+  });
+
+  test("should start a fresh session when the transcript is missing", async () => {
+    await writeFile(join(tempDir, "other.jsonl"), "");
+
+    expect(
+      await restoreSession("abc-123", tempDir, join(tempDir, "projects")),
+    ).toBeUndefined();
+  });
+
+  test("should start a fresh session when there is nothing to resume", async () => {
+    expect(await restoreSession(undefined, tempDir)).toBeUndefined();
+  });
+});
@@ -3,15 +3,33 @@
 import * as core from "@actions/core";
 import { writeFile, mkdir } from "fs/promises";
 import type { FetchDataResult } from "../github/data/fetcher";
+import {
+  applyContextBudget,
+  parseMaxContextTokens,
+} from "../github/data/context-budget";
 import {
   formatContext,
   formatBody,
   formatComments,
   formatReviewComments,
   formatChangedFilesWithSHA,
+  formatTruncationNotice,
+  formatAttachments,
 } from "../github/data/formatter";
+import { formatPullRequestDiff } from "../github/data/diff";
+import { formatSinceLastRun, type SinceLastRun } from "../github/data/last-run";
+import {
+  formatEntityMemory,
+  type EntityMemory,
+} from "../github/operations/memory";
+import {
+  formatTestReports,
+  type TestReports,
+} from "../github/data/test-reports";
 import { sanitizeContent } from "../github/utils/sanitizer";
 import {
+  isDispatchEvent,
+  isWorkflowRunEvent,
   isIssuesEvent,
   isIssueCommentEvent,
   isPullRequestReviewEvent,
@@ -22,6 +40,20 @@ import type { CommonFields, PreparedContext, EventData } from "./types";
 import { GITHUB_SERVER_URL } from "../github/api/config";
 import type { Mode, ModeContext } from "../modes/types";
 import { extractUserRequest } from "../utils/extract-user-request";
+import {
+  parseAdditionalRepositories,
+  formatAdditionalRepositories,
+} from "../github/operations/additional-repositories";
+import { parseWorkflowChangePaths } from "../github/operations/workflow-changes";
+import {
+  getCommitTools,
+  type CommitStrategy,
+} from "../github/operations/commit-strategy";
+import {
+  buildTemplateVariables,
+  loadPromptTemplate,
+  renderPromptTemplate,
+} from "./template";
 export type { CommonFields, PreparedContext } from "./types";
 
 /** Filename for the user request file, read by the SDK runner */
@@ -41,32 +73,20 @@ const BASE_ALLOWED_TOOLS = [
 export function buildAllowedToolsString(
   customAllowedTools?: string[],
   includeActionsTools: boolean = false,
-  useCommitSigning: boolean = false,
+  commitStrategy: CommitStrategy = "git",
 ): string {
   // Tag mode needs these tools to function properly
   let baseTools = [...BASE_ALLOWED_TOOLS];
 
-  // Always include the comment update tool for tag mode
-  baseTools.push("mcp__github_comment__update_claude_comment");
+  // Always include the comment update and memory tools for tag mode
+  baseTools.push(
+    "mcp__github_comment__update_claude_comment",
+    "mcp__github_comment__read_memory",
+    "mcp__github_comment__update_memory",
+  );
 
-  // Add commit signing tools if enabled
-  if (useCommitSigning) {
-    baseTools.push(
-      "mcp__github_file_ops__commit_files",
-      "mcp__github_file_ops__delete_files",
-    );
-  } else {
-    // When not using commit signing, add specific Bash git commands
-    baseTools.push(
-      "Bash(git add:*)",
-      "Bash(git commit:*)",
-      "Bash(git push:*)",
-      "Bash(git status:*)",
-      "Bash(git diff:*)",
-      "Bash(git log:*)",
-      "Bash(git rm:*)",
-    );
-  }
+  // File ops tools for API commits, specific Bash git commands otherwise
+  baseTools.push(...getCommitTools(commitStrategy));
 
   // Add GitHub Actions MCP tools if enabled
   if (includeActionsTools) {
@@ -74,6 +94,11 @@ export function buildAllowedToolsString(
       "mcp__github_ci__get_ci_status",
       "mcp__github_ci__get_workflow_run_details",
       "mcp__github_ci__download_job_log",
+      "mcp__github_ci__get_failed_steps",
+      "mcp__github_ci__search_job_log",
+      "mcp__github_ci__tail_job_log",
+      "mcp__github_ci__list_run_artifacts",
+      "mcp__github_ci__download_artifact",
     );
   }
 
@@ -146,6 +171,8 @@ export function prepareContext(
     triggerUsername = context.payload.comment.user.login;
   } else if (isIssuesEvent(context)) {
     triggerUsername = context.payload.issue.user.login;
+  } else if (isDispatchEvent(context) || isWorkflowRunEvent(context)) {
+    triggerUsername = context.actor;
   }
 
   // Create infrastructure fields object
@@ -327,6 +354,51 @@ export function prepareContext(
       };
       break;
 
+    case "workflow_dispatch":
+    case "repository_dispatch":
+      if (!prompt) {
+        throw new Error(
+          "A prompt is required for dispatches that target an issue or PR",
+        );
+      }
+      if (prNumber) {
+        eventData = {
+          eventName,
+          isPR: true,
+          prNumber,
+          ...(claudeBranch && { claudeBranch }),
+          ...(baseBranch && { baseBranch }),
+        };
+      } else if (issueNumber) {
+        eventData = {
+          eventName,
+          isPR: false,
+          issueNumber,
+          ...(claudeBranch && { claudeBranch }),
+          ...(baseBranch && { baseBranch }),
+        };
+      } else {
+        throw new Error(
+          "ISSUE_NUMBER or PR_NUMBER is required for dispatch events",
+        );
+      }
+      break;
+
+    case "workflow_run":
+      if (!prNumber || !isPR) {
+        throw new Error(
+          "PR_NUMBER is required for workflow_run events on a pull request",
+        );
+      }
+      eventData = {
+        eventName: "workflow_run",
+        isPR: true,
+        prNumber,
+        ...(claudeBranch && { claudeBranch }),
+        ...(baseBranch && { baseBranch }),
+      };
+      break;
+
     default:
       throw new Error(`Unsupported event type: ${eventName}`);
   }
@@ -391,12 +463,28 @@ export function getEventTypeAndContext(envVars: PreparedContext): {
           : `pull request event`,
       };
 
+    case "workflow_dispatch":
+    case "repository_dispatch":
+      return {
+        eventType: "DISPATCH",
+        triggerContext: `${eventData.eventName} event`,
+      };
+
+    case "workflow_run":
+      return {
+        eventType: "CI_FAILURE",
+        triggerContext: "failed workflow run",
+      };
+
     default:
       throw new Error(`Unexpected event type`);
   }
 }
 
-function getCommitInstructions(
+/**
+ * Explains how to commit and push for the commit strategy in use.
+ */
+export function getCommitInstructions(
   eventData: EventData,
   githubData: FetchDataResult,
   context: PreparedContext,
@@ -454,12 +542,142 @@ function getCommitInstructions(
   }
 }
 
-export function generatePrompt(
+/**
+ * Renders the <pr_diff> block when the diff was fetched (include_diff).
+ */
+export function formatDiffBlock(githubData: FetchDataResult): string {
+  if (!githubData.diff) {
+    return "";
+  }
+  return `
+
+<pr_diff>
+${formatPullRequestDiff(githubData.diff, githubData.omitted?.diffFiles) || "No diff available"}
+</pr_diff>`;
+}
+
+/**
+ * Summarizes what changed since the previous run, so a re-review can focus
+ * on the new commits and replies.
+ */
+export function formatSinceLastRunBlock(
+  sinceLastRun: SinceLastRun | undefined,
+): string {
+  if (!sinceLastRun) {
+    return "";
+  }
+  return `
+
+<since_last_run>
+${formatSinceLastRun(sinceLastRun)}
+
+Focus on these changes and replies. Do not repeat feedback from the previous run unless the new commits make it relevant again.
+</since_last_run>`;
+}
+
+/**
+ * Renders the memory saved by earlier runs on the issue or PR.
+ */
+export function formatMemoryPromptBlock(
+  memory: EntityMemory | undefined,
+): string {
+  if (!memory) {
+    return "";
+  }
+  return `
+
+<memory>
+Notes saved by earlier runs on this issue or PR. Treat them as your own notes, but check them against the current code.
+
+${formatEntityMemory(memory)}
+</memory>`;
+}
+
+/**
+ * Lists the failures from the reports named in test_reports.
+ */
+export function formatTestReportsBlock(
+  testReports: TestReports | undefined,
+): string {
+  if (!testReports) {
+    return "";
+  }
+  return `
+
+<test_reports>
+Failures from the test and lint reports of this run. Locations are relative to the repository root. Use mcp__test_reports__get_test_failures for the full list and the details of each failure.
+
+${sanitizeContent(formatTestReports(testReports))}
+</test_reports>`;
+}
+
+/**
+ * Describes which workflow files Claude may change, if any.
+ */
+export function formatWorkflowLimitation(allowedPaths: string[]): string {
+  if (allowedPaths.length === 0) {
+    return "- Modify files in the .github/workflows directory (GitHub App permissions do not allow workflow modifications)";
+  }
+  return `- Modify files in the .github/workflows directory, except for ${allowedPaths.map((path) => `\`${path}\``).join(", ")}. Commit changes to those with mcp__github_file_ops__commit_files, which validates them first. Every workflow change is flagged for human review.`;
+}
+
+/**
+ * Lists the non-image attachments downloaded from the body and comments.
+ */
+export function formatAttachmentsBlock(githubData: FetchDataResult): string {
+  if (!githubData.attachments?.length) {
+    return "";
+  }
+  return `
+
+<attachments>
+Files attached to the body and comments have been saved to disk. Use the Read tool to view them; PDFs also have their text extracted and zips are unpacked.
+${formatAttachments(githubData.attachments)}
+</attachments>`;
+}
+
+/**
+ * Applies the max_context_tokens budget, if configured, to the fetched data.
+ */
+function budgetGitHubData(
   context: PreparedContext,
   githubData: FetchDataResult,
+): FetchDataResult {
+  const maxTokens = parseMaxContextTokens(
+    context.githubContext?.inputs.maxContextTokens,
+  );
+  if (!maxTokens) {
+    return githubData;
+  }
+
+  const triggerIds: string[] = [];
+  if ("commentId" in context.eventData && context.eventData.commentId) {
+    triggerIds.push(context.eventData.commentId);
+  }
+  if (
+    context.githubContext &&
+    isPullRequestReviewEvent(context.githubContext)
+  ) {
+    triggerIds.push(String(context.githubContext.payload.review.id));
+  }
+
+  return applyContextBudget(githubData, { maxTokens, triggerIds });
+}
+
+export function generatePrompt(
+  context: PreparedContext,
+  fetchedData: FetchDataResult,
   useCommitSigning: boolean,
   mode: Mode,
 ): string {
+  const githubData = budgetGitHubData(context, fetchedData);
+  if (context.promptTemplate) {
+    const { eventType, triggerContext } = getEventTypeAndContext(context);
+    return renderPromptTemplate(
+      context.promptTemplate,
+      buildTemplateVariables(context, githubData, eventType, triggerContext),
+    );
+  }
   return mode.generatePrompt(context, githubData, useCommitSigning);
 }
 
@@ -484,13 +702,23 @@ function generateSimplePrompt(
   const { triggerContext } = getEventTypeAndContext(context);
 
   const formattedContext = formatContext(contextData, eventData.isPR);
-  const formattedComments = formatComments(comments, imageUrlMap);
+  const formattedComments = formatComments(
+    comments,
+    imageUrlMap,
+    githubData.omitted?.comments,
+  );
   const formattedReviewComments = eventData.isPR
-    ? formatReviewComments(reviewData, imageUrlMap)
+    ? formatReviewComments(
+        reviewData,
+        imageUrlMap,
+        githubData.omitted,
+        githubData.reviewThreads,
+      )
     : "";
   const formattedChangedFiles = eventData.isPR
-    ? formatChangedFilesWithSHA(changedFilesWithSHA)
+    ? formatChangedFilesWithSHA(changedFilesWithSHA, githubData.omitted?.files)
     : "";
+  const diffInfo = formatDiffBlock(githubData);
 
   const hasImages = imageUrlMap && imageUrlMap.size > 0;
   const imagesInfo = hasImages
@@ -499,6 +727,11 @@ Images from comments have been saved to disk. Paths are in the formatted content
 </images_info>`
     : "";
 
+  const truncationNotice = formatTruncationNotice(githubData.truncation);
+  const truncationInfo = truncationNotice
+    ? `\n\n<truncated_context>\n${truncationNotice}\n</truncated_context>`
+    : "";
+
   const formattedBody = contextData?.body
     ? formatBody(contextData.body, imageUrlMap)
     : "No description provided";
@@ -530,7 +763,7 @@ ${formattedReviewComments || "No review comments"}
 ${formattedChangedFiles || "No files changed"}
 </changed_files>`
     : ""
-}${imagesInfo}
+}${formatMemoryPromptBlock(context.memory)}${formatSinceLastRunBlock(githubData.sinceLastRun)}${diffInfo}${imagesInfo}${formatAttachmentsBlock(githubData)}${formatTestReportsBlock(context.testReports)}${truncationInfo}
 
 <metadata>
 repository: ${context.repository}
@@ -552,7 +785,7 @@ ${sanitizeContent(eventData.commentBody)}
     : ""
 }
 
-Your request is in <trigger_comment> above${eventData.eventName === "issues" ? ` (or the ${entityType} body for assigned/labeled events)` : ""}.
+${eventData.eventName === "workflow_dispatch" || eventData.eventName === "repository_dispatch" ? "Your request is in <custom_instructions> below." : `Your request is in <trigger_comment> above${eventData.eventName === "issues" ? ` (or the ${entityType} body for assigned/labeled events)` : ""}.`}
 
 Decide what's being asked:
 1. **Question or code review** - Answer directly or provide feedback
@@ -561,6 +794,7 @@ Decide what's being asked:
 Communication:
 - Your ONLY visible output is your GitHub comment - update it with progress and results
 - Use mcp__github_comment__update_claude_comment to update (only "body" param needed)
+- Before finishing, save a short summary, decisions, open TODOs and files touched with mcp__github_comment__update_memory so later runs on this ${entityType} can continue from there
 - Use checklist format for tasks: - [ ] incomplete, - [x] complete
 - Use ### headers (not #)
 ${getCommitInstructions(eventData, githubData, context, useCommitSigning)}
@@ -605,13 +839,23 @@ export function generateDefaultPrompt(
   const { eventType, triggerContext } = getEventTypeAndContext(context);
 
   const formattedContext = formatContext(contextData, eventData.isPR);
-  const formattedComments = formatComments(comments, imageUrlMap);
+  const formattedComments = formatComments(
+    comments,
+    imageUrlMap,
+    githubData.omitted?.comments,
+  );
   const formattedReviewComments = eventData.isPR
-    ? formatReviewComments(reviewData, imageUrlMap)
+    ? formatReviewComments(
+        reviewData,
+        imageUrlMap,
+        githubData.omitted,
+        githubData.reviewThreads,
+      )
     : "";
   const formattedChangedFiles = eventData.isPR
-    ? formatChangedFilesWithSHA(changedFilesWithSHA)
+    ? formatChangedFilesWithSHA(changedFilesWithSHA, githubData.omitted?.files)
     : "";
+  const diffInfo = formatDiffBlock(githubData);
 
   // Check if any images were downloaded
   const hasImages = imageUrlMap && imageUrlMap.size > 0;
@@ -623,6 +867,35 @@ Images have been downloaded from GitHub comments and saved to disk. Their file p
 </images_info>`
     : "";
 
+  const truncationNotice = formatTruncationNotice(githubData.truncation);
+  const truncationInfo = truncationNotice
+    ? `
+
+<truncated_context>
+${truncationNotice}
+</truncated_context>`
+    : "";
+
+  const additionalRepositories = parseAdditionalRepositories(
+    context.githubContext?.inputs.additionalRepositories,
+    context.repository,
+  );
+  const allowedWorkflowPaths = parseWorkflowChangePaths(
+    context.githubContext?.inputs.allowWorkflowChanges,
+  );
+  const additionalRepositoriesInfo =
+    additionalRepositories.length > 0
+      ? `
+
+<additional_repositories>
+This task may span the following repositories in addition to ${context.repository}. They are checked out in the workspace:
+${formatAdditionalRepositories(additionalRepositories)}
+
+- To change one of them, edit files under its checkout path.${useCommitSigning ? " Commit with mcp__github_file_ops__commit_files and set the repository parameter." : " Commit and push from inside its checkout (e.g. cd <path> && git add ... && git commit ... && git push origin HEAD:<branch>), using the same branch name as in this repository."}
+- Use mcp__github_comment__create_comment to comment on issues or pull requests in these repositories.
+</additional_repositories>`
+      : "";
+
   const formattedBody = contextData?.body
     ? formatBody(contextData.body, imageUrlMap)
     : "No description provided";
@@ -655,12 +928,12 @@ ${
 ${formattedChangedFiles || "No files changed"}
 </changed_files>`
     : ""
-}${imagesInfo}
+}${formatMemoryPromptBlock(context.memory)}${formatSinceLastRunBlock(githubData.sinceLastRun)}${diffInfo}${imagesInfo}${formatAttachmentsBlock(githubData)}${formatTestReportsBlock(context.testReports)}${truncationInfo}
 
 <event_type>${eventType}</event_type>
 <is_pr>${eventData.isPR ? "true" : "false"}</is_pr>
 <trigger_context>${triggerContext}</trigger_context>
-<repository>${context.repository}</repository>
+<repository>${context.repository}</repository>${additionalRepositoriesInfo}
 ${eventData.isPR && eventData.prNumber ? `<pr_number>${eventData.prNumber}</pr_number>` : ""}
 ${!eventData.isPR && eventData.issueNumber ? `<issue_number>${eventData.issueNumber}</issue_number>` : ""}
 <claude_comment_id>${context.claudeCommentId}</claude_comment_id>
@@ -685,12 +958,14 @@ Tool usage example for mcp__github_comment__update_claude_comment:
   "body": "Your comment text here"
 }
 Only the body parameter is required - the tool automatically knows which comment to update.
+
+Before finishing, save what a later run on this ${eventData.isPR ? "PR" : "issue"} should know with mcp__github_comment__update_memory: a short summary, decisions, open TODOs and files touched. mcp__github_comment__read_memory returns what is saved.
 </comment_tool_info>`}
 
 Your task is to analyze the context, understand the request, and provide helpful responses and/or implement code changes as needed.
 
 IMPORTANT CLARIFICATIONS:
-- When asked to "review" code, read the code and provide review feedback (do not implement changes unless explicitly asked)${eventData.isPR ? "\n- For PR reviews: Your review will be posted when you update the comment. Focus on providing comprehensive review feedback." : ""}${eventData.isPR && eventData.baseBranch ? `\n- When comparing PR changes, use 'origin/${eventData.baseBranch}' as the base reference (NOT 'main' or 'master')` : ""}
+- When asked to "review" code, read the code and provide review feedback (do not implement changes unless explicitly asked)${eventData.isPR ? "\n- For PR reviews: Your review will be posted when you update the comment. Focus on providing comprehensive review feedback." : ""}${eventData.isPR && eventData.baseBranch ? `\n- When comparing PR changes, use 'origin/${eventData.baseBranch}' as the base reference (NOT 'main' or 'master')` : ""}${eventData.isPR && githubData.reviewThreads?.length ? "\n- Review threads are grouped as unresolved, outdated or resolved. Resolved threads have already been addressed, so do not make those changes again. After pushing a fix for an unresolved thread, resolve it with mcp__github_inline_comment__resolve_review_thread using its thread ID." : ""}
 - Your console outputs and tool results are NOT visible to the user
 - ALL communication happens through your GitHub comment - that's how users see your feedback, answers, and progress. your normal responses are not seen.
 
@@ -706,6 +981,7 @@ Follow these steps:
    - For ISSUE_CREATED: Read the issue body to find the request after the trigger phrase.
    - For ISSUE_ASSIGNED: Read the entire issue body to understand the task.
    - For ISSUE_LABELED: Read the entire issue body to understand the task.
+   - For DISPATCH: Your instructions are in the <custom_instructions> tag below.
 ${eventData.eventName === "issue_comment" || eventData.eventName === "pull_request_review_comment" || eventData.eventName === "pull_request_review" ? `   - For comment/review events: Your instructions are in the <trigger_comment> tag above.` : ""}${
     eventData.isPR && eventData.baseBranch
       ? `
@@ -832,7 +1108,7 @@ What You CANNOT Do:
 - Post multiple comments (you only update your initial comment)
 - Execute commands outside the repository context${useCommitSigning ? "\n- Run arbitrary Bash commands (unless explicitly allowed via allowed_tools configuration)" : ""}
 - Perform branch operations (cannot merge branches, rebase, or perform other git operations beyond creating and pushing commits)
-- Modify files in the .github/workflows directory (GitHub App permissions do not allow workflow modifications)
+${formatWorkflowLimitation(allowedWorkflowPaths)}
 
 When users ask you to perform actions you cannot do, politely explain the limitation and, when applicable, direct them to the FAQ for more information and workarounds:
 "I'm unable to [specific action] due to [reason]. You can find more information and potential workarounds in the [FAQ](https://github.com/anthropics/claude-code-action/blob/main/docs/faq.md)."
@@ -909,7 +1185,7 @@ export async function createPrompt(
   try {
     // Prepare the context for prompt generation
     let claudeCommentId: string = "";
-    if (mode.name === "tag") {
+    if (mode.shouldCreateTrackingComment()) {
       if (!modeContext.commentId) {
         throw new Error(
           `${mode.name} mode requires a comment ID for prompt generation`,
@@ -925,6 +1201,24 @@ export async function createPrompt(
       modeContext.claudeBranch,
     );
 
+    if (modeContext.memory) {
+      preparedContext.memory = modeContext.memory;
+    }
+
+    if (modeContext.ciFailure) {
+      preparedContext.ciFailure = modeContext.ciFailure;
+    }
+
+    if (modeContext.testReports) {
+      preparedContext.testReports = modeContext.testReports;
+    }
+
+    if (context.inputs.promptTemplate) {
+      preparedContext.promptTemplate = await loadPromptTemplate(
+        context.inputs.promptTemplate,
+      );
+    }
+
     await mkdir(`${process.env.RUNNER_TEMP || "/tmp"}/claude-prompts`, {
       recursive: true,
     });
@@ -933,7 +1227,7 @@ export async function createPrompt(
     const promptContent = generatePrompt(
       preparedContext,
       githubData,
-      context.inputs.useCommitSigning,
+      context.inputs.commitStrategy === "api",
       mode,
     );
 
@@ -974,7 +1268,7 @@ export async function createPrompt(
     const allAllowedTools = buildAllowedToolsString(
       modeAllowedTools,
       hasActionsReadPermission,
-      context.inputs.useCommitSigning,
+      context.inputs.commitStrategy,
     );
     const allDisallowedTools = buildDisallowedToolsString(
       modeDisallowedTools,
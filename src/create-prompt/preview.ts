@@ -0,0 +1,131 @@
+import * as core from "@actions/core";
+import { writeFile, mkdir } from "fs/promises";
+import type { GitHubContext } from "../github/context";
+import {
+  isDiscussionContext,
+  isEntityContext,
+  isWorkflowRunEvent,
+} from "../github/context";
+import type { Octokits } from "../github/api/client";
+import {
+  fetchDiscussionData,
+  fetchGitHubData,
+  extractTriggerTimestamp,
+  extractOriginalTitle,
+} from "../github/data/fetcher";
+import { getLastRunLookup } from "../github/data/last-run";
+import { fetchCiFailure } from "../github/data/ci-failure";
+import type { GitHubPullRequest } from "../github/types";
+import type { Mode } from "../modes/types";
+import { prepareContext, generatePrompt } from "./index";
+import { loadPromptTemplate } from "./template";
+import { generateDiscussionPrompt } from "../modes/discussion";
+
+/** Filename of the rendered preview, written next to the regular prompt file */
+const PREVIEW_FILENAME = "claude-prompt-preview.txt";
+
+/**
+ * Renders the prompt the given mode would send to Claude, without creating a
+ * tracking comment, setting up a branch or running Claude.
+ * @returns The rendered prompt
+ */
+export async function renderPromptPreview(
+  context: GitHubContext,
+  octokit: Octokits,
+  mode: Mode,
+): Promise<string> {
+  // Discussion mode builds its prompt from the discussion thread
+  if (isDiscussionContext(context) && mode.name === "discussion") {
+    const discussionData = await fetchDiscussionData({
+      octokits: octokit,
+      repository: context.repository.full_name,
+      discussionNumber: context.discussionNumber,
+      triggerTime: extractTriggerTimestamp(context),
+      includeCommentsByActor: context.inputs.includeCommentsByActor,
+      excludeCommentsByActor: context.inputs.excludeCommentsByActor,
+    });
+    // No reply exists in preview, so use a placeholder ID
+    return generateDiscussionPrompt(context, discussionData, "PREVIEW");
+  }
+
+  // Automation events have no GitHub data; agent mode sends the prompt as-is
+  if (!isEntityContext(context)) {
+    return context.inputs.prompt;
+  }
+
+  const githubData = await fetchGitHubData({
+    octokits: octokit,
+    repository: `${context.repository.owner}/${context.repository.repo}`,
+    prNumber: context.entityNumber.toString(),
+    isPR: context.isPR,
+    triggerUsername: context.actor,
+    triggerTime: extractTriggerTimestamp(context),
+    originalTitle: extractOriginalTitle(context),
+    includeCommentsByActor: context.inputs.includeCommentsByActor,
+    excludeCommentsByActor: context.inputs.excludeCommentsByActor,
+    includeDiff: context.inputs.includeDiff,
+    lastRunLookup: getLastRunLookup(context),
+  });
+
+  const baseBranch =
+    context.isPR && "pull_request" in context.payload
+      ? context.payload.pull_request.base.ref
+      : context.inputs.baseBranch;
+
+  // No tracking comment exists in preview, so use a placeholder ID
+  const preparedContext = prepareContext(
+    context,
+    mode.shouldCreateTrackingComment() ? "PREVIEW" : "",
+    baseBranch,
+  );
+
+  // CI triage mode also needs the failed jobs and their logs
+  if (mode.name === "ci-triage" && isWorkflowRunEvent(context)) {
+    preparedContext.ciFailure = await fetchCiFailure(
+      octokit.rest,
+      context,
+      githubData.contextData as GitHubPullRequest,
+    );
+  }
+
+  if (context.inputs.promptTemplate) {
+    preparedContext.promptTemplate = await loadPromptTemplate(
+      context.inputs.promptTemplate,
+    );
+  }
+
+  return generatePrompt(
+    preparedContext,
+    githubData,
+    context.inputs.commitStrategy === "api",
+    mode,
+  );
+}
+
+/**
+ * Writes a rendered prompt preview to a file and to the job summary.
+ * @returns The path of the preview file
+ */
+export async function publishPromptPreview(
+  prompt: string,
+  modeName: string,
+): Promise<string> {
+  const promptDir = `${process.env.RUNNER_TEMP || "/tmp"}/claude-prompts`;
+  await mkdir(promptDir, { recursive: true });
+
+  const previewPath = `${promptDir}/${PREVIEW_FILENAME}`;
+  await writeFile(previewPath, prompt);
+
+  console.log("===== PROMPT PREVIEW =====");
+  console.log(prompt);
+  console.log("==========================");
+
+  if (process.env.GITHUB_STEP_SUMMARY) {
+    await core.summary
+      .addHeading(`Prompt preview (${modeName} mode)`)
+      .addCodeBlock(prompt, "markdown")
+      .write();
+  }
+
+  return previewPath;
+}
@@ -0,0 +1,240 @@
+import { readFile } from "fs/promises";
+import type { FetchDataResult } from "../github/data/fetcher";
+import {
+  formatContext,
+  formatBody,
+  formatComments,
+  formatReviewComments,
+  formatChangedFilesWithSHA,
+  formatAttachments,
+} from "../github/data/formatter";
+import { formatPullRequestDiff } from "../github/data/diff";
+import { formatSinceLastRun } from "../github/data/last-run";
+import { formatEntityMemory } from "../github/operations/memory";
+import { formatTestReports } from "../github/data/test-reports";
+import { sanitizeContent } from "../github/utils/sanitizer";
+import { validatePathWithinRepo } from "../mcp/path-validation";
+import {
+  parseAdditionalRepositories,
+  formatAdditionalRepositories,
+} from "../github/operations/additional-repositories";
+import type { PreparedContext } from "./types";
+
+/**
+ * Variables available in prompt templates, with their descriptions.
+ * For issues, the PR_* variables describe the issue.
+ */
+export const PROMPT_TEMPLATE_VARIABLES = {
+  REPOSITORY: "Repository in owner/repo form",
+  EVENT_TYPE: "Event type, e.g. GENERAL_COMMENT or PULL_REQUEST",
+  TRIGGER_CONTEXT: "Human-readable description of what triggered the run",
+  IS_PR: "'true' for pull requests, 'false' for issues",
+  PR_NUMBER: "Pull request number (empty for issues)",
+  ISSUE_NUMBER: "Issue number (empty for pull requests)",
+  PR_TITLE: "Title of the pull request or issue",
+  PR_BODY: "Body of the pull request or issue",
+  PR_CONTEXT: "Formatted summary: title, author, branches, state, stats",
+  PR_COMMENTS: "Formatted conversation comments",
+  PR_REVIEW_COMMENTS: "Formatted reviews and inline review comments",
+  PR_FILES: "Changed files with change type and SHA",
+  PR_DIFF:
+    "Unified diff of the pull request (empty unless include_diff is set)",
+  ATTACHMENTS: "Downloaded file attachments and their local paths",
+  MEMORY: "Memory saved by earlier runs on the issue or PR (tag mode)",
+  SINCE_LAST_RUN:
+    "Commits, changed files and replies since Claude's previous run (empty unless found on a synchronize event)",
+  TEST_REPORTS:
+    "Failures from the reports listed in test_reports (empty unless set)",
+  BASE_BRANCH:
+    "Base branch of the pull request, or the branch Claude branched from",
+  HEAD_BRANCH: "Head branch of the pull request (empty for issues)",
+  CLAUDE_BRANCH: "Branch Claude created for this run, if any",
+  TRIGGER_USERNAME: "Login of the user who triggered the run",
+  TRIGGER_DISPLAY_NAME: "Display name of the user who triggered the run",
+  TRIGGER_PHRASE: "The configured trigger phrase",
+  TRIGGER_COMMENT: "Body of the comment or review that triggered the run",
+  CLAUDE_COMMENT_ID: "ID of the tracking comment (empty when none is used)",
+  CUSTOM_INSTRUCTIONS: "Value of the prompt input",
+  ADDITIONAL_REPOSITORIES:
+    "Additional repositories and their checkout paths, one per line",
+} as const;
+
+export type PromptTemplateVariable = keyof typeof PROMPT_TEMPLATE_VARIABLES;
+
+// Matches `$$` (a literal dollar sign), `${NAME}` and `$NAME`
+const VARIABLE_PATTERN = /\$\$|\$\{([A-Z][A-Z0-9_]*)\}|\$([A-Z][A-Z0-9_]*)/g;
+
+function isKnownVariable(name: string): name is PromptTemplateVariable {
+  return Object.prototype.hasOwnProperty.call(PROMPT_TEMPLATE_VARIABLES, name);
+}
+
+/**
+ * Returns the variables referenced by a template that are not in
+ * PROMPT_TEMPLATE_VARIABLES, in order of first appearance.
+ */
+export function findUnknownTemplateVariables(template: string): string[] {
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    const name = match[1] ?? match[2];
+    if (name && !isKnownVariable(name)) {
+      unknown.add(name);
+    }
+  }
+  return Array.from(unknown);
+}
+
+/**
+ * Validates that a template only references known variables.
+ * @throws Error listing the unknown variables
+ */
+export function validatePromptTemplate(template: string): void {
+  const unknown = findUnknownTemplateVariables(template);
+  if (unknown.length > 0) {
+    throw new Error(
+      `Prompt template references unknown variables: ${unknown.map((name) => `$${name}`).join(", ")}. ` +
+        `Available variables: ${Object.keys(PROMPT_TEMPLATE_VARIABLES).join(", ")}. ` +
+        "Use $$ for a literal dollar sign.",
+    );
+  }
+}
+
+/**
+ * Reads and validates a prompt template from the repository.
+ * @param path Template path, relative to the repository root
+ * @param repoDir The repository root
+ */
+export async function loadPromptTemplate(
+  path: string,
+  repoDir: string = process.env.GITHUB_WORKSPACE || process.cwd(),
+): Promise<string> {
+  const fullPath = await validatePathWithinRepo(path, repoDir);
+
+  let template: string;
+  try {
+    template = await readFile(fullPath, "utf-8");
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Failed to read prompt template '${path}': ${errorMessage}`,
+    );
+  }
+
+  validatePromptTemplate(template);
+  return template;
+}
+
+/**
+ * Builds the values for every template variable from the prepared context
+ * and fetched GitHub data.
+ */
+export function buildTemplateVariables(
+  context: PreparedContext,
+  githubData: FetchDataResult,
+  eventType: string,
+  triggerContext: string,
+): Record<PromptTemplateVariable, string> {
+  const {
+    contextData,
+    comments,
+    changedFilesWithSHA,
+    reviewData,
+    imageUrlMap,
+  } = githubData;
+  const { eventData } = context;
+
+  const triggerComment =
+    (eventData.eventName === "issue_comment" ||
+      eventData.eventName === "pull_request_review_comment" ||
+      eventData.eventName === "pull_request_review") &&
+    eventData.commentBody
+      ? sanitizeContent(eventData.commentBody)
+      : "";
+
+  return {
+    REPOSITORY: context.repository,
+    EVENT_TYPE: eventType,
+    TRIGGER_CONTEXT: triggerContext,
+    IS_PR: eventData.isPR ? "true" : "false",
+    PR_NUMBER: eventData.isPR ? eventData.prNumber : "",
+    ISSUE_NUMBER: !eventData.isPR ? eventData.issueNumber : "",
+    PR_TITLE: contextData?.title ? sanitizeContent(contextData.title) : "",
+    PR_BODY: contextData?.body
+      ? formatBody(contextData.body, imageUrlMap)
+      : "No description provided",
+    PR_CONTEXT: contextData ? formatContext(contextData, eventData.isPR) : "",
+    PR_COMMENTS:
+      formatComments(comments, imageUrlMap, githubData.omitted?.comments) ||
+      "No comments",
+    PR_REVIEW_COMMENTS: eventData.isPR
+      ? formatReviewComments(
+          reviewData,
+          imageUrlMap,
+          githubData.omitted,
+          githubData.reviewThreads,
+        ) || "No review comments"
+      : "",
+    PR_FILES: eventData.isPR
+      ? formatChangedFilesWithSHA(
+          changedFilesWithSHA,
+          githubData.omitted?.files,
+        ) || "No files changed"
+      : "",
+    PR_DIFF:
+      eventData.isPR && githubData.diff
+        ? formatPullRequestDiff(githubData.diff, githubData.omitted?.diffFiles)
+        : "",
+    ATTACHMENTS: formatAttachments(githubData.attachments ?? []),
+    MEMORY: context.memory ? formatEntityMemory(context.memory) : "",
+    SINCE_LAST_RUN: githubData.sinceLastRun
+      ? formatSinceLastRun(githubData.sinceLastRun)
+      : "",
+    TEST_REPORTS: context.testReports
+      ? sanitizeContent(formatTestReports(context.testReports))
+      : "",
+    BASE_BRANCH:
+      eventData.baseBranch ||
+      (contextData && "baseRefName" in contextData
+        ? contextData.baseRefName
+        : ""),
+    HEAD_BRANCH:
+      contextData && "headRefName" in contextData
+        ? contextData.headRefName
+        : "",
+    CLAUDE_BRANCH: context.claudeBranch ?? "",
+    TRIGGER_USERNAME: context.triggerUsername ?? "Unknown",
+    TRIGGER_DISPLAY_NAME:
+      githubData.triggerDisplayName ?? context.triggerUsername ?? "Unknown",
+    TRIGGER_PHRASE: context.triggerPhrase,
+    TRIGGER_COMMENT: triggerComment,
+    CLAUDE_COMMENT_ID: context.claudeCommentId,
+    CUSTOM_INSTRUCTIONS: context.prompt ?? "",
+    ADDITIONAL_REPOSITORIES: formatAdditionalRepositories(
+      parseAdditionalRepositories(
+        context.githubContext?.inputs.additionalRepositories,
+        context.repository,
+      ),
+    ),
+  };
+}
+
+/**
+ * Substitutes `$NAME` and `${NAME}` references in a template.
+ * `$$` renders as a literal dollar sign.
+ * @throws Error if the template references unknown variables
+ */
+export function renderPromptTemplate(
+  template: string,
+  variables: Record<PromptTemplateVariable, string>,
+): string {
+  validatePromptTemplate(template);
+  return template.replace(
+    VARIABLE_PATTERN,
+    (match, braced?: string, bare?: string) => {
+      const name = braced ?? bare;
+      if (!name) {
+        return "$";
+      }
+      return isKnownVariable(name) ? variables[name] : match;
+    },
+  );
+}
@@ -1,4 +1,7 @@
 import type { GitHubContext } from "../github/context";
+import type { EntityMemory } from "../github/operations/memory";
+import type { CiFailure } from "../github/data/ci-failure";
+import type { TestReports } from "../github/data/test-reports";
 
 export type CommonFields = {
   repository: string;
@@ -94,6 +97,22 @@ type PullRequestTargetEvent = PullRequestBaseEvent & {
   eventName: "pull_request_target";
 };
 
+// A workflow_dispatch or repository_dispatch whose payload targets an issue or PR
+type DispatchEvent = {
+  eventName: "workflow_dispatch" | "repository_dispatch";
+  claudeBranch?: string;
+  baseBranch?: string;
+} & ({ isPR: true; prNumber: string } | { isPR: false; issueNumber: string });
+
+// A failed workflow run on a pull request
+type WorkflowRunFailureEvent = {
+  eventName: "workflow_run";
+  isPR: true;
+  prNumber: string;
+  claudeBranch?: string;
+  baseBranch?: string;
+};
+
 // Union type for all possible event types
 export type EventData =
   | PullRequestReviewCommentEvent
@@ -104,10 +123,20 @@ export type EventData =
   | IssueAssignedEvent
   | IssueLabeledEvent
   | PullRequestEvent
-  | PullRequestTargetEvent;
+  | PullRequestTargetEvent
+  | DispatchEvent
+  | WorkflowRunFailureEvent;
 
 // Combined type with separate eventData field
 export type PreparedContext = CommonFields & {
   eventData: EventData;
   githubContext?: GitHubContext;
+  // Contents of the prompt_template file, replacing the mode's base prompt
+  promptTemplate?: string;
+  // Memory saved by previous runs on the same issue or PR
+  memory?: EntityMemory;
+  // The failed workflow run being triaged in ci-triage mode
+  ciFailure?: CiFailure;
+  // Failures from the reports listed in test_reports
+  testReports?: TestReports;
 };
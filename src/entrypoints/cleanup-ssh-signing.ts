@@ -1,11 +1,14 @@
 #!/usr/bin/env bun
 
 /**
- * Cleanup SSH signing key after action completes
+ * Cleanup SSH and GPG signing keys after action completes
  * This is run as a post step for security purposes
  */
 
-import { cleanupSshSigning } from "../github/operations/git-config";
+import {
+  cleanupGpgSigning,
+  cleanupSshSigning,
+} from "../github/operations/git-config";
 
 async function run() {
   try {
@@ -14,6 +17,12 @@ async function run() {
     // Don't fail the action if cleanup fails, just log it
     console.error("Failed to cleanup SSH signing key:", error);
   }
+
+  try {
+    await cleanupGpgSigning();
+  } catch (error) {
+    console.error("Failed to cleanup GPG signing key:", error);
+  }
 }
 
 if (import.meta.main) {
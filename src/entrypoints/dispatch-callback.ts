@@ -0,0 +1,141 @@
+#!/usr/bin/env bun
+
+/**
+ * Reports the outcome of a dispatched run to the callback_url from its
+ * dispatch payload
+ */
+
+import * as core from "@actions/core";
+import { readFile } from "fs/promises";
+import { GITHUB_SERVER_URL } from "../github/api/config";
+import { parseGitHubContext } from "../github/context";
+import { retryWithBackoff, type RetryOptions } from "../utils/retry";
+import type { RunReport } from "./run-report";
+
+export type DispatchCallbackStatus = "success" | "failure" | "skipped";
+
+export type DispatchCallbackPayload = {
+  status: DispatchCallbackStatus;
+  repository: string;
+  event_name: string;
+  run_id: string;
+  run_url: string;
+  issue_number?: number;
+  pr_number?: number;
+  branch?: string;
+  pull_request_url?: string;
+  /** 'cost' or 'duration' when Claude was stopped by a budget */
+  budget_exceeded?: string;
+  /** Why the run failed before Claude started */
+  error?: string;
+  report?: RunReport;
+};
+
+export type DispatchCallbackOptions = RetryOptions & {
+  /** Time to wait for each attempt to respond */
+  timeoutMs?: number;
+};
+
+/**
+ * Works out how the run ended from the outcomes of its steps.
+ */
+export function getDispatchCallbackStatus(outcome: {
+  prepareSuccess: boolean;
+  containsTrigger: boolean;
+  claudeSuccess: boolean;
+}): DispatchCallbackStatus {
+  if (!outcome.prepareSuccess) {
+    return "failure";
+  }
+  if (!outcome.containsTrigger) {
+    return "skipped";
+  }
+  return outcome.claudeSuccess ? "success" : "failure";
+}
+
+/**
+ * POSTs the payload as JSON to the callback URL.
+ * @throws Error when no attempt gets a 2xx response
+ */
+export async function sendDispatchCallback(
+  url: string,
+  payload: DispatchCallbackPayload,
+  { timeoutMs = 10000, ...retryOptions }: DispatchCallbackOptions = {},
+): Promise<void> {
+  await retryWithBackoff(async () => {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "claude-code-action",
+      },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Callback returned ${response.status} ${response.statusText}`,
+      );
+    }
+  }, retryOptions);
+}
+
+async function readRunReport(
+  path: string | undefined,
+): Promise<RunReport | undefined> {
+  if (!path) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(await readFile(path, "utf-8"));
+  } catch (error) {
+    console.warn(`Failed to read run report ${path}:`, error);
+    return undefined;
+  }
+}
+
+async function run() {
+  try {
+    const context = parseGitHubContext();
+    const dispatch = "dispatch" in context ? context.dispatch : undefined;
+    if (!dispatch?.callbackUrl) {
+      console.log("No callback_url in the dispatch payload");
+      return;
+    }
+
+    const prepareError = process.env.PREPARE_ERROR;
+    const payload: DispatchCallbackPayload = {
+      status: getDispatchCallbackStatus({
+        prepareSuccess: process.env.PREPARE_SUCCESS !== "false",
+        containsTrigger: process.env.CONTAINS_TRIGGER === "true",
+        claudeSuccess: process.env.CLAUDE_SUCCESS === "true",
+      }),
+      repository: context.repository.full_name,
+      event_name: context.eventName,
+      run_id: context.runId,
+      run_url: `${GITHUB_SERVER_URL}/${context.repository.full_name}/actions/runs/${context.runId}`,
+      ...(dispatch.issueNumber && { issue_number: dispatch.issueNumber }),
+      ...(dispatch.prNumber && { pr_number: dispatch.prNumber }),
+      ...(process.env.BRANCH_NAME && { branch: process.env.BRANCH_NAME }),
+      ...(process.env.PR_URL && { pull_request_url: process.env.PR_URL }),
+      ...(process.env.BUDGET_EXCEEDED && {
+        budget_exceeded: process.env.BUDGET_EXCEEDED,
+      }),
+      ...(prepareError && { error: prepareError }),
+    };
+    const report = await readRunReport(process.env.RUN_REPORT_FILE);
+    if (report) {
+      payload.report = report;
+    }
+
+    await sendDispatchCallback(dispatch.callbackUrl, payload);
+    console.log(`✅ Reported ${payload.status} to the dispatch callback`);
+  } catch (error) {
+    // The run itself is done, so a failed callback only warns
+    core.warning(`Failed to send dispatch callback: ${error}`);
+  }
+}
+
+if (import.meta.main) {
+  run();
+}
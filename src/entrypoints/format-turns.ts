@@ -42,8 +42,18 @@ export type Turn = {
   message?: Message;
   tools?: any[];
   cost_usd?: number;
+  total_cost_usd?: number;
   duration_ms?: number;
+  duration_api_ms?: number;
+  num_turns?: number;
+  is_error?: boolean;
+  errors?: string[];
+  usage?: Record<string, number>;
   result?: string;
+  // tool_progress messages
+  tool_use_id?: string;
+  tool_name?: string;
+  elapsed_time_seconds?: number;
 };
 
 export type GroupedContent = {
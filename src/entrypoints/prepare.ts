@@ -9,10 +9,23 @@ import * as core from "@actions/core";
 import { setupGitHubToken } from "../github/token";
 import { checkWritePermissions } from "../github/validation/permissions";
 import { createOctokit } from "../github/api/client";
-import { parseGitHubContext, isEntityContext } from "../github/context";
-import { getMode } from "../modes/registry";
+import {
+  parseGitHubContext,
+  isDiscussionContext,
+  isEntityContext,
+} from "../github/context";
+import {
+  getMode,
+  loadCustomModes,
+  parseCustomModePaths,
+} from "../modes/registry";
 import { prepare } from "../prepare";
+import {
+  renderPromptPreview,
+  publishPromptPreview,
+} from "../create-prompt/preview";
 import { collectActionInputsPresence } from "./collect-inputs";
+import { checkWorkflowChangesSupported } from "../github/operations/workflow-changes";
 
 async function run() {
   try {
@@ -21,15 +34,30 @@ async function run() {
     // Parse GitHub context first to enable mode detection
     const context = parseGitHubContext();
 
+    // Set early so the dispatcher also hears about runs that fail to prepare
+    if ("dispatch" in context && context.dispatch?.callbackUrl) {
+      core.setOutput("dispatch_callback_url", context.dispatch.callbackUrl);
+    }
+
+    // Register custom modes from the repository before detection
+    await loadCustomModes(parseCustomModePaths(context.inputs.customModes));
+
     // Auto-detect mode based on context
     const mode = getMode(context);
 
+    // Before the token is given workflows: write
+    checkWorkflowChangesSupported(context.inputs);
+
+    // Later steps commit leftover changes the same way Claude does
+    core.setOutput("commit_strategy", context.inputs.commitStrategy);
+
     // Setup GitHub token
     const githubToken = await setupGitHubToken();
     const octokit = createOctokit(githubToken);
 
-    // Step 3: Check write permissions (only for entity contexts)
-    if (isEntityContext(context)) {
+    // Step 3: Check write permissions (only for entity and discussion
+    // contexts; anyone who can read a repository can post in its discussions)
+    if (isEntityContext(context) || isDiscussionContext(context)) {
       // Check if github_token was provided as input (not from app)
       const githubTokenProvided = !!process.env.OVERRIDE_GITHUB_TOKEN;
       const hasWritePermissions = await checkWritePermissions(
@@ -53,6 +81,17 @@ async function run() {
     console.log(`Context prompt: ${context.inputs?.prompt || "NO PROMPT"}`);
     console.log(`Trigger result: ${containsTrigger}`);
 
+    // In preview mode, render the prompt and stop before anything runs
+    if (containsTrigger && context.inputs.promptPreview) {
+      const prompt = await renderPromptPreview(context, octokit, mode);
+      const previewPath = await publishPromptPreview(prompt, mode.name);
+      console.log(`Prompt preview written to ${previewPath}`);
+      core.setOutput("prompt_preview_file", previewPath);
+      core.setOutput("contains_trigger", "false");
+      core.setOutput("github_token", githubToken);
+      return;
+    }
+
     // Set output for action.yml to check
     core.setOutput("contains_trigger", containsTrigger.toString());
 
@@ -0,0 +1,373 @@
+#!/usr/bin/env bun
+
+/**
+ * Builds a machine-readable report of a Claude run from the execution file,
+ * writes it to run_report.json and renders it into the job summary
+ */
+
+import * as core from "@actions/core";
+import { readFile, writeFile } from "fs/promises";
+import { relative, isAbsolute } from "path";
+import { GITHUB_SERVER_URL } from "../github/api/config";
+import {
+  groupTurnsNaturally,
+  type ToolResult,
+  type Turn,
+} from "./format-turns";
+
+export type ToolStats = {
+  name: string;
+  calls: number;
+  errors: number;
+  /**
+   * Time spent in the tool, from progress updates. Only tools that run long
+   * enough to report progress have one.
+   */
+  duration_ms?: number;
+};
+
+export type RunReportError = {
+  /** Tool that failed, or undefined for errors of the run itself */
+  tool?: string;
+  message: string;
+};
+
+export type RunReport = {
+  conclusion: "success" | "failure";
+  num_turns?: number;
+  duration_ms?: number;
+  duration_api_ms?: number;
+  cost_usd?: number;
+  usage: {
+    input_tokens: number;
+    output_tokens: number;
+    cache_creation_input_tokens: number;
+    cache_read_input_tokens: number;
+  };
+  tools: ToolStats[];
+  errors: RunReportError[];
+  files_changed: string[];
+  commits: { sha: string; message: string }[];
+  comments_posted: number;
+  branch?: { name: string; url: string };
+  pull_request_url?: string;
+};
+
+export type RunReportOptions = {
+  /** Workspace that changed file paths are made relative to */
+  workspace?: string;
+  repository?: string;
+  branchName?: string;
+  pullRequestUrl?: string;
+};
+
+const MAX_ERROR_LENGTH = 500;
+
+const FILE_EDIT_TOOLS = new Set(["Edit", "MultiEdit", "Write", "NotebookEdit"]);
+
+const COMMIT_TOOLS = new Set([
+  "mcp__github_file_ops__commit_files",
+  "mcp__github_file_ops__delete_files",
+]);
+
+const COMMENT_TOOLS = new Set([
+  "mcp__github_comment__create_comment",
+  "mcp__github_inline_comment__create_inline_comment",
+  "mcp__github_inline_comment__propose_changes",
+  "mcp__github_review__add_review_comment",
+  "mcp__github_review__submit_review",
+]);
+
+// Output of `git commit`, e.g. "[main 1a2b3c4] Fix typo"
+const GIT_COMMIT_PATTERN =
+  /^\[\S+(?: \(root-commit\))? ([0-9a-f]{7,40})\] (.*)$/m;
+
+function getResultText(result: ToolResult): string {
+  const content = result.content;
+  if (typeof content === "string") {
+    return content;
+  }
+  if (Array.isArray(content)) {
+    return content
+      .map((item) => (typeof item?.text === "string" ? item.text : ""))
+      .join("\n");
+  }
+  return "";
+}
+
+function truncate(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_ERROR_LENGTH
+    ? `${trimmed.substring(0, MAX_ERROR_LENGTH - 3)}...`
+    : trimmed;
+}
+
+function getChangedFiles(
+  toolName: string,
+  input: Record<string, any>,
+): string[] {
+  if (FILE_EDIT_TOOLS.has(toolName)) {
+    const path = input.file_path ?? input.notebook_path;
+    return typeof path === "string" ? [path] : [];
+  }
+  if (toolName === "mcp__github_file_ops__commit_files") {
+    return Array.isArray(input.files) ? input.files : [];
+  }
+  if (toolName === "mcp__github_file_ops__delete_files") {
+    return Array.isArray(input.paths) ? input.paths : [];
+  }
+  return [];
+}
+
+function getCommit(
+  toolName: string,
+  input: Record<string, any>,
+  resultText: string,
+): { sha: string; message: string } | undefined {
+  if (toolName === "Bash") {
+    if (!String(input.command ?? "").includes("git commit")) {
+      return undefined;
+    }
+    const match = resultText.match(GIT_COMMIT_PATTERN);
+    return match?.[1] && match[2] !== undefined
+      ? { sha: match[1], message: match[2] }
+      : undefined;
+  }
+  if (COMMIT_TOOLS.has(toolName)) {
+    try {
+      const { commit } = JSON.parse(resultText);
+      if (typeof commit?.sha === "string") {
+        return {
+          sha: commit.sha,
+          message: String(commit.message ?? "").split("\n")[0] ?? "",
+        };
+      }
+    } catch {
+      // Not a successful commit result
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Summarizes the tools Claude used, what it changed and what the run cost.
+ */
+export function buildRunReport(
+  data: Turn[],
+  options: RunReportOptions = {},
+): RunReport {
+  const tools = new Map<string, ToolStats>();
+  const errors: RunReportError[] = [];
+  const filesChanged = new Set<string>();
+  const commits: { sha: string; message: string }[] = [];
+  let commentsPosted = 0;
+
+  // Progress updates report the elapsed time of long-running tool calls
+  const elapsedByToolUse = new Map<string, number>();
+  for (const turn of data) {
+    if (
+      turn.type === "tool_progress" &&
+      turn.tool_use_id &&
+      typeof turn.elapsed_time_seconds === "number"
+    ) {
+      elapsedByToolUse.set(
+        turn.tool_use_id,
+        Math.max(
+          elapsedByToolUse.get(turn.tool_use_id) ?? 0,
+          turn.elapsed_time_seconds,
+        ),
+      );
+    }
+  }
+
+  for (const item of groupTurnsNaturally(data)) {
+    for (const { tool_use, tool_result } of item.tool_calls ?? []) {
+      const name = tool_use.name || "unknown_tool";
+      const input = tool_use.input || {};
+      const stats = tools.get(name) ?? { name, calls: 0, errors: 0 };
+      stats.calls++;
+
+      const elapsed = tool_use.id && elapsedByToolUse.get(tool_use.id);
+      if (elapsed) {
+        stats.duration_ms = (stats.duration_ms ?? 0) + elapsed * 1000;
+      }
+      tools.set(name, stats);
+
+      if (!tool_result) {
+        continue;
+      }
+      const resultText = getResultText(tool_result);
+      if (tool_result.is_error) {
+        stats.errors++;
+        errors.push({ tool: name, message: truncate(resultText) });
+        continue;
+      }
+
+      for (const file of getChangedFiles(name, input)) {
+        const path =
+          options.workspace && isAbsolute(file)
+            ? relative(options.workspace, file)
+            : file;
+        filesChanged.add(path);
+      }
+      const commit = getCommit(name, input, resultText);
+      if (commit) {
+        commits.push(commit);
+      }
+      if (COMMENT_TOOLS.has(name)) {
+        commentsPosted++;
+      }
+    }
+  }
+
+  const result = [...data].reverse().find((turn) => turn.type === "result");
+  for (const message of result?.errors ?? []) {
+    errors.push({ message: truncate(message) });
+  }
+
+  // The result carries the usage of the whole run. Without one, fall back to
+  // adding up the assistant messages.
+  const usages = result?.usage
+    ? [result.usage]
+    : data
+        .filter((turn) => turn.type === "assistant")
+        .map((turn) => (turn.message?.usage ?? {}) as Record<string, number>);
+  const sumUsage = (key: string) =>
+    usages.reduce((total, usage) => total + (usage[key] ?? 0), 0);
+
+  const report: RunReport = {
+    conclusion:
+      result && !result.is_error && (result.subtype ?? "success") === "success"
+        ? "success"
+        : "failure",
+    num_turns: result?.num_turns,
+    duration_ms: result?.duration_ms,
+    duration_api_ms: result?.duration_api_ms,
+    cost_usd: result?.total_cost_usd ?? result?.cost_usd,
+    usage: {
+      input_tokens: sumUsage("input_tokens"),
+      output_tokens: sumUsage("output_tokens"),
+      cache_creation_input_tokens: sumUsage("cache_creation_input_tokens"),
+      cache_read_input_tokens: sumUsage("cache_read_input_tokens"),
+    },
+    tools: [...tools.values()].sort(
+      (a, b) => b.calls - a.calls || a.name.localeCompare(b.name),
+    ),
+    errors,
+    files_changed: [...filesChanged],
+    commits,
+    comments_posted: commentsPosted,
+  };
+
+  if (options.branchName && options.repository) {
+    report.branch = {
+      name: options.branchName,
+      url: `${GITHUB_SERVER_URL}/${options.repository}/tree/${options.branchName}`,
+    };
+  }
+  if (options.pullRequestUrl) {
+    report.pull_request_url = options.pullRequestUrl;
+  }
+
+  return report;
+}
+
+function formatDuration(ms: number | undefined): string {
+  return ms === undefined ? "–" : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Renders the report as markdown for the job summary.
+ */
+export function formatRunReport(report: RunReport): string {
+  const inputTokens =
+    report.usage.input_tokens +
+    report.usage.cache_creation_input_tokens +
+    report.usage.cache_read_input_tokens;
+
+  let markdown = "## Claude Code Run Report\n\n";
+  markdown +=
+    "| Conclusion | Turns | Duration | Cost | Input tokens | Output tokens |\n";
+  markdown += "| --- | --- | --- | --- | --- | --- |\n";
+  markdown += `| ${report.conclusion} | ${report.num_turns ?? "–"} | ${formatDuration(report.duration_ms)} | ${report.cost_usd === undefined ? "–" : `$${report.cost_usd.toFixed(4)}`} | ${inputTokens} | ${report.usage.output_tokens} |\n\n`;
+
+  if (report.tools.length > 0) {
+    markdown += "### Tools\n\n";
+    markdown += "| Tool | Calls | Errors | Duration |\n";
+    markdown += "| --- | --- | --- | --- |\n";
+    for (const tool of report.tools) {
+      markdown += `| \`${tool.name}\` | ${tool.calls} | ${tool.errors} | ${formatDuration(tool.duration_ms)} |\n`;
+    }
+    markdown += "\n";
+  }
+
+  if (report.errors.length > 0) {
+    markdown += "### Errors\n\n";
+    markdown += "| Tool | Error |\n";
+    markdown += "| --- | --- |\n";
+    for (const error of report.errors) {
+      markdown += `| ${error.tool ? `\`${error.tool}\`` : "run"} | ${escapeTableCell(error.message)} |\n`;
+    }
+    markdown += "\n";
+  }
+
+  const changes: string[] = [];
+  if (report.branch) {
+    changes.push(`**Branch:** [${report.branch.name}](${report.branch.url})`);
+  }
+  if (report.pull_request_url) {
+    changes.push(`**Pull request:** ${report.pull_request_url}`);
+  }
+  if (report.commits.length > 0) {
+    changes.push(
+      `**Commits:**\n${report.commits.map((commit) => `- \`${commit.sha.substring(0, 7)}\` ${commit.message}`).join("\n")}`,
+    );
+  }
+  if (report.files_changed.length > 0) {
+    changes.push(
+      `**Files changed:**\n${report.files_changed.map((file) => `- \`${file}\``).join("\n")}`,
+    );
+  }
+  changes.push(`**Comments posted:** ${report.comments_posted}`);
+  markdown += `### Changes\n\n${changes.join("\n\n")}\n`;
+
+  return markdown;
+}
+
+async function run(): Promise<void> {
+  const executionFile = process.argv[2];
+  if (!executionFile) {
+    console.error("Usage: run-report.ts <execution-file>");
+    process.exit(1);
+  }
+
+  try {
+    const data: Turn[] = JSON.parse(await readFile(executionFile, "utf-8"));
+    const report = buildRunReport(data, {
+      workspace: process.env.GITHUB_WORKSPACE,
+      repository: process.env.REPOSITORY,
+      branchName: process.env.BRANCH_NAME || undefined,
+      pullRequestUrl: process.env.PR_URL || undefined,
+    });
+
+    const reportPath = `${process.env.RUNNER_TEMP || "/tmp"}/run_report.json`;
+    await writeFile(reportPath, JSON.stringify(report, null, 2));
+    console.log(`Run report written to ${reportPath}`);
+    core.setOutput("run_report_file", reportPath);
+
+    if (process.env.GITHUB_STEP_SUMMARY) {
+      await core.summary.addRaw(formatRunReport(report)).write();
+    }
+  } catch (error) {
+    // The report is informational, so it never fails the run
+    core.warning(`Failed to build run report: ${error}`);
+  }
+}
+
+if (import.meta.main) {
+  run();
+}
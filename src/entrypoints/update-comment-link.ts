@@ -1,19 +1,124 @@
 #!/usr/bin/env bun
 
+import * as core from "@actions/core";
 import { createOctokit } from "../github/api/client";
 import * as fs from "fs/promises";
 import {
   updateCommentBody,
+  type BudgetExceeded,
   type CommentUpdateInput,
+  type ExecutionDetails,
 } from "../github/operations/comment-logic";
 import {
   parseGitHubContext,
   isPullRequestReviewCommentEvent,
+  isDiscussionContext,
   isEntityContext,
+  type DiscussionContext,
 } from "../github/context";
 import { GITHUB_SERVER_URL } from "../github/api/config";
-import { checkAndCommitOrDeleteBranch } from "../github/operations/branch-cleanup";
+import {
+  checkAndCommitOrDeleteBranch,
+  commitWorkInProgress,
+} from "../github/operations/branch-cleanup";
 import { updateClaudeComment } from "../github/operations/comments/update-claude-comment";
+import { readWorkflowChanges } from "../github/operations/workflow-changes";
+import {
+  getDiscussionComment,
+  updateDiscussionReply,
+} from "../github/operations/discussions";
+
+/**
+ * Reads how the run went from the prepare step and Claude's output file.
+ */
+async function readExecutionOutcome(): Promise<{
+  executionDetails: ExecutionDetails | null;
+  actionFailed: boolean;
+  errorDetails?: string;
+}> {
+  // Check if action failed and read output file for execution details
+  let executionDetails: ExecutionDetails | null = null;
+  let actionFailed = false;
+  let errorDetails: string | undefined;
+
+  // First check if prepare step failed
+  const prepareSuccess = process.env.PREPARE_SUCCESS !== "false";
+  const prepareError = process.env.PREPARE_ERROR;
+
+  if (!prepareSuccess && prepareError) {
+    actionFailed = true;
+    errorDetails = prepareError;
+  } else {
+    // Check for existence of output file and parse it if available
+    try {
+      const outputFile = process.env.OUTPUT_FILE;
+      if (outputFile) {
+        const fileContent = await fs.readFile(outputFile, "utf8");
+        const outputData = JSON.parse(fileContent);
+
+        // Output file is an array, get the last element which contains execution details
+        if (Array.isArray(outputData) && outputData.length > 0) {
+          const lastElement = outputData[outputData.length - 1];
+          if (
+            lastElement.type === "result" &&
+            "total_cost_usd" in lastElement &&
+            "duration_ms" in lastElement
+          ) {
+            executionDetails = {
+              total_cost_usd: lastElement.total_cost_usd,
+              duration_ms: lastElement.duration_ms,
+              duration_api_ms: lastElement.duration_api_ms,
+            };
+          }
+        }
+      }
+
+      // Check if the Claude action failed
+      const claudeSuccess = process.env.CLAUDE_SUCCESS !== "false";
+      actionFailed = !claudeSuccess;
+    } catch (error) {
+      console.error("Error reading output file:", error);
+      // If we can't read the file, check for any failure markers
+      actionFailed = process.env.CLAUDE_SUCCESS === "false";
+    }
+  }
+
+  return { executionDetails, actionFailed, errorDetails };
+}
+
+/**
+ * Adds the job link and run outcome to Claude's discussion reply. Discussion
+ * mode does not commit, so there is no branch to report.
+ */
+async function updateDiscussionReplyLink(
+  context: DiscussionContext,
+  githubToken: string,
+  triggerUsername: string | undefined,
+): Promise<void> {
+  const commentId = process.env.DISCUSSION_COMMENT_NODE_ID;
+  if (!commentId) {
+    throw new Error("DISCUSSION_COMMENT_NODE_ID is required for discussions");
+  }
+
+  const { owner, repo } = context.repository;
+  const { graphql } = createOctokit(githubToken);
+  const comment = await getDiscussionComment(graphql, {
+    commentId,
+    owner,
+    repo,
+    discussionNumber: context.discussionNumber,
+  });
+
+  const updatedBody = updateCommentBody({
+    currentBody: comment.body,
+    ...(await readExecutionOutcome()),
+    jobUrl: `${GITHUB_SERVER_URL}/${owner}/${repo}/actions/runs/${process.env.GITHUB_RUN_ID}`,
+    triggerUsername,
+  });
+
+  await updateDiscussionReply(graphql, commentId, updatedBody);
+  console.log(`✅ Updated discussion reply ${commentId} with job link`);
+}
 
 async function run() {
   try {
@@ -25,6 +130,12 @@ async function run() {
 
     const context = parseGitHubContext();
 
+    // Discussion mode tracks the run in its reply, which only GraphQL reaches
+    if (isDiscussionContext(context)) {
+      await updateDiscussionReplyLink(context, githubToken, triggerUsername);
+      process.exit(0);
+    }
+
     // This script is only called for entity-based events
     if (!isEntityContext(context)) {
       throw new Error("update-comment-link requires an entity context");
@@ -95,8 +206,29 @@ async function run() {
 
     const currentBody = comment.body ?? "";
 
+    const commitStrategy = context.inputs.commitStrategy;
+
+    // Save what Claude had not committed when it was stopped by the budget
+    const budgetReason = process.env.BUDGET_EXCEEDED;
+    let budgetExceeded: BudgetExceeded | undefined;
+    if (budgetReason === "cost" || budgetReason === "duration") {
+      budgetExceeded = {
+        reason: budgetReason,
+        maxCostUsd: process.env.MAX_COST_USD
+          ? Number(process.env.MAX_COST_USD)
+          : undefined,
+        maxDurationMinutes: process.env.MAX_DURATION_MINUTES
+          ? Number(process.env.MAX_DURATION_MINUTES)
+          : undefined,
+        committedWorkInProgress: await commitWorkInProgress(
+          `WIP: Save work in progress from Claude\n\nClaude was stopped at the ${budgetReason} limit.\n\nRun ID: ${process.env.GITHUB_RUN_ID || "unknown"}`,
+          commitStrategy,
+          { owner, repo, claudeBranch, baseBranch, githubToken },
+        ),
+      };
+    }
+
     // Check if we need to add branch link for new branches
-    const useCommitSigning = process.env.USE_COMMIT_SIGNING === "true";
     const { shouldDeleteBranch, branchLink } =
       await checkAndCommitOrDeleteBranch(
         octokit,
@@ -104,11 +236,15 @@ async function run() {
         repo,
         claudeBranch,
         baseBranch,
-        useCommitSigning,
+        commitStrategy,
+        githubToken,
       );
 
     // Check if we need to add PR URL when we have a new branch
     let prLink = "";
+    let prUrl: string | undefined = context.isPR
+      ? `${serverUrl}/${owner}/${repo}/pull/${context.entityNumber}`
+      : undefined;
     // If claudeBranch is set, it means we created a new branch (for issues or closed/merged PRs)
     if (claudeBranch && !shouldDeleteBranch) {
       // Check if comment already contains a PR URL
@@ -140,7 +276,7 @@ async function run() {
             const prBody = encodeURIComponent(
               `This PR addresses ${entityType.toLowerCase()} #${context.entityNumber}\n\nGenerated with [Claude Code](https://claude.ai/code)`,
             );
-            const prUrl = `${serverUrl}/${owner}/${repo}/compare/${baseBranch}...${claudeBranch}?quick_pull=1&title=${prTitle}&body=${prBody}`;
+            prUrl = `${serverUrl}/${owner}/${repo}/compare/${baseBranch}...${claudeBranch}?quick_pull=1&title=${prTitle}&body=${prBody}`;
             prLink = `\n[Create a PR](${prUrl})`;
           }
         } catch (error) {
@@ -150,58 +286,44 @@ async function run() {
       }
     }
 
-    // Check if action failed and read output file for execution details
-    let executionDetails: {
-      total_cost_usd?: number;
-      duration_ms?: number;
-      duration_api_ms?: number;
-    } | null = null;
-    let actionFailed = false;
-    let errorDetails: string | undefined;
-
-    // First check if prepare step failed
-    const prepareSuccess = process.env.PREPARE_SUCCESS !== "false";
-    const prepareError = process.env.PREPARE_ERROR;
-
-    if (!prepareSuccess && prepareError) {
-      actionFailed = true;
-      errorDetails = prepareError;
-    } else {
-      // Check for existence of output file and parse it if available
-      try {
-        const outputFile = process.env.OUTPUT_FILE;
-        if (outputFile) {
-          const fileContent = await fs.readFile(outputFile, "utf8");
-          const outputData = JSON.parse(fileContent);
-
-          // Output file is an array, get the last element which contains execution details
-          if (Array.isArray(outputData) && outputData.length > 0) {
-            const lastElement = outputData[outputData.length - 1];
-            if (
-              lastElement.type === "result" &&
-              "total_cost_usd" in lastElement &&
-              "duration_ms" in lastElement
-            ) {
-              executionDetails = {
-                total_cost_usd: lastElement.total_cost_usd,
-                duration_ms: lastElement.duration_ms,
-                duration_api_ms: lastElement.duration_api_ms,
-              };
-            }
-          }
-        }
+    const { executionDetails, actionFailed, errorDetails } =
+      await readExecutionOutcome();
 
-        // Check if the Claude action failed
-        const claudeSuccess = process.env.CLAUDE_SUCCESS !== "false";
-        actionFailed = !claudeSuccess;
-      } catch (error) {
-        console.error("Error reading output file:", error);
-        // If we can't read the file, check for any failure markers
-        actionFailed = process.env.CLAUDE_SUCCESS === "false";
+    // Record the head commit so the next run on the PR can tell what changed
+    let lastRunSha: string | undefined;
+    if (context.isPR) {
+      if ("pull_request" in context.payload) {
+        lastRunSha = context.payload.pull_request.head.sha;
+      } else {
+        try {
+          const { data: pr } = await octokit.rest.pulls.get({
+            owner,
+            repo,
+            pull_number: context.entityNumber,
+          });
+          lastRunSha = pr.head.sha;
+        } catch (error) {
+          console.error("Error fetching PR head commit:", error);
+        }
       }
     }
 
+    // Record the session so a follow-up mention can resume it. The session ID
+    // is only passed when its transcript was uploaded.
+    const sessionId = process.env.CLAUDE_SESSION_ID;
+    const session =
+      sessionId && process.env.GITHUB_RUN_ID
+        ? { sessionId, runId: process.env.GITHUB_RUN_ID }
+        : undefined;
+
     // Prepare input for updateCommentBody function
+    const branchName =
+      shouldDeleteBranch || !branchLink ? undefined : claudeBranch;
+
+    // Exposed for the run report
+    core.setOutput("branch_name", branchName ?? "");
+    core.setOutput("pr_url", prUrl ?? "");
+
     const commentInput: CommentUpdateInput = {
       currentBody,
       actionFailed,
@@ -209,9 +331,13 @@ async function run() {
       jobUrl,
       branchLink,
       prLink,
-      branchName: shouldDeleteBranch || !branchLink ? undefined : claudeBranch,
+      branchName,
       triggerUsername,
       errorDetails,
+      budgetExceeded,
+      lastRunSha,
+      session,
+      workflowChanges: await readWorkflowChanges(),
     };
 
     const updatedBody = updateCommentBody(commentInput);
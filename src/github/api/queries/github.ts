@@ -1,5 +1,172 @@
 // GraphQL queries for GitHub data
 
+// Every connection is fetched 100 nodes at a time. The fetcher follows
+// pageInfo.endCursor with the *_PAGE_QUERIES below to load the rest.
+export const PAGE_SIZE = 100;
+
+const PAGE_INFO = `
+  totalCount
+  pageInfo {
+    hasNextPage
+    endCursor
+  }
+`;
+
+const LABEL_FIELDS = `
+  name
+`;
+
+const COMMIT_FIELDS = `
+  commit {
+    oid
+    message
+    author {
+      name
+      email
+    }
+  }
+`;
+
+const FILE_FIELDS = `
+  path
+  additions
+  deletions
+  changeType
+`;
+
+const COMMENT_FIELDS = `
+  id
+  databaseId
+  body
+  author {
+    login
+  }
+  createdAt
+  updatedAt
+  lastEditedAt
+  isMinimized
+`;
+
+const REVIEW_COMMENT_FIELDS = `
+  id
+  databaseId
+  body
+  path
+  line
+  author {
+    login
+  }
+  createdAt
+  updatedAt
+  lastEditedAt
+  isMinimized
+`;
+
+const REVIEW_FIELDS = `
+  id
+  databaseId
+  author {
+    login
+  }
+  body
+  state
+  submittedAt
+  updatedAt
+  lastEditedAt
+  comments(first: ${PAGE_SIZE}) {
+    ${PAGE_INFO}
+    nodes {
+      ${REVIEW_COMMENT_FIELDS}
+    }
+  }
+`;
+
+const THREAD_COMMENT_FIELDS = `
+  ${REVIEW_COMMENT_FIELDS}
+  originalLine
+  diffHunk
+  outdated
+`;
+
+const REVIEW_THREAD_FIELDS = `
+  id
+  isResolved
+  isOutdated
+  path
+  line
+  originalLine
+  startLine
+  resolvedBy {
+    login
+  }
+  comments(first: ${PAGE_SIZE}) {
+    ${PAGE_INFO}
+    nodes {
+      ${THREAD_COMMENT_FIELDS}
+    }
+  }
+`;
+
+const DISCUSSION_COMMENT_FIELDS = `
+  ${COMMENT_FIELDS}
+  isAnswer
+  replies(first: ${PAGE_SIZE}) {
+    ${PAGE_INFO}
+    nodes {
+      ${COMMENT_FIELDS}
+    }
+  }
+`;
+
+function connection(name: string, fields: string, after = ""): string {
+  return `
+    ${name}(first: ${PAGE_SIZE}${after}) {
+      ${PAGE_INFO}
+      nodes {
+        ${fields}
+      }
+    }
+  `;
+}
+
+const PR_CONNECTIONS = {
+  labels: LABEL_FIELDS,
+  commits: COMMIT_FIELDS,
+  files: FILE_FIELDS,
+  comments: COMMENT_FIELDS,
+  reviews: REVIEW_FIELDS,
+  reviewThreads: REVIEW_THREAD_FIELDS,
+} as const;
+
+const ISSUE_CONNECTIONS = {
+  labels: LABEL_FIELDS,
+  comments: COMMENT_FIELDS,
+} as const;
+
+const DISCUSSION_CONNECTIONS = {
+  comments: DISCUSSION_COMMENT_FIELDS,
+} as const;
+
+export type PullRequestConnection = keyof typeof PR_CONNECTIONS;
+export type IssueConnection = keyof typeof ISSUE_CONNECTIONS;
+export type DiscussionConnection = keyof typeof DISCUSSION_CONNECTIONS;
+
+function pageQuery(
+  entity: "pullRequest" | "issue" | "discussion",
+  name: string,
+  fields: string,
+): string {
+  return `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String!) {
+    repository(owner: $owner, name: $repo) {
+      ${entity}(number: $number) {
+        ${connection(name, fields, ", after: $cursor")}
+      }
+    }
+  }
+`;
+}
+
 export const PR_QUERY = `
   query($owner: String!, $repo: String!, $number: Int!) {
     repository(owner: $owner, name: $repo) {
@@ -18,76 +185,12 @@ export const PR_QUERY = `
         additions
         deletions
         state
-        labels(first: 1) {
-          nodes {
-            name
-          }
-        }
-        commits(first: 100) {
-          totalCount
-          nodes {
-            commit {
-              oid
-              message
-              author {
-                name
-                email
-              }
-            }
-          }
-        }
-        files(first: 100) {
-          nodes {
-            path
-            additions
-            deletions
-            changeType
-          }
-        }
-        comments(first: 100) {
-          nodes {
-            id
-            databaseId
-            body
-            author {
-              login
-            }
-            createdAt
-            updatedAt
-            lastEditedAt
-            isMinimized
-          }
-        }
-        reviews(first: 100) {
-          nodes {
-            id
-            databaseId
-            author {
-              login
-            }
-            body
-            state
-            submittedAt
-            updatedAt
-            lastEditedAt
-            comments(first: 100) {
-              nodes {
-                id
-                databaseId
-                body
-                path
-                line
-                author {
-                  login
-                }
-                createdAt
-                updatedAt
-                lastEditedAt
-                isMinimized
-              }
-            }
-          }
-        }
+        ${connection("labels", LABEL_FIELDS)}
+        ${connection("commits", COMMIT_FIELDS)}
+        ${connection("files", FILE_FIELDS)}
+        ${connection("comments", COMMENT_FIELDS)}
+        ${connection("reviews", REVIEW_FIELDS)}
+        ${connection("reviewThreads", REVIEW_THREAD_FIELDS)}
       }
     }
   }
@@ -106,23 +209,207 @@ export const ISSUE_QUERY = `
         updatedAt
         lastEditedAt
         state
-        labels(first: 1) {
-          nodes {
-            name
+        ${connection("labels", LABEL_FIELDS)}
+        ${connection("comments", COMMENT_FIELDS)}
+      }
+    }
+  }
+`;
+
+export const DISCUSSION_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!) {
+    repository(owner: $owner, name: $repo) {
+      discussion(number: $number) {
+        id
+        number
+        title
+        body
+        url
+        author {
+          login
+        }
+        createdAt
+        updatedAt
+        lastEditedAt
+        category {
+          name
+          isAnswerable
+        }
+        answer {
+          id
+        }
+        ${connection("comments", DISCUSSION_COMMENT_FIELDS)}
+      }
+    }
+  }
+`;
+
+// Follow-up queries for the next page of a single pull request connection
+export const PR_PAGE_QUERIES = Object.fromEntries(
+  Object.entries(PR_CONNECTIONS).map(([name, fields]) => [
+    name,
+    pageQuery("pullRequest", name, fields),
+  ]),
+) as Record<PullRequestConnection, string>;
+
+// Follow-up queries for the next page of a single issue connection
+export const ISSUE_PAGE_QUERIES = Object.fromEntries(
+  Object.entries(ISSUE_CONNECTIONS).map(([name, fields]) => [
+    name,
+    pageQuery("issue", name, fields),
+  ]),
+) as Record<IssueConnection, string>;
+
+// Follow-up queries for the next page of a single discussion connection
+export const DISCUSSION_PAGE_QUERIES = Object.fromEntries(
+  Object.entries(DISCUSSION_CONNECTIONS).map(([name, fields]) => [
+    name,
+    pageQuery("discussion", name, fields),
+  ]),
+) as Record<DiscussionConnection, string>;
+
+// Follow-up query for the next page of replies to a single discussion comment
+export const DISCUSSION_REPLIES_PAGE_QUERY = `
+  query($id: ID!, $cursor: String!) {
+    node(id: $id) {
+      ... on DiscussionComment {
+        ${connection("replies", COMMENT_FIELDS, ", after: $cursor")}
+      }
+    }
+  }
+`;
+
+// Follow-up query for the next page of inline comments on a single review
+export const REVIEW_COMMENTS_PAGE_QUERY = `
+  query($id: ID!, $cursor: String!) {
+    node(id: $id) {
+      ... on PullRequestReview {
+        ${connection("comments", REVIEW_COMMENT_FIELDS, ", after: $cursor")}
+      }
+    }
+  }
+`;
+
+// Follow-up query for the next page of comments in a single review thread
+export const REVIEW_THREAD_COMMENTS_PAGE_QUERY = `
+  query($id: ID!, $cursor: String!) {
+    node(id: $id) {
+      ... on PullRequestReviewThread {
+        ${connection("comments", THREAD_COMMENT_FIELDS, ", after: $cursor")}
+      }
+    }
+  }
+`;
+
+export const REVIEW_THREAD_QUERY = `
+  query($id: ID!) {
+    node(id: $id) {
+      ... on PullRequestReviewThread {
+        id
+        isResolved
+        path
+        pullRequest {
+          number
+          repository {
+            nameWithOwner
           }
         }
-        comments(first: 100) {
-          nodes {
-            id
-            databaseId
-            body
-            author {
-              login
-            }
-            createdAt
-            updatedAt
-            lastEditedAt
-            isMinimized
+      }
+    }
+  }
+`;
+
+export const RESOLVE_REVIEW_THREAD_MUTATION = `
+  mutation($threadId: ID!) {
+    resolveReviewThread(input: { threadId: $threadId }) {
+      thread {
+        id
+        isResolved
+      }
+    }
+  }
+`;
+
+// A discussion comment with where a reply to it belongs. Replies cannot be
+// nested, so replyTo is set when the comment is itself a reply
+export const DISCUSSION_COMMENT_QUERY = `
+  query($id: ID!) {
+    node(id: $id) {
+      ... on DiscussionComment {
+        id
+        url
+        body
+        viewerCanMarkAsAnswer
+        replyTo {
+          id
+        }
+        discussion {
+          id
+          number
+          category {
+            isAnswerable
+          }
+          repository {
+            nameWithOwner
+          }
+        }
+      }
+    }
+  }
+`;
+
+export const ADD_DISCUSSION_COMMENT_MUTATION = `
+  mutation($discussionId: ID!, $body: String!, $replyToId: ID) {
+    addDiscussionComment(
+      input: { discussionId: $discussionId, body: $body, replyToId: $replyToId }
+    ) {
+      comment {
+        id
+        databaseId
+        url
+      }
+    }
+  }
+`;
+
+export const UPDATE_DISCUSSION_COMMENT_MUTATION = `
+  mutation($commentId: ID!, $body: String!) {
+    updateDiscussionComment(input: { commentId: $commentId, body: $body }) {
+      comment {
+        id
+        url
+      }
+    }
+  }
+`;
+
+export const MARK_DISCUSSION_COMMENT_AS_ANSWER_MUTATION = `
+  mutation($id: ID!) {
+    markDiscussionCommentAsAnswer(input: { id: $id }) {
+      discussion {
+        id
+      }
+    }
+  }
+`;
+
+// A file's text plus the entries of its directory, which carry the file mode.
+// Expressions take the form "<commit>:<path>"
+export const FILE_AT_REF_QUERY = `
+  query($owner: String!, $repo: String!, $file: String!, $directory: String!) {
+    repository(owner: $owner, name: $repo) {
+      file: object(expression: $file) {
+        ... on Blob {
+          text
+          isBinary
+          isTruncated
+        }
+      }
+      directory: object(expression: $directory) {
+        ... on Tree {
+          entries {
+            name
+            mode
           }
         }
       }
@@ -1,5 +1,7 @@
 import * as github from "@actions/github";
 import type {
+  DiscussionEvent,
+  DiscussionCommentEvent,
   IssuesEvent,
   IssuesAssignedEvent,
   IssueCommentEvent,
@@ -8,7 +10,12 @@ import type {
   PullRequestReviewCommentEvent,
   WorkflowRunEvent,
 } from "@octokit/webhooks-types";
+import { z } from "zod";
 import { CLAUDE_APP_BOT_ID, CLAUDE_BOT_LOGIN } from "./constants";
+import {
+  resolveCommitStrategy,
+  type CommitStrategy,
+} from "./operations/commit-strategy";
 // Custom types for GitHub Actions events that aren't webhooks
 export type WorkflowDispatchEvent = {
   action?: never;
@@ -67,9 +74,112 @@ const AUTOMATION_EVENT_NAMES = [
   "workflow_run",
 ] as const;
 
+const DISCUSSION_EVENT_NAMES = ["discussion", "discussion_comment"] as const;
+
+const DISPATCH_EVENT_NAMES = [
+  "workflow_dispatch",
+  "repository_dispatch",
+] as const;
+
 // Derive types from constants for better maintainability
 type EntityEventName = (typeof ENTITY_EVENT_NAMES)[number];
 type AutomationEventName = (typeof AUTOMATION_EVENT_NAMES)[number];
+type DiscussionEventName = (typeof DISCUSSION_EVENT_NAMES)[number];
+type DispatchEventName = (typeof DISPATCH_EVENT_NAMES)[number];
+
+// workflow_dispatch inputs are always strings, and unset ones are empty
+const emptyToUndefined = (value: unknown) =>
+  value === "" || value === null ? undefined : value;
+
+const dispatchNumber = z.preprocess(
+  (value) =>
+    typeof value === "string" && value !== ""
+      ? Number(value)
+      : emptyToUndefined(value),
+  z.number().int().positive().optional(),
+);
+
+const dispatchString = z.preprocess(
+  (value) => emptyToUndefined(typeof value === "string" ? value.trim() : value),
+  z.string().optional(),
+);
+
+export type DispatchPayload = {
+  issueNumber?: number;
+  prNumber?: number;
+  baseBranch?: string;
+  prompt?: string;
+  // Empty when the payload allows no extra tools
+  allowedTools: string[];
+  callbackUrl?: string;
+};
+
+/**
+ * Payload that external tools send with repository_dispatch (as
+ * client_payload) or workflow_dispatch (as inputs) to run Claude on an issue
+ * or PR. Unknown keys are ignored.
+ */
+export const dispatchPayloadSchema = z
+  .object({
+    issue_number: dispatchNumber,
+    pr_number: dispatchNumber,
+    base_branch: dispatchString,
+    prompt: dispatchString,
+    // A list, or a comma- or newline-separated string
+    allowed_tools: z.preprocess(
+      (value) => (typeof value === "string" ? value.split(/[,\n]/) : value),
+      z
+        .array(
+          z
+            .string()
+            .trim()
+            .refine((tool) => !/["']/.test(tool), {
+              message: "tool names must not contain quotes",
+            }),
+        )
+        .optional(),
+    ),
+    callback_url: z.preprocess(
+      emptyToUndefined,
+      z
+        .string()
+        .url()
+        .refine((url) => /^https?:\/\//i.test(url), {
+          message: "must be an http or https URL",
+        })
+        .optional(),
+    ),
+  })
+  .refine((payload) => !(payload.issue_number && payload.pr_number), {
+    message: "set either issue_number or pr_number, not both",
+  })
+  .transform(
+    (payload): DispatchPayload => ({
+      issueNumber: payload.issue_number,
+      prNumber: payload.pr_number,
+      baseBranch: payload.base_branch,
+      prompt: payload.prompt,
+      allowedTools: (payload.allowed_tools ?? []).filter(Boolean),
+      callbackUrl: payload.callback_url,
+    }),
+  );
+
+/**
+ * Validates the payload of a dispatch event.
+ * @throws Error listing every invalid field
+ */
+export function parseDispatchPayload(payload: unknown): DispatchPayload {
+  const result = dispatchPayloadSchema.safeParse(payload ?? {});
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) =>
+      issue.path.length > 0
+        ? `${issue.path.join(".")}: ${issue.message}`
+        : issue.message,
+    );
+    throw new Error(`Invalid dispatch payload: ${problems.join("; ")}`);
+  }
+  return result.data;
+}
 
 // Common fields shared by all context types
 type BaseContext = {
@@ -92,6 +202,9 @@ type BaseContext = {
     useStickyComment: boolean;
     useCommitSigning: boolean;
     sshSigningKey: string;
+    gpgSigningKey: string;
+    gpgSigningKeyPassphrase: string;
+    commitStrategy: CommitStrategy;
     botId: string;
     botName: string;
     allowedBots: string;
@@ -102,20 +215,43 @@ type BaseContext = {
     excludeCommentsByActor: string;
     linearApiKey: string;
     linearTeamId: string;
+    customModes: string;
+    reviewMode: boolean;
+    reviewEvent: string;
+    allowReviewApproval: boolean;
+    promptTemplate: string;
+    promptPreview: boolean;
+    additionalRepositories: string;
+    maxContextTokens: string;
+    includeDiff: boolean;
+    incrementalContext: boolean;
+    resumeSession: boolean;
+    allowWorkflowChanges: string;
+    ciTriage: boolean;
+    maxCiFixAttempts: string;
+    testReports: string;
+    dispatchPayload: boolean;
+    dispatchAllowedTools: string;
   };
 };
 
-// Context for entity-based events (issues, PRs, comments)
+// Context for entity-based events (issues, PRs, comments), for dispatch
+// events whose payload targets an issue or PR, and for failed workflow runs
+// of a pull request
 export type ParsedGitHubContext = BaseContext & {
-  eventName: EntityEventName;
+  eventName: EntityEventName | DispatchEventName | "workflow_run";
   payload:
     | IssuesEvent
     | IssueCommentEvent
     | PullRequestEvent
     | PullRequestReviewEvent
-    | PullRequestReviewCommentEvent;
+    | PullRequestReviewCommentEvent
+    | WorkflowDispatchEvent
+    | RepositoryDispatchEvent
+    | WorkflowRunEvent;
   entityNumber: number;
   isPR: boolean;
+  dispatch?: DispatchPayload;
 };
 
 // Context for automation events (workflow_dispatch, repository_dispatch, schedule, workflow_run)
@@ -126,10 +262,21 @@ export type AutomationContext = BaseContext & {
     | RepositoryDispatchEvent
     | ScheduleEvent
     | WorkflowRunEvent;
+  dispatch?: DispatchPayload;
+};
+
+// Context for discussion events (discussion, discussion_comment)
+export type DiscussionContext = BaseContext & {
+  eventName: DiscussionEventName;
+  payload: DiscussionEvent | DiscussionCommentEvent;
+  discussionNumber: number;
 };
 
 // Union type for all contexts
-export type GitHubContext = ParsedGitHubContext | AutomationContext;
+export type GitHubContext =
+  | ParsedGitHubContext
+  | AutomationContext
+  | DiscussionContext;
 
 export function parseGitHubContext(): GitHubContext {
   const context = github.context;
@@ -154,6 +301,14 @@ export function parseGitHubContext(): GitHubContext {
       useStickyComment: process.env.USE_STICKY_COMMENT === "true",
       useCommitSigning: process.env.USE_COMMIT_SIGNING === "true",
       sshSigningKey: process.env.SSH_SIGNING_KEY || "",
+      gpgSigningKey: process.env.GPG_SIGNING_KEY || "",
+      gpgSigningKeyPassphrase: process.env.GPG_SIGNING_KEY_PASSPHRASE || "",
+      commitStrategy: resolveCommitStrategy({
+        commitStrategy: process.env.COMMIT_STRATEGY,
+        useCommitSigning: process.env.USE_COMMIT_SIGNING === "true",
+        sshSigningKey: process.env.SSH_SIGNING_KEY || "",
+        gpgSigningKey: process.env.GPG_SIGNING_KEY || "",
+      }),
       botId: process.env.BOT_ID ?? String(CLAUDE_APP_BOT_ID),
       botName: process.env.BOT_NAME ?? CLAUDE_BOT_LOGIN,
       allowedBots: process.env.ALLOWED_BOTS ?? "",
@@ -164,6 +319,23 @@ export function parseGitHubContext(): GitHubContext {
       excludeCommentsByActor: process.env.EXCLUDE_COMMENTS_BY_ACTOR ?? "",
       linearApiKey: process.env.LINEAR_API_KEY ?? "",
       linearTeamId: process.env.LINEAR_TEAM_ID ?? "",
+      customModes: process.env.CUSTOM_MODES ?? "",
+      reviewMode: process.env.REVIEW_MODE === "true",
+      reviewEvent: process.env.REVIEW_EVENT || "COMMENT",
+      allowReviewApproval: process.env.ALLOW_REVIEW_APPROVAL === "true",
+      promptTemplate: process.env.PROMPT_TEMPLATE ?? "",
+      promptPreview: process.env.PROMPT_PREVIEW === "true",
+      additionalRepositories: process.env.ADDITIONAL_REPOSITORIES ?? "",
+      maxContextTokens: process.env.MAX_CONTEXT_TOKENS ?? "",
+      includeDiff: process.env.INCLUDE_DIFF === "true",
+      incrementalContext: process.env.INCREMENTAL_CONTEXT !== "false",
+      resumeSession: process.env.RESUME_SESSION === "true",
+      allowWorkflowChanges: process.env.ALLOW_WORKFLOW_CHANGES ?? "",
+      ciTriage: process.env.CI_TRIAGE === "true",
+      maxCiFixAttempts: process.env.MAX_CI_FIX_ATTEMPTS ?? "3",
+      testReports: process.env.TEST_REPORTS ?? "",
+      dispatchPayload: process.env.DISPATCH_PAYLOAD === "true",
+      dispatchAllowedTools: process.env.DISPATCH_ALLOWED_TOOLS ?? "",
     },
   };
 
@@ -219,20 +391,42 @@ export function parseGitHubContext(): GitHubContext {
         isPR: true,
       };
     }
-    case "workflow_dispatch": {
+    case "discussion": {
+      const payload = context.payload as DiscussionEvent;
       return {
         ...commonFields,
-        eventName: "workflow_dispatch",
-        payload: context.payload as unknown as WorkflowDispatchEvent,
+        eventName: "discussion",
+        payload,
+        discussionNumber: payload.discussion.number,
       };
     }
-    case "repository_dispatch": {
+    case "discussion_comment": {
+      const payload = context.payload as DiscussionCommentEvent;
       return {
         ...commonFields,
-        eventName: "repository_dispatch",
-        payload: context.payload as unknown as RepositoryDispatchEvent,
+        eventName: "discussion_comment",
+        payload,
+        discussionNumber: payload.discussion.number,
       };
     }
+    case "workflow_dispatch": {
+      const payload = context.payload as unknown as WorkflowDispatchEvent;
+      return parseDispatchContext(
+        commonFields,
+        "workflow_dispatch",
+        payload,
+        payload.inputs,
+      );
+    }
+    case "repository_dispatch": {
+      const payload = context.payload as unknown as RepositoryDispatchEvent;
+      return parseDispatchContext(
+        commonFields,
+        "repository_dispatch",
+        payload,
+        payload.client_payload,
+      );
+    }
     case "schedule": {
       return {
         ...commonFields,
@@ -241,10 +435,23 @@ export function parseGitHubContext(): GitHubContext {
       };
     }
     case "workflow_run": {
+      const payload = context.payload as unknown as WorkflowRunEvent;
+      // Only ci_triage ties failed runs to their PR
+      const pullRequest =
+        commonFields.inputs.ciTriage && findFailedRunPullRequest(payload);
+      if (pullRequest) {
+        return {
+          ...commonFields,
+          eventName: "workflow_run",
+          payload,
+          entityNumber: pullRequest.number,
+          isPR: true,
+        };
+      }
       return {
         ...commonFields,
         eventName: "workflow_run",
-        payload: context.payload as unknown as WorkflowRunEvent,
+        payload,
       };
     }
     default:
@@ -252,6 +459,85 @@ export function parseGitHubContext(): GitHubContext {
   }
 }
 
+/**
+ * Builds the context for a dispatch event. With dispatch_payload on, the
+ * payload fills in the prompt and base branch when the workflow leaves them
+ * unset, and a target issue or PR makes it an entity context.
+ */
+function parseDispatchContext(
+  commonFields: BaseContext,
+  eventName: DispatchEventName,
+  payload: WorkflowDispatchEvent | RepositoryDispatchEvent,
+  dispatchPayload: unknown,
+): ParsedGitHubContext | AutomationContext {
+  if (!commonFields.inputs.dispatchPayload) {
+    return { ...commonFields, eventName, payload };
+  }
+
+  const dispatch = parseDispatchPayload(dispatchPayload);
+  const inputs = {
+    ...commonFields.inputs,
+    prompt: commonFields.inputs.prompt || dispatch.prompt || "",
+    baseBranch: commonFields.inputs.baseBranch || dispatch.baseBranch,
+  };
+
+  const entityNumber = dispatch.prNumber ?? dispatch.issueNumber;
+  if (entityNumber === undefined) {
+    return { ...commonFields, inputs, eventName, payload, dispatch };
+  }
+  return {
+    ...commonFields,
+    inputs,
+    eventName,
+    payload,
+    dispatch,
+    entityNumber,
+    isPR: dispatch.prNumber !== undefined,
+  };
+}
+
+/**
+ * Finds the pull request a failed workflow run belongs to. GitHub only lists
+ * pull requests from the same repository, so runs on fork PRs have none.
+ * When several PRs share the head branch, the one whose head is the run's
+ * commit is preferred.
+ */
+function findFailedRunPullRequest(payload: WorkflowRunEvent) {
+  const run = payload.workflow_run;
+  if (payload.action !== "completed" || run.conclusion !== "failure") {
+    return undefined;
+  }
+  const pullRequests = run.pull_requests.filter(
+    (pr) => pr.base.repo.id === payload.repository.id,
+  );
+  return (
+    pullRequests.find((pr) => pr.head.sha === run.head_sha) ?? pullRequests[0]
+  );
+}
+
+/**
+ * Tools the dispatch payload allows on top of the workflow's claude_args.
+ * Only tools the workflow lists in dispatch_allowed_tools are kept, so that
+ * whoever sends the dispatch cannot grant more than the workflow allows.
+ */
+export function getDispatchAllowedTools(context: GitHubContext): string[] {
+  const requested =
+    "dispatch" in context ? (context.dispatch?.allowedTools ?? []) : [];
+  const permitted = new Set(
+    context.inputs.dispatchAllowedTools
+      .split(/[,\n]/)
+      .map((tool) => tool.trim())
+      .filter(Boolean),
+  );
+  const dropped = requested.filter((tool) => !permitted.has(tool));
+  if (dropped.length > 0) {
+    console.warn(
+      `Ignoring dispatch allowed_tools not listed in dispatch_allowed_tools: ${dropped.join(", ")}`,
+    );
+  }
+  return requested.filter((tool) => permitted.has(tool));
+}
+
 export function isIssuesEvent(
   context: GitHubContext,
 ): context is ParsedGitHubContext & { payload: IssuesEvent } {
@@ -292,14 +578,47 @@ export function isIssuesAssignedEvent(
 export function isEntityContext(
   context: GitHubContext,
 ): context is ParsedGitHubContext {
-  return ENTITY_EVENT_NAMES.includes(context.eventName as EntityEventName);
+  return (
+    ENTITY_EVENT_NAMES.includes(context.eventName as EntityEventName) ||
+    "entityNumber" in context
+  );
 }
 
 // Type guard to check if context is an automation context
 export function isAutomationContext(
   context: GitHubContext,
 ): context is AutomationContext {
-  return AUTOMATION_EVENT_NAMES.includes(
-    context.eventName as AutomationEventName,
+  return (
+    AUTOMATION_EVENT_NAMES.includes(context.eventName as AutomationEventName) &&
+    !("entityNumber" in context)
   );
 }
+
+// Check if the event is a workflow_dispatch or repository_dispatch
+export function isDispatchEvent(context: GitHubContext): boolean {
+  return DISPATCH_EVENT_NAMES.includes(context.eventName as DispatchEventName);
+}
+
+export function isWorkflowRunEvent(
+  context: GitHubContext,
+): context is GitHubContext & {
+  eventName: "workflow_run";
+  payload: WorkflowRunEvent;
+} {
+  return context.eventName === "workflow_run";
+}
+
+// Type guard to check if context is a discussion context
+export function isDiscussionContext(
+  context: GitHubContext,
+): context is DiscussionContext {
+  return DISCUSSION_EVENT_NAMES.includes(
+    context.eventName as DiscussionEventName,
+  );
+}
+
+export function isDiscussionCommentEvent(
+  context: GitHubContext,
+): context is DiscussionContext & { payload: DiscussionCommentEvent } {
+  return context.eventName === "discussion_comment";
+}
@@ -0,0 +1,131 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import type { Octokit } from "@octokit/rest";
+import { extractZip } from "../utils/zip";
+import { parseJUnitReport, type JUnitFailedCase } from "./junit";
+
+/** Largest artifact archive that is downloaded */
+export const MAX_ARTIFACT_BYTES = 50 * 1024 * 1024;
+const MAX_ARTIFACT_ENTRIES = 1000;
+const MAX_ARTIFACT_EXTRACTED_BYTES = 200 * 1024 * 1024;
+
+/** Failed test cases listed across an artifact's JUnit reports */
+const MAX_FAILED_CASES = 50;
+
+export type TestReportSummary = {
+  /** Path of the report, relative to the artifact directory */
+  path: string;
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+};
+
+export type DownloadedArtifact = {
+  id: number;
+  name: string;
+  /** Where the artifact was unpacked */
+  dir: string;
+  /** Unpacked file paths, relative to dir */
+  files: string[];
+  /** Entries that were not unpacked, with the reason */
+  skipped: string[];
+  testReports: TestReportSummary[];
+  failedCases: (JUnitFailedCase & { report: string })[];
+  /** Failed test cases beyond those listed */
+  omittedFailedCases: number;
+};
+
+/**
+ * Reads the JUnit XML reports among an artifact's files. XML files that are
+ * not JUnit reports, or not well-formed, are left out.
+ */
+export async function summarizeTestReports(
+  dir: string,
+  files: string[],
+): Promise<
+  Pick<DownloadedArtifact, "testReports" | "failedCases" | "omittedFailedCases">
+> {
+  const testReports: TestReportSummary[] = [];
+  const failedCases: DownloadedArtifact["failedCases"] = [];
+  let omittedFailedCases = 0;
+
+  for (const file of files.filter((file) => /\.xml$/i.test(file))) {
+    let summary;
+    try {
+      summary = parseJUnitReport(await readFile(path.join(dir, file), "utf8"));
+    } catch {
+      continue;
+    }
+
+    const { failedCases: reportCases, ...counts } = summary;
+    testReports.push({ path: file, ...counts });
+
+    const room = Math.max(0, MAX_FAILED_CASES - failedCases.length);
+    failedCases.push(
+      ...reportCases.slice(0, room).map((testCase) => ({
+        report: file,
+        ...testCase,
+      })),
+    );
+    omittedFailedCases += Math.max(0, reportCases.length - room);
+  }
+
+  return { testReports, failedCases, omittedFailedCases };
+}
+
+/**
+ * Downloads a workflow run artifact, unpacks it into artifactsDir and
+ * summarizes the failed test cases of the JUnit reports in it.
+ */
+export async function downloadArtifact(
+  octokit: Octokit,
+  {
+    owner,
+    repo,
+    artifactId,
+    artifactsDir,
+  }: {
+    owner: string;
+    repo: string;
+    artifactId: number;
+    artifactsDir: string;
+  },
+): Promise<DownloadedArtifact> {
+  const { data: artifact } = await octokit.actions.getArtifact({
+    owner,
+    repo,
+    artifact_id: artifactId,
+  });
+  if (artifact.expired) {
+    throw new Error(`Artifact ${artifact.name} has expired`);
+  }
+  if (artifact.size_in_bytes > MAX_ARTIFACT_BYTES) {
+    throw new Error(
+      `Artifact ${artifact.name} is ${artifact.size_in_bytes} bytes, more than the limit of ${MAX_ARTIFACT_BYTES}`,
+    );
+  }
+
+  const response = await octokit.actions.downloadArtifact({
+    owner,
+    repo,
+    artifact_id: artifactId,
+    archive_format: "zip",
+  });
+  const buffer = Buffer.from(response.data as ArrayBuffer);
+
+  const dir = path.join(artifactsDir, `artifact-${artifactId}`);
+  const { files, skipped } = await extractZip(buffer, dir, {
+    maxEntries: MAX_ARTIFACT_ENTRIES,
+    maxTotalBytes: MAX_ARTIFACT_EXTRACTED_BYTES,
+  });
+
+  return {
+    id: artifact.id,
+    name: artifact.name,
+    dir,
+    files,
+    skipped,
+    ...(await summarizeTestReports(dir, files)),
+  };
+}
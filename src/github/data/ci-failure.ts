@@ -0,0 +1,264 @@
+import { mkdir, writeFile } from "fs/promises";
+import type { Octokit } from "@octokit/rest";
+import type { WorkflowRunEvent } from "@octokit/webhooks-types";
+import type { ParsedGitHubContext } from "../context";
+import type { GitHubPullRequest } from "../types";
+import { getNoreplyEmail } from "../operations/git-config";
+import { extractErrorExcerpt } from "./ci-logs";
+
+/** Most failed jobs whose logs are downloaded and excerpted */
+const MAX_FAILED_JOBS = 5;
+
+/** Runs listed when counting earlier fix attempts */
+const MAX_LISTED_RUNS = 30;
+
+const FAILED_JOB_CONCLUSIONS = ["failure", "timed_out"];
+
+export type FailedJob = {
+  id: number;
+  name: string;
+  htmlUrl: string | null;
+  failedSteps: string[];
+  /** Where the full log was saved, when it could be downloaded */
+  logPath?: string;
+  /** The regions of the log around errors */
+  excerpt?: string;
+};
+
+/**
+ * A failed workflow run on a pull request, with what is needed to triage it.
+ */
+export type CiFailure = {
+  runId: number;
+  workflowName: string;
+  runUrl: string;
+  headSha: string;
+  headBranch: string;
+  runAttempt: number;
+  jobs: FailedJob[];
+  /** Failed jobs beyond those included */
+  omittedJobs: number;
+  /** Failed runs in a row on the branch whose head commit is Claude's */
+  fixAttempts: number;
+  /** Why Claude may only diagnose the failure; unset when it may push a fix */
+  diagnoseOnlyReason?: string;
+};
+
+/**
+ * The parts of a workflow run, from a webhook or the REST API, used to tell
+ * whether its head commit is one of Claude's fixes.
+ */
+export type WorkflowRunLike = {
+  id: number;
+  head_sha: string;
+  conclusion: string | null;
+  created_at: string;
+  head_commit?: {
+    author?: { name?: string; email?: string | null } | null;
+  } | null;
+  actor?: { login: string } | null;
+};
+
+export type ClaudeIdentity = {
+  botName: string;
+  botId: string;
+};
+
+/**
+ * Checks whether a run's head commit was made by Claude, from its git
+ * identity or, for commits made through the API, from who pushed it.
+ */
+export function isClaudeFixRun(
+  run: WorkflowRunLike,
+  { botName, botId }: ClaudeIdentity,
+): boolean {
+  const author = run.head_commit?.author;
+  const email = getNoreplyEmail({ login: botName, id: parseInt(botId) });
+  return (
+    author?.name === botName ||
+    author?.email === email ||
+    run.actor?.login === botName
+  );
+}
+
+/**
+ * Counts how many times in a row Claude's fixes have failed this workflow:
+ * the failed runs on the branch, newest first, whose head commit is Claude's.
+ * Re-runs of the same commit count once, and the first run that passed or
+ * that someone else pushed ends the streak.
+ */
+export async function countFixAttempts(
+  octokit: Octokit,
+  {
+    owner,
+    repo,
+    run,
+    identity,
+  }: {
+    owner: string;
+    repo: string;
+    run: WorkflowRunEvent["workflow_run"];
+    identity: ClaudeIdentity;
+  },
+): Promise<number> {
+  const { data } = await octokit.actions.listWorkflowRuns({
+    owner,
+    repo,
+    workflow_id: run.workflow_id,
+    branch: run.head_branch,
+    per_page: MAX_LISTED_RUNS,
+  });
+
+  // Runs that started after this one are left to their own triage
+  const earlierRuns = data.workflow_runs.filter(
+    (candidate) =>
+      candidate.id !== run.id && candidate.created_at <= run.created_at,
+  );
+
+  const counted = new Set<string>();
+  for (const candidate of [run as WorkflowRunLike, ...earlierRuns]) {
+    if (
+      candidate.conclusion !== "failure" ||
+      !isClaudeFixRun(candidate, identity)
+    ) {
+      break;
+    }
+    counted.add(candidate.head_sha);
+  }
+  return counted.size;
+}
+
+/**
+ * Lists the failed jobs of a run, downloads their logs next to those of the
+ * github_ci MCP server and extracts the regions around errors.
+ */
+export async function fetchFailedJobs(
+  octokit: Octokit,
+  {
+    owner,
+    repo,
+    runId,
+    logsDir = `${process.env.RUNNER_TEMP || "/tmp"}/github-ci-logs`,
+  }: {
+    owner: string;
+    repo: string;
+    runId: number;
+    logsDir?: string;
+  },
+): Promise<{ jobs: FailedJob[]; omittedJobs: number }> {
+  const { data: jobsData } = await octokit.actions.listJobsForWorkflowRun({
+    owner,
+    repo,
+    run_id: runId,
+    filter: "latest",
+    per_page: 100,
+  });
+
+  const failedJobs = jobsData.jobs.filter(
+    (job) => job.conclusion && FAILED_JOB_CONCLUSIONS.includes(job.conclusion),
+  );
+
+  await mkdir(logsDir, { recursive: true });
+
+  const jobs: FailedJob[] = [];
+  for (const job of failedJobs.slice(0, MAX_FAILED_JOBS)) {
+    const failedJob: FailedJob = {
+      id: job.id,
+      name: job.name,
+      htmlUrl: job.html_url,
+      failedSteps: (job.steps || [])
+        .filter((step) => step.conclusion === "failure")
+        .map((step) => step.name),
+    };
+
+    try {
+      const response = await octokit.actions.downloadJobLogsForWorkflowRun({
+        owner,
+        repo,
+        job_id: job.id,
+      });
+      const logsText = response.data as unknown as string;
+
+      const logPath = `${logsDir}/job-${job.id}.log`;
+      await writeFile(logPath, logsText, "utf-8");
+      failedJob.logPath = logPath;
+      failedJob.excerpt = extractErrorExcerpt(logsText);
+    } catch (error) {
+      // Logs expire and need actions: read; the job is still worth listing
+      console.warn(`Failed to download the log of job ${job.id}:`, error);
+    }
+
+    jobs.push(failedJob);
+  }
+
+  return {
+    jobs,
+    omittedJobs: Math.max(0, failedJobs.length - MAX_FAILED_JOBS),
+  };
+}
+
+/**
+ * Collects the failed jobs of the context's workflow run and decides whether
+ * Claude may push a fix. Fixes are off once max_ci_fix_attempts of Claude's
+ * fixes have failed in a row, so a fix that fails CI can't trigger another
+ * fix forever. They are also off when the pull request is closed or has
+ * moved past the failed commit.
+ */
+export async function fetchCiFailure(
+  octokit: Octokit,
+  context: ParsedGitHubContext & { payload: WorkflowRunEvent },
+  pullRequest: Pick<GitHubPullRequest, "state" | "headRefOid">,
+): Promise<CiFailure> {
+  const run = context.payload.workflow_run;
+  const { owner, repo } = context.repository;
+
+  const { jobs, omittedJobs } = await fetchFailedJobs(octokit, {
+    owner,
+    repo,
+    runId: run.id,
+  });
+
+  const maxAttempts = parseInt(context.inputs.maxCiFixAttempts, 10);
+  if (Number.isNaN(maxAttempts) || maxAttempts < 0) {
+    throw new Error(
+      `max_ci_fix_attempts must be a non-negative number, got "${context.inputs.maxCiFixAttempts}"`,
+    );
+  }
+
+  const fixAttempts =
+    maxAttempts > 0
+      ? await countFixAttempts(octokit, {
+          owner,
+          repo,
+          run,
+          identity: {
+            botName: context.inputs.botName,
+            botId: context.inputs.botId,
+          },
+        })
+      : 0;
+
+  let diagnoseOnlyReason: string | undefined;
+  if (maxAttempts === 0) {
+    diagnoseOnlyReason = "Fixes are disabled with max_ci_fix_attempts: 0.";
+  } else if (pullRequest.state !== "OPEN") {
+    diagnoseOnlyReason = `The pull request is ${pullRequest.state.toLowerCase()}, so there is no branch to push a fix to.`;
+  } else if (fixAttempts >= maxAttempts) {
+    diagnoseOnlyReason = `${fixAttempts} of your fixes in a row have failed this workflow, which is the limit set by max_ci_fix_attempts.`;
+  } else if (pullRequest.headRefOid !== run.head_sha) {
+    diagnoseOnlyReason = `The pull request has new commits since the failed run (its head is now ${pullRequest.headRefOid}), and they get their own CI run.`;
+  }
+
+  return {
+    runId: run.id,
+    workflowName: run.name,
+    runUrl: run.html_url,
+    headSha: run.head_sha,
+    headBranch: run.head_branch,
+    runAttempt: run.run_attempt,
+    jobs,
+    omittedJobs,
+    fixAttempts,
+    ...(diagnoseOnlyReason && { diagnoseOnlyReason }),
+  };
+}
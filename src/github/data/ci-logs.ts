@@ -0,0 +1,274 @@
+/**
+ * Helpers for reading GitHub Actions job logs. Logs are often several
+ * megabytes, so only the regions Claude needs are put in front of it: those
+ * around errors, the failed steps, search matches or the end of the log.
+ */
+
+/** Timestamp GitHub prefixes to every log line */
+const TIMESTAMP_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z ?/;
+
+/** Terminal color and cursor codes, which start with the escape character */
+const ANSI_PATTERN = new RegExp(
+  `${String.fromCharCode(27)}\\[[0-9;?]*[A-Za-z]`,
+  "g",
+);
+
+/**
+ * Lines that usually mark a failure: GitHub's error annotations, compiler
+ * and runtime errors, test runner failures and non-zero exit codes.
+ */
+const ERROR_LINE_PATTERNS = [
+  /##\[error\]/,
+  /\berror\b/i,
+  /\bFAIL(?:ED|URE)?\b/,
+  /\bfatal\b/i,
+  /^panic:/,
+  /Traceback \(most recent call last\)/,
+  /\b\w*Exception\b/,
+  /npm ERR!/,
+  /exit (?:code|status) [1-9]\d*/i,
+  /[✕✗✖]/,
+];
+
+/** Longest line kept in an excerpt; minified output can be much longer */
+const MAX_LINE_LENGTH = 500;
+
+export type LogExcerptOptions = {
+  /** Lines kept before each error line */
+  contextBefore?: number;
+  /** Lines kept after each error line */
+  contextAfter?: number;
+  /** Most log lines in the excerpt */
+  maxLines?: number;
+};
+
+export type LogSearchOptions = {
+  /** Lines kept before and after each match */
+  contextLines?: number;
+  /** Most matches shown */
+  maxMatches?: number;
+};
+
+export type LogSearchResult = {
+  totalMatches: number;
+  shownMatches: number;
+  excerpt: string;
+};
+
+/**
+ * A step's section of a job log.
+ */
+export type LogStep = {
+  title: string;
+  /** First line of the section, 1-based */
+  startLine: number;
+  /** Last line of the section, 1-based */
+  endLine: number;
+  /** Messages of the section's ##[error] annotations */
+  errors: string[];
+};
+
+type LineRange = { start: number; end: number };
+
+/**
+ * Strips the timestamp and ANSI color codes from a log line.
+ */
+export function cleanLogLine(line: string): string {
+  return line.replace(TIMESTAMP_PATTERN, "").replace(ANSI_PATTERN, "");
+}
+
+export function isErrorLine(line: string): boolean {
+  return ERROR_LINE_PATTERNS.some((pattern) => pattern.test(line));
+}
+
+/**
+ * Extracts the regions of a job log around error lines. Nearby regions are
+ * merged, and each one is headed with its line numbers in the full log.
+ * When the regions exceed maxLines, the first one is kept, since it usually
+ * holds the cause, and the rest are filled in from the end of the log. A log
+ * without error lines falls back to its last lines.
+ * @param log The raw job log
+ * @returns The excerpt, or an empty string for an empty log
+ */
+export function extractErrorExcerpt(
+  log: string,
+  {
+    contextBefore = 10,
+    contextAfter = 3,
+    maxLines = 150,
+  }: LogExcerptOptions = {},
+): string {
+  const lines = splitLogLines(log);
+  if (lines.length === 0) {
+    return "";
+  }
+
+  const ranges = collectRanges(
+    lines,
+    lines.flatMap((line, index) => (isErrorLine(line) ? [index] : [])),
+    contextBefore,
+    contextAfter,
+  );
+
+  if (ranges.length === 0) {
+    ranges.push({
+      start: Math.max(0, lines.length - maxLines),
+      end: lines.length - 1,
+    });
+  }
+
+  return formatRanges(lines, selectRanges(ranges, maxLines));
+}
+
+/**
+ * Splits a job log into cleaned lines, dropping the byte order mark GitHub
+ * starts logs with. An empty log has no lines.
+ */
+export function splitLogLines(log: string): string[] {
+  const trimmed = log.replace(/^\uFEFF/, "").replace(/\r?\n$/, "");
+  return trimmed ? trimmed.split(/\r?\n/).map(cleanLogLine) : [];
+}
+
+/**
+ * Splits a job log into its steps. GitHub starts the output of each step
+ * with a `##[group]Run ...` header and marks a failed command with
+ * `##[error]`; the lines before the first step come from setting up the job.
+ * Steps of a composite action show up as steps of their own.
+ */
+export function parseLogSteps(log: string): LogStep[] {
+  const lines = splitLogLines(log);
+  const steps: LogStep[] = [];
+  let current: LogStep | undefined;
+
+  lines.forEach((line, index) => {
+    const title = getStepTitle(line);
+    if (title || !current) {
+      current = {
+        title: title ?? "Set up job",
+        startLine: index + 1,
+        endLine: index + 1,
+        errors: [],
+      };
+      steps.push(current);
+    }
+    current.endLine = index + 1;
+    const error = line.match(/##\[error\](.*)/);
+    if (error) {
+      current.errors.push(truncateLine(error[1]!.trim()));
+    }
+  });
+
+  return steps;
+}
+
+function getStepTitle(line: string): string | undefined {
+  if (line.startsWith("##[group]Run ")) {
+    return line.slice("##[group]".length).trim();
+  }
+  if (line === "Post job cleanup.") {
+    return "Post job cleanup";
+  }
+  return undefined;
+}
+
+/**
+ * Searches a job log for lines matching a pattern and returns them with
+ * their surrounding lines. Only the first maxMatches matches are shown.
+ */
+export function searchLog(
+  log: string,
+  pattern: RegExp,
+  { contextLines = 3, maxMatches = 20 }: LogSearchOptions = {},
+): LogSearchResult {
+  const lines = splitLogLines(log);
+  const matches = lines.flatMap((line, index) =>
+    pattern.test(line) ? [index] : [],
+  );
+  const shown = matches.slice(0, maxMatches);
+
+  return {
+    totalMatches: matches.length,
+    shownMatches: shown.length,
+    excerpt: formatRanges(
+      lines,
+      collectRanges(lines, shown, contextLines, contextLines),
+    ),
+  };
+}
+
+/**
+ * Returns the last lines of a job log, where a failed job usually stopped.
+ */
+export function tailLog(log: string, count: number): string {
+  const lines = splitLogLines(log);
+  if (lines.length === 0 || count <= 0) {
+    return "";
+  }
+  return formatRanges(lines, [
+    { start: Math.max(0, lines.length - count), end: lines.length - 1 },
+  ]);
+}
+
+/**
+ * Formats lines of a log, given their 1-based line numbers, under a header
+ * with those numbers.
+ */
+export function formatLogLines(
+  lines: string[],
+  startLine: number,
+  endLine: number,
+): string {
+  return formatRanges(lines, [{ start: startLine - 1, end: endLine - 1 }]);
+}
+
+function collectRanges(
+  lines: string[],
+  indexes: number[],
+  before: number,
+  after: number,
+): LineRange[] {
+  const ranges: LineRange[] = [];
+  for (const index of indexes) {
+    const start = Math.max(0, index - before);
+    const end = Math.min(lines.length - 1, index + after);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+  return ranges;
+}
+
+function formatRanges(lines: string[], ranges: LineRange[]): string {
+  return ranges
+    .map(({ start, end }) =>
+      [
+        `--- lines ${start + 1}-${end + 1} ---`,
+        ...lines.slice(start, end + 1).map(truncateLine),
+      ].join("\n"),
+    )
+    .join("\n");
+}
+
+function selectRanges(ranges: LineRange[], maxLines: number): LineRange[] {
+  const selected: LineRange[] = [];
+  let budget = maxLines;
+  for (const range of [ranges[0]!, ...ranges.slice(1).reverse()]) {
+    if (budget <= 0) {
+      break;
+    }
+    // Ranges end at an error line's trailing context, so keep the end
+    const start = Math.max(range.start, range.end - budget + 1);
+    selected.push({ start, end: range.end });
+    budget -= range.end - start + 1;
+  }
+  return selected.sort((a, b) => a.start - b.start);
+}
+
+function truncateLine(line: string): string {
+  return line.length > MAX_LINE_LENGTH
+    ? `${line.slice(0, MAX_LINE_LENGTH)}… [${line.length - MAX_LINE_LENGTH} characters truncated]`
+    : line;
+}
@@ -0,0 +1,312 @@
+import type { FetchDataResult, GitHubFileWithSHA } from "./fetcher";
+import { formatFilePatch, type FilePatch } from "./diff";
+import type {
+  GitHubComment,
+  GitHubReview,
+  GitHubReviewComment,
+  GitHubReviewThread,
+} from "../types";
+import {
+  formatChangedFilesWithSHA,
+  formatComments,
+  formatReviewComments,
+  formatReviewThreads,
+  getReviewThreadState,
+} from "./formatter";
+
+/**
+ * Counts of items left out of the prompt by applyContextBudget.
+ */
+export type OmittedContext = {
+  comments: number;
+  reviews: number;
+  reviewComments: number;
+  reviewThreads: number;
+  files: number;
+  diffFiles: number;
+  bodyCharacters: number;
+};
+
+export type ContextBudgetOptions = {
+  maxTokens: number;
+  /** databaseIds of the comment or review that triggered the run */
+  triggerIds?: string[];
+  /** Number of most recent reviews treated as relevant */
+  latestReviewCount?: number;
+};
+
+// Share of the budget the PR or issue body may use before it is truncated
+const BODY_BUDGET_SHARE = 0.25;
+
+// Priorities, highest first. Items of equal priority prefer the most recent.
+const PRIORITY = {
+  trigger: 100,
+  unresolvedThread: 75,
+  latestReview: 70,
+  threadFile: 60,
+  comment: 50,
+  review: 40,
+  outdatedThread: 35,
+  file: 30,
+  diff: 25,
+  resolvedThread: 20,
+} as const;
+
+type BudgetItem = {
+  priority: number;
+  recency: number;
+  tokens: number;
+  /** Items that must be kept alongside this one, e.g. a review's header */
+  requires?: BudgetItem;
+  kept: boolean;
+};
+
+/**
+ * Rough token estimate for English text and code: about four characters per
+ * token. Good enough for budgeting, not for billing.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Parses the max_context_tokens input.
+ * @returns The budget, or undefined when no budget is configured
+ * @throws Error if the value is not a positive integer
+ */
+export function parseMaxContextTokens(
+  value: string | undefined,
+): number | undefined {
+  if (!value || !value.trim()) {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  const parsed = Number(trimmed);
+  if (!/^\d+$/.test(trimmed) || parsed <= 0) {
+    throw new Error(
+      `max_context_tokens must be a positive integer, got '${value}'`,
+    );
+  }
+  return parsed;
+}
+
+function timestamp(value: string | undefined): number {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? 0 : time;
+}
+
+function truncateBody(body: string, maxTokens: number): [string, number] {
+  const maxCharacters = maxTokens * 4;
+  if (body.length <= maxCharacters) {
+    return [body, 0];
+  }
+  const omitted = body.length - maxCharacters;
+  return [
+    `${body.slice(0, maxCharacters)}\n\n[... ${omitted} characters of the description omitted to fit the context budget ...]`,
+    omitted,
+  ];
+}
+
+/**
+ * Trims fetched GitHub data to fit a token budget.
+ *
+ * Items are ranked and kept greedily until the budget is spent: the trigger
+ * comment or review first, then unresolved review threads, the latest
+ * reviews and their inline comments, files touched by unresolved threads,
+ * conversation comments (newest first), older reviews, outdated threads,
+ * the remaining changed files, file diffs, and finally resolved threads.
+ * Diffs of files touched by unresolved threads rank with those files. The body
+ * is kept but truncated to a quarter of the budget. Kept items stay in their
+ * original order, and the number of omitted items is recorded in
+ * `omitted` so the prompt can say what was left out.
+ */
+export function applyContextBudget(
+  githubData: FetchDataResult,
+  { maxTokens, triggerIds = [], latestReviewCount = 3 }: ContextBudgetOptions,
+): FetchDataResult {
+  const {
+    contextData,
+    comments,
+    changedFilesWithSHA,
+    reviewData,
+    reviewThreads = [],
+  } = githubData;
+  // With threads available, inline comments are rendered per thread rather
+  // than per review, so they are budgeted as threads
+  const useThreads = reviewThreads.length > 0;
+  const triggers = new Set(triggerIds);
+  const items: BudgetItem[] = [];
+
+  const [body, bodyCharacters] = truncateBody(
+    contextData.body ?? "",
+    Math.floor(maxTokens * BODY_BUDGET_SHARE),
+  );
+  let remaining = maxTokens - estimateTokens(body);
+
+  const commentItems = new Map<GitHubComment, BudgetItem>();
+  for (const comment of comments) {
+    const item: BudgetItem = {
+      priority: triggers.has(comment.databaseId)
+        ? PRIORITY.trigger
+        : PRIORITY.comment,
+      recency: timestamp(comment.createdAt),
+      tokens: estimateTokens(formatComments([comment])),
+      kept: false,
+    };
+    commentItems.set(comment, item);
+    items.push(item);
+  }
+
+  const reviews = reviewData?.nodes ?? [];
+  const latestReviews = new Set(
+    [...reviews]
+      .sort((a, b) => timestamp(b.submittedAt) - timestamp(a.submittedAt))
+      .slice(0, latestReviewCount),
+  );
+  const threadPaths = new Set<string>();
+  const reviewItems = new Map<GitHubReview, BudgetItem>();
+  const reviewCommentItems = new Map<GitHubReviewComment, BudgetItem>();
+  for (const review of reviews) {
+    const priority = triggers.has(review.databaseId)
+      ? PRIORITY.trigger
+      : latestReviews.has(review)
+        ? PRIORITY.latestReview
+        : PRIORITY.review;
+    const header: BudgetItem = {
+      priority,
+      recency: timestamp(review.submittedAt),
+      tokens: estimateTokens(
+        formatReviewComments({
+          nodes: [{ ...review, comments: { nodes: [] } }],
+        }),
+      ),
+      kept: false,
+    };
+    reviewItems.set(review, header);
+    items.push(header);
+
+    for (const comment of useThreads ? [] : (review.comments?.nodes ?? [])) {
+      threadPaths.add(comment.path);
+      const item: BudgetItem = {
+        priority: triggers.has(comment.databaseId)
+          ? PRIORITY.trigger
+          : priority,
+        recency: timestamp(comment.createdAt),
+        // Matches the line formatReviewComments renders per inline comment
+        tokens: estimateTokens(
+          `  [Comment on ${comment.path}:${comment.line || "?"}]: ${comment.body}`,
+        ),
+        requires: header,
+        kept: false,
+      };
+      reviewCommentItems.set(comment, item);
+      items.push(item);
+    }
+  }
+
+  const threadItems = new Map<GitHubReviewThread, BudgetItem>();
+  for (const thread of reviewThreads) {
+    const state = getReviewThreadState(thread);
+    const threadComments = thread.comments?.nodes ?? [];
+    if (state === "unresolved") {
+      threadPaths.add(thread.path);
+    }
+    const item: BudgetItem = {
+      priority: threadComments.some((c) => triggers.has(c.databaseId))
+        ? PRIORITY.trigger
+        : PRIORITY[`${state}Thread`],
+      recency: Math.max(
+        0,
+        ...threadComments.map((c) => timestamp(c.createdAt)),
+      ),
+      tokens: estimateTokens(formatReviewThreads([thread])),
+      kept: false,
+    };
+    threadItems.set(thread, item);
+    items.push(item);
+  }
+
+  const fileItems = new Map<GitHubFileWithSHA, BudgetItem>();
+  changedFilesWithSHA.forEach((file, index) => {
+    const item: BudgetItem = {
+      priority: threadPaths.has(file.path)
+        ? PRIORITY.threadFile
+        : PRIORITY.file,
+      // Keep files in their original order within a priority
+      recency: -index,
+      tokens: estimateTokens(formatChangedFilesWithSHA([file])),
+      kept: false,
+    };
+    fileItems.set(file, item);
+    items.push(item);
+  });
+
+  const diffItems = new Map<FilePatch, BudgetItem>();
+  (githubData.diff ?? []).forEach((file, index) => {
+    const item: BudgetItem = {
+      priority: threadPaths.has(file.path)
+        ? PRIORITY.threadFile
+        : PRIORITY.diff,
+      recency: -index,
+      tokens: estimateTokens(formatFilePatch(file)),
+      kept: false,
+    };
+    diffItems.set(file, item);
+    items.push(item);
+  });
+
+  const ranked = [...items].sort(
+    (a, b) => b.priority - a.priority || b.recency - a.recency,
+  );
+  for (const item of ranked) {
+    const dependency =
+      item.requires && !item.requires.kept ? item.requires : undefined;
+    const cost = item.tokens + (dependency?.tokens ?? 0);
+    // The trigger is always kept, even if it alone exceeds the budget
+    if (cost <= remaining || item.priority === PRIORITY.trigger) {
+      item.kept = true;
+      if (dependency) dependency.kept = true;
+      remaining -= cost;
+    }
+  }
+
+  const keptComments = comments.filter((c) => commentItems.get(c)!.kept);
+  const keptFiles = changedFilesWithSHA.filter((f) => fileItems.get(f)!.kept);
+  const keptPaths = new Set(keptFiles.map((f) => f.path));
+  const keptReviews = reviews
+    .filter((review) => reviewItems.get(review)!.kept)
+    .map((review) => ({
+      ...review,
+      comments: {
+        ...review.comments,
+        nodes: (review.comments?.nodes ?? []).filter(
+          (c) => useThreads || reviewCommentItems.get(c)!.kept,
+        ),
+      },
+    }));
+  const keptThreads = reviewThreads.filter((t) => threadItems.get(t)!.kept);
+  const keptDiff = githubData.diff?.filter((f) => diffItems.get(f)!.kept);
+  const countReviewComments = (nodes: GitHubReview[]) =>
+    nodes.reduce((sum, r) => sum + (r.comments?.nodes?.length ?? 0), 0);
+
+  return {
+    ...githubData,
+    contextData: { ...contextData, body },
+    comments: keptComments,
+    changedFiles: githubData.changedFiles.filter((f) => keptPaths.has(f.path)),
+    changedFilesWithSHA: keptFiles,
+    reviewData: reviewData ? { ...reviewData, nodes: keptReviews } : null,
+    reviewThreads: keptThreads,
+    ...(keptDiff && { diff: keptDiff }),
+    omitted: {
+      comments: comments.length - keptComments.length,
+      reviews: reviews.length - keptReviews.length,
+      reviewComments:
+        countReviewComments(reviews) - countReviewComments(keptReviews),
+      reviewThreads: reviewThreads.length - keptThreads.length,
+      files: changedFilesWithSHA.length - keptFiles.length,
+      diffFiles: (githubData.diff?.length ?? 0) - (keptDiff?.length ?? 0),
+      bodyCharacters,
+    },
+  };
+}
@@ -0,0 +1,367 @@
+import type { Octokit } from "@octokit/rest";
+import { formatOmittedMarker } from "./formatter";
+
+/**
+ * Maximum patch lines kept per file. Longer patches are cut at a hunk
+ * boundary where possible and marked as truncated.
+ */
+export const MAX_PATCH_LINES_PER_FILE = 400;
+
+/**
+ * A changed file and its unified diff against the merge base, as computed
+ * by GitHub. Renames are detected by GitHub and reported via previousPath.
+ */
+export type FilePatch = {
+  path: string;
+  previousPath?: string;
+  status: string;
+  additions: number;
+  deletions: number;
+  /** Absent for binary files and diffs GitHub considers too large */
+  patch?: string;
+  /** Patch lines dropped by the per-file cap */
+  omittedLines: number;
+};
+
+export type DiffSide = "LEFT" | "RIGHT";
+
+/**
+ * Lines that appear in a patch, by side. RIGHT holds added and context
+ * lines in the new file; LEFT holds removed and context lines in the old one.
+ */
+export type PatchLines = Record<DiffSide, Set<number>>;
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Fetches every changed file of a pull request with its patch.
+ */
+export async function fetchPullRequestPatches(
+  rest: Octokit,
+  owner: string,
+  repo: string,
+  prNumber: number,
+  maxLinesPerFile: number = MAX_PATCH_LINES_PER_FILE,
+): Promise<FilePatch[]> {
+  const files = await rest.paginate(rest.rest.pulls.listFiles, {
+    owner,
+    repo,
+    pull_number: prNumber,
+    per_page: 100,
+  });
+
+  return files.map((file) => {
+    const { patch, omittedLines } = file.patch
+      ? capPatch(file.patch, maxLinesPerFile)
+      : { patch: undefined, omittedLines: 0 };
+    return {
+      path: file.filename,
+      ...(file.previous_filename && { previousPath: file.previous_filename }),
+      status: file.status,
+      additions: file.additions,
+      deletions: file.deletions,
+      ...(patch !== undefined && { patch }),
+      omittedLines,
+    };
+  });
+}
+
+/**
+ * Limits a patch to maxLines, preferring to cut at the last hunk boundary
+ * that fits so no hunk is left half-shown.
+ */
+export function capPatch(
+  patch: string,
+  maxLines: number,
+): { patch: string; omittedLines: number } {
+  const lines = patch.split("\n");
+  if (lines.length <= maxLines) {
+    return { patch, omittedLines: 0 };
+  }
+
+  let cut = maxLines;
+  for (let i = maxLines; i > 0; i--) {
+    if (HUNK_HEADER.test(lines[i] ?? "")) {
+      cut = i;
+      break;
+    }
+  }
+
+  return {
+    patch: lines.slice(0, cut).join("\n"),
+    omittedLines: lines.length - cut,
+  };
+}
+
+/**
+ * Collects the line numbers a patch covers on each side of the diff.
+ */
+export function parsePatchLines(patch: string): PatchLines {
+  const lines: PatchLines = { LEFT: new Set(), RIGHT: new Set() };
+  let oldLine = 0;
+  let newLine = 0;
+
+  for (const line of patch.split("\n")) {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      oldLine = parseInt(header[1]!, 10);
+      newLine = parseInt(header[3]!, 10);
+      continue;
+    }
+    if (line.startsWith("+")) {
+      lines.RIGHT.add(newLine++);
+    } else if (line.startsWith("-")) {
+      lines.LEFT.add(oldLine++);
+    } else if (line.startsWith(" ")) {
+      lines.LEFT.add(oldLine++);
+      lines.RIGHT.add(newLine++);
+    }
+    // "\ No newline at end of file" markers do not advance either side
+  }
+
+  return lines;
+}
+
+/**
+ * Returns the hunks of a patch that overlap the given range of new-file
+ * lines. Without a range the whole patch is returned.
+ */
+export function extractPatchRange(
+  patch: string,
+  startLine?: number,
+  endLine?: number,
+): string {
+  if (startLine === undefined && endLine === undefined) {
+    return patch;
+  }
+  const start = startLine ?? endLine!;
+  const end = endLine ?? startLine!;
+
+  const hunks: string[][] = [];
+  for (const line of patch.split("\n")) {
+    if (HUNK_HEADER.test(line) || hunks.length === 0) {
+      hunks.push([]);
+    }
+    hunks[hunks.length - 1]!.push(line);
+  }
+
+  return hunks
+    .filter((hunk) => {
+      const header = hunk[0]?.match(HUNK_HEADER);
+      if (!header) return false;
+      const hunkStart = parseInt(header[3]!, 10);
+      const hunkLength = header[4] === undefined ? 1 : parseInt(header[4], 10);
+      return hunkStart <= end && start < hunkStart + Math.max(hunkLength, 1);
+    })
+    .map((hunk) => hunk.join("\n"))
+    .join("\n");
+}
+
+export type LineRange = { start: number; end: number };
+
+/**
+ * Why an inline comment position was rejected, with the closest lines that
+ * would have been accepted.
+ */
+export type CommentPositionError = {
+  reason: "file_not_changed" | "no_patch" | "outside_diff" | "spans_hunks";
+  message: string;
+  path: string;
+  side: DiffSide;
+  /** The requested lines that cannot take the comment */
+  lines: number[];
+  /** Commentable ranges closest to the requested lines, nearest first */
+  nearestRanges: LineRange[];
+};
+
+const NEAREST_RANGE_COUNT = 3;
+
+/**
+ * Returns the ranges of lines that can take inline comments on one side of
+ * a patch. Each range is a contiguous run of lines, i.e. one hunk.
+ */
+export function getCommentableRanges(
+  patch: string,
+  side: DiffSide,
+): LineRange[] {
+  const ranges: LineRange[] = [];
+  const lines = [...parsePatchLines(patch)[side]].sort((a, b) => a - b);
+  for (const line of lines) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end + 1 === line) {
+      last.end = line;
+    } else {
+      ranges.push({ start: line, end: line });
+    }
+  }
+  return ranges;
+}
+
+function distance(range: LineRange, line: number): number {
+  if (line < range.start) return range.start - line;
+  if (line > range.end) return line - range.end;
+  return 0;
+}
+
+/**
+ * Orders ranges by their distance to any of the given lines and returns the
+ * closest few.
+ */
+export function findNearestRanges(
+  ranges: LineRange[],
+  lines: number[],
+  limit: number = NEAREST_RANGE_COUNT,
+): LineRange[] {
+  return [...ranges]
+    .sort(
+      (a, b) =>
+        Math.min(...lines.map((line) => distance(a, line))) -
+          Math.min(...lines.map((line) => distance(b, line))) ||
+        a.start - b.start,
+    )
+    .slice(0, limit);
+}
+
+export function formatLineRange({ start, end }: LineRange): string {
+  return start === end ? `${start}` : `${start}-${end}`;
+}
+
+/**
+ * Checks that the lines an inline comment targets appear in the file's diff,
+ * and that a multi-line comment stays within one hunk. GitHub rejects other
+ * positions with an unhelpful "Validation Failed", so this is checked up
+ * front.
+ * @returns The reason the position is invalid, or null if it is commentable
+ */
+export function validateCommentPosition(
+  file: FilePatch | undefined,
+  path: string,
+  {
+    line,
+    startLine,
+    side = "RIGHT",
+  }: {
+    line?: number;
+    startLine?: number;
+    side?: DiffSide;
+  },
+): CommentPositionError | null {
+  const requested = [startLine, line].filter(
+    (value): value is number => value !== undefined,
+  );
+  const error = (
+    reason: CommentPositionError["reason"],
+    message: string,
+    lines: number[] = requested,
+    nearestRanges: LineRange[] = [],
+  ): CommentPositionError => ({
+    reason,
+    message,
+    path,
+    side,
+    lines,
+    nearestRanges,
+  });
+
+  if (!file) {
+    return error(
+      "file_not_changed",
+      `${path} is not changed in this pull request`,
+    );
+  }
+  if (!file.patch) {
+    return error(
+      "no_patch",
+      `${path} has no diff to comment on (binary file or diff too large)`,
+    );
+  }
+
+  const ranges = getCommentableRanges(file.patch, side);
+  const rangeOf = (value: number) =>
+    ranges.find((range) => value >= range.start && value <= range.end);
+  const nearest = findNearestRanges(ranges, requested);
+  const suggestion =
+    nearest.length > 0
+      ? ` Nearest commentable lines: ${nearest.map(formatLineRange).join(", ")}`
+      : ` No lines on the ${side} side can be commented on`;
+
+  const missing = requested.filter((value) => !rangeOf(value));
+  if (missing.length > 0) {
+    return error(
+      "outside_diff",
+      `Line ${missing.join(" and ")} of ${path} is not part of the diff on the ${side} side.${suggestion}`,
+      missing,
+      nearest,
+    );
+  }
+  if (
+    startLine !== undefined &&
+    line !== undefined &&
+    rangeOf(startLine) !== rangeOf(line)
+  ) {
+    return error(
+      "spans_hunks",
+      `Lines ${startLine} to ${line} of ${path} span more than one diff hunk. A multi-line comment must stay within one hunk.${suggestion}`,
+      requested,
+      nearest,
+    );
+  }
+  return null;
+}
+
+function formatFileHeader(file: FilePatch): string {
+  const oldPath = file.previousPath ?? file.path;
+  const header = [`diff --git a/${oldPath} b/${file.path}`];
+  if (file.previousPath) {
+    header.push(`rename from ${file.previousPath}`, `rename to ${file.path}`);
+  }
+  header.push(
+    file.status === "added" ? "--- /dev/null" : `--- a/${oldPath}`,
+    file.status === "removed" ? "+++ /dev/null" : `+++ b/${file.path}`,
+  );
+  return header.join("\n");
+}
+
+/**
+ * Formats a single file's diff, optionally limited to a range of new-file
+ * lines.
+ */
+export function formatFilePatch(
+  file: FilePatch,
+  startLine?: number,
+  endLine?: number,
+): string {
+  if (!file.patch) {
+    return `${formatFileHeader(file)}\nBinary file or diff too large to show`;
+  }
+  const patch = extractPatchRange(file.patch, startLine, endLine);
+  const omitted =
+    file.omittedLines > 0
+      ? `\n[... ${file.omittedLines} more diff lines omitted ...]`
+      : "";
+  return `${formatFileHeader(file)}\n${patch}${omitted}`;
+}
+
+/**
+ * Formats a pull request's diff for the prompt. Binary files and files
+ * without a patch are listed at the end instead of shown.
+ * @param omittedCount File diffs left out by the context budget
+ */
+export function formatPullRequestDiff(
+  files: FilePatch[],
+  omittedCount: number = 0,
+): string {
+  const withPatch = files.filter((file) => file.patch);
+  const withoutPatch = files.filter((file) => !file.patch);
+
+  const sections = withPatch.map((file) => formatFilePatch(file));
+  if (withoutPatch.length > 0) {
+    sections.push(
+      `Not shown (binary or too large): ${withoutPatch.map((file) => file.path).join(", ")}`,
+    );
+  }
+  if (omittedCount > 0) {
+    sections.push(formatOmittedMarker(omittedCount, "file diff"));
+  }
+  return sections.join("\n\n");
+}
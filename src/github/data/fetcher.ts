@@ -1,25 +1,55 @@
 import { execFileSync } from "child_process";
 import type { Octokits } from "../api/client";
-import { ISSUE_QUERY, PR_QUERY, USER_QUERY } from "../api/queries/github";
 import {
+  DISCUSSION_PAGE_QUERIES,
+  DISCUSSION_QUERY,
+  DISCUSSION_REPLIES_PAGE_QUERY,
+  ISSUE_PAGE_QUERIES,
+  ISSUE_QUERY,
+  PR_PAGE_QUERIES,
+  PR_QUERY,
+  REVIEW_COMMENTS_PAGE_QUERY,
+  REVIEW_THREAD_COMMENTS_PAGE_QUERY,
+  USER_QUERY,
+} from "../api/queries/github";
+import {
+  isDiscussionCommentEvent,
   isIssueCommentEvent,
   isIssuesEvent,
   isPullRequestEvent,
   isPullRequestReviewEvent,
   isPullRequestReviewCommentEvent,
+  type DiscussionContext,
   type ParsedGitHubContext,
 } from "../context";
 import type {
+  DiscussionQueryResponse,
   GitHubComment,
+  GitHubConnection,
+  GitHubDiscussion,
+  GitHubDiscussionComment,
   GitHubFile,
   GitHubIssue,
   GitHubPullRequest,
   GitHubReview,
+  GitHubReviewThread,
   IssueQueryResponse,
   PullRequestQueryResponse,
 } from "../types";
+import { paginateConnection, type TruncatedConnection } from "./pagination";
+import type { OmittedContext } from "./context-budget";
+import { fetchPullRequestPatches, type FilePatch } from "./diff";
 import type { CommentWithImages } from "../utils/image-downloader";
 import { downloadCommentImages } from "../utils/image-downloader";
+import {
+  fetchSinceLastRun,
+  type LastRunLookup,
+  type SinceLastRun,
+} from "./last-run";
+import {
+  downloadCommentAttachments,
+  type DownloadedAttachment,
+} from "../utils/attachment-downloader";
 import {
   parseActorFilter,
   shouldIncludeCommentByActor,
@@ -33,9 +63,9 @@ import {
  * @returns ISO timestamp string or undefined if not available
  */
 export function extractTriggerTimestamp(
-  context: ParsedGitHubContext,
+  context: ParsedGitHubContext | DiscussionContext,
 ): string | undefined {
-  if (isIssueCommentEvent(context)) {
+  if (isIssueCommentEvent(context) || isDiscussionCommentEvent(context)) {
     return context.payload.comment.created_at || undefined;
   } else if (isPullRequestReviewEvent(context)) {
     return context.payload.review.submitted_at || undefined;
@@ -199,6 +229,34 @@ export function filterCommentsByActor<T extends { author: { login: string } }>(
   );
 }
 
+/**
+ * Applies the trigger time and actor filters to the comments of each review
+ * thread, dropping threads left without comments.
+ */
+export function filterReviewThreads(
+  threads: GitHubReviewThread[],
+  triggerTime: string | undefined,
+  includeActors: string = "",
+  excludeActors: string = "",
+): GitHubReviewThread[] {
+  return threads
+    .map((thread) => ({
+      ...thread,
+      comments: {
+        ...thread.comments,
+        nodes: filterCommentsByActor(
+          filterCommentsToTriggerTime(
+            thread.comments?.nodes ?? [],
+            triggerTime,
+          ),
+          includeActors,
+          excludeActors,
+        ),
+      },
+    }))
+    .filter((thread) => thread.comments.nodes.length > 0);
+}
+
 type FetchDataParams = {
   octokits: Octokits;
   repository: string;
@@ -209,22 +267,247 @@ type FetchDataParams = {
   originalTitle?: string;
   includeCommentsByActor?: string;
   excludeCommentsByActor?: string;
+  /** Fetch each changed file's patch for PRs */
+  includeDiff?: boolean;
+  /** Look up what changed since the previous run, for PRs */
+  lastRunLookup?: LastRunLookup;
 };
 
 export type GitHubFileWithSHA = GitHubFile & {
   sha: string;
 };
 
+/**
+ * Connections that were capped before every node was fetched, keyed by
+ * connection. reviewComments and reviewThreadComments aggregate the comments
+ * of all reviews and review threads respectively, discussionReplies the
+ * replies to all discussion comments.
+ */
+export type ContextTruncation = Partial<
+  Record<
+    | "labels"
+    | "commits"
+    | "files"
+    | "comments"
+    | "reviews"
+    | "reviewComments"
+    | "reviewThreads"
+    | "reviewThreadComments"
+    | "discussionReplies",
+    TruncatedConnection
+  >
+>;
+
 export type FetchDataResult = {
   contextData: GitHubPullRequest | GitHubIssue;
   comments: GitHubComment[];
   changedFiles: GitHubFile[];
   changedFilesWithSHA: GitHubFileWithSHA[];
   reviewData: { nodes: GitHubReview[] } | null;
+  /** Review threads with resolution state, filtered like review comments */
+  reviewThreads?: GitHubReviewThread[];
+  /** Per-file patches, when requested with includeDiff */
+  diff?: FilePatch[];
   imageUrlMap: Map<string, string>;
+  /** Changes since the previous run, when lastRunLookup found one */
+  sinceLastRun?: SinceLastRun;
+  /** Non-image files attached to the body and comments */
+  attachments?: DownloadedAttachment[];
   triggerDisplayName?: string | null;
+  truncation?: ContextTruncation;
+  /** Set when the data was trimmed by applyContextBudget */
+  omitted?: OmittedContext;
 };
 
+/**
+ * Loads the remaining pages of a connection in place, replacing its nodes
+ * with every node fetched.
+ * @returns Truncation details if the connection was capped
+ */
+async function loadRemainingPages<T, R>(
+  octokits: Octokits,
+  connection: GitHubConnection<T> | undefined,
+  query: string,
+  variables: Record<string, unknown>,
+  select: (response: R) => GitHubConnection<T> | null | undefined,
+): Promise<TruncatedConnection | undefined> {
+  if (!connection) {
+    return undefined;
+  }
+
+  const { nodes, truncated } = await paginateConnection(
+    connection,
+    async (cursor) => {
+      const response = await octokits.graphql<R>(query, {
+        ...variables,
+        cursor,
+      });
+      return select(response) ?? { nodes: [] };
+    },
+  );
+  connection.nodes = nodes;
+  return truncated;
+}
+
+/**
+ * Loads the remaining comments of each review or review thread, or the
+ * remaining replies of each discussion comment.
+ * @returns Aggregate truncation details if any item's comments were capped
+ */
+async function loadRemainingNestedComments<T, K extends "comments" | "replies">(
+  octokits: Octokits,
+  items: Array<{ id: string } & Record<K, GitHubConnection<T>>>,
+  query: string,
+  key: K,
+): Promise<TruncatedConnection | undefined> {
+  let fetched = 0;
+  let totalCount = 0;
+  for (const item of items) {
+    const truncated = await loadRemainingPages(
+      octokits,
+      item[key],
+      query,
+      { id: item.id },
+      (response: { node: Record<K, GitHubConnection<T>> | null }) =>
+        response.node?.[key],
+    );
+    const count = item[key]?.nodes.length ?? 0;
+    fetched += count;
+    totalCount += truncated?.totalCount ?? count;
+  }
+  return totalCount > fetched ? { fetched, totalCount } : undefined;
+}
+
+/**
+ * Pages through every connection on a pull request, including the comments
+ * of each review and review thread.
+ */
+async function loadAllPullRequestPages(
+  octokits: Octokits,
+  variables: { owner: string; repo: string; number: number },
+  pullRequest: GitHubPullRequest,
+): Promise<ContextTruncation> {
+  const select =
+    <
+      K extends
+        | "labels"
+        | "commits"
+        | "files"
+        | "comments"
+        | "reviews"
+        | "reviewThreads",
+    >(
+      name: K,
+    ) =>
+    (response: PullRequestQueryResponse) =>
+      response.repository.pullRequest?.[name] as GitHubPullRequest[K];
+
+  const truncation: ContextTruncation = {
+    labels: await loadRemainingPages(
+      octokits,
+      pullRequest.labels,
+      PR_PAGE_QUERIES.labels,
+      variables,
+      select("labels"),
+    ),
+    commits: await loadRemainingPages(
+      octokits,
+      pullRequest.commits,
+      PR_PAGE_QUERIES.commits,
+      variables,
+      select("commits"),
+    ),
+    files: await loadRemainingPages(
+      octokits,
+      pullRequest.files,
+      PR_PAGE_QUERIES.files,
+      variables,
+      select("files"),
+    ),
+    comments: await loadRemainingPages(
+      octokits,
+      pullRequest.comments,
+      PR_PAGE_QUERIES.comments,
+      variables,
+      select("comments"),
+    ),
+    reviews: await loadRemainingPages(
+      octokits,
+      pullRequest.reviews,
+      PR_PAGE_QUERIES.reviews,
+      variables,
+      select("reviews"),
+    ),
+    reviewThreads: await loadRemainingPages(
+      octokits,
+      pullRequest.reviewThreads,
+      PR_PAGE_QUERIES.reviewThreads,
+      variables,
+      select("reviewThreads"),
+    ),
+  };
+
+  truncation.reviewComments = await loadRemainingNestedComments(
+    octokits,
+    pullRequest.reviews?.nodes ?? [],
+    REVIEW_COMMENTS_PAGE_QUERY,
+    "comments",
+  );
+  truncation.reviewThreadComments = await loadRemainingNestedComments(
+    octokits,
+    pullRequest.reviewThreads?.nodes ?? [],
+    REVIEW_THREAD_COMMENTS_PAGE_QUERY,
+    "comments",
+  );
+
+  return dropEmpty(truncation);
+}
+
+/**
+ * Pages through every connection on an issue.
+ */
+async function loadAllIssuePages(
+  octokits: Octokits,
+  variables: { owner: string; repo: string; number: number },
+  issue: GitHubIssue,
+): Promise<ContextTruncation> {
+  const select =
+    <K extends "labels" | "comments">(name: K) =>
+    (response: IssueQueryResponse) =>
+      response.repository.issue?.[name] as GitHubIssue[K];
+
+  return dropEmpty({
+    labels: await loadRemainingPages(
+      octokits,
+      issue.labels,
+      ISSUE_PAGE_QUERIES.labels,
+      variables,
+      select("labels"),
+    ),
+    comments: await loadRemainingPages(
+      octokits,
+      issue.comments,
+      ISSUE_PAGE_QUERIES.comments,
+      variables,
+      select("comments"),
+    ),
+  });
+}
+
+function dropEmpty(truncation: ContextTruncation): ContextTruncation {
+  return Object.fromEntries(
+    Object.entries(truncation).filter(([, value]) => value !== undefined),
+  ) as ContextTruncation;
+}
+
+function logTruncation(truncation: ContextTruncation): void {
+  for (const [name, { fetched, totalCount }] of Object.entries(truncation)) {
+    console.warn(
+      `Fetched ${fetched} of ${totalCount} ${name}; the rest were not loaded`,
+    );
+  }
+}
+
 export async function fetchGitHubData({
   octokits,
   repository,
@@ -235,6 +518,8 @@ export async function fetchGitHubData({
   originalTitle,
   includeCommentsByActor,
   excludeCommentsByActor,
+  includeDiff,
+  lastRunLookup,
 }: FetchDataParams): Promise<FetchDataResult> {
   const [owner, repo] = repository.split("/");
   if (!owner || !repo) {
@@ -245,21 +530,25 @@ export async function fetchGitHubData({
   let comments: GitHubComment[] = [];
   let changedFiles: GitHubFile[] = [];
   let reviewData: { nodes: GitHubReview[] } | null = null;
+  let reviewThreads: GitHubReviewThread[] = [];
+  let truncation: ContextTruncation = {};
+  const variables = { owner, repo, number: parseInt(prNumber) };
 
   try {
     if (isPR) {
       // Fetch PR data with all comments and file information
       const prResult = await octokits.graphql<PullRequestQueryResponse>(
         PR_QUERY,
-        {
-          owner,
-          repo,
-          number: parseInt(prNumber),
-        },
+        variables,
       );
 
       if (prResult.repository.pullRequest) {
         const pullRequest = prResult.repository.pullRequest;
+        truncation = await loadAllPullRequestPages(
+          octokits,
+          variables,
+          pullRequest,
+        );
         contextData = pullRequest;
         changedFiles = pullRequest.files.nodes || [];
         comments = filterCommentsByActor(
@@ -271,6 +560,12 @@ export async function fetchGitHubData({
           excludeCommentsByActor,
         );
         reviewData = pullRequest.reviews || [];
+        reviewThreads = filterReviewThreads(
+          pullRequest.reviewThreads?.nodes ?? [],
+          triggerTime,
+          includeCommentsByActor,
+          excludeCommentsByActor,
+        );
 
         console.log(`Successfully fetched PR #${prNumber} data`);
       } else {
@@ -280,14 +575,15 @@ export async function fetchGitHubData({
       // Fetch issue data
       const issueResult = await octokits.graphql<IssueQueryResponse>(
         ISSUE_QUERY,
-        {
-          owner,
-          repo,
-          number: parseInt(prNumber),
-        },
+        variables,
       );
 
       if (issueResult.repository.issue) {
+        truncation = await loadAllIssuePages(
+          octokits,
+          variables,
+          issueResult.repository.issue,
+        );
         contextData = issueResult.repository.issue;
         comments = filterCommentsByActor(
           filterCommentsToTriggerTime(
@@ -308,6 +604,8 @@ export async function fetchGitHubData({
     throw new Error(`Failed to fetch ${isPR ? "PR" : "issue"} data`);
   }
 
+  logTruncation(truncation);
+
   // Compute SHAs for changed files
   let changedFilesWithSHA: GitHubFileWithSHA[] = [];
   if (isPR && changedFiles.length > 0) {
@@ -441,6 +739,12 @@ export async function fetchGitHubData({
     repo,
     allComments,
   );
+  const attachments = await downloadCommentAttachments(
+    octokits,
+    owner,
+    repo,
+    allComments,
+  );
 
   // Fetch trigger user display name if username is provided
   let triggerDisplayName: string | null | undefined;
@@ -448,6 +752,40 @@ export async function fetchGitHubData({
     triggerDisplayName = await fetchUserDisplayName(octokits, triggerUsername);
   }
 
+  // The diff is optional context, so a failure here does not fail the run
+  let diff: FilePatch[] | undefined;
+  if (isPR && includeDiff) {
+    try {
+      diff = await fetchPullRequestPatches(
+        octokits.rest,
+        owner,
+        repo,
+        parseInt(prNumber),
+      );
+    } catch (error) {
+      console.warn(`Failed to fetch diff for PR #${prNumber}:`, error);
+    }
+  }
+
+  // Without the previous run the full context is still there, so a failure
+  // here does not fail the run either
+  let sinceLastRun: SinceLastRun | undefined;
+  if (isPR && lastRunLookup) {
+    try {
+      sinceLastRun = await fetchSinceLastRun(octokits.rest, {
+        owner,
+        repo,
+        prNumber: parseInt(prNumber),
+        ...lastRunLookup,
+      });
+    } catch (error) {
+      console.warn(
+        `Failed to fetch changes since the last run on PR #${prNumber}:`,
+        error,
+      );
+    }
+  }
+
   // Use the original title from the webhook payload if provided
   if (originalTitle !== undefined) {
     contextData.title = originalTitle;
@@ -459,11 +797,114 @@ export async function fetchGitHubData({
     changedFiles,
     changedFilesWithSHA,
     reviewData,
+    reviewThreads,
+    ...(diff && { diff }),
+    ...(sinceLastRun && { sinceLastRun }),
     imageUrlMap,
+    ...(attachments.length > 0 && { attachments }),
     triggerDisplayName,
+    truncation,
   };
 }
 
+type FetchDiscussionParams = {
+  octokits: Octokits;
+  repository: string;
+  discussionNumber: number;
+  triggerTime?: string;
+  includeCommentsByActor?: string;
+  excludeCommentsByActor?: string;
+};
+
+export type FetchDiscussionResult = {
+  discussion: GitHubDiscussion;
+  /** Top-level comments with their replies, filtered like issue comments */
+  comments: GitHubDiscussionComment[];
+  truncation?: ContextTruncation;
+};
+
+/**
+ * Fetches a discussion with its comments and their replies.
+ */
+export async function fetchDiscussionData({
+  octokits,
+  repository,
+  discussionNumber,
+  triggerTime,
+  includeCommentsByActor,
+  excludeCommentsByActor,
+}: FetchDiscussionParams): Promise<FetchDiscussionResult> {
+  const [owner, repo] = repository.split("/");
+  if (!owner || !repo) {
+    throw new Error("Invalid repository format. Expected 'owner/repo'.");
+  }
+
+  const variables = { owner, repo, number: discussionNumber };
+  let discussion: GitHubDiscussion;
+  let truncation: ContextTruncation;
+
+  try {
+    const result = await octokits.graphql<DiscussionQueryResponse>(
+      DISCUSSION_QUERY,
+      variables,
+    );
+    if (!result.repository.discussion) {
+      throw new Error(`Discussion #${discussionNumber} not found`);
+    }
+    discussion = result.repository.discussion;
+
+    truncation = dropEmpty({
+      comments: await loadRemainingPages(
+        octokits,
+        discussion.comments,
+        DISCUSSION_PAGE_QUERIES.comments,
+        variables,
+        (response: DiscussionQueryResponse) =>
+          response.repository.discussion?.comments,
+      ),
+      discussionReplies: await loadRemainingNestedComments(
+        octokits,
+        discussion.comments.nodes,
+        DISCUSSION_REPLIES_PAGE_QUERY,
+        "replies",
+      ),
+    });
+
+    console.log(`Successfully fetched discussion #${discussionNumber} data`);
+  } catch (error) {
+    console.error("Failed to fetch discussion data:", error);
+    throw new Error("Failed to fetch discussion data");
+  }
+
+  logTruncation(truncation);
+
+  // Same TOCTOU protection as issue and PR bodies
+  if (discussion.body && !isBodySafeToUse(discussion, triggerTime)) {
+    console.warn(
+      `Security: Discussion #${discussionNumber} body was edited after the trigger event. ` +
+        `Excluding body content to prevent potential injection attacks.`,
+    );
+    discussion.body = "";
+  }
+
+  const filterComments = <T extends GitHubComment>(comments: T[]): T[] =>
+    filterCommentsByActor(
+      filterCommentsToTriggerTime(comments, triggerTime),
+      includeCommentsByActor,
+      excludeCommentsByActor,
+    );
+
+  const comments = filterComments(discussion.comments.nodes).map((comment) => ({
+    ...comment,
+    replies: {
+      ...comment.replies,
+      nodes: filterComments(comment.replies?.nodes ?? []),
+    },
+  }));
+
+  return { discussion, comments, truncation };
+}
+
 export type UserQueryResponse = {
   user: {
     name: string | null;
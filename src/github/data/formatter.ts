@@ -2,10 +2,14 @@ import type {
   GitHubPullRequest,
   GitHubIssue,
   GitHubComment,
+  GitHubDiscussion,
+  GitHubDiscussionComment,
   GitHubFile,
   GitHubReview,
+  GitHubReviewThread,
 } from "../types";
-import type { GitHubFileWithSHA } from "./fetcher";
+import type { ContextTruncation, GitHubFileWithSHA } from "./fetcher";
+import type { DownloadedAttachment } from "../utils/attachment-downloader";
 import { sanitizeContent } from "../utils/sanitizer";
 
 export function formatContext(
@@ -47,11 +51,27 @@ export function formatBody(
   return processedBody;
 }
 
+/**
+ * Marker appended to a section when items were left out to fit the
+ * context budget.
+ */
+export function formatOmittedMarker(count: number, noun: string): string {
+  return count > 0
+    ? `[${count} ${noun}${count === 1 ? "" : "s"} omitted to fit the context budget]`
+    : "";
+}
+
+function appendMarker(formatted: string, marker: string): string {
+  if (!marker) return formatted;
+  return formatted ? `${formatted}\n\n${marker}` : marker;
+}
+
 export function formatComments(
   comments: GitHubComment[],
   imageUrlMap?: Map<string, string>,
+  omittedCount: number = 0,
 ): string {
-  return comments
+  const formatted = comments
     .filter((comment) => !comment.isMinimized)
     .map((comment) => {
       let body = comment.body;
@@ -67,62 +87,231 @@ export function formatComments(
       return `[${comment.author.login} at ${comment.createdAt}]: ${body}`;
     })
     .join("\n\n");
+
+  return appendMarker(formatted, formatOmittedMarker(omittedCount, "comment"));
 }
 
 export function formatReviewComments(
   reviewData: { nodes: GitHubReview[] } | null,
   imageUrlMap?: Map<string, string>,
+  omitted: {
+    reviews: number;
+    reviewComments: number;
+    reviewThreads?: number;
+  } = {
+    reviews: 0,
+    reviewComments: 0,
+  },
+  reviewThreads: GitHubReviewThread[] = [],
 ): string {
+  const marker = [
+    formatOmittedMarker(omitted.reviews, "review"),
+    formatOmittedMarker(omitted.reviewComments, "inline review comment"),
+    formatOmittedMarker(omitted.reviewThreads ?? 0, "review thread"),
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  // With threads available, inline comments are shown grouped by thread
+  // instead of under the review they were submitted with
+  const useThreads = reviewThreads.length > 0;
+  const formattedThreads = useThreads
+    ? formatReviewThreads(reviewThreads, imageUrlMap)
+    : "";
+
   if (!reviewData || !reviewData.nodes) {
-    return "";
+    return appendMarker(formattedThreads, marker);
   }
 
-  const formattedReviews = reviewData.nodes.map((review) => {
-    let reviewOutput = `[Review by ${review.author.login} at ${review.submittedAt}]: ${review.state}`;
+  const formattedReviews = reviewData.nodes
+    .filter((review) => !useThreads || review.body?.trim())
+    .map((review) => {
+      let reviewOutput = `[Review by ${review.author.login} at ${review.submittedAt}]: ${review.state}`;
 
-    if (review.body && review.body.trim()) {
-      let body = review.body;
+      if (review.body && review.body.trim()) {
+        let body = review.body;
 
-      if (imageUrlMap) {
-        for (const [originalUrl, localPath] of imageUrlMap) {
-          body = body.replaceAll(originalUrl, localPath);
+        if (imageUrlMap) {
+          for (const [originalUrl, localPath] of imageUrlMap) {
+            body = body.replaceAll(originalUrl, localPath);
+          }
         }
+
+        const sanitizedBody = sanitizeContent(body);
+        reviewOutput += `\n${sanitizedBody}`;
       }
 
-      const sanitizedBody = sanitizeContent(body);
-      reviewOutput += `\n${sanitizedBody}`;
-    }
+      if (
+        !useThreads &&
+        review.comments &&
+        review.comments.nodes &&
+        review.comments.nodes.length > 0
+      ) {
+        const comments = review.comments.nodes
+          .filter((comment) => !comment.isMinimized)
+          .map((comment) => {
+            let body = comment.body;
 
-    if (
-      review.comments &&
-      review.comments.nodes &&
-      review.comments.nodes.length > 0
-    ) {
-      const comments = review.comments.nodes
-        .filter((comment) => !comment.isMinimized)
-        .map((comment) => {
-          let body = comment.body;
-
-          if (imageUrlMap) {
-            for (const [originalUrl, localPath] of imageUrlMap) {
-              body = body.replaceAll(originalUrl, localPath);
+            if (imageUrlMap) {
+              for (const [originalUrl, localPath] of imageUrlMap) {
+                body = body.replaceAll(originalUrl, localPath);
+              }
             }
-          }
 
-          body = sanitizeContent(body);
+            body = sanitizeContent(body);
+
+            return `  [Comment on ${comment.path}:${comment.line || "?"}]: ${body}`;
+          })
+          .join("\n");
+        if (comments) {
+          reviewOutput += `\n${comments}`;
+        }
+      }
+
+      return reviewOutput;
+    });
+
+  const formatted = [formattedReviews.join("\n\n"), formattedThreads]
+    .filter(Boolean)
+    .join("\n\n");
+  return appendMarker(formatted, marker);
+}
+
+// Lines of diff context shown above each open thread
+const THREAD_DIFF_HUNK_LINES = 6;
+
+export type ReviewThreadState = "unresolved" | "outdated" | "resolved";
+
+/**
+ * Resolved wins over outdated: a resolved thread needs no attention whether
+ * or not the code has moved on.
+ */
+export function getReviewThreadState(
+  thread: GitHubReviewThread,
+): ReviewThreadState {
+  if (thread.isResolved) return "resolved";
+  if (thread.isOutdated) return "outdated";
+  return "unresolved";
+}
+
+function formatThreadLocation(thread: GitHubReviewThread): string {
+  const line = thread.line ?? thread.originalLine;
+  if (line === null) {
+    return thread.path;
+  }
+  const range =
+    thread.startLine && thread.startLine !== line
+      ? `${thread.startLine}-${line}`
+      : `${line}`;
+  return `${thread.path}:${range}${thread.line === null ? " (original)" : ""}`;
+}
+
+function formatThread(
+  thread: GitHubReviewThread,
+  imageUrlMap: Map<string, string> | undefined,
+  full: boolean,
+): string {
+  const comments = (thread.comments?.nodes ?? []).filter(
+    (comment) => !comment.isMinimized,
+  );
+  let output = `[Thread ${thread.id} on ${formatThreadLocation(thread)}]`;
 
-          return `  [Comment on ${comment.path}:${comment.line || "?"}]: ${body}`;
-        })
-        .join("\n");
-      if (comments) {
-        reviewOutput += `\n${comments}`;
+  const diffHunk = comments[0]?.diffHunk;
+  if (full && diffHunk) {
+    const hunk = diffHunk.split("\n").slice(-THREAD_DIFF_HUNK_LINES).join("\n");
+    output += `\n\`\`\`diff\n${sanitizeContent(hunk)}\n\`\`\``;
+  }
+
+  const shown = full ? comments : comments.slice(0, 1);
+  for (const comment of shown) {
+    let body = comment.body;
+    if (imageUrlMap) {
+      for (const [originalUrl, localPath] of imageUrlMap) {
+        body = body.replaceAll(originalUrl, localPath);
       }
     }
+    output += `\n  [${comment.author.login} at ${comment.createdAt}]: ${sanitizeContent(body)}`;
+  }
+  if (comments.length > shown.length) {
+    const replies = comments.length - shown.length;
+    output += `\n  (${replies} more ${replies === 1 ? "reply" : "replies"})`;
+  }
 
-    return reviewOutput;
-  });
+  return output;
+}
+
+/**
+ * Formats review threads grouped by state. Open and outdated threads show
+ * the end of their diff hunk and every reply; resolved threads show only
+ * their first comment.
+ */
+export function formatReviewThreads(
+  threads: GitHubReviewThread[],
+  imageUrlMap?: Map<string, string>,
+): string {
+  const groups: Array<[ReviewThreadState, string]> = [
+    ["unresolved", "Unresolved review threads (still need attention):"],
+    [
+      "outdated",
+      "Outdated review threads (the code has changed since; check whether they still apply):",
+    ],
+    [
+      "resolved",
+      "Resolved review threads (already addressed; do not act on them unless asked):",
+    ],
+  ];
+
+  return groups
+    .map(([state, heading]) => {
+      const matching = threads.filter(
+        (thread) => getReviewThreadState(thread) === state,
+      );
+      if (matching.length === 0) {
+        return "";
+      }
+      const formatted = matching.map((thread) =>
+        formatThread(thread, imageUrlMap, state !== "resolved"),
+      );
+      return `${heading}\n\n${formatted.join("\n\n")}`;
+    })
+    .filter(Boolean)
+    .join("\n\n");
+}
 
-  return formattedReviews.join("\n\n");
+export function formatDiscussionContext(discussion: GitHubDiscussion): string {
+  const { category } = discussion;
+  return `Discussion Title: ${sanitizeContent(discussion.title)}
+Discussion Author: ${discussion.author.login}
+Discussion Category: ${sanitizeContent(category.name)}${category.isAnswerable ? " (answers can be marked)" : ""}
+Answered: ${discussion.answer ? "yes" : "no"}`;
+}
+
+function formatDiscussionEntry(comment: GitHubComment): string {
+  return `[${comment.author.login} at ${comment.createdAt}] (id: ${comment.id}): ${sanitizeContent(comment.body)}`;
+}
+
+/**
+ * Formats discussion comments with their replies indented below them. Each
+ * entry carries its node ID so replies and answers can refer to it.
+ */
+export function formatDiscussionComments(
+  comments: GitHubDiscussionComment[],
+): string {
+  return comments
+    .filter((comment) => !comment.isMinimized)
+    .map((comment) => {
+      let output = formatDiscussionEntry(comment);
+      if (comment.isAnswer) {
+        output = `[Marked as answer] ${output}`;
+      }
+      for (const reply of comment.replies?.nodes ?? []) {
+        if (!reply.isMinimized) {
+          output += `\n  ${formatDiscussionEntry(reply)}`;
+        }
+      }
+      return output;
+    })
+    .join("\n\n");
 }
 
 export function formatChangedFiles(changedFiles: GitHubFile[]): string {
@@ -136,11 +325,63 @@ export function formatChangedFiles(changedFiles: GitHubFile[]): string {
 
 export function formatChangedFilesWithSHA(
   changedFiles: GitHubFileWithSHA[],
+  omittedCount: number = 0,
 ): string {
-  return changedFiles
+  const formatted = changedFiles
     .map(
       (file) =>
         `- ${file.path} (${file.changeType}) +${file.additions}/-${file.deletions} SHA: ${file.sha}`,
     )
     .join("\n");
+
+  return appendMarker(
+    formatted,
+    formatOmittedMarker(omittedCount, "changed file"),
+  );
+}
+
+export function formatAttachments(attachments: DownloadedAttachment[]): string {
+  return attachments
+    .map((attachment) => {
+      const details = [
+        attachment.localPath && `saved to ${attachment.localPath}`,
+        attachment.textPath && `text extracted to ${attachment.textPath}`,
+        attachment.extractedDir &&
+          `${attachment.extractedFiles} files extracted to ${attachment.extractedDir}`,
+        attachment.note,
+      ].filter(Boolean);
+      return `- ${attachment.name} (from ${attachment.source}): ${details.join("; ")}`;
+    })
+    .join("\n");
+}
+
+const TRUNCATION_LABELS: Record<keyof ContextTruncation, string> = {
+  labels: "labels",
+  commits: "commits",
+  files: "changed files",
+  comments: "comments",
+  reviews: "reviews",
+  reviewComments: "inline review comments",
+  reviewThreads: "review threads",
+  reviewThreadComments: "review thread comments",
+  discussionReplies: "discussion replies",
+};
+
+export function formatTruncationNotice(
+  truncation: ContextTruncation | undefined,
+): string {
+  const entries = Object.entries(truncation ?? {}) as Array<
+    [keyof ContextTruncation, { fetched: number; totalCount: number }]
+  >;
+  if (entries.length === 0) {
+    return "";
+  }
+
+  const lines = entries.map(
+    ([name, { fetched, totalCount }]) =>
+      `- Only ${fetched} of ${totalCount} ${TRUNCATION_LABELS[name]} are included above.`,
+  );
+  return `Some data was capped because it was too large to fetch in full:
+${lines.join("\n")}
+Keep in mind that the context above is incomplete.`;
 }
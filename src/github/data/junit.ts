@@ -0,0 +1,130 @@
+import { parseXml, type XmlElement } from "../utils/xml";
+
+/** Lines of a failure's output kept; the top of a stack trace matters most */
+const MAX_DETAILS_LINES = 30;
+
+export type JUnitFailedCase = {
+  /** Name of the enclosing test suite */
+  suite?: string;
+  classname?: string;
+  name: string;
+  file?: string;
+  line?: number;
+  kind: "failure" | "error";
+  message?: string;
+  /** The failure's output, usually an assertion diff or a stack trace */
+  details?: string;
+};
+
+export type JUnitSummary = {
+  tests: number;
+  failures: number;
+  errors: number;
+  skipped: number;
+  failedCases: JUnitFailedCase[];
+};
+
+/**
+ * Checks whether an XML document is a JUnit report, from its root element.
+ */
+export function isJUnitReport(root: XmlElement): boolean {
+  return root.name === "testsuites" || root.name === "testsuite";
+}
+
+/**
+ * Parses a JUnit XML report and summarizes its failed test cases. The
+ * counts come from the test cases themselves, since runners disagree on
+ * the counting attributes of test suites.
+ * @throws When the document is not well-formed XML or not a JUnit report
+ */
+export function parseJUnitReport(xml: string): JUnitSummary {
+  const root = parseXml(xml);
+  if (!isJUnitReport(root)) {
+    throw new Error(
+      `Not a JUnit report: the root element is <${root.name}>, not <testsuites> or <testsuite>`,
+    );
+  }
+
+  const summary: JUnitSummary = {
+    tests: 0,
+    failures: 0,
+    errors: 0,
+    skipped: 0,
+    failedCases: [],
+  };
+  collectTestCases(root, {}, summary);
+  return summary;
+}
+
+function collectTestCases(
+  element: XmlElement,
+  suite: { name?: string; file?: string },
+  summary: JUnitSummary,
+): void {
+  if (element.name === "testsuite") {
+    suite = {
+      name: element.attributes.name || suite.name,
+      file:
+        element.attributes.file || element.attributes.filepath || suite.file,
+    };
+  }
+
+  for (const child of element.children) {
+    if (child.name === "testcase") {
+      addTestCase(child, suite, summary);
+    } else {
+      collectTestCases(child, suite, summary);
+    }
+  }
+}
+
+function addTestCase(
+  testCase: XmlElement,
+  suite: { name?: string; file?: string },
+  summary: JUnitSummary,
+): void {
+  summary.tests++;
+
+  const outcome = testCase.children.find(
+    (child) => child.name === "failure" || child.name === "error",
+  );
+  if (!outcome) {
+    if (testCase.children.some((child) => child.name === "skipped")) {
+      summary.skipped++;
+    }
+    return;
+  }
+
+  const kind = outcome.name as JUnitFailedCase["kind"];
+  summary[kind === "failure" ? "failures" : "errors"]++;
+
+  const { attributes } = testCase;
+  const line = parseInt(attributes.line ?? "", 10);
+  const details = truncateDetails(outcome.text.trim());
+  const message =
+    outcome.attributes.message?.trim() || details?.split("\n")[0]?.trim();
+
+  summary.failedCases.push({
+    ...(suite.name && { suite: suite.name }),
+    ...(attributes.classname && { classname: attributes.classname }),
+    name: attributes.name || "(unnamed)",
+    ...((attributes.file || suite.file) && {
+      file: attributes.file || suite.file,
+    }),
+    ...(!Number.isNaN(line) && { line }),
+    kind,
+    ...(message && { message }),
+    ...(details && { details }),
+  });
+}
+
+function truncateDetails(details: string): string | undefined {
+  if (!details) {
+    return undefined;
+  }
+  const lines = details.split(/\r?\n/);
+  if (lines.length <= MAX_DETAILS_LINES) {
+    return details;
+  }
+  return `${lines.slice(0, MAX_DETAILS_LINES).join("\n")}\n… [${lines.length - MAX_DETAILS_LINES} more lines]`;
+}
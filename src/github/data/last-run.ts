@@ -0,0 +1,304 @@
+import type { Octokit } from "@octokit/rest";
+import { sanitizeContent } from "../utils/sanitizer";
+import { isPullRequestEvent, type ParsedGitHubContext } from "../context";
+import { isClaudeComment } from "../operations/comments/common";
+
+/**
+ * Hidden marker recording the head commit a run looked at. It is appended
+ * to the tracking comment when the run finishes.
+ */
+const LAST_RUN_MARKER_PATTERN = /<!-- claude-last-run: ([0-9a-f]{7,40}) -->/g;
+
+/** Most commits and replies listed in the "since last run" section */
+const MAX_LISTED_COMMITS = 50;
+const MAX_LISTED_REPLIES = 20;
+
+export type GitHubUserLike = {
+  id: number;
+  login: string;
+  type?: string;
+} | null;
+
+/**
+ * A previous run on the pull request and the commit it saw.
+ */
+export type LastRun = {
+  sha: string;
+  at: string;
+  /** Where the run was found, e.g. "comment 123" or "review 456" */
+  source: string;
+};
+
+export type SinceLastRun = {
+  lastRun: LastRun;
+  headSha: string;
+  /** True when the branch was force-pushed or rebased since the last run */
+  rewritten: boolean;
+  commits: { sha: string; message: string; author: string }[];
+  /** Commits pushed since the last run beyond those listed */
+  omittedCommits: number;
+  files: {
+    path: string;
+    status: string;
+    additions: number;
+    deletions: number;
+  }[];
+  replies: {
+    author: string;
+    body: string;
+    createdAt: string;
+    /** Set for replies in inline review threads */
+    path?: string;
+  }[];
+};
+
+/**
+ * What is needed to look up the previous run on a pull request.
+ */
+export type LastRunLookup = {
+  headSha: string;
+  botName: string;
+};
+
+/**
+ * Returns the lookup for pull_request synchronize events when
+ * incremental_context is enabled, and undefined otherwise.
+ */
+export function getLastRunLookup(
+  context: ParsedGitHubContext,
+): LastRunLookup | undefined {
+  if (
+    !context.inputs.incrementalContext ||
+    !isPullRequestEvent(context) ||
+    context.eventAction !== "synchronize"
+  ) {
+    return undefined;
+  }
+  return {
+    headSha: context.payload.pull_request.head.sha,
+    botName: context.inputs.botName,
+  };
+}
+
+export function formatLastRunMarker(sha: string): string {
+  return `<!-- claude-last-run: ${sha} -->`;
+}
+
+export function stripLastRunMarkers(body: string): string {
+  return body.replace(LAST_RUN_MARKER_PATTERN, "").trim();
+}
+
+/**
+ * Finds the most recent previous run from its tracking comment marker or,
+ * failing that, from the commit of the latest review Claude submitted.
+ * Markers are only trusted from Claude's own comments, since anyone can
+ * write an HTML comment and any workflow can comment as a bot.
+ */
+export function findLastRun(
+  comments: {
+    id: number;
+    body?: string | null;
+    user: GitHubUserLike;
+    updated_at: string;
+  }[],
+  reviews: {
+    id: number;
+    commit_id: string | null;
+    user: GitHubUserLike;
+    submitted_at?: string | null;
+  }[],
+  botName: string,
+): LastRun | undefined {
+  const candidates: LastRun[] = [];
+
+  for (const comment of comments) {
+    if (!isClaudeComment(comment.user, botName) || !comment.body) continue;
+    const markers = [...comment.body.matchAll(LAST_RUN_MARKER_PATTERN)];
+    const sha = markers[markers.length - 1]?.[1];
+    if (sha) {
+      candidates.push({
+        sha,
+        at: comment.updated_at,
+        source: `comment ${comment.id}`,
+      });
+    }
+  }
+
+  for (const review of reviews) {
+    if (
+      review.commit_id &&
+      review.submitted_at &&
+      isClaudeComment(review.user, botName)
+    ) {
+      candidates.push({
+        sha: review.commit_id,
+        at: review.submitted_at,
+        source: `review ${review.id}`,
+      });
+    }
+  }
+
+  return candidates.sort(
+    (a, b) => new Date(b.at).getTime() - new Date(a.at).getTime(),
+  )[0];
+}
+
+/**
+ * Collects what changed on a pull request since Claude last ran on it: the
+ * commits pushed, the files they touched and the replies to Claude's
+ * comments.
+ * @returns undefined if there is no previous run or it saw the current head
+ */
+export async function fetchSinceLastRun(
+  rest: Octokit,
+  {
+    owner,
+    repo,
+    prNumber,
+    headSha,
+    botName,
+  }: LastRunLookup & { owner: string; repo: string; prNumber: number },
+): Promise<SinceLastRun | undefined> {
+  const [issueComments, reviews] = await Promise.all([
+    rest.paginate(rest.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number: prNumber,
+      per_page: 100,
+    }),
+    rest.paginate(rest.rest.pulls.listReviews, {
+      owner,
+      repo,
+      pull_number: prNumber,
+      per_page: 100,
+    }),
+  ]);
+
+  const lastRun = findLastRun(issueComments, reviews, botName);
+  if (!lastRun || lastRun.sha === headSha) {
+    return undefined;
+  }
+
+  const [{ data: comparison }, reviewComments] = await Promise.all([
+    rest.rest.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${lastRun.sha}...${headSha}`,
+    }),
+    rest.paginate(rest.rest.pulls.listReviewComments, {
+      owner,
+      repo,
+      pull_number: prNumber,
+      per_page: 100,
+    }),
+  ]);
+
+  const since = new Date(lastRun.at).getTime();
+  const isNew = (createdAt: string) => new Date(createdAt).getTime() > since;
+  // Replies point at the first comment of their thread
+  const claudeThreadIds = new Set(
+    reviewComments
+      .filter((comment) => isClaudeComment(comment.user, botName))
+      .map((comment) => comment.in_reply_to_id ?? comment.id),
+  );
+
+  const replies: SinceLastRun["replies"] = [
+    ...issueComments
+      .filter(
+        (comment) =>
+          isNew(comment.created_at) && !isClaudeComment(comment.user, botName),
+      )
+      .map((comment) => ({
+        author: comment.user?.login ?? "ghost",
+        body: comment.body ?? "",
+        createdAt: comment.created_at,
+      })),
+    ...reviewComments
+      .filter(
+        (comment) =>
+          isNew(comment.created_at) &&
+          !isClaudeComment(comment.user, botName) &&
+          comment.in_reply_to_id !== undefined &&
+          claudeThreadIds.has(comment.in_reply_to_id),
+      )
+      .map((comment) => ({
+        author: comment.user?.login ?? "ghost",
+        body: comment.body,
+        createdAt: comment.created_at,
+        path: comment.path,
+      })),
+  ].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+  );
+
+  // The comparison lists commits oldest first; keep the newest
+  const commits = comparison.commits.slice(-MAX_LISTED_COMMITS);
+
+  return {
+    lastRun,
+    headSha,
+    rewritten: comparison.status === "diverged",
+    commits: commits.map((commit) => ({
+      sha: commit.sha,
+      message: commit.commit.message.split("\n")[0] ?? "",
+      author: commit.author?.login ?? commit.commit.author?.name ?? "unknown",
+    })),
+    omittedCommits: comparison.total_commits - commits.length,
+    files: (comparison.files ?? []).map((file) => ({
+      path: file.filename,
+      status: file.status,
+      additions: file.additions,
+      deletions: file.deletions,
+    })),
+    replies: replies.slice(-MAX_LISTED_REPLIES),
+  };
+}
+
+/**
+ * Formats the changes since the last run for the prompt.
+ */
+export function formatSinceLastRun(sinceLastRun: SinceLastRun): string {
+  const { lastRun, headSha, rewritten, commits, files, replies } = sinceLastRun;
+  const sections = [
+    `Claude last ran on this pull request at ${lastRun.at}, on commit ${lastRun.sha.slice(0, 7)}. The head is now ${headSha.slice(0, 7)}.`,
+  ];
+
+  if (rewritten) {
+    sections.push(
+      "The branch was force-pushed or rebased since then, so some of the commits below may already have been reviewed.",
+    );
+  }
+
+  const commitLines = commits.map(
+    (commit) =>
+      `- ${commit.sha.slice(0, 7)} ${sanitizeContent(commit.message)} (${commit.author})`,
+  );
+  if (sinceLastRun.omittedCommits > 0) {
+    commitLines.unshift(`- [${sinceLastRun.omittedCommits} older commits]`);
+  }
+  sections.push(`New commits:\n${commitLines.join("\n") || "None"}`);
+
+  sections.push(
+    `Files changed by these commits:\n${
+      files
+        .map(
+          (file) =>
+            `- ${file.path} (${file.status}) +${file.additions}/-${file.deletions}`,
+        )
+        .join("\n") || "None"
+    }`,
+  );
+
+  if (replies.length > 0) {
+    sections.push(
+      `Replies since the last run:\n${replies
+        .map(
+          (reply) =>
+            `[${reply.author} at ${reply.createdAt}${reply.path ? ` on ${reply.path}` : ""}]: ${sanitizeContent(reply.body)}`,
+        )
+        .join("\n\n")}`,
+    );
+  }
+
+  return sections.join("\n\n");
+}
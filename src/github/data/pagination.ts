@@ -0,0 +1,56 @@
+import type { GitHubConnection } from "../types";
+
+/**
+ * Upper bound on pages fetched for a single connection. At 100 nodes per
+ * page this matches the 3000 file limit GitHub applies to pull request diffs.
+ */
+export const MAX_CONNECTION_PAGES = 30;
+
+/**
+ * A connection that still had more nodes when paging stopped.
+ */
+export type TruncatedConnection = {
+  fetched: number;
+  totalCount: number;
+};
+
+export type PaginatedConnection<T> = {
+  nodes: T[];
+  truncated?: TruncatedConnection;
+};
+
+/**
+ * Follows a connection's cursor until every node has been loaded or
+ * maxPages pages have been fetched.
+ * @param initial The first page, as returned by the main query
+ * @param fetchPage Loads the page after the given cursor
+ * @returns All nodes, plus truncation details if paging stopped early
+ */
+export async function paginateConnection<T>(
+  initial: GitHubConnection<T>,
+  fetchPage: (cursor: string) => Promise<GitHubConnection<T>>,
+  maxPages: number = MAX_CONNECTION_PAGES,
+): Promise<PaginatedConnection<T>> {
+  const nodes = [...(initial.nodes ?? [])];
+  let pageInfo = initial.pageInfo;
+  let pages = 1;
+
+  while (pageInfo?.hasNextPage && pageInfo.endCursor) {
+    if (pages >= maxPages) {
+      return {
+        nodes,
+        truncated: {
+          fetched: nodes.length,
+          totalCount: Math.max(initial.totalCount ?? 0, nodes.length),
+        },
+      };
+    }
+
+    const page = await fetchPage(pageInfo.endCursor);
+    nodes.push(...(page.nodes ?? []));
+    pageInfo = page.pageInfo;
+    pages++;
+  }
+
+  return { nodes };
+}
@@ -0,0 +1,172 @@
+/**
+ * Parser for SARIF 2.1.0 logs, as written by CodeQL, ESLint, Semgrep and
+ * most other static analysis tools.
+ */
+
+export type SarifLevel = "error" | "warning" | "note";
+
+export type SarifResult = {
+  /** Name of the tool that reported the result */
+  tool: string;
+  ruleId?: string;
+  level: SarifLevel;
+  message: string;
+  /** The artifact URI, as written in the log */
+  file?: string;
+  line?: number;
+  column?: number;
+};
+
+export type SarifSummary = {
+  results: SarifResult[];
+  /** Results left out because they were suppressed or not problems */
+  ignored: number;
+};
+
+type SarifRule = {
+  id?: string;
+  shortDescription?: { text?: string };
+  messageStrings?: Record<string, { text?: string }>;
+  defaultConfiguration?: { level?: string };
+};
+
+type SarifLog = {
+  version?: string;
+  runs?: {
+    tool?: {
+      driver?: { name?: string; rules?: SarifRule[] };
+    };
+    originalUriBaseIds?: Record<string, { uri?: string }>;
+    results?: {
+      ruleId?: string;
+      ruleIndex?: number;
+      rule?: { id?: string; index?: number };
+      kind?: string;
+      level?: string;
+      message?: { text?: string; id?: string; arguments?: string[] };
+      locations?: {
+        physicalLocation?: {
+          artifactLocation?: { uri?: string; uriBaseId?: string };
+          region?: { startLine?: number; startColumn?: number };
+        };
+      }[];
+      suppressions?: { status?: string }[];
+      baselineState?: string;
+    }[];
+  }[];
+};
+
+const LEVELS: SarifLevel[] = ["error", "warning", "note"];
+
+/**
+ * Checks whether parsed JSON looks like a SARIF log.
+ */
+export function isSarifLog(value: unknown): boolean {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Array.isArray((value as SarifLog).runs) &&
+    typeof (value as SarifLog).version === "string"
+  );
+}
+
+/**
+ * Parses a SARIF log into its results. Results that are suppressed, fixed
+ * since the baseline, or not problems (kind "pass", "informational", ...)
+ * are left out, as are results with level "none".
+ * @throws When the text is not JSON or not a SARIF log
+ */
+export function parseSarifReport(text: string): SarifSummary {
+  const log = JSON.parse(text) as SarifLog;
+  if (!isSarifLog(log)) {
+    throw new Error("Not a SARIF log: expected a version and a runs array");
+  }
+
+  const summary: SarifSummary = { results: [], ignored: 0 };
+  for (const run of log.runs!) {
+    const tool = run.tool?.driver?.name || "unknown tool";
+    const rules = run.tool?.driver?.rules ?? [];
+
+    for (const result of run.results ?? []) {
+      const ruleIndex = result.ruleIndex ?? result.rule?.index;
+      const rule =
+        (ruleIndex !== undefined ? rules[ruleIndex] : undefined) ??
+        rules.find((candidate) => candidate.id === result.ruleId);
+      const ruleId = result.ruleId ?? result.rule?.id ?? rule?.id;
+
+      const level = result.level ?? rule?.defaultConfiguration?.level;
+      const isProblem = !result.kind || result.kind === "fail";
+      const isSuppressed = (result.suppressions ?? []).some(
+        (suppression) => suppression.status !== "rejected",
+      );
+      if (
+        !isProblem ||
+        isSuppressed ||
+        result.baselineState === "absent" ||
+        level === "none"
+      ) {
+        summary.ignored++;
+        continue;
+      }
+
+      const location = result.locations?.[0]?.physicalLocation;
+      const uri = location?.artifactLocation?.uri;
+      const baseUri = location?.artifactLocation?.uriBaseId
+        ? run.originalUriBaseIds?.[location.artifactLocation.uriBaseId]?.uri
+        : undefined;
+
+      summary.results.push({
+        tool,
+        ...(ruleId && { ruleId }),
+        level: LEVELS.includes(level as SarifLevel)
+          ? (level as SarifLevel)
+          : "warning",
+        message: getMessage(result.message, rule) || ruleId || "(no message)",
+        ...(uri && { file: resolveUri(uri, baseUri) }),
+        ...(location?.region?.startLine !== undefined && {
+          line: location.region.startLine,
+        }),
+        ...(location?.region?.startColumn !== undefined && {
+          column: location.region.startColumn,
+        }),
+      });
+    }
+  }
+  return summary;
+}
+
+/**
+ * Reads a result's message, which is either inline or one of the rule's
+ * message strings with {0}-style placeholders.
+ */
+function getMessage(
+  message: { text?: string; id?: string; arguments?: string[] } | undefined,
+  rule: SarifRule | undefined,
+): string | undefined {
+  const text =
+    message?.text ??
+    (message?.id ? rule?.messageStrings?.[message.id]?.text : undefined) ??
+    rule?.shortDescription?.text;
+  return text
+    ?.replace(/\{(\d+)\}/g, (placeholder, index: string) => {
+      return message?.arguments?.[parseInt(index, 10)] ?? placeholder;
+    })
+    .trim();
+}
+
+function resolveUri(uri: string, baseUri: string | undefined): string {
+  const decoded = decodeUri(uri);
+  if (/^[a-z][a-z0-9+.-]*:/i.test(decoded) || !baseUri) {
+    return decoded;
+  }
+  const base = decodeUri(baseUri);
+  return base.endsWith("/") ? `${base}${decoded}` : `${base}/${decoded}`;
+}
+
+function decodeUri(uri: string): string {
+  try {
+    return decodeURIComponent(uri);
+  } catch {
+    return uri;
+  }
+}
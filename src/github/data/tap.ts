@@ -0,0 +1,317 @@
+/**
+ * Parser for TAP (Test Anything Protocol) output, as written by node:test,
+ * node-tap, prove and bats. Subtests are read from indented test points,
+ * and failure details from the YAML diagnostics that follow a test point.
+ */
+
+/** Lines of a failure's diagnostics kept */
+const MAX_DETAILS_LINES = 30;
+
+const TEST_POINT_PATTERN =
+  /^(\s*)(not )?ok\b(?:\s+(\d+))?(?:\s*-)?\s*(.*?)\s*$/;
+const DIRECTIVE_PATTERN = /\s+#\s*(SKIP|TODO)\b\S*\s*(.*)$/i;
+/** A file:line:column location, as in stack traces */
+const LOCATION_PATTERN = /^(.+?):(\d+)(?::(\d+))?$/;
+
+export type TapFailedTest = {
+  name: string;
+  /** Names of the enclosing tests, outermost first */
+  parents: string[];
+  file?: string;
+  line?: number;
+  column?: number;
+  message?: string;
+  /** The test point's YAML diagnostics */
+  details?: string;
+};
+
+export type TapSummary = {
+  tests: number;
+  failures: number;
+  skipped: number;
+  failedTests: TapFailedTest[];
+  /** Reason given with "Bail out!", when the run was aborted */
+  bailOut?: string;
+};
+
+type Diagnostics = {
+  message?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Set by node:test on a test that only failed because a subtest did */
+  subtestsFailed: boolean;
+  text: string;
+};
+
+/**
+ * Checks whether text looks like TAP output.
+ */
+export function isTapReport(text: string): boolean {
+  return /^(?:TAP version \d+|1\.\.\d+|(?:not )?ok\b)/m.test(text);
+}
+
+/**
+ * Parses TAP output and summarizes its failed tests. TODO tests don't
+ * count as failures, and a test that only failed because one of its
+ * subtests did is left out in favor of the subtest.
+ * @throws When the text has no test points or plan
+ */
+export function parseTapReport(text: string): TapSummary {
+  const lines = text.split(/\r?\n/);
+  const summary: TapSummary = {
+    tests: 0,
+    failures: 0,
+    skipped: 0,
+    failedTests: [],
+  };
+  // Subtest names by indentation, from "# Subtest:" comments
+  const subtests: { indent: number; name: string }[] = [];
+  let sawTap = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!;
+
+    const subtest = line.match(/^(\s*)# Subtest: (.*)$/);
+    if (subtest) {
+      const indent = subtest[1]!.length;
+      popSubtests(subtests, indent);
+      subtests.push({ indent, name: subtest[2]!.trim() });
+      continue;
+    }
+
+    // bats points at the failed test in a comment after it
+    const batsLocation = line.match(
+      /^\s*# \(in test file (.+), line (\d+)\)\s*$/,
+    );
+    const lastFailure = summary.failedTests[summary.failedTests.length - 1];
+    if (batsLocation && lastFailure && !lastFailure.file) {
+      lastFailure.file = batsLocation[1]!;
+      lastFailure.line = parseInt(batsLocation[2]!, 10);
+      continue;
+    }
+
+    const bailOut = line.match(/^\s*Bail out!\s*(.*)$/);
+    if (bailOut) {
+      summary.bailOut = bailOut[1] || "Bail out!";
+      sawTap = true;
+      continue;
+    }
+
+    if (/^\s*(?:TAP version \d+|1\.\.\d+)/.test(line)) {
+      sawTap = true;
+      continue;
+    }
+
+    const point = line.match(TEST_POINT_PATTERN);
+    if (!point) {
+      continue;
+    }
+    sawTap = true;
+
+    const indent = point[1]!.length;
+    const failed = !!point[2];
+    let name = point[4]!;
+    let directive: string | undefined;
+    const directiveMatch = name.match(DIRECTIVE_PATTERN);
+    if (directiveMatch) {
+      directive = directiveMatch[1]!.toUpperCase();
+      name = name.slice(0, directiveMatch.index).trim();
+    }
+
+    // node:test announces subtests at the indentation of their points, and
+    // closes the parent with a point one level up
+    popSubtests(subtests, indent + 1);
+    const parents = subtests
+      .filter((entry) => entry.indent < indent)
+      .map((entry) => entry.name);
+    if (subtests[subtests.length - 1]?.indent === indent) {
+      subtests.pop();
+    }
+
+    const diagnostics = readDiagnostics(lines, index + 1, indent);
+    if (diagnostics) {
+      index = diagnostics.end;
+    }
+
+    summary.tests++;
+    if (directive === "SKIP") {
+      summary.skipped++;
+      continue;
+    }
+    if (!failed || directive === "TODO") {
+      continue;
+    }
+    if (diagnostics?.value.subtestsFailed) {
+      continue;
+    }
+
+    summary.failures++;
+    const {
+      message,
+      file,
+      line: lineNumber,
+      column,
+      text: details,
+    } = diagnostics?.value ?? { text: "" };
+    summary.failedTests.push({
+      name: name || "(unnamed)",
+      parents,
+      ...(file && { file }),
+      ...(lineNumber !== undefined && { line: lineNumber }),
+      ...(column !== undefined && { column }),
+      ...(message && { message }),
+      ...(details && { details: truncateDetails(details) }),
+    });
+  }
+
+  if (!sawTap) {
+    throw new Error("Not a TAP report: no test points or plan found");
+  }
+  return summary;
+}
+
+function popSubtests(
+  subtests: { indent: number; name: string }[],
+  indent: number,
+): void {
+  while (
+    subtests.length > 0 &&
+    subtests[subtests.length - 1]!.indent >= indent
+  ) {
+    subtests.pop();
+  }
+}
+
+/**
+ * Reads the YAML block (between "---" and "...") that may follow a test
+ * point. Only the fields that locate and explain a failure are picked out;
+ * the rest is kept as text.
+ */
+function readDiagnostics(
+  lines: string[],
+  start: number,
+  pointIndent: number,
+): { value: Diagnostics; end: number } | undefined {
+  const opening = lines[start]?.match(/^(\s*)---\s*$/);
+  if (!opening || opening[1]!.length < pointIndent) {
+    return undefined;
+  }
+  const blockIndent = opening[1]!.length;
+
+  let end = start + 1;
+  const body: string[] = [];
+  for (; end < lines.length; end++) {
+    if (/^\s*\.\.\.\s*$/.test(lines[end]!)) {
+      break;
+    }
+    body.push(lines[end]!.slice(Math.min(blockIndent, indentOf(lines[end]!))));
+  }
+
+  const value: Diagnostics = { subtestsFailed: false, text: body.join("\n") };
+  const fields = readTopLevelFields(body);
+
+  value.message = fields.message ?? fields.error;
+  value.subtestsFailed = fields.failureType === "subtestsFailed";
+
+  // node:test writes "location: 'file:line:column'"; node-tap writes "at:"
+  // either inline or as a map of file, line and column
+  const location = (fields.location ?? fields.at)?.match(LOCATION_PATTERN);
+  if (location) {
+    value.file = location[1]!;
+    value.line = parseInt(location[2]!, 10);
+    if (location[3]) {
+      value.column = parseInt(location[3], 10);
+    }
+  } else {
+    const nested = readNestedFields(body, "at");
+    if (nested.file) {
+      value.file = nested.file;
+      value.line = nested.line ? parseInt(nested.line, 10) : undefined;
+      value.column = nested.column ? parseInt(nested.column, 10) : undefined;
+    }
+  }
+  if (!value.file && fields.file) {
+    value.file = fields.file;
+    value.line = fields.line ? parseInt(fields.line, 10) : undefined;
+  }
+
+  return { value, end };
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Reads the "key: value" fields at the top level of a YAML block. Only the
+ * first line of a block scalar is kept, and nested maps are left out.
+ */
+function readTopLevelFields(body: string[]): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const baseIndent = Math.min(
+    ...body.filter((line) => line.trim()).map(indentOf),
+  );
+  body.forEach((line, index) => {
+    if (indentOf(line) !== baseIndent) {
+      return;
+    }
+    const field = line.match(/^\s*([\w-]+):\s*(.*)$/);
+    if (!field || !field[2]) {
+      return;
+    }
+    if (/^[|>][-+]?$/.test(field[2])) {
+      // A block scalar, such as a multi-line error; keep its first line
+      const next = body[index + 1];
+      if (next && indentOf(next) > baseIndent) {
+        fields[field[1]!] = next.trim();
+      }
+      return;
+    }
+    fields[field[1]!] = unquote(field[2]);
+  });
+  return fields;
+}
+
+function readNestedFields(body: string[], key: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const start = body.findIndex((line) =>
+    new RegExp(`^\\s*${key}:\\s*$`).test(line),
+  );
+  if (start === -1) {
+    return fields;
+  }
+  const keyIndent = indentOf(body[start]!);
+  for (const line of body.slice(start + 1)) {
+    if (line.trim() && indentOf(line) <= keyIndent) {
+      break;
+    }
+    const field = line.match(/^\s*([\w-]+):\s*(.+)$/);
+    if (field) {
+      fields[field[1]!] = unquote(field[2]!);
+    }
+  }
+  return fields;
+}
+
+function unquote(value: string): string {
+  const trimmed = value.trim();
+  if (
+    trimmed.length >= 2 &&
+    (trimmed[0] === "'" || trimmed[0] === '"') &&
+    trimmed[trimmed.length - 1] === trimmed[0]
+  ) {
+    return trimmed[0] === "'"
+      ? trimmed.slice(1, -1).replace(/''/g, "'")
+      : trimmed.slice(1, -1).replace(/\\"/g, '"').replace(/\\n/g, "\n");
+  }
+  return trimmed;
+}
+
+function truncateDetails(details: string): string {
+  const lines = details.split("\n");
+  if (lines.length <= MAX_DETAILS_LINES) {
+    return details;
+  }
+  return `${lines.slice(0, MAX_DETAILS_LINES).join("\n")}\n… [${lines.length - MAX_DETAILS_LINES} more lines]`;
+}
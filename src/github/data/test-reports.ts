@@ -0,0 +1,495 @@
+import { mkdir, readdir, readFile, stat, writeFile } from "fs/promises";
+import path from "path";
+import type { Octokit } from "@octokit/rest";
+import { isWorkflowRunEvent, type GitHubContext } from "../context";
+import { downloadArtifact } from "./ci-artifacts";
+import { parseJUnitReport } from "./junit";
+import { isTapReport, parseTapReport } from "./tap";
+import { isSarifLog, parseSarifReport } from "./sarif";
+
+/** Entries of test_reports that name an artifact instead of a path */
+const ARTIFACT_PREFIX = "artifact:";
+
+/** Failures kept across all reports */
+const MAX_FAILURES = 1000;
+
+/** Report files read from one directory or artifact */
+const MAX_REPORTS_PER_ENTRY = 100;
+
+/** Failures listed in the prompt; the rest are available through MCP */
+export const MAX_PROMPT_FAILURES = 50;
+
+export type ReportFormat = "junit" | "tap" | "sarif";
+
+export type ReportSeverity = "error" | "warning" | "note";
+
+/**
+ * A failed test or a static analysis finding, in the same shape whatever
+ * the report format.
+ */
+export type ReportFailure = {
+  format: ReportFormat;
+  /** Report the failure was read from */
+  report: string;
+  /** File the failure points at, relative to the workspace when inside it */
+  file?: string;
+  line?: number;
+  column?: number;
+  /** The failed test, after its suite or parent tests (JUnit and TAP) */
+  test?: string;
+  /** The rule that was violated (SARIF) */
+  rule?: string;
+  /** The tool that reported the finding (SARIF) */
+  tool?: string;
+  severity: ReportSeverity;
+  message: string;
+  /** The failure output, such as an assertion diff or a stack trace */
+  details?: string;
+};
+
+export type ReportInfo = {
+  path: string;
+  format: ReportFormat;
+  /** Test cases run; unset for SARIF */
+  tests?: number;
+  failures: number;
+};
+
+export type TestReports = {
+  reports: ReportInfo[];
+  failures: ReportFailure[];
+  /** Failures beyond MAX_FAILURES that were dropped */
+  omittedFailures: number;
+  /** Entries of test_reports that could not be read, with the reason */
+  errors: string[];
+};
+
+const SEVERITY_ORDER: Record<ReportSeverity, number> = {
+  error: 0,
+  warning: 1,
+  note: 2,
+};
+
+/**
+ * Splits the test_reports input into its entries, one per line.
+ */
+export function parseTestReportEntries(input: string): string[] {
+  return input
+    .split("\n")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Works out a report's format from its file name, or from its content for
+ * names that don't tell.
+ */
+export function detectReportFormat(
+  filePath: string,
+  content: string,
+): ReportFormat | undefined {
+  const name = filePath.toLowerCase();
+  if (name.endsWith(".sarif") || name.endsWith(".sarif.json")) {
+    return "sarif";
+  }
+  if (name.endsWith(".tap")) {
+    return "tap";
+  }
+  if (name.endsWith(".xml")) {
+    return "junit";
+  }
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith("<")) {
+    return "junit";
+  }
+  if (trimmed.startsWith("{")) {
+    try {
+      return isSarifLog(JSON.parse(trimmed)) ? "sarif" : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+  return isTapReport(content) ? "tap" : undefined;
+}
+
+function isReportFileName(filePath: string): boolean {
+  return /\.(?:xml|tap|sarif|sarif\.json)$/i.test(filePath);
+}
+
+/**
+ * Turns an absolute or file:// path into one relative to the workspace, so
+ * that it can be opened from the checkout.
+ */
+export function toWorkspacePath(file: string, workspace: string): string {
+  const withoutScheme = file.replace(/^file:\/\//, "");
+  const root = workspace.replace(/\/+$/, "");
+  return withoutScheme.startsWith(`${root}/`)
+    ? withoutScheme.slice(root.length + 1)
+    : withoutScheme;
+}
+
+/**
+ * Parses one report into its failures.
+ * @throws When the report is not valid in the given format
+ */
+export function parseReport(
+  reportPath: string,
+  content: string,
+  format: ReportFormat,
+  workspace: string,
+): { info: ReportInfo; failures: ReportFailure[] } {
+  const locate = (file: string | undefined) =>
+    file ? { file: toWorkspacePath(file, workspace) } : {};
+
+  switch (format) {
+    case "junit": {
+      const summary = parseJUnitReport(content);
+      return {
+        info: {
+          path: reportPath,
+          format,
+          tests: summary.tests,
+          failures: summary.failures + summary.errors,
+        },
+        failures: summary.failedCases.map((testCase) => {
+          const line =
+            testCase.line ?? findLineInTrace(testCase.details, testCase.file);
+          const suite = testCase.classname || testCase.suite;
+          return {
+            format,
+            report: reportPath,
+            ...locate(testCase.file),
+            ...(line !== undefined && { line }),
+            test: suite ? `${suite} > ${testCase.name}` : testCase.name,
+            severity: "error",
+            message: testCase.message || `Test ${testCase.kind}`,
+            ...(testCase.details && { details: testCase.details }),
+          };
+        }),
+      };
+    }
+    case "tap": {
+      const summary = parseTapReport(content);
+      const failures: ReportFailure[] = summary.failedTests.map((test) => ({
+        format,
+        report: reportPath,
+        ...locate(test.file),
+        ...(test.line !== undefined && { line: test.line }),
+        ...(test.column !== undefined && { column: test.column }),
+        test: [...test.parents, test.name].join(" > "),
+        severity: "error",
+        message: test.message || "Test failed",
+        ...(test.details && { details: test.details }),
+      }));
+      if (summary.bailOut) {
+        failures.push({
+          format,
+          report: reportPath,
+          severity: "error",
+          message: `Bail out! ${summary.bailOut}`,
+        });
+      }
+      return {
+        info: {
+          path: reportPath,
+          format,
+          tests: summary.tests,
+          failures: failures.length,
+        },
+        failures,
+      };
+    }
+    case "sarif": {
+      const summary = parseSarifReport(content);
+      return {
+        info: { path: reportPath, format, failures: summary.results.length },
+        failures: summary.results.map((result) => ({
+          format,
+          report: reportPath,
+          ...locate(result.file),
+          ...(result.line !== undefined && { line: result.line }),
+          ...(result.column !== undefined && { column: result.column }),
+          ...(result.ruleId && { rule: result.ruleId }),
+          tool: result.tool,
+          severity: result.level,
+          message: result.message,
+        })),
+      };
+    }
+  }
+}
+
+/**
+ * Finds the line of a test file in a failure's stack trace, for JUnit
+ * reports that name the file but not the line.
+ */
+function findLineInTrace(
+  details: string | undefined,
+  file: string | undefined,
+): number | undefined {
+  if (!details || !file) {
+    return undefined;
+  }
+  const name = path.basename(file).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = details.match(new RegExp(`${name}:(\\d+)`));
+  return match ? parseInt(match[1]!, 10) : undefined;
+}
+
+/**
+ * Lists the report files in a directory, recursively. Only files named like
+ * reports are picked up.
+ */
+async function findReportFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isFile() && isReportFileName(entry.name))
+    .map((entry) => path.join(entry.parentPath, entry.name))
+    .sort();
+}
+
+/**
+ * Loads the reports listed in the test_reports input. Each entry is a file
+ * or a directory relative to the workspace, or "artifact:<name>" for an
+ * artifact of the workflow run (for workflow_run events, of the run that
+ * triggered it). Entries that can't be read are reported in errors rather
+ * than failing the run.
+ */
+export async function loadTestReports(
+  octokit: Octokit,
+  context: GitHubContext,
+  {
+    workspace = process.env.GITHUB_WORKSPACE || process.cwd(),
+    artifactsDir = `${process.env.RUNNER_TEMP || "/tmp"}/claude-test-reports`,
+  }: { workspace?: string; artifactsDir?: string } = {},
+): Promise<TestReports> {
+  const result: TestReports = {
+    reports: [],
+    failures: [],
+    omittedFailures: 0,
+    errors: [],
+  };
+
+  const addReport = async (
+    filePath: string,
+    displayPath: string,
+    explicit: boolean,
+  ) => {
+    const content = await readFile(filePath, "utf8");
+    const format = detectReportFormat(filePath, content);
+    if (!format) {
+      if (explicit) {
+        throw new Error("not a JUnit XML, TAP or SARIF report");
+      }
+      return;
+    }
+    try {
+      const { info, failures } = parseReport(
+        displayPath,
+        content,
+        format,
+        workspace,
+      );
+      result.reports.push(info);
+      result.failures.push(...failures);
+    } catch (error) {
+      // Directories may hold other XML files, such as coverage reports
+      if (explicit) {
+        throw error;
+      }
+    }
+  };
+
+  const addDirectory = async (dir: string, displayDir: string) => {
+    const files = await findReportFiles(dir);
+    if (files.length > MAX_REPORTS_PER_ENTRY) {
+      result.errors.push(
+        `${displayDir}: only the first ${MAX_REPORTS_PER_ENTRY} of ${files.length} report files were read`,
+      );
+    }
+    for (const file of files.slice(0, MAX_REPORTS_PER_ENTRY)) {
+      await addReport(
+        file,
+        path.join(displayDir, path.relative(dir, file)),
+        false,
+      );
+    }
+  };
+
+  for (const entry of parseTestReportEntries(context.inputs.testReports)) {
+    try {
+      if (entry.startsWith(ARTIFACT_PREFIX)) {
+        const name = entry.slice(ARTIFACT_PREFIX.length).trim();
+        const artifact = await downloadRunArtifact(octokit, context, {
+          name,
+          artifactsDir,
+        });
+        await addDirectory(artifact.dir, entry);
+        continue;
+      }
+
+      const fullPath = path.resolve(workspace, entry);
+      if ((await stat(fullPath)).isDirectory()) {
+        await addDirectory(fullPath, entry);
+      } else {
+        await addReport(fullPath, entry, true);
+      }
+    } catch (error) {
+      result.errors.push(
+        `${entry}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  // Errors first, so that the prompt's share of the failures holds them
+  result.failures.sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity],
+  );
+  result.omittedFailures = Math.max(0, result.failures.length - MAX_FAILURES);
+  result.failures = result.failures.slice(0, MAX_FAILURES);
+
+  return result;
+}
+
+async function downloadRunArtifact(
+  octokit: Octokit,
+  context: GitHubContext,
+  { name, artifactsDir }: { name: string; artifactsDir: string },
+) {
+  const { owner, repo } = context.repository;
+  const runId = isWorkflowRunEvent(context)
+    ? context.payload.workflow_run.id
+    : parseInt(context.runId, 10);
+
+  const { data } = await octokit.actions.listWorkflowRunArtifacts({
+    owner,
+    repo,
+    run_id: runId,
+    name,
+  });
+  const artifact = data.artifacts[0];
+  if (!artifact) {
+    throw new Error(`no artifact named "${name}" in workflow run ${runId}`);
+  }
+
+  return downloadArtifact(octokit, {
+    owner,
+    repo,
+    artifactId: artifact.id,
+    artifactsDir,
+  });
+}
+
+/** Tools of the test_reports MCP server */
+export const TEST_REPORT_TOOLS = ["mcp__test_reports__get_test_failures"];
+
+/**
+ * Loads the reports listed in test_reports, when it is set, and saves them
+ * for the test_reports MCP server.
+ */
+export async function prepareTestReports(
+  octokit: Octokit,
+  context: GitHubContext,
+): Promise<{ testReports: TestReports; path: string } | undefined> {
+  if (parseTestReportEntries(context.inputs.testReports).length === 0) {
+    return undefined;
+  }
+
+  const testReports = await loadTestReports(octokit, context);
+  console.log(
+    `Read ${testReports.reports.length} test reports with ${testReports.failures.length} failures`,
+  );
+  for (const error of testReports.errors) {
+    console.warn(`Failed to read test report ${error}`);
+  }
+
+  return { testReports, path: await saveTestReports(testReports) };
+}
+
+/**
+ * Saves the reports for the test_reports MCP server and returns the path.
+ */
+export async function saveTestReports(
+  testReports: TestReports,
+  dir = `${process.env.RUNNER_TEMP || "/tmp"}/claude-test-reports`,
+): Promise<string> {
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, "failures.json");
+  await writeFile(filePath, JSON.stringify(testReports, null, 2));
+  return filePath;
+}
+
+export type FailureFilter = {
+  /** Part of the file path */
+  file?: string;
+  format?: ReportFormat;
+  severity?: ReportSeverity;
+  /** Part of the test name, rule ID or message, ignoring case */
+  query?: string;
+};
+
+/**
+ * Picks out the failures that match every given filter.
+ */
+export function filterReportFailures(
+  failures: ReportFailure[],
+  { file, format, severity, query }: FailureFilter,
+): ReportFailure[] {
+  const needle = query?.toLowerCase();
+  return failures.filter(
+    (failure) =>
+      (!file || failure.file?.includes(file)) &&
+      (!format || failure.format === format) &&
+      (!severity || failure.severity === severity) &&
+      (!needle ||
+        [failure.test, failure.rule, failure.message].some((field) =>
+          field?.toLowerCase().includes(needle),
+        )),
+  );
+}
+
+/**
+ * Formats a failure's location, such as "src/app.ts:12:5".
+ */
+export function formatFailureLocation(failure: ReportFailure): string {
+  if (!failure.file) {
+    return "unknown location";
+  }
+  return [failure.file, failure.line, failure.line && failure.column]
+    .filter(Boolean)
+    .join(":");
+}
+
+/**
+ * Renders the reports and their first failures. Details such as stack
+ * traces are left to the MCP tool to keep the prompt short.
+ */
+export function formatTestReports(testReports: TestReports): string {
+  const reports = testReports.reports.map(
+    (report) =>
+      `- ${report.path} (${report.format}): ${report.tests !== undefined ? `${report.tests} tests, ` : ""}${report.failures} ${report.format === "sarif" ? "findings" : "failures"}`,
+  );
+  const errors = testReports.errors.map((error) => `- Not read: ${error}`);
+
+  const failures = testReports.failures
+    .slice(0, MAX_PROMPT_FAILURES)
+    .map((failure) => {
+      const subject = failure.test ?? failure.rule ?? failure.tool;
+      return `<failure format="${failure.format}" severity="${failure.severity}" location="${formatFailureLocation(failure)}">
+${subject ? `${subject}: ` : ""}${failure.message}
+</failure>`;
+    });
+
+  const total = testReports.failures.length + testReports.omittedFailures;
+  const unlisted = total - failures.length;
+
+  return [
+    [...reports, ...errors].join("\n") || "No reports were found.",
+    failures.join("\n") || "The reports have no failures.",
+    ...(unlisted > 0
+      ? [
+          `${unlisted} more failures are not listed; use mcp__test_reports__get_test_failures to see them.`,
+        ]
+      : []),
+  ].join("\n\n");
+}
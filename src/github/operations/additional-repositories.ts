@@ -0,0 +1,265 @@
+#!/usr/bin/env bun
+
+/**
+ * Support for sessions that span more than one repository.
+ * Additional repositories are cloned into the workspace under
+ * ADDITIONAL_REPOSITORIES_DIR, each with its own scoped token.
+ */
+
+import * as core from "@actions/core";
+import { $ } from "bun";
+import { appendFile, chmod, mkdir, readFile, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { join, resolve } from "path";
+import { GITHUB_SERVER_URL } from "../api/config";
+import { setupRepositoryToken } from "../token";
+import { getNoreplyEmail, type GitUser } from "./git-config";
+
+/** Directory, relative to the workspace, that additional repositories are cloned into */
+export const ADDITIONAL_REPOSITORIES_DIR = ".claude-repos";
+
+export type AdditionalRepository = {
+  owner: string;
+  repo: string;
+  fullName: string;
+  ref?: string;
+  /** Checkout path relative to the workspace */
+  path: string;
+};
+
+/**
+ * An additional repository that has been checked out, as passed to MCP servers
+ */
+export type RepositoryTarget = {
+  repository: string;
+  path: string;
+  token: string;
+  baseBranch?: string;
+};
+
+const REPOSITORY_PATTERN =
+  /^([A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)\/([A-Za-z0-9._-]+)$/;
+
+/**
+ * Parses the additional_repositories input.
+ * @param input Newline- or comma-separated list of `owner/repo` or `owner/repo@ref`
+ * @param currentRepository The repository the workflow runs in, in owner/repo form
+ * @throws Error on malformed entries, duplicates, or the current repository
+ */
+export function parseAdditionalRepositories(
+  input: string | undefined,
+  currentRepository: string,
+): AdditionalRepository[] {
+  if (!input) {
+    return [];
+  }
+
+  const repositories: AdditionalRepository[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of input.split(/[\n,]/)) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+
+    const atIndex = trimmed.indexOf("@");
+    const name = atIndex === -1 ? trimmed : trimmed.slice(0, atIndex);
+    const ref = atIndex === -1 ? undefined : trimmed.slice(atIndex + 1);
+
+    const match = name.match(REPOSITORY_PATTERN);
+    if (!match || name.includes("..")) {
+      throw new Error(
+        `Invalid additional repository '${trimmed}'. Expected owner/repo or owner/repo@ref`,
+      );
+    }
+    if (ref !== undefined && !/^[A-Za-z0-9][A-Za-z0-9/_.-]*$/.test(ref)) {
+      throw new Error(`Invalid ref in additional repository '${trimmed}'`);
+    }
+
+    const fullName = `${match[1]}/${match[2]}`;
+    const key = fullName.toLowerCase();
+    if (key === currentRepository.toLowerCase()) {
+      throw new Error(
+        `Additional repository '${fullName}' is the repository the workflow runs in`,
+      );
+    }
+    if (seen.has(key)) {
+      throw new Error(`Additional repository '${fullName}' is listed twice`);
+    }
+    seen.add(key);
+
+    repositories.push({
+      owner: match[1]!,
+      repo: match[2]!,
+      fullName,
+      ...(ref && { ref }),
+      path: join(ADDITIONAL_REPOSITORIES_DIR, match[1]!, match[2]!),
+    });
+  }
+
+  return repositories;
+}
+
+/**
+ * Finds the target for a repository name (case-insensitive).
+ * @throws Error listing the configured repositories if none matches
+ */
+export function findRepositoryTarget(
+  targets: RepositoryTarget[],
+  repository: string,
+): RepositoryTarget {
+  const target = targets.find(
+    (t) => t.repository.toLowerCase() === repository.toLowerCase(),
+  );
+  if (!target) {
+    const available = targets.map((t) => t.repository).join(", ") || "none";
+    throw new Error(
+      `Repository '${repository}' is not configured. Available additional repositories: ${available}`,
+    );
+  }
+  return target;
+}
+
+/**
+ * Parses the REPOSITORY_TARGETS environment variable passed to MCP servers.
+ */
+export function parseRepositoryTargets(
+  raw: string | undefined,
+): RepositoryTarget[] {
+  if (!raw) {
+    return [];
+  }
+  const parsed = JSON.parse(raw) as RepositoryTarget[];
+  if (!Array.isArray(parsed)) {
+    throw new Error("REPOSITORY_TARGETS must be a JSON array");
+  }
+  return parsed;
+}
+
+/**
+ * Formats additional repositories for inclusion in the prompt.
+ */
+export function formatAdditionalRepositories(
+  repositories: AdditionalRepository[],
+): string {
+  return repositories
+    .map(
+      (repo) =>
+        `- ${repo.fullName} (checked out at ${repo.path}${repo.ref ? `, ref ${repo.ref}` : ""})`,
+    )
+    .join("\n");
+}
+
+/**
+ * The directory the credential helpers of the clones are written to. It is
+ * outside the workspace so that the tokens never end up in a checkout.
+ */
+export function getCredentialHelperDir(): string {
+  return `${process.env.RUNNER_TEMP || "/tmp"}/claude-repo-credentials`;
+}
+
+/**
+ * Writes a git credential helper that answers with the repository's token,
+ * so that the token stays out of the clone's remote URL and git config.
+ * @returns The path of the helper, for git's credential.helper
+ */
+export async function writeCredentialHelper(
+  repository: AdditionalRepository,
+  token: string,
+  dir: string = getCredentialHelperDir(),
+): Promise<string> {
+  await mkdir(dir, { recursive: true, mode: 0o700 });
+  const helper = join(dir, `${repository.owner}__${repository.repo}.sh`);
+  await writeFile(
+    helper,
+    `#!/bin/sh\ntest "$1" = get || exit 0\necho username=x-access-token\necho password=${token}\n`,
+  );
+  await chmod(helper, 0o700);
+  return helper;
+}
+
+/**
+ * Keeps the clones out of the main repository's git status.
+ */
+async function excludeFromMainRepository(workspace: string): Promise<void> {
+  const excludePath = join(workspace, ".git", "info", "exclude");
+  if (!existsSync(join(workspace, ".git"))) {
+    return;
+  }
+  const pattern = `/${ADDITIONAL_REPOSITORIES_DIR}/`;
+  const existing = existsSync(excludePath)
+    ? await readFile(excludePath, "utf-8")
+    : "";
+  if (!existing.split("\n").includes(pattern)) {
+    await mkdir(join(workspace, ".git", "info"), { recursive: true });
+    await appendFile(
+      excludePath,
+      `${existing && !existing.endsWith("\n") ? "\n" : ""}${pattern}\n`,
+    );
+  }
+}
+
+/**
+ * Mints a scoped token for each additional repository and clones it into
+ * the workspace, configured to commit as the bot user. The minted tokens
+ * are set as the additional_github_tokens output, one per line, for the
+ * revoke step; the clones authenticate through a credential helper.
+ * @returns The checked-out repositories, for use by the MCP servers
+ */
+export async function setupAdditionalRepositories(
+  repositories: AdditionalRepository[],
+  user: GitUser,
+  workspace: string = process.env.GITHUB_WORKSPACE || process.cwd(),
+): Promise<RepositoryTarget[]> {
+  if (repositories.length === 0) {
+    return [];
+  }
+
+  await excludeFromMainRepository(workspace);
+  const serverUrl = new URL(GITHUB_SERVER_URL);
+  const targets: RepositoryTarget[] = [];
+
+  const mintedTokens: string[] = [];
+
+  for (const repository of repositories) {
+    const token = await setupRepositoryToken(repository.fullName);
+    if (!process.env.OVERRIDE_GITHUB_TOKEN) {
+      // Set as soon as it is minted, so that a failed clone still revokes it
+      mintedTokens.push(token);
+      core.setOutput("additional_github_tokens", mintedTokens.join("\n"));
+    }
+    const checkoutPath = resolve(workspace, repository.path);
+    const remoteUrl = `https://${serverUrl.host}/${repository.fullName}.git`;
+    const helper = await writeCredentialHelper(repository, token);
+    // The empty helper clears any configured globally before adding ours
+    const auth = [
+      "-c",
+      "credential.helper=",
+      "-c",
+      `credential.helper=${helper}`,
+    ];
+
+    console.log(
+      `Checking out ${repository.fullName}${repository.ref ? `@${repository.ref}` : ""} into ${repository.path}...`,
+    );
+    await mkdir(resolve(checkoutPath, ".."), { recursive: true });
+    if (repository.ref) {
+      await $`git ${auth} clone --depth 1 --branch ${repository.ref} ${remoteUrl} ${checkoutPath}`.quiet();
+    } else {
+      await $`git ${auth} clone --depth 1 ${remoteUrl} ${checkoutPath}`.quiet();
+    }
+    await $`git -C ${checkoutPath} config credential.helper ""`;
+    await $`git -C ${checkoutPath} config --add credential.helper ${helper}`;
+    await $`git -C ${checkoutPath} config user.name ${user.login}`;
+    await $`git -C ${checkoutPath} config user.email ${getNoreplyEmail(user)}`;
+    console.log(`✓ Checked out ${repository.fullName}`);
+
+    targets.push({
+      repository: repository.fullName,
+      path: checkoutPath,
+      token,
+      ...(repository.ref && { baseBranch: repository.ref }),
+    });
+  }
+
+  return targets;
+}
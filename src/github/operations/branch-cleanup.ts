@@ -1,6 +1,143 @@
 import type { Octokits } from "../api/client";
 import { GITHUB_SERVER_URL } from "../api/config";
 import { $ } from "bun";
+import type { CommitStrategy } from "./commit-strategy";
+import {
+  createBlob,
+  createTreeCommit,
+  getBranchFiles,
+  getOrCreateBranchRef,
+  updateBranchRef,
+  type TreeEntry,
+} from "./git-tree";
+
+export type CommitTarget = {
+  owner: string;
+  repo: string;
+  branch: string;
+  baseBranch: string;
+  githubToken: string;
+};
+
+/**
+ * A file changed in the checkout. Deleted files have a null SHA.
+ */
+export type UncommittedChange = {
+  path: string;
+  mode: string;
+  sha: string | null;
+};
+
+/**
+ * Stages all changes in the checkout and lists them against HEAD, leaving
+ * out submodules.
+ */
+export async function getUncommittedChanges(): Promise<UncommittedChange[]> {
+  await $`git add -A`.quiet();
+  const diff =
+    await $`git diff --cached --raw --no-renames --no-abbrev -z`.quiet();
+
+  // Each change is ":<old mode> <new mode> <old sha> <new sha> <status>"
+  // followed by its path
+  const fields = diff.stdout.toString().split("\0");
+  const changes: UncommittedChange[] = [];
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const [oldMode, newMode, , newSha, status] = fields[i]!.slice(1).split(" ");
+    if (oldMode === "160000" || newMode === "160000") continue;
+    changes.push(
+      status === "D"
+        ? { path: fields[i + 1]!, mode: oldMode!, sha: null }
+        : { path: fields[i + 1]!, mode: newMode!, sha: newSha! },
+    );
+  }
+  return changes;
+}
+
+async function commitWithGit(branch: string, message: string) {
+  const gitStatus = await $`git status --porcelain`.quiet();
+  if (!gitStatus.stdout.toString().trim()) {
+    return false;
+  }
+
+  // Signing, if any, was configured on the checkout in prepare
+  await $`git add -A`;
+  await $`git commit -m ${message}`;
+  await $`git push origin ${branch}`;
+  return true;
+}
+
+async function commitWithApi(target: CommitTarget, message: string) {
+  const { owner, repo, branch, baseBranch, githubToken } = target;
+
+  let changes = await getUncommittedChanges();
+  if (changes.length === 0) {
+    return false;
+  }
+
+  // Claude's API commits do not touch the checkout, so leave out the
+  // changes the branch already has
+  const branchFiles = await getBranchFiles(owner, repo, branch, githubToken);
+  if (branchFiles) {
+    changes = changes.filter((change) => {
+      const file = branchFiles.get(change.path);
+      return change.sha === null
+        ? file !== undefined
+        : file?.sha !== change.sha || file.mode !== change.mode;
+    });
+  }
+  if (changes.length === 0) {
+    return false;
+  }
+
+  const treeEntries: TreeEntry[] = await Promise.all(
+    changes.map(async ({ path, mode, sha }) => ({
+      path,
+      mode,
+      type: "blob" as const,
+      sha:
+        sha &&
+        (await createBlob(
+          owner,
+          repo,
+          (await $`git cat-file blob ${sha}`.quiet()).stdout,
+          githubToken,
+        )),
+    })),
+  );
+
+  const baseSha = await getOrCreateBranchRef(
+    owner,
+    repo,
+    branch,
+    githubToken,
+    baseBranch,
+  );
+  const { commit } = await createTreeCommit({
+    owner,
+    repo,
+    githubToken,
+    baseSha,
+    treeEntries,
+    message,
+  });
+  await updateBranchRef(owner, repo, branch, commit.sha, githubToken);
+  return true;
+}
+
+/**
+ * Commits and pushes the uncommitted changes in the checkout to the branch,
+ * through the GitHub API for the api strategy and with git otherwise.
+ * @returns Whether there were changes to commit
+ */
+export async function saveUncommittedChanges(
+  commitStrategy: CommitStrategy,
+  target: CommitTarget,
+  message: string,
+): Promise<boolean> {
+  return commitStrategy === "api"
+    ? commitWithApi(target, message)
+    : commitWithGit(target.branch, message);
+}
 
 export async function checkAndCommitOrDeleteBranch(
   octokit: Octokits,
@@ -8,7 +145,8 @@ export async function checkAndCommitOrDeleteBranch(
   repo: string,
   claudeBranch: string | undefined,
   baseBranch: string,
-  useCommitSigning: boolean,
+  commitStrategy: CommitStrategy,
+  githubToken: string,
 ): Promise<{ shouldDeleteBranch: boolean; branchLink: string }> {
   let branchLink = "";
   let shouldDeleteBranch = false;
@@ -31,8 +169,36 @@ export async function checkAndCommitOrDeleteBranch(
       }
     }
 
+    const target = {
+      owner,
+      repo,
+      branch: claudeBranch,
+      baseBranch,
+      githubToken,
+    };
+    const branchUrl = `${GITHUB_SERVER_URL}/${owner}/${repo}/tree/${claudeBranch}`;
+    const commitMessage = `Auto-commit: Save uncommitted changes from Claude\n\nRun ID: ${process.env.GITHUB_RUN_ID || "unknown"}`;
+
     // Only proceed if branch exists remotely
     if (!branchExistsRemotely) {
+      // API commits create the branch, so it is missing until Claude commits
+      if (commitStrategy === "api") {
+        try {
+          if (
+            await saveUncommittedChanges(commitStrategy, target, commitMessage)
+          ) {
+            console.log(
+              "✅ Successfully committed and pushed uncommitted changes",
+            );
+            return {
+              shouldDeleteBranch: false,
+              branchLink: `\n[View branch](${branchUrl})`,
+            };
+          }
+        } catch (error) {
+          console.error("Error committing uncommitted changes:", error);
+        }
+      }
       console.log(
         `Branch ${claudeBranch} does not exist remotely, no branch link will be added`,
       );
@@ -48,67 +214,40 @@ export async function checkAndCommitOrDeleteBranch(
           basehead: `${baseBranch}...${claudeBranch}`,
         });
 
-      // If there are no commits, check for uncommitted changes if not using commit signing
+      // If there are no commits, check for uncommitted changes
       if (comparison.total_commits === 0) {
-        if (!useCommitSigning) {
-          console.log(
-            `Branch ${claudeBranch} has no commits from Claude, checking for uncommitted changes...`,
-          );
-
-          // Check for uncommitted changes using git status
-          try {
-            const gitStatus = await $`git status --porcelain`.quiet();
-            const hasUncommittedChanges =
-              gitStatus.stdout.toString().trim().length > 0;
-
-            if (hasUncommittedChanges) {
-              console.log("Found uncommitted changes, committing them...");
-
-              // Add all changes
-              await $`git add -A`;
-
-              // Commit with a descriptive message
-              const runId = process.env.GITHUB_RUN_ID || "unknown";
-              const commitMessage = `Auto-commit: Save uncommitted changes from Claude\n\nRun ID: ${runId}`;
-              await $`git commit -m ${commitMessage}`;
-
-              // Push the changes
-              await $`git push origin ${claudeBranch}`;
-
-              console.log(
-                "✅ Successfully committed and pushed uncommitted changes",
-              );
-
-              // Set branch link since we now have commits
-              const branchUrl = `${GITHUB_SERVER_URL}/${owner}/${repo}/tree/${claudeBranch}`;
-              branchLink = `\n[View branch](${branchUrl})`;
-            } else {
-              console.log(
-                "No uncommitted changes found, marking branch for deletion",
-              );
-              shouldDeleteBranch = true;
-            }
-          } catch (gitError) {
-            console.error("Error checking/committing changes:", gitError);
-            // If we can't check git status, assume the branch might have changes
-            const branchUrl = `${GITHUB_SERVER_URL}/${owner}/${repo}/tree/${claudeBranch}`;
+        console.log(
+          `Branch ${claudeBranch} has no commits from Claude, checking for uncommitted changes...`,
+        );
+
+        try {
+          if (
+            await saveUncommittedChanges(commitStrategy, target, commitMessage)
+          ) {
+            console.log(
+              "✅ Successfully committed and pushed uncommitted changes",
+            );
+
+            // Set branch link since we now have commits
             branchLink = `\n[View branch](${branchUrl})`;
+          } else {
+            console.log(
+              "No uncommitted changes found, marking branch for deletion",
+            );
+            shouldDeleteBranch = true;
           }
-        } else {
-          console.log(
-            `Branch ${claudeBranch} has no commits from Claude, will delete it`,
-          );
-          shouldDeleteBranch = true;
+        } catch (gitError) {
+          console.error("Error checking/committing changes:", gitError);
+          // If we can't check git status, assume the branch might have changes
+          branchLink = `\n[View branch](${branchUrl})`;
         }
       } else {
         // Only add branch link if there are commits
-        const branchUrl = `${GITHUB_SERVER_URL}/${owner}/${repo}/tree/${claudeBranch}`;
         branchLink = `\n[View branch](${branchUrl})`;
       }
     } catch (error) {
       console.error("Error comparing commits on Claude branch:", error);
       // If we can't compare but the branch exists remotely, include the branch link
-      const branchUrl = `${GITHUB_SERVER_URL}/${owner}/${repo}/tree/${claudeBranch}`;
       branchLink = `\n[View branch](${branchUrl})`;
     }
   }
@@ -130,3 +269,47 @@ export async function checkAndCommitOrDeleteBranch(
 
   return { shouldDeleteBranch, branchLink };
 }
+
+/**
+ * Commits and pushes uncommitted changes, for runs that were stopped before
+ * Claude could do it itself. API commits go to claudeBranch when Claude
+ * works on a new branch, git commits to the checked-out branch.
+ * @returns Whether a commit was pushed
+ */
+export async function commitWorkInProgress(
+  message: string,
+  commitStrategy: CommitStrategy,
+  target: Omit<CommitTarget, "branch"> & { claudeBranch?: string },
+): Promise<boolean> {
+  try {
+    const currentBranch = (
+      await $`git rev-parse --abbrev-ref HEAD`.quiet()
+    ).stdout
+      .toString()
+      .trim();
+    const branch =
+      commitStrategy === "api" && target.claudeBranch
+        ? target.claudeBranch
+        : currentBranch;
+    if (branch === "HEAD") {
+      console.log("Not on a branch, leaving uncommitted changes");
+      return false;
+    }
+
+    if (
+      !(await saveUncommittedChanges(
+        commitStrategy,
+        { ...target, branch },
+        message,
+      ))
+    ) {
+      console.log("No uncommitted changes to save");
+      return false;
+    }
+    console.log(`✅ Committed and pushed work in progress to ${branch}`);
+    return true;
+  } catch (error) {
+    console.error("Error committing work in progress:", error);
+    return false;
+  }
+}
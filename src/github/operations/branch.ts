@@ -253,8 +253,8 @@ export async function setupBranch(
       // Branch doesn't exist (non-zero exit code), continue with generated name
     }
 
-    // For commit signing, defer branch creation to the file ops server
-    if (context.inputs.useCommitSigning) {
+    // For API commits, defer branch creation to the file ops server
+    if (context.inputs.commitStrategy === "api") {
       console.log(
         `Branch name generated: ${newBranch} (will be created by file ops server on first commit)`,
       );
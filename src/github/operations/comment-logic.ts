@@ -1,4 +1,14 @@
 import { GITHUB_SERVER_URL } from "../api/config";
+import { formatLastRunMarker, stripLastRunMarkers } from "../data/last-run";
+import {
+  formatSessionMarker,
+  stripSessionMarkers,
+  type PreviousSession,
+} from "./session";
+
+// Written by the live progress reporter in base-action/src/progress.ts
+const PROGRESS_SECTION_PATTERN =
+  /\n*<!-- claude-progress-start -->[\s\S]*?<!-- claude-progress-end -->/g;
 
 export type ExecutionDetails = {
   total_cost_usd?: number;
@@ -6,6 +16,14 @@ export type ExecutionDetails = {
   duration_api_ms?: number;
 };
 
+export type BudgetExceeded = {
+  reason: "cost" | "duration";
+  maxCostUsd?: number;
+  maxDurationMinutes?: number;
+  /** Whether uncommitted changes were committed after the stop */
+  committedWorkInProgress?: boolean;
+};
+
 export type CommentUpdateInput = {
   currentBody: string;
   actionFailed: boolean;
@@ -16,6 +34,14 @@ export type CommentUpdateInput = {
   branchName?: string;
   triggerUsername?: string;
   errorDetails?: string;
+  /** Set when Claude was stopped by max_cost_usd or max_duration_minutes */
+  budgetExceeded?: BudgetExceeded;
+  /** Head commit the run looked at, recorded for the next run on the PR */
+  lastRunSha?: string;
+  /** Session whose transcript was saved, for the next mention to resume */
+  session?: PreviousSession;
+  /** Workflow files Claude committed, flagged for review */
+  workflowChanges?: string[];
 };
 
 export function ensureProperlyEncodedUrl(url: string): string | null {
@@ -66,6 +92,28 @@ export function ensureProperlyEncodedUrl(url: string): string | null {
   }
 }
 
+function formatBudgetExceeded(
+  {
+    reason,
+    maxCostUsd,
+    maxDurationMinutes,
+    committedWorkInProgress,
+  }: BudgetExceeded,
+  costUsd: number | undefined,
+): string {
+  const spent =
+    costUsd !== undefined ? `$${costUsd.toFixed(2)}` : "an unknown amount";
+  const limit =
+    reason === "cost"
+      ? `the $${maxCostUsd?.toFixed(2) ?? "?"} cost limit`
+      : `the ${maxDurationMinutes ?? "?"}-minute time limit`;
+  let text = `Stopped at ${limit} after spending ${spent}.`;
+  if (committedWorkInProgress) {
+    text += " Uncommitted work in progress was committed and pushed.";
+  }
+  return text;
+}
+
 export function updateCommentBody(input: CommentUpdateInput): string {
   const originalBody = input.currentBody;
   const {
@@ -77,6 +125,10 @@ export function updateCommentBody(input: CommentUpdateInput): string {
     branchName,
     triggerUsername,
     errorDetails,
+    budgetExceeded,
+    lastRunSha,
+    session,
+    workflowChanges,
   } = input;
 
   // Extract content from the original comment body
@@ -112,7 +164,13 @@ export function updateCommentBody(input: CommentUpdateInput): string {
   // Build the header
   let header = "";
 
-  if (actionFailed) {
+  if (budgetExceeded) {
+    header = "**Claude stopped: budget exceeded";
+    if (durationStr) {
+      header += ` after ${durationStr}`;
+    }
+    header += "**";
+  } else if (actionFailed) {
     header = "**Claude encountered an error";
     if (durationStr) {
       header += ` after ${durationStr}`;
@@ -181,6 +239,14 @@ export function updateCommentBody(input: CommentUpdateInput): string {
   // Build the new body with blank line between header and separator
   let newBody = `${header}${links}`;
 
+  if (budgetExceeded) {
+    newBody += `\n\n${formatBudgetExceeded(budgetExceeded, executionDetails?.total_cost_usd)}`;
+  }
+
+  if (workflowChanges && workflowChanges.length > 0) {
+    newBody += `\n\n> [!WARNING]\n> **This run changed GitHub Actions workflows.** Review these changes carefully before merging:\n${workflowChanges.map((path) => `> - \`${path}\``).join("\n")}`;
+  }
+
   // Add error details if available
   if (actionFailed && errorDetails) {
     newBody += `\n\n\`\`\`\n${errorDetails}\n\`\`\``;
@@ -196,8 +262,20 @@ export function updateCommentBody(input: CommentUpdateInput): string {
   // Remove any existing duration info at the bottom
   bodyContent = bodyContent.replace(/\n*---\n*Duration: [0-9]+m? [0-9]+s/g, "");
 
+  // Live progress only makes sense while Claude is running
+  bodyContent = bodyContent.replace(PROGRESS_SECTION_PATTERN, "");
+
   // Add the cleaned body content
-  newBody += bodyContent;
+  newBody += stripSessionMarkers(stripLastRunMarkers(bodyContent));
+
+  // Only a run that finished counts as the last run
+  if (lastRunSha && !actionFailed) {
+    newBody += `\n\n${formatLastRunMarker(lastRunSha)}`;
+  }
+
+  if (session) {
+    newBody += `\n\n${formatSessionMarker(session.sessionId, session.runId)}`;
+  }
 
   return newBody.trim();
 }
@@ -0,0 +1,46 @@
+/**
+ * Lock around edits of the tracking comment. The live progress reporter in
+ * base-action/src/progress.ts reads and rewrites the comment while Claude
+ * runs, so it and the comment server both take this lock to keep from
+ * overwriting each other's changes. base-action has its own copy in
+ * base-action/src/comment-lock.ts; keep the two in sync.
+ */
+import { mkdir, rm, stat } from "fs/promises";
+
+const LOCK_RETRY_MS = 100;
+// A lock older than this was left behind by a process that died
+const STALE_LOCK_MS = 60_000;
+
+export function getCommentLockPath(): string {
+  return `${process.env.RUNNER_TEMP || "/tmp"}/claude-comment.lock`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function withCommentLock<T>(
+  fn: () => Promise<T>,
+  lockPath: string = getCommentLockPath(),
+): Promise<T> {
+  while (true) {
+    try {
+      await mkdir(lockPath);
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+      const lockStat = await stat(lockPath).catch(() => undefined);
+      if (lockStat && Date.now() - lockStat.mtimeMs > STALE_LOCK_MS) {
+        await rm(lockPath, { recursive: true, force: true });
+        continue;
+      }
+      await sleep(LOCK_RETRY_MS);
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await rm(lockPath, { recursive: true, force: true });
+  }
+}
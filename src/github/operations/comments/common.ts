@@ -3,6 +3,30 @@ import { GITHUB_SERVER_URL } from "../../api/config";
 export const SPINNER_HTML =
   '<img src="https://github.com/user-attachments/assets/5ac382c7-e004-429b-8e35-7feb3e8f9c6f" width="14px" height="14px" style="vertical-align: middle; margin-left: 4px;" />';
 
+/**
+ * User ID of claude[bot], the account the Claude GitHub app comments as
+ */
+export const CLAUDE_APP_USER_ID = 209825114;
+
+/**
+ * Checks whether a comment was written by Claude: either the Claude GitHub
+ * app, or the bot configured with bot_name for a custom app. Other bots,
+ * such as github-actions[bot], don't count, since any workflow can comment
+ * as them.
+ */
+export function isClaudeComment(
+  user: { id: number; login: string; type?: string } | null | undefined,
+  botName: string,
+): boolean {
+  if (!user) {
+    return false;
+  }
+  return (
+    user.id === CLAUDE_APP_USER_ID ||
+    (user.type === "Bot" && user.login.toLowerCase() === botName.toLowerCase())
+  );
+}
+
 export function createJobRunLink(
   owner: string,
   repo: string,
@@ -6,24 +6,36 @@
  */
 
 import { appendFileSync } from "fs";
-import { createJobRunLink, createCommentBody } from "./common";
+import {
+  CLAUDE_APP_USER_ID,
+  createJobRunLink,
+  createCommentBody,
+} from "./common";
 import {
   isPullRequestReviewCommentEvent,
   isPullRequestEvent,
   type ParsedGitHubContext,
 } from "../../context";
 import type { Octokit } from "@octokit/rest";
-
-const CLAUDE_APP_BOT_ID = 209825114;
+import {
+  formatMemoryBlock,
+  setMemoryBlock,
+  type EntityMemory,
+} from "../memory";
 
 export async function createInitialComment(
   octokit: Octokit,
   context: ParsedGitHubContext,
+  memory?: EntityMemory,
 ) {
   const { owner, repo } = context.repository;
 
   const jobRunLink = createJobRunLink(owner, repo, context.runId);
   const initialBody = createCommentBody(jobRunLink);
+  // Memory from earlier runs moves into the new tracking comment
+  const body = memory
+    ? setMemoryBlock(initialBody, formatMemoryBlock(memory))
+    : initialBody;
 
   try {
     let response;
@@ -39,7 +51,7 @@ export async function createInitialComment(
         issue_number: context.entityNumber,
       });
       const existingComment = comments.data.find((comment) => {
-        const idMatch = comment.user?.id === CLAUDE_APP_BOT_ID;
+        const idMatch = comment.user?.id === CLAUDE_APP_USER_ID;
         const botNameMatch =
           comment.user?.type === "Bot" &&
           comment.user?.login.toLowerCase().includes("claude");
@@ -52,7 +64,7 @@ export async function createInitialComment(
           owner,
           repo,
           comment_id: existingComment.id,
-          body: initialBody,
+          body,
         });
       } else {
         // Create new comment if no existing one found
@@ -60,7 +72,7 @@ export async function createInitialComment(
           owner,
           repo,
           issue_number: context.entityNumber,
-          body: initialBody,
+          body,
         });
       }
     } else if (isPullRequestReviewCommentEvent(context)) {
@@ -70,7 +82,7 @@ export async function createInitialComment(
         repo,
         pull_number: context.entityNumber,
         comment_id: context.payload.comment.id,
-        body: initialBody,
+        body,
       });
     } else {
       // For all other cases (issues, issue comments, or missing comment_id)
@@ -78,7 +90,7 @@ export async function createInitialComment(
         owner,
         repo,
         issue_number: context.entityNumber,
-        body: initialBody,
+        body,
       });
     }
 
@@ -96,7 +108,7 @@ export async function createInitialComment(
         owner,
         repo,
         issue_number: context.entityNumber,
-        body: initialBody,
+        body,
       });
 
       const githubOutput = process.env.GITHUB_OUTPUT!;
@@ -68,3 +68,36 @@ export async function updateClaudeComment(
     updated_at: response.data.updated_at,
   };
 }
+
+/**
+ * Fetches the current body of a Claude comment, with the same fallback to
+ * the issue comment API as updateClaudeComment.
+ */
+export async function getClaudeCommentBody(
+  octokit: Octokit,
+  params: Omit<UpdateClaudeCommentParams, "body">,
+): Promise<string> {
+  const { owner, repo, commentId, isPullRequestReviewComment } = params;
+
+  try {
+    if (isPullRequestReviewComment) {
+      const response = await octokit.rest.pulls.getReviewComment({
+        owner,
+        repo,
+        comment_id: commentId,
+      });
+      return response.data.body;
+    }
+  } catch (error: any) {
+    if (error.status !== 404) {
+      throw error;
+    }
+  }
+
+  const response = await octokit.rest.issues.getComment({
+    owner,
+    repo,
+    comment_id: commentId,
+  });
+  return response.data.body ?? "";
+}
@@ -0,0 +1,71 @@
+/**
+ * How Claude's commits reach GitHub. `api` commits through the
+ * github_file_ops MCP server, so GitHub signs them; the `git` strategies
+ * commit and push from the checkout, optionally signing with an SSH or GPG
+ * key.
+ */
+
+export const COMMIT_STRATEGIES = [
+  "api",
+  "git",
+  "git-ssh-signed",
+  "git-gpg-signed",
+] as const;
+
+export type CommitStrategy = (typeof COMMIT_STRATEGIES)[number];
+
+/**
+ * Resolves the commit_strategy input. When it is not set, the strategy
+ * follows the signing inputs: ssh_signing_key selects `git-ssh-signed`,
+ * gpg_signing_key `git-gpg-signed` and use_commit_signing `api`. The keys
+ * themselves are checked when prepare sets up signing, since the post steps
+ * resolve the strategy again without them.
+ * @throws Error on an unknown strategy or both signing keys without a
+ * strategy
+ */
+export function resolveCommitStrategy(inputs: {
+  commitStrategy: string | undefined;
+  useCommitSigning: boolean;
+  sshSigningKey: string;
+  gpgSigningKey: string;
+}): CommitStrategy {
+  const strategy = inputs.commitStrategy?.trim();
+  if (!strategy) {
+    if (inputs.sshSigningKey && inputs.gpgSigningKey) {
+      throw new Error(
+        "Both ssh_signing_key and gpg_signing_key are set, choose one with commit_strategy",
+      );
+    }
+    if (inputs.sshSigningKey) return "git-ssh-signed";
+    if (inputs.gpgSigningKey) return "git-gpg-signed";
+    return inputs.useCommitSigning ? "api" : "git";
+  }
+
+  if (!COMMIT_STRATEGIES.includes(strategy as CommitStrategy)) {
+    throw new Error(
+      `commit_strategy must be one of ${COMMIT_STRATEGIES.join(", ")}, got "${strategy}"`,
+    );
+  }
+  return strategy as CommitStrategy;
+}
+
+/**
+ * Returns the tools Claude commits with under the strategy.
+ */
+export function getCommitTools(strategy: CommitStrategy): string[] {
+  if (strategy === "api") {
+    return [
+      "mcp__github_file_ops__commit_files",
+      "mcp__github_file_ops__delete_files",
+    ];
+  }
+  return [
+    "Bash(git add:*)",
+    "Bash(git commit:*)",
+    "Bash(git push:*)",
+    "Bash(git status:*)",
+    "Bash(git diff:*)",
+    "Bash(git log:*)",
+    "Bash(git rm:*)",
+  ];
+}
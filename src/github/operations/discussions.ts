@@ -0,0 +1,146 @@
+import type { Octokits } from "../api/client";
+import {
+  ADD_DISCUSSION_COMMENT_MUTATION,
+  DISCUSSION_COMMENT_QUERY,
+  MARK_DISCUSSION_COMMENT_AS_ANSWER_MUTATION,
+  UPDATE_DISCUSSION_COMMENT_MUTATION,
+} from "../api/queries/github";
+import type { DiscussionCommentQueryResponse } from "../types";
+import { isDiscussionCommentEvent, type DiscussionContext } from "../context";
+
+export type DiscussionReply = {
+  id: string;
+  databaseId: number;
+  url: string;
+};
+
+export type DiscussionReplyTarget = {
+  discussionId: string;
+  /** Top-level comment the reply is threaded under, if any */
+  replyToId?: string;
+};
+
+type DiscussionComment = NonNullable<DiscussionCommentQueryResponse["node"]>;
+
+/**
+ * Looks up a discussion comment, making sure it belongs to the given
+ * discussion so comments elsewhere cannot be changed, even when the token
+ * has access to them.
+ * @throws Error if the comment does not exist or belongs to another discussion
+ */
+export async function getDiscussionComment(
+  graphql: Octokits["graphql"],
+  {
+    commentId,
+    owner,
+    repo,
+    discussionNumber,
+  }: {
+    commentId: string;
+    owner: string;
+    repo: string;
+    discussionNumber: number;
+  },
+): Promise<DiscussionComment> {
+  const { node: comment } = await graphql<DiscussionCommentQueryResponse>(
+    DISCUSSION_COMMENT_QUERY,
+    { id: commentId },
+  );
+
+  if (!comment?.discussion) {
+    throw new Error(`Discussion comment ${commentId} not found`);
+  }
+
+  const repository = comment.discussion.repository.nameWithOwner;
+  if (
+    repository.toLowerCase() !== `${owner}/${repo}`.toLowerCase() ||
+    comment.discussion.number !== discussionNumber
+  ) {
+    throw new Error(
+      `Discussion comment ${commentId} belongs to ${repository}#${comment.discussion.number}, not ${owner}/${repo}#${discussionNumber}`,
+    );
+  }
+
+  return comment;
+}
+
+/**
+ * Works out where a reply to the triggering event goes. A new discussion is
+ * answered with a top-level comment; a comment is answered in its thread.
+ * Replies only nest one level, so a reply to a reply goes under its parent.
+ */
+export async function getDiscussionReplyTarget(
+  graphql: Octokits["graphql"],
+  context: DiscussionContext,
+): Promise<DiscussionReplyTarget> {
+  const discussionId = context.payload.discussion.node_id;
+  if (!isDiscussionCommentEvent(context)) {
+    return { discussionId };
+  }
+
+  const comment = await getDiscussionComment(graphql, {
+    commentId: context.payload.comment.node_id,
+    owner: context.repository.owner,
+    repo: context.repository.repo,
+    discussionNumber: context.discussionNumber,
+  });
+  return { discussionId, replyToId: comment.replyTo?.id ?? comment.id };
+}
+
+export async function createDiscussionReply(
+  graphql: Octokits["graphql"],
+  { discussionId, replyToId }: DiscussionReplyTarget,
+  body: string,
+): Promise<DiscussionReply> {
+  const result = await graphql<{
+    addDiscussionComment: { comment: DiscussionReply };
+  }>(ADD_DISCUSSION_COMMENT_MUTATION, {
+    discussionId,
+    body,
+    replyToId: replyToId ?? null,
+  });
+  return result.addDiscussionComment.comment;
+}
+
+export async function updateDiscussionReply(
+  graphql: Octokits["graphql"],
+  commentId: string,
+  body: string,
+): Promise<{ id: string; url: string }> {
+  const result = await graphql<{
+    updateDiscussionComment: { comment: { id: string; url: string } };
+  }>(UPDATE_DISCUSSION_COMMENT_MUTATION, { commentId, body });
+  return result.updateDiscussionComment.comment;
+}
+
+/**
+ * Marks a comment on the given discussion as its answer.
+ * @throws Error if the comment is on another discussion, the discussion's
+ * category does not accept answers or the token may not mark answers
+ */
+export async function markDiscussionAnswer(
+  graphql: Octokits["graphql"],
+  params: {
+    commentId: string;
+    owner: string;
+    repo: string;
+    discussionNumber: number;
+  },
+): Promise<void> {
+  const comment = await getDiscussionComment(graphql, params);
+
+  if (!comment.discussion.category.isAnswerable) {
+    throw new Error(
+      `Discussion #${params.discussionNumber} is in a category that does not accept answers`,
+    );
+  }
+  if (!comment.viewerCanMarkAsAnswer) {
+    throw new Error(
+      `Discussion comment ${params.commentId} cannot be marked as the answer with this token`,
+    );
+  }
+
+  await graphql(MARK_DISCUSSION_COMMENT_AS_ANSWER_MUTATION, {
+    id: params.commentId,
+  });
+}
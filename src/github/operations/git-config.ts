@@ -6,19 +6,40 @@
  */
 
 import { $ } from "bun";
-import { mkdir, writeFile, rm } from "fs/promises";
+import { chmod, mkdir, writeFile, rm } from "fs/promises";
 import { join } from "path";
 import { homedir } from "os";
 import type { GitHubContext } from "../context";
 import { GITHUB_SERVER_URL } from "../api/config";
+import type { CommitStrategy } from "./commit-strategy";
 
 const SSH_SIGNING_KEY_PATH = join(homedir(), ".ssh", "claude_signing_key");
 
-type GitUser = {
+/**
+ * The GnuPG home gpg_signing_key is imported into. It is separate from the
+ * runner's keyring and removed in the post step.
+ */
+export function getGnupgHome(): string {
+  return `${process.env.RUNNER_TEMP || "/tmp"}/claude-gnupg`;
+}
+
+export type GitUser = {
   login: string;
   id: number;
 };
 
+/**
+ * Returns the noreply commit email for a GitHub user on the current server
+ */
+export function getNoreplyEmail(user: GitUser): string {
+  const serverUrl = new URL(GITHUB_SERVER_URL);
+  const noreplyDomain =
+    serverUrl.hostname === "github.com"
+      ? "users.noreply.github.com"
+      : `users.noreply.${serverUrl.hostname}`;
+  return `${user.id}+${user.login}@${noreplyDomain}`;
+}
+
 export async function configureGitAuth(
   githubToken: string,
   context: GitHubContext,
@@ -26,20 +47,14 @@ export async function configureGitAuth(
 ) {
   console.log("Configuring git authentication for non-signing mode");
 
-  // Determine the noreply email domain based on GITHUB_SERVER_URL
   const serverUrl = new URL(GITHUB_SERVER_URL);
-  const noreplyDomain =
-    serverUrl.hostname === "github.com"
-      ? "users.noreply.github.com"
-      : `users.noreply.${serverUrl.hostname}`;
 
   // Configure git user
   console.log("Configuring git user...");
   const botName = user.login;
-  const botId = user.id;
   console.log(`Setting git user as ${botName}...`);
   await $`git config user.name "${botName}"`;
-  await $`git config user.email "${botId}+${botName}@${noreplyDomain}"`;
+  await $`git config user.email "${getNoreplyEmail(user)}"`;
   console.log(`✓ Set git user as ${botName}`);
 
   // Remove the authorization header that actions/checkout sets
@@ -99,6 +114,148 @@ export async function setupSshSigning(sshSigningKey: string): Promise<void> {
   console.log("✓ Git configured to use SSH signing for commits");
 }
 
+/**
+ * Returns the fingerprint of the first secret key in the GPG keyring
+ */
+export function parseGpgSecretKeyFingerprint(
+  listing: string,
+): string | undefined {
+  // In --with-colons output the fpr record after a sec record holds the
+  // primary key's fingerprint in field 10
+  const lines = listing.split("\n");
+  const secIndex = lines.findIndex((line) => line.startsWith("sec:"));
+  if (secIndex === -1) {
+    return undefined;
+  }
+  const fpr = lines.slice(secIndex + 1).find((line) => line.startsWith("fpr:"));
+  return fpr?.split(":")[9] || undefined;
+}
+
+/**
+ * Imports an ASCII-armored GPG private key into its own GnuPG home, along
+ * with a gpg wrapper for git's gpg.program that uses that home and, for a
+ * protected key, the passphrase.
+ * @returns The key's fingerprint and the path of the wrapper
+ * @throws Error if the key cannot be imported or the passphrase is wrong
+ */
+export async function importGpgSigningKey(
+  gpgSigningKey: string,
+  passphrase: string,
+  gnupgHome: string = getGnupgHome(),
+): Promise<{ fingerprint: string; program: string }> {
+  if (!gpgSigningKey.includes("BEGIN PGP PRIVATE KEY BLOCK")) {
+    throw new Error(
+      "Invalid GPG private key format, expected an ASCII-armored private key",
+    );
+  }
+
+  await rm(gnupgHome, { recursive: true, force: true });
+  await mkdir(gnupgHome, { recursive: true, mode: 0o700 });
+
+  const imported =
+    await $`gpg --homedir ${gnupgHome} --batch --import < ${new Response(gpgSigningKey)}`
+      .quiet()
+      .nothrow();
+  const listing =
+    await $`gpg --homedir ${gnupgHome} --batch --list-secret-keys --with-colons`
+      .quiet()
+      .nothrow();
+  const fingerprint = parseGpgSecretKeyFingerprint(listing.stdout.toString());
+  if (imported.exitCode !== 0 || !fingerprint) {
+    throw new Error(
+      `Failed to import GPG signing key: ${imported.stderr.toString().trim()}`,
+    );
+  }
+
+  // git runs gpg.program in later steps too, so the wrapper carries the
+  // home and passphrase instead of the environment
+  const passphraseArgs = passphrase
+    ? ` --pinentry-mode loopback --passphrase-file "${gnupgHome}/passphrase"`
+    : "";
+  if (passphrase) {
+    await writeFile(`${gnupgHome}/passphrase`, passphrase, { mode: 0o600 });
+  }
+  const program = `${gnupgHome}/gpg.sh`;
+  await writeFile(
+    program,
+    `#!/bin/sh\nexec gpg --homedir "${gnupgHome}" --batch${passphraseArgs} "$@"\n`,
+  );
+  await chmod(program, 0o700);
+
+  // Sign once to fail early on a wrong or missing passphrase
+  const signed =
+    await $`${program} --detach-sign --local-user ${fingerprint} < ${new Response("test")}`
+      .quiet()
+      .nothrow();
+  if (signed.exitCode !== 0) {
+    throw new Error(
+      `GPG signing key cannot sign, check gpg_signing_key_passphrase: ${signed.stderr.toString().trim()}`,
+    );
+  }
+
+  return { fingerprint, program };
+}
+
+/**
+ * Configure git to sign commits with GPG, using gpg_signing_key when it is
+ * set and the first key in the runner's keyring otherwise
+ */
+export async function setupGpgSigning(
+  gpgSigningKey: string = "",
+  passphrase: string = "",
+): Promise<void> {
+  console.log("Configuring GPG signing for commits...");
+
+  let fingerprint: string | undefined;
+  if (gpgSigningKey.trim()) {
+    const imported = await importGpgSigningKey(gpgSigningKey, passphrase);
+    fingerprint = imported.fingerprint;
+    await $`git config gpg.program ${imported.program}`;
+    console.log(`✓ GPG signing key imported into ${getGnupgHome()}`);
+  } else {
+    const listing = await $`gpg --batch --list-secret-keys --with-colons`
+      .quiet()
+      .nothrow();
+    fingerprint = parseGpgSecretKeyFingerprint(listing.stdout.toString());
+    if (!fingerprint) {
+      throw new Error(
+        "commit_strategy git-gpg-signed requires gpg_signing_key or a GPG secret key in the runner's keyring",
+      );
+    }
+  }
+
+  await $`git config gpg.format openpgp`;
+  await $`git config user.signingkey ${fingerprint}`;
+  await $`git config commit.gpgsign true`;
+
+  console.log(`✓ Git configured to sign commits with GPG key ${fingerprint}`);
+}
+
+/**
+ * Sets up commit signing for the git commit strategies. The `api` and `git`
+ * strategies leave commits to GitHub or unsigned.
+ * @throws Error when the strategy's signing key is missing or invalid
+ */
+export async function setupCommitSigning(
+  strategy: CommitStrategy,
+  keys: {
+    sshSigningKey: string;
+    gpgSigningKey: string;
+    gpgSigningKeyPassphrase: string;
+  },
+): Promise<void> {
+  if (strategy === "git-ssh-signed") {
+    if (!keys.sshSigningKey.trim()) {
+      throw new Error(
+        "commit_strategy git-ssh-signed requires ssh_signing_key",
+      );
+    }
+    await setupSshSigning(keys.sshSigningKey);
+  } else if (strategy === "git-gpg-signed") {
+    await setupGpgSigning(keys.gpgSigningKey, keys.gpgSigningKeyPassphrase);
+  }
+}
+
 /**
  * Clean up the SSH signing key file
  * Should be called in the post step for security
@@ -111,3 +268,15 @@ export async function cleanupSshSigning(): Promise<void> {
     console.log("No SSH signing key to clean up");
   }
 }
+
+/**
+ * Stop the GPG agent of the imported key and remove its GnuPG home
+ * Should be called in the post step for security
+ */
+export async function cleanupGpgSigning(
+  gnupgHome: string = getGnupgHome(),
+): Promise<void> {
+  await $`gpgconf --homedir ${gnupgHome} --kill gpg-agent`.quiet().nothrow();
+  await rm(gnupgHome, { recursive: true, force: true });
+  console.log("✓ GPG signing key cleaned up");
+}
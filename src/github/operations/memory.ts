@@ -0,0 +1,121 @@
+/**
+ * Memory that carries over between runs on the same issue or pull request.
+ * It is stored as a hidden JSON block in the tracking comment, so it lives
+ * with the entity and needs no storage of its own.
+ */
+import { sanitizeContent } from "../utils/sanitizer";
+
+export type EntityMemory = {
+  /** Short summary of the work so far */
+  summary: string;
+  decisions: string[];
+  todos: string[];
+  /** Files touched in earlier runs */
+  files: string[];
+  updatedAt?: string;
+};
+
+export type EntityMemoryUpdate = Partial<Omit<EntityMemory, "updatedAt">>;
+
+/**
+ * Largest serialized memory accepted, well below GitHub's comment size limit
+ * so the comment itself keeps room for the response.
+ */
+export const MAX_MEMORY_LENGTH = 8000;
+
+const MEMORY_BLOCK_PATTERN = /<!-- claude-memory\n([\s\S]*?)\n-->/;
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
+/**
+ * Reads the memory block from a comment body.
+ * @returns The memory, or undefined if there is no valid block
+ */
+export function parseMemoryBlock(body: string): EntityMemory | undefined {
+  const json = body.match(MEMORY_BLOCK_PATTERN)?.[1];
+  if (!json) {
+    return undefined;
+  }
+  try {
+    const data = JSON.parse(json);
+    return {
+      summary: typeof data.summary === "string" ? data.summary : "",
+      decisions: isStringArray(data.decisions) ? data.decisions : [],
+      todos: isStringArray(data.todos) ? data.todos : [],
+      files: isStringArray(data.files) ? data.files : [],
+      ...(typeof data.updatedAt === "string" && { updatedAt: data.updatedAt }),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Serializes memory into a hidden block. `>` is escaped so the content can
+ * never close the HTML comment early.
+ */
+export function formatMemoryBlock(memory: EntityMemory): string {
+  const json = JSON.stringify(memory).replace(/>/g, "\\u003e");
+  return `<!-- claude-memory\n${json}\n-->`;
+}
+
+export function extractMemoryBlock(body: string): string | undefined {
+  return body.match(MEMORY_BLOCK_PATTERN)?.[0];
+}
+
+/**
+ * Replaces the memory block in a comment body, or appends one.
+ */
+export function setMemoryBlock(body: string, block: string): string {
+  const withoutBlock = body.replace(MEMORY_BLOCK_PATTERN, "").trimEnd();
+  return withoutBlock ? `${withoutBlock}\n\n${block}` : block;
+}
+
+/**
+ * Applies an update to the memory. Fields in the update replace the stored
+ * ones; omitted fields are kept.
+ * @throws Error if the result exceeds MAX_MEMORY_LENGTH
+ */
+export function applyMemoryUpdate(
+  memory: EntityMemory | undefined,
+  update: EntityMemoryUpdate,
+  now: Date = new Date(),
+): EntityMemory {
+  const updated: EntityMemory = {
+    summary: update.summary ?? memory?.summary ?? "",
+    decisions: update.decisions ?? memory?.decisions ?? [],
+    todos: update.todos ?? memory?.todos ?? [],
+    files: update.files ?? memory?.files ?? [],
+    updatedAt: now.toISOString(),
+  };
+  const length = formatMemoryBlock(updated).length;
+  if (length > MAX_MEMORY_LENGTH) {
+    throw new Error(
+      `Memory is too large (${length} characters, limit ${MAX_MEMORY_LENGTH}). Summarize it and drop entries that no longer matter.`,
+    );
+  }
+  return updated;
+}
+
+function formatList(items: string[]): string {
+  return items.map((item) => `- ${sanitizeContent(item)}`).join("\n");
+}
+
+/**
+ * Formats memory for the prompt.
+ */
+export function formatEntityMemory(memory: EntityMemory): string {
+  const sections = [
+    memory.updatedAt && `Last updated: ${memory.updatedAt}`,
+    memory.summary && `Summary:\n${sanitizeContent(memory.summary)}`,
+    memory.decisions.length > 0 &&
+      `Decisions:\n${formatList(memory.decisions)}`,
+    memory.todos.length > 0 && `Open TODOs:\n${formatList(memory.todos)}`,
+    memory.files.length > 0 && `Files touched:\n${formatList(memory.files)}`,
+  ].filter(Boolean);
+  return sections.join("\n\n");
+}
@@ -0,0 +1,111 @@
+/**
+ * Helpers for buffering inline comments into a single pull request review.
+ * Used by the review MCP server so that a review is submitted once, with a
+ * summary body and one verdict, instead of as scattered standalone comments.
+ */
+
+export const REVIEW_EVENTS = ["COMMENT", "REQUEST_CHANGES", "APPROVE"] as const;
+
+export type ReviewEvent = (typeof REVIEW_EVENTS)[number];
+
+export type PendingReviewComment = {
+  path: string;
+  body: string;
+  line: number;
+  startLine?: number;
+  side: "LEFT" | "RIGHT";
+};
+
+export type ReviewCommentParam = {
+  path: string;
+  body: string;
+  line: number;
+  side: "LEFT" | "RIGHT";
+  start_line?: number;
+  start_side?: "LEFT" | "RIGHT";
+};
+
+/**
+ * Parses a review event from user input (case-insensitive).
+ * @throws Error if the value is not a known review event
+ */
+export function parseReviewEvent(value: string): ReviewEvent {
+  const normalized = value.trim().toUpperCase().replace(/[\s-]/g, "_");
+  if (!(REVIEW_EVENTS as readonly string[]).includes(normalized)) {
+    throw new Error(
+      `Invalid review event '${value}'. Expected one of: ${REVIEW_EVENTS.join(", ")}`,
+    );
+  }
+  return normalized as ReviewEvent;
+}
+
+/**
+ * Resolves the event a review should be submitted with.
+ * @param requested The event requested by Claude, if any
+ * @param defaultEvent The event configured via the review_event input
+ * @param allowApproval Whether APPROVE reviews are permitted
+ * @throws Error if the resolved event is APPROVE and approval is blocked
+ */
+export function resolveReviewEvent(
+  requested: string | undefined,
+  defaultEvent: ReviewEvent,
+  allowApproval: boolean,
+): ReviewEvent {
+  const event = requested ? parseReviewEvent(requested) : defaultEvent;
+  if (event === "APPROVE" && !allowApproval) {
+    throw new Error(
+      "Submitting an APPROVE review is blocked. Set allow_review_approval: true to permit approvals, or submit with COMMENT or REQUEST_CHANGES.",
+    );
+  }
+  return event;
+}
+
+/**
+ * Validates a comment before it is added to the pending review.
+ * @throws Error if the line range is invalid
+ */
+export function validatePendingReviewComment(
+  comment: PendingReviewComment,
+): void {
+  if (!comment.path.trim()) {
+    throw new Error("Comment path cannot be empty");
+  }
+  if (!comment.body.trim()) {
+    throw new Error("Comment body cannot be empty");
+  }
+  if (!Number.isInteger(comment.line) || comment.line < 1) {
+    throw new Error(`Invalid line number: ${comment.line}`);
+  }
+  if (comment.startLine !== undefined) {
+    if (!Number.isInteger(comment.startLine) || comment.startLine < 1) {
+      throw new Error(`Invalid start line: ${comment.startLine}`);
+    }
+    if (comment.startLine >= comment.line) {
+      throw new Error(
+        `startLine (${comment.startLine}) must be less than line (${comment.line}) for multi-line comments`,
+      );
+    }
+  }
+}
+
+/**
+ * Converts buffered comments into the `comments` parameter of the
+ * pulls.createReview REST endpoint.
+ */
+export function buildReviewCommentParams(
+  comments: PendingReviewComment[],
+): ReviewCommentParam[] {
+  return comments.map((comment) => {
+    const param: ReviewCommentParam = {
+      path: comment.path,
+      body: comment.body,
+      line: comment.line,
+      side: comment.side,
+    };
+    if (comment.startLine !== undefined) {
+      param.start_line = comment.startLine;
+      param.start_side = comment.side;
+    }
+    return param;
+  });
+}
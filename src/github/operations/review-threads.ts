@@ -0,0 +1,56 @@
+import type { Octokits } from "../api/client";
+import {
+  RESOLVE_REVIEW_THREAD_MUTATION,
+  REVIEW_THREAD_QUERY,
+} from "../api/queries/github";
+import type { ReviewThreadQueryResponse } from "../types";
+
+export type ResolveReviewThreadParams = {
+  threadId: string;
+  owner: string;
+  repo: string;
+  prNumber: number;
+};
+
+export type ResolveReviewThreadResult = {
+  threadId: string;
+  path: string;
+  alreadyResolved: boolean;
+};
+
+/**
+ * Resolves a review thread on the given pull request.
+ * The thread is looked up first so that threads on other pull requests or
+ * repositories cannot be resolved, even when the token has access to them.
+ * @throws Error if the thread does not exist or belongs to another pull request
+ */
+export async function resolveReviewThread(
+  graphql: Octokits["graphql"],
+  { threadId, owner, repo, prNumber }: ResolveReviewThreadParams,
+): Promise<ResolveReviewThreadResult> {
+  const { node: thread } = await graphql<ReviewThreadQueryResponse>(
+    REVIEW_THREAD_QUERY,
+    { id: threadId },
+  );
+
+  if (!thread?.pullRequest) {
+    throw new Error(`Review thread ${threadId} not found`);
+  }
+
+  const repository = thread.pullRequest.repository.nameWithOwner;
+  if (
+    repository.toLowerCase() !== `${owner}/${repo}`.toLowerCase() ||
+    thread.pullRequest.number !== prNumber
+  ) {
+    throw new Error(
+      `Review thread ${threadId} belongs to ${repository}#${thread.pullRequest.number}, not ${owner}/${repo}#${prNumber}`,
+    );
+  }
+
+  if (thread.isResolved) {
+    return { threadId, path: thread.path, alreadyResolved: true };
+  }
+
+  await graphql(RESOLVE_REVIEW_THREAD_MUTATION, { threadId });
+  return { threadId, path: thread.path, alreadyResolved: false };
+}
@@ -0,0 +1,39 @@
+/**
+ * Session IDs recorded on an issue or pull request so that a follow-up
+ * mention can resume the previous Claude session. The ID and the workflow run
+ * holding the session transcript artifact are stored as a hidden marker in
+ * the tracking comment.
+ */
+
+export type PreviousSession = {
+  sessionId: string;
+  /** Workflow run that uploaded the transcript artifact */
+  runId: string;
+};
+
+const SESSION_MARKER_PATTERN =
+  /<!-- claude-session: ([0-9a-zA-Z-]+) run:(\d+) -->/g;
+
+/**
+ * Name of the workflow artifact holding a session's transcript.
+ */
+export function getSessionArtifactName(sessionId: string): string {
+  return `claude-session-${sessionId}`;
+}
+
+export function formatSessionMarker(sessionId: string, runId: string): string {
+  return `<!-- claude-session: ${sessionId} run:${runId} -->`;
+}
+
+export function stripSessionMarkers(body: string): string {
+  return body.replace(SESSION_MARKER_PATTERN, "").trim();
+}
+
+export function parseSessionMarker(body: string): PreviousSession | undefined {
+  const markers = [...body.matchAll(SESSION_MARKER_PATTERN)];
+  const marker = markers[markers.length - 1];
+  if (!marker?.[1] || !marker[2]) {
+    return undefined;
+  }
+  return { sessionId: marker[1], runId: marker[2] };
+}
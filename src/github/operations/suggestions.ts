@@ -0,0 +1,230 @@
+/**
+ * Helpers for proposing a batch of code changes on a pull request, either as
+ * suggestion blocks in a single review or as one commit on a separate branch.
+ */
+import type { Octokits } from "../api/client";
+import { FILE_AT_REF_QUERY } from "../api/queries/github";
+import type { FileAtRefQueryResponse } from "../types";
+import type { PendingReviewComment } from "./pending-review";
+import type { TreeEntry } from "./git-tree";
+
+export type ProposedChange = {
+  path: string;
+  /** First line to replace; defaults to line */
+  startLine?: number;
+  /** Last line to replace */
+  line: number;
+  /** New content for the lines; an empty string deletes them */
+  replacement: string;
+  /** Optional explanation shown above the suggestion */
+  comment?: string;
+};
+
+export type FileAtRef = {
+  content: string;
+  mode: string;
+};
+
+function lineRange(change: ProposedChange): [number, number] {
+  return [change.startLine ?? change.line, change.line];
+}
+
+function formatLines([start, end]: [number, number]): string {
+  return start === end ? `line ${start}` : `lines ${start}-${end}`;
+}
+
+/**
+ * Checks that every change targets a valid line range and that no two
+ * changes to the same file overlap.
+ * @throws Error listing every problem found
+ */
+export function validateProposedChanges(changes: ProposedChange[]): void {
+  if (changes.length === 0) {
+    throw new Error("At least one change is required");
+  }
+
+  const problems: string[] = [];
+  changes.forEach((change, index) => {
+    const [start, end] = lineRange(change);
+    if (!change.path.trim()) {
+      problems.push(`Change ${index}: path cannot be empty`);
+    }
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1) {
+      problems.push(`Change ${index}: invalid ${formatLines([start, end])}`);
+    } else if (start > end) {
+      problems.push(
+        `Change ${index}: startLine (${start}) must not be after line (${end})`,
+      );
+    }
+  });
+
+  const byPath = new Map<string, [number, number][]>();
+  for (const change of changes) {
+    byPath.set(change.path, [
+      ...(byPath.get(change.path) ?? []),
+      lineRange(change),
+    ]);
+  }
+  for (const [path, ranges] of byPath) {
+    const sorted = ranges.sort(([a], [b]) => a - b);
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1]!;
+      const current = sorted[i]!;
+      if (current[0] <= previous[1]) {
+        problems.push(
+          `Changes to ${path} overlap: ${formatLines(previous)} and ${formatLines(current)}`,
+        );
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid changes:\n- ${problems.join("\n- ")}`);
+  }
+}
+
+/**
+ * Builds a review comment body holding a suggestion block. The fence is made
+ * longer than any backtick run in the replacement so it cannot be closed
+ * early.
+ */
+export function buildSuggestionBody(change: ProposedChange): string {
+  const longestRun = Math.max(
+    2,
+    ...(change.replacement.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = "`".repeat(longestRun + 1);
+  const replacement = change.replacement.replace(/\n$/, "");
+  const suggestion = replacement
+    ? `${fence}suggestion\n${replacement}\n${fence}`
+    : `${fence}suggestion\n${fence}`;
+  return change.comment ? `${change.comment}\n\n${suggestion}` : suggestion;
+}
+
+/**
+ * Converts changes into comments for a single pull request review.
+ */
+export function buildSuggestionComments(
+  changes: ProposedChange[],
+): PendingReviewComment[] {
+  return changes.map((change) => {
+    const [start, end] = lineRange(change);
+    return {
+      path: change.path,
+      body: buildSuggestionBody(change),
+      line: end,
+      ...(start !== end && { startLine: start }),
+      side: "RIGHT",
+    };
+  });
+}
+
+/**
+ * Applies changes to a file's content, the way committing each suggestion
+ * on GitHub would.
+ * @throws Error if a change targets lines past the end of the file
+ */
+export function applyProposedChanges(
+  content: string,
+  changes: ProposedChange[],
+): string {
+  const lines = content.split("\n");
+  // A trailing newline leaves an empty last element that is not a line
+  const lineCount = content.endsWith("\n") ? lines.length - 1 : lines.length;
+
+  // Apply from the bottom up so earlier line numbers stay valid
+  const sorted = [...changes].sort((a, b) => lineRange(b)[0] - lineRange(a)[0]);
+  for (const change of sorted) {
+    const [start, end] = lineRange(change);
+    if (end > lineCount) {
+      throw new Error(
+        `${change.path} has ${lineCount} lines, cannot replace ${formatLines([start, end])}`,
+      );
+    }
+    const replacement = change.replacement.replace(/\n$/, "");
+    lines.splice(
+      start - 1,
+      end - start + 1,
+      ...(replacement ? replacement.split("\n") : []),
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Loads a text file and its mode at a commit.
+ * @throws Error if the file does not exist, is binary or is too large
+ */
+export async function loadFileAtRef(
+  graphql: Octokits["graphql"],
+  {
+    owner,
+    repo,
+    ref,
+    path,
+  }: { owner: string; repo: string; ref: string; path: string },
+): Promise<FileAtRef> {
+  const separator = path.lastIndexOf("/");
+  const directory = separator === -1 ? "" : path.slice(0, separator);
+  const name = path.slice(separator + 1);
+
+  const { repository } = await graphql<FileAtRefQueryResponse>(
+    FILE_AT_REF_QUERY,
+    {
+      owner,
+      repo,
+      file: `${ref}:${path}`,
+      directory: `${ref}:${directory}`,
+    },
+  );
+
+  const file = repository.file;
+  if (!file) {
+    throw new Error(`${path} does not exist at ${ref}`);
+  }
+  if (file.isBinary || file.text === null) {
+    throw new Error(`${path} is a binary file and cannot be changed`);
+  }
+  if (file.isTruncated) {
+    throw new Error(`${path} is too large to change through the API`);
+  }
+
+  const entry = repository.directory?.entries?.find(
+    (candidate) => candidate.name === name,
+  );
+  return {
+    content: file.text,
+    // GraphQL reports the mode as a decimal number, e.g. 33188 for 100644
+    mode: entry ? entry.mode.toString(8) : "100644",
+  };
+}
+
+/**
+ * Loads each changed file at ref, applies its changes and returns the tree
+ * entries for a commit holding all of them.
+ */
+export async function buildSuggestionTreeEntries(
+  graphql: Octokits["graphql"],
+  {
+    owner,
+    repo,
+    ref,
+    changes,
+  }: { owner: string; repo: string; ref: string; changes: ProposedChange[] },
+): Promise<TreeEntry[]> {
+  const paths = Array.from(new Set(changes.map((change) => change.path)));
+  return Promise.all(
+    paths.map(async (path) => {
+      const file = await loadFileAtRef(graphql, { owner, repo, ref, path });
+      return {
+        path,
+        mode: file.mode,
+        type: "blob" as const,
+        content: applyProposedChanges(
+          file.content,
+          changes.filter((change) => change.path === path),
+        ),
+      };
+    }),
+  );
+}
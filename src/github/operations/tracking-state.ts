@@ -0,0 +1,70 @@
+/**
+ * State that earlier runs left in their tracking comments on an issue or
+ * pull request: the memory block and the session marker.
+ */
+import type { Octokit } from "@octokit/rest";
+import { isClaudeComment } from "./comments/common";
+import { parseMemoryBlock, type EntityMemory } from "./memory";
+import { parseSessionMarker, type PreviousSession } from "./session";
+
+export type TrackingState = {
+  memory?: EntityMemory;
+  session?: PreviousSession;
+};
+
+/**
+ * Reads the most recent memory and session from Claude's tracking comments.
+ * Only Claude's own comments are read, since anyone can write an HTML
+ * comment and any workflow can comment as a bot.
+ */
+export async function fetchTrackingState(
+  rest: Octokit,
+  {
+    owner,
+    repo,
+    entityNumber,
+    isPR,
+    botName,
+  }: {
+    owner: string;
+    repo: string;
+    entityNumber: number;
+    isPR: boolean;
+    botName: string;
+  },
+): Promise<TrackingState> {
+  const [issueComments, reviewComments] = await Promise.all([
+    rest.paginate(rest.rest.issues.listComments, {
+      owner,
+      repo,
+      issue_number: entityNumber,
+      per_page: 100,
+    }),
+    // Tracking comments for inline review comments are thread replies
+    isPR
+      ? rest.paginate(rest.rest.pulls.listReviewComments, {
+          owner,
+          repo,
+          pull_number: entityNumber,
+          per_page: 100,
+        })
+      : Promise.resolve([]),
+  ]);
+
+  const candidates = [...issueComments, ...reviewComments]
+    .filter((comment) => isClaudeComment(comment.user, botName) && comment.body)
+    .sort(
+      (a, b) =>
+        new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime(),
+    );
+
+  const state: TrackingState = {};
+  for (const comment of candidates) {
+    state.memory ??= parseMemoryBlock(comment.body!);
+    state.session ??= parseSessionMarker(comment.body!);
+    if (state.memory && state.session) {
+      break;
+    }
+  }
+  return state;
+}
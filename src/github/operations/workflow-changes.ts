@@ -0,0 +1,237 @@
+/**
+ * Opt-in support for changing GitHub Actions workflows. Only the workflow
+ * files listed in allow_workflow_changes may be committed, each one is
+ * checked before it is committed, and the committed paths are recorded so
+ * the tracking comment can flag them for review.
+ */
+
+import { appendFile, readFile } from "fs/promises";
+import type { CommitStrategy } from "./commit-strategy";
+
+export const WORKFLOWS_DIR = ".github/workflows/";
+
+const WORKFLOW_FILE_PATTERN = /^\.github\/workflows\/[^/]+\.ya?ml$/;
+const JOB_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Parses the allow_workflow_changes input.
+ * @param input Newline- or comma-separated list of workflow file paths
+ * @throws Error on entries that are not workflow files
+ */
+export function parseWorkflowChangePaths(input: string | undefined): string[] {
+  if (!input) {
+    return [];
+  }
+
+  const paths = new Set<string>();
+  for (const entry of input.split(/[\n,]/)) {
+    const path = entry.trim().replace(/^\.\//, "");
+    if (!path) continue;
+    if (!WORKFLOW_FILE_PATTERN.test(path)) {
+      throw new Error(
+        `allow_workflow_changes only accepts .yml or .yaml files directly under ${WORKFLOWS_DIR}, got "${entry.trim()}"`,
+      );
+    }
+    paths.add(path);
+  }
+  return [...paths];
+}
+
+/**
+ * Workflow changes are only checked when Claude commits through
+ * mcp__github_file_ops__commit_files, so they need the api commit strategy.
+ * @throws Error if allow_workflow_changes is set with another strategy
+ */
+export function checkWorkflowChangesSupported(inputs: {
+  allowWorkflowChanges: string;
+  commitStrategy: CommitStrategy;
+}): void {
+  const paths = parseWorkflowChangePaths(inputs.allowWorkflowChanges);
+  if (paths.length > 0 && inputs.commitStrategy !== "api") {
+    throw new Error(
+      `allow_workflow_changes requires commit_strategy: api, so that workflow changes are checked before they are committed (got ${inputs.commitStrategy})`,
+    );
+  }
+}
+
+/**
+ * Checks that every workflow file among the paths to commit is allowed.
+ * @returns The workflow files among the paths
+ * @throws Error naming the workflow files that are not allowed
+ */
+export function checkWorkflowChanges(
+  paths: string[],
+  allowedPaths: string[],
+): string[] {
+  const workflowPaths = paths
+    .map((path) => path.replace(/^\.\//, ""))
+    .filter((path) => path.startsWith(WORKFLOWS_DIR));
+  const denied = workflowPaths.filter((path) => !allowedPaths.includes(path));
+  if (denied.length > 0) {
+    throw new Error(
+      allowedPaths.length > 0
+        ? `Changing ${denied.join(", ")} is not allowed. Only these workflow files may be changed: ${allowedPaths.join(", ")}`
+        : `Changing workflow files (${denied.join(", ")}) is not allowed. They can be enabled with the allow_workflow_changes input`,
+    );
+  }
+  return workflowPaths;
+}
+
+/**
+ * Rejects workflow files among paths committed by tools that don't check
+ * them. Only mcp__github_file_ops__commit_files applies the allow list and
+ * validation, and records the change for the tracking comment.
+ * @throws Error naming the workflow files
+ */
+export function rejectWorkflowChanges(paths: string[]): void {
+  const workflowPaths = paths
+    .map((path) => path.replace(/^\.\//, ""))
+    .filter((path) => path.startsWith(WORKFLOWS_DIR));
+  if (workflowPaths.length > 0) {
+    throw new Error(
+      `Workflow files (${workflowPaths.join(", ")}) cannot be committed here. Use mcp__github_file_ops__commit_files, which checks them against allow_workflow_changes`,
+    );
+  }
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function findUnclosedExpressions(value: unknown, path: string): string[] {
+  if (typeof value === "string") {
+    const opened = value.split("${{").length - 1;
+    const closed = value.split("}}").length - 1;
+    return opened > closed ? [`${path}: unclosed \${{ expression`] : [];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) =>
+      findUnclosedExpressions(item, `${path}[${index}]`),
+    );
+  }
+  if (isMapping(value)) {
+    return Object.entries(value).flatMap(([key, item]) =>
+      findUnclosedExpressions(item, path ? `${path}.${key}` : key),
+    );
+  }
+  return [];
+}
+
+function validateJob(id: string, job: unknown, jobIds: string[]): string[] {
+  const where = `jobs.${id}`;
+  if (!JOB_ID_PATTERN.test(id)) {
+    return [
+      `${where}: job IDs must start with a letter or _ and contain only letters, numbers, - and _`,
+    ];
+  }
+  if (!isMapping(job)) {
+    return [`${where}: a job must be a mapping`];
+  }
+
+  const problems: string[] = [];
+  if (job.uses !== undefined) {
+    if (job.steps !== undefined) {
+      problems.push(
+        `${where}: a job that calls a reusable workflow with "uses" cannot have steps`,
+      );
+    }
+  } else {
+    if (job["runs-on"] === undefined) {
+      problems.push(`${where}: "runs-on" is required`);
+    }
+    if (!Array.isArray(job.steps) || job.steps.length === 0) {
+      problems.push(`${where}: "steps" must be a non-empty list`);
+    } else {
+      job.steps.forEach((step, index) => {
+        const stepWhere = `${where}.steps[${index}]`;
+        if (!isMapping(step)) {
+          problems.push(`${stepWhere}: a step must be a mapping`);
+        } else if ((step.uses === undefined) === (step.run === undefined)) {
+          problems.push(
+            `${stepWhere}: a step must have exactly one of "uses" or "run"`,
+          );
+        }
+      });
+    }
+  }
+
+  const needs =
+    typeof job.needs === "string"
+      ? [job.needs]
+      : Array.isArray(job.needs)
+        ? job.needs
+        : [];
+  for (const need of needs) {
+    if (typeof need !== "string" || !jobIds.includes(need)) {
+      problems.push(`${where}: needs unknown job "${String(need)}"`);
+    } else if (need === id) {
+      problems.push(`${where}: a job cannot need itself`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Checks a workflow file for the mistakes actionlint would catch first:
+ * invalid YAML, missing triggers or jobs, malformed jobs and steps, unknown
+ * job dependencies and unclosed expressions.
+ * @returns The problems found, empty if the workflow looks valid
+ */
+export function validateWorkflow(content: string): string[] {
+  let workflow: unknown;
+  try {
+    workflow = Bun.YAML.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return [`invalid YAML: ${message}`];
+  }
+  if (!isMapping(workflow)) {
+    return ["a workflow must be a mapping"];
+  }
+
+  const problems: string[] = [];
+  // YAML 1.1 parsers read an unquoted `on` key as true
+  if (workflow.on === undefined && workflow["true"] === undefined) {
+    problems.push('"on" is required to say which events trigger the workflow');
+  }
+  if (!isMapping(workflow.jobs) || Object.keys(workflow.jobs).length === 0) {
+    problems.push('"jobs" must be a mapping with at least one job');
+  } else {
+    const jobIds = Object.keys(workflow.jobs);
+    for (const [id, job] of Object.entries(workflow.jobs)) {
+      problems.push(...validateJob(id, job, jobIds));
+    }
+  }
+  problems.push(...findUnclosedExpressions(workflow, ""));
+  return problems;
+}
+
+export function getWorkflowChangesFile(): string {
+  return `${process.env.RUNNER_TEMP || "/tmp"}/claude-workflow-changes.txt`;
+}
+
+/**
+ * Records workflow files that were committed, one path per line.
+ */
+export async function recordWorkflowChanges(
+  paths: string[],
+  file: string = getWorkflowChangesFile(),
+): Promise<void> {
+  if (paths.length > 0) {
+    await appendFile(file, paths.map((path) => `${path}\n`).join(""));
+  }
+}
+
+/**
+ * Reads the workflow files committed during the run.
+ */
+export async function readWorkflowChanges(
+  file: string = getWorkflowChangesFile(),
+): Promise<string[]> {
+  try {
+    const content = await readFile(file, "utf-8");
+    return [...new Set(content.split("\n").filter(Boolean))];
+  } catch {
+    return [];
+  }
+}
@@ -2,6 +2,7 @@
 
 import * as core from "@actions/core";
 import { retryWithBackoff } from "../utils/retry";
+import { resolveCommitStrategy } from "./operations/commit-strategy";
 
 async function getOidcToken(): Promise<string> {
   try {
@@ -22,15 +23,39 @@ const DEFAULT_PERMISSIONS: Record<string, string> = {
   issues: "write",
 };
 
+/**
+ * Workflow changes are only committed through the API, so the token needs
+ * `workflows: write` only when they are allowed and that is the strategy.
+ */
+function needsWorkflowsPermission(): boolean {
+  if (!process.env.ALLOW_WORKFLOW_CHANGES?.trim()) {
+    return false;
+  }
+  try {
+    return (
+      resolveCommitStrategy({
+        commitStrategy: process.env.COMMIT_STRATEGY,
+        useCommitSigning: process.env.USE_COMMIT_SIGNING === "true",
+        sshSigningKey: process.env.SSH_SIGNING_KEY || "",
+        gpgSigningKey: process.env.GPG_SIGNING_KEY || "",
+      }) === "api"
+    );
+  } catch {
+    // An invalid configuration fails later, with a better message
+    return false;
+  }
+}
+
 export function parseAdditionalPermissions():
   | Record<string, string>
   | undefined {
-  const raw = process.env.ADDITIONAL_PERMISSIONS;
-  if (!raw || !raw.trim()) {
-    return undefined;
+  const additional: Record<string, string> = {};
+
+  if (needsWorkflowsPermission()) {
+    additional.workflows = "write";
   }
 
-  const additional: Record<string, string> = {};
+  const raw = process.env.ADDITIONAL_PERMISSIONS ?? "";
   for (const line of raw.split("\n")) {
     const trimmed = line.trim();
     if (!trimmed) continue;
@@ -53,6 +78,7 @@ export function parseAdditionalPermissions():
 async function exchangeForAppToken(
   oidcToken: string,
   permissions?: Record<string, string>,
+  repositories?: string[],
 ): Promise<string> {
   const headers: Record<string, string> = {
     Authorization: `Bearer ${oidcToken}`,
@@ -62,9 +88,12 @@ async function exchangeForAppToken(
     headers,
   };
 
-  if (permissions) {
+  if (permissions || repositories) {
     headers["Content-Type"] = "application/json";
-    fetchOptions.body = JSON.stringify({ permissions });
+    fetchOptions.body = JSON.stringify({
+      ...(permissions && { permissions }),
+      ...(repositories && { repositories }),
+    });
   }
 
   const response = await fetch(
@@ -153,3 +182,36 @@ export async function setupGitHubToken(): Promise<string> {
     process.exit(1);
   }
 }
+
+/**
+ * Mints a token scoped to a single additional repository.
+ * When a github_token override is provided it is reused as-is, since it
+ * cannot be narrowed; it must already have access to the repository.
+ * @param repository The repository in owner/repo form
+ */
+export async function setupRepositoryToken(
+  repository: string,
+): Promise<string> {
+  const providedToken = process.env.OVERRIDE_GITHUB_TOKEN;
+  if (providedToken) {
+    console.log(`Using provided GITHUB_TOKEN for ${repository}`);
+    return providedToken;
+  }
+
+  const oidcToken = await retryWithBackoff(() => getOidcToken());
+  const permissions = parseAdditionalPermissions() ?? DEFAULT_PERMISSIONS;
+
+  try {
+    const token = await retryWithBackoff(() =>
+      exchangeForAppToken(oidcToken, permissions, [repository]),
+    );
+    console.log(`Scoped token obtained for ${repository}`);
+    return token;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(
+      `Failed to obtain a token for ${repository}: ${errorMessage}. ` +
+        "Make sure the Claude GitHub app is installed on that repository, or provide a `github_token` with access to it.",
+    );
+  }
+}
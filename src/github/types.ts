@@ -1,4 +1,19 @@
 // Types for GitHub GraphQL query responses
+export type GitHubPageInfo = {
+  hasNextPage: boolean;
+  endCursor: string | null;
+};
+
+/**
+ * A GraphQL connection. pageInfo and totalCount are requested on every
+ * connection so the fetcher can page through it.
+ */
+export type GitHubConnection<T> = {
+  totalCount?: number;
+  pageInfo?: GitHubPageInfo;
+  nodes: T[];
+};
+
 export type GitHubAuthor = {
   login: string;
   name?: string;
@@ -20,6 +35,27 @@ export type GitHubReviewComment = GitHubComment & {
   line: number | null;
 };
 
+export type GitHubReviewThreadComment = GitHubReviewComment & {
+  originalLine: number | null;
+  diffHunk?: string;
+  outdated?: boolean;
+};
+
+/**
+ * A review thread: an inline comment and its replies, with resolution state.
+ */
+export type GitHubReviewThread = {
+  id: string;
+  isResolved: boolean;
+  isOutdated: boolean;
+  path: string;
+  line: number | null;
+  originalLine: number | null;
+  startLine?: number | null;
+  resolvedBy?: GitHubAuthor | null;
+  comments: GitHubConnection<GitHubReviewThreadComment>;
+};
+
 export type GitHubCommit = {
   oid: string;
   message: string;
@@ -45,9 +81,7 @@ export type GitHubReview = {
   submittedAt: string;
   updatedAt?: string;
   lastEditedAt?: string;
-  comments: {
-    nodes: GitHubReviewComment[];
-  };
+  comments: GitHubConnection<GitHubReviewComment>;
 };
 
 export type GitHubPullRequest = {
@@ -63,26 +97,18 @@ export type GitHubPullRequest = {
   additions: number;
   deletions: number;
   state: string;
-  labels: {
-    nodes: Array<{
-      name: string;
-    }>;
-  };
-  commits: {
+  labels: GitHubConnection<{
+    name: string;
+  }>;
+  commits: GitHubConnection<{
+    commit: GitHubCommit;
+  }> & {
     totalCount: number;
-    nodes: Array<{
-      commit: GitHubCommit;
-    }>;
-  };
-  files: {
-    nodes: GitHubFile[];
-  };
-  comments: {
-    nodes: GitHubComment[];
-  };
-  reviews: {
-    nodes: GitHubReview[];
   };
+  files: GitHubConnection<GitHubFile>;
+  comments: GitHubConnection<GitHubComment>;
+  reviews: GitHubConnection<GitHubReview>;
+  reviewThreads?: GitHubConnection<GitHubReviewThread>;
 };
 
 export type GitHubIssue = {
@@ -93,14 +119,37 @@ export type GitHubIssue = {
   updatedAt?: string;
   lastEditedAt?: string;
   state: string;
-  labels: {
-    nodes: Array<{
-      name: string;
-    }>;
-  };
-  comments: {
-    nodes: GitHubComment[];
+  labels: GitHubConnection<{
+    name: string;
+  }>;
+  comments: GitHubConnection<GitHubComment>;
+};
+
+/**
+ * A top-level discussion comment and its replies. Discussions only nest
+ * one level deep.
+ */
+export type GitHubDiscussionComment = GitHubComment & {
+  isAnswer: boolean;
+  replies: GitHubConnection<GitHubComment>;
+};
+
+export type GitHubDiscussion = {
+  id: string;
+  number: number;
+  title: string;
+  body: string;
+  url: string;
+  author: GitHubAuthor;
+  createdAt: string;
+  updatedAt?: string;
+  lastEditedAt?: string;
+  category: {
+    name: string;
+    isAnswerable: boolean;
   };
+  answer: { id: string } | null;
+  comments: GitHubConnection<GitHubDiscussionComment>;
 };
 
 export type PullRequestQueryResponse = {
@@ -114,3 +163,50 @@ export type IssueQueryResponse = {
     issue: GitHubIssue;
   };
 };
+
+export type DiscussionQueryResponse = {
+  repository: {
+    discussion: GitHubDiscussion | null;
+  };
+};
+
+export type DiscussionCommentQueryResponse = {
+  node: {
+    id: string;
+    url: string;
+    body: string;
+    viewerCanMarkAsAnswer: boolean;
+    replyTo: { id: string } | null;
+    discussion: {
+      id: string;
+      number: number;
+      category: { isAnswerable: boolean };
+      repository: { nameWithOwner: string };
+    };
+  } | null;
+};
+
+export type ReviewThreadQueryResponse = {
+  node: {
+    id: string;
+    isResolved: boolean;
+    path: string;
+    pullRequest: {
+      number: number;
+      repository: {
+        nameWithOwner: string;
+      };
+    };
+  } | null;
+};
+
+export type FileAtRefQueryResponse = {
+  repository: {
+    file: {
+      text: string | null;
+      isBinary: boolean | null;
+      isTruncated: boolean;
+    } | null;
+    directory: { entries: { name: string; mode: number }[] | null } | null;
+  };
+};
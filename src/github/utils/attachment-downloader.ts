@@ -0,0 +1,233 @@
+import fs from "fs/promises";
+import path from "path";
+import type { Octokits } from "../api/client";
+import { GITHUB_SERVER_URL } from "../api/config";
+import {
+  describeComment,
+  fetchCommentBodyHtml,
+  type CommentWithImages,
+} from "./image-downloader";
+import { extractZip } from "./zip";
+import { extractPdfText } from "./pdf-text";
+
+export const ATTACHMENTS_DIR = "/tmp/github-attachments";
+
+// Downloads larger than this are skipped
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ZIP_ENTRIES = 1000;
+export const MAX_ZIP_EXTRACTED_BYTES = 50 * 1024 * 1024;
+
+const TEXT_EXTENSIONS = [
+  ".log",
+  ".txt",
+  ".json",
+  ".har",
+  ".md",
+  ".csv",
+  ".xml",
+  ".yaml",
+  ".yml",
+  ".diff",
+  ".patch",
+];
+
+export type AttachmentKind = "text" | "pdf" | "zip";
+
+export type DownloadedAttachment = {
+  url: string;
+  name: string;
+  /** Where the attachment was found, e.g. "issue_comment 123" */
+  source: string;
+  kind?: AttachmentKind;
+  localPath?: string;
+  /** Extracted text, for PDFs */
+  textPath?: string;
+  /** Extraction directory and file count, for zips */
+  extractedDir?: string;
+  extractedFiles?: number;
+  /** Why the attachment was not (fully) processed */
+  note?: string;
+};
+
+const escapedUrl = GITHUB_SERVER_URL.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Markdown links (not images) to uploaded files, in both the current
+// user-attachments form and the older per-repository form
+const FILE_LINK_REGEX = new RegExp(
+  `(?<!!)\\[[^\\]]*\\]\\((${escapedUrl}\\/(?:user-attachments\\/files|[^/\\s)]+\\/[^/\\s)]+\\/files)\\/\\d+\\/[^)\\s]+)\\)`,
+  "g",
+);
+
+// Signed download URLs in the HTML rendering of a comment
+const SIGNED_HREF_REGEX =
+  /href="(https:\/\/[^"]+\.(?:githubusercontent\.com|amazonaws\.com)\/[^"]+\?[^"]+)"/g;
+
+export function getAttachmentKind(name: string): AttachmentKind | undefined {
+  const extension = path.extname(name).toLowerCase();
+  if (extension === ".pdf") return "pdf";
+  if (extension === ".zip") return "zip";
+  return TEXT_EXTENSIONS.includes(extension) ? "text" : undefined;
+}
+
+export function getAttachmentName(url: string): string {
+  const segment = url.split("/").pop() ?? "";
+  let name: string;
+  try {
+    name = decodeURIComponent(segment);
+  } catch {
+    // Malformed escapes, such as %ZZ, are kept as written
+    name = segment;
+  }
+  // Keep the name safe to use as a file name
+  return name.replace(/[^\w.-]/g, "_") || "attachment";
+}
+
+/**
+ * Finds the attachment file links in a comment body.
+ */
+export function findAttachmentUrls(body: string): string[] {
+  return [
+    ...new Set([...body.matchAll(FILE_LINK_REGEX)].map((match) => match[1]!)),
+  ];
+}
+
+/**
+ * Picks the signed download URL for an attachment out of the comment's HTML
+ * rendering, matching on the file name. Falls back to the original URL,
+ * which works for public repositories.
+ */
+export function resolveSignedUrl(
+  originalUrl: string,
+  bodyHtml: string | undefined,
+): string {
+  const name = originalUrl.split("/").pop();
+  for (const match of bodyHtml?.matchAll(SIGNED_HREF_REGEX) ?? []) {
+    const signedUrl = match[1]!.replace(/&amp;/g, "&");
+    if (new URL(signedUrl).pathname.endsWith(`/${name}`)) {
+      return signedUrl;
+    }
+  }
+  return originalUrl;
+}
+
+async function download(url: string): Promise<Buffer> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+  const declaredSize = Number(response.headers.get("content-length"));
+  if (declaredSize > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  }
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  }
+  return buffer;
+}
+
+async function processAttachment(
+  attachment: DownloadedAttachment,
+  buffer: Buffer,
+): Promise<void> {
+  const localPath = attachment.localPath!;
+  switch (attachment.kind) {
+    case "pdf": {
+      try {
+        const text = extractPdfText(buffer);
+        if (text) {
+          attachment.textPath = `${localPath}.txt`;
+          await fs.writeFile(attachment.textPath, text);
+        } else {
+          attachment.note = "no extractable text";
+        }
+      } catch (error) {
+        attachment.note = `text extraction failed: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      break;
+    }
+    case "zip": {
+      const extractedDir = localPath.replace(/\.zip$/i, "");
+      try {
+        const { files, skipped } = await extractZip(buffer, extractedDir, {
+          maxEntries: MAX_ZIP_ENTRIES,
+          maxTotalBytes: MAX_ZIP_EXTRACTED_BYTES,
+        });
+        attachment.extractedDir = extractedDir;
+        attachment.extractedFiles = files.length;
+        if (skipped.length > 0) {
+          attachment.note = `${skipped.length} entries skipped: ${skipped.slice(0, 5).join("; ")}`;
+        }
+      } catch (error) {
+        attachment.note = `not extracted: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Downloads the non-image files attached to comments, such as logs, PDFs and
+ * zipped reproductions. Unsupported types and files over the size limit are
+ * listed but not downloaded. PDFs get a text extraction next to them and zips
+ * are unpacked into a directory of the same name.
+ */
+export async function downloadCommentAttachments(
+  octokits: Octokits,
+  owner: string,
+  repo: string,
+  comments: CommentWithImages[],
+): Promise<DownloadedAttachment[]> {
+  const attachments: DownloadedAttachment[] = [];
+  const seen = new Set<string>();
+
+  for (const comment of comments) {
+    const urls = findAttachmentUrls(comment.body).filter(
+      (url) => !seen.has(url),
+    );
+    if (urls.length === 0) {
+      continue;
+    }
+    urls.forEach((url) => seen.add(url));
+    const source = describeComment(comment);
+    console.log(`Found ${urls.length} attachment(s) in ${source}`);
+
+    let bodyHtml: string | undefined;
+    try {
+      bodyHtml = await fetchCommentBodyHtml(octokits, owner, repo, comment);
+    } catch (error) {
+      console.warn(`Failed to fetch HTML body for ${source}:`, error);
+    }
+
+    for (const url of urls) {
+      const name = getAttachmentName(url);
+      const attachment: DownloadedAttachment = { url, name, source };
+      attachments.push(attachment);
+
+      const kind = getAttachmentKind(name);
+      if (!kind) {
+        attachment.note = "not downloaded: unsupported file type";
+        continue;
+      }
+      attachment.kind = kind;
+
+      try {
+        const buffer = await download(resolveSignedUrl(url, bodyHtml));
+        await fs.mkdir(ATTACHMENTS_DIR, { recursive: true });
+        attachment.localPath = path.join(
+          ATTACHMENTS_DIR,
+          `${attachments.length}-${name}`,
+        );
+        await fs.writeFile(attachment.localPath, buffer);
+        console.log(`✓ Saved: ${attachment.localPath}`);
+        await processAttachment(attachment, buffer);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`✗ Failed to download ${url}: ${message}`);
+        attachment.note = `not downloaded: ${message}`;
+      }
+    }
+  }
+
+  return attachments;
+}
@@ -52,6 +52,90 @@ export type CommentWithImages =
   | IssueBody
   | PullRequestBody;
 
+/**
+ * Describes a comment for logs and prompts, e.g. "issue_comment 123".
+ */
+export function describeComment(comment: CommentWithImages): string {
+  const id =
+    comment.type === "issue_body"
+      ? comment.issueNumber
+      : comment.type === "pr_body"
+        ? comment.pullNumber
+        : comment.id;
+  return `${comment.type} ${id}`;
+}
+
+/**
+ * Fetches the rendered HTML of a comment or body. GitHub only includes the
+ * signed URLs of private attachments in the HTML rendering.
+ */
+export async function fetchCommentBodyHtml(
+  octokits: Octokits,
+  owner: string,
+  repo: string,
+  comment: CommentWithImages,
+): Promise<string | undefined> {
+  switch (comment.type) {
+    case "issue_comment": {
+      const response = await octokits.rest.issues.getComment({
+        owner,
+        repo,
+        comment_id: parseInt(comment.id),
+        mediaType: {
+          format: "full+json",
+        },
+      });
+      return response.data.body_html;
+    }
+    case "review_comment": {
+      const response = await octokits.rest.pulls.getReviewComment({
+        owner,
+        repo,
+        comment_id: parseInt(comment.id),
+        mediaType: {
+          format: "full+json",
+        },
+      });
+      return response.data.body_html;
+    }
+    case "review_body": {
+      const response = await octokits.rest.pulls.getReview({
+        owner,
+        repo,
+        pull_number: parseInt(comment.pullNumber),
+        review_id: parseInt(comment.id),
+        mediaType: {
+          format: "full+json",
+        },
+      });
+      return response.data.body_html;
+    }
+    case "issue_body": {
+      const response = await octokits.rest.issues.get({
+        owner,
+        repo,
+        issue_number: parseInt(comment.issueNumber),
+        mediaType: {
+          format: "full+json",
+        },
+      });
+      return response.data.body_html;
+    }
+    case "pr_body": {
+      const response = await octokits.rest.pulls.get({
+        owner,
+        repo,
+        pull_number: parseInt(comment.pullNumber),
+        mediaType: {
+          format: "full+json",
+        },
+      });
+      // Type here seems to be wrong
+      return (response.data as any).body_html;
+    }
+  }
+}
+
 export async function downloadCommentImages(
   octokits: Octokits,
   owner: string,
@@ -82,94 +166,23 @@ export async function downloadCommentImages(
 
     if (urls.length > 0) {
       commentsWithImages.push({ comment, urls });
-      const id =
-        comment.type === "issue_body"
-          ? comment.issueNumber
-          : comment.type === "pr_body"
-            ? comment.pullNumber
-            : comment.id;
-      console.log(`Found ${urls.length} image(s) in ${comment.type} ${id}`);
+      console.log(
+        `Found ${urls.length} image(s) in ${describeComment(comment)}`,
+      );
     }
   }
 
   // Process each comment with images
   for (const { comment, urls } of commentsWithImages) {
     try {
-      let bodyHtml: string | undefined;
-
-      // Get the HTML version based on comment type
-      switch (comment.type) {
-        case "issue_comment": {
-          const response = await octokits.rest.issues.getComment({
-            owner,
-            repo,
-            comment_id: parseInt(comment.id),
-            mediaType: {
-              format: "full+json",
-            },
-          });
-          bodyHtml = response.data.body_html;
-          break;
-        }
-        case "review_comment": {
-          const response = await octokits.rest.pulls.getReviewComment({
-            owner,
-            repo,
-            comment_id: parseInt(comment.id),
-            mediaType: {
-              format: "full+json",
-            },
-          });
-          bodyHtml = response.data.body_html;
-          break;
-        }
-        case "review_body": {
-          const response = await octokits.rest.pulls.getReview({
-            owner,
-            repo,
-            pull_number: parseInt(comment.pullNumber),
-            review_id: parseInt(comment.id),
-            mediaType: {
-              format: "full+json",
-            },
-          });
-          bodyHtml = response.data.body_html;
-          break;
-        }
-        case "issue_body": {
-          const response = await octokits.rest.issues.get({
-            owner,
-            repo,
-            issue_number: parseInt(comment.issueNumber),
-            mediaType: {
-              format: "full+json",
-            },
-          });
-          bodyHtml = response.data.body_html;
-          break;
-        }
-        case "pr_body": {
-          const response = await octokits.rest.pulls.get({
-            owner,
-            repo,
-            pull_number: parseInt(comment.pullNumber),
-            mediaType: {
-              format: "full+json",
-            },
-          });
-          // Type here seems to be wrong
-          bodyHtml = (response.data as any).body_html;
-          break;
-        }
-      }
+      const bodyHtml = await fetchCommentBodyHtml(
+        octokits,
+        owner,
+        repo,
+        comment,
+      );
       if (!bodyHtml) {
-        const id =
-          comment.type === "issue_body"
-            ? comment.issueNumber
-            : comment.type === "pr_body"
-              ? comment.pullNumber
-              : comment.id;
-        console.warn(`No HTML body found for ${comment.type} ${id}`);
+        console.warn(`No HTML body found for ${describeComment(comment)}`);
         continue;
       }
 
@@ -218,14 +231,8 @@ export async function downloadCommentImages(
         }
       }
     } catch (error) {
-      const id =
-        comment.type === "issue_body"
-          ? comment.issueNumber
-          : comment.type === "pr_body"
-            ? comment.pullNumber
-            : comment.id;
       console.error(
-        `Failed to process images for ${comment.type} ${id}:`,
+        `Failed to process images for ${describeComment(comment)}:`,
         error,
       );
     }
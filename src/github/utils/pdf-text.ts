@@ -0,0 +1,185 @@
+import { inflateSync } from "zlib";
+
+/**
+ * Best-effort text extraction from PDFs, without external tools. Reads the
+ * text-showing operators of uncompressed and Flate-compressed content
+ * streams. Text in fonts with custom encodings (common for CJK or subsetted
+ * fonts) may come out garbled or be missing; Claude can still Read the PDF.
+ */
+
+const STREAM_START_REGEX = />>\s*stream\r?\n/g;
+const MAX_STREAM_BYTES = 20 * 1024 * 1024;
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+  "(": "(",
+  ")": ")",
+  "\\": "\\",
+};
+
+function readContentStreams(pdf: Buffer): string[] {
+  const source = pdf.toString("latin1");
+  const streams: string[] = [];
+
+  const streamStart = new RegExp(STREAM_START_REGEX);
+  let match: RegExpExecArray | null;
+  while ((match = streamStart.exec(source))) {
+    // The stream dictionary runs from the start of its object
+    const dictionary = source.slice(
+      source.lastIndexOf("obj", match.index),
+      match.index,
+    );
+    const start = match.index + match[0].length;
+    const end = source.indexOf("endstream", start);
+    if (end === -1) break;
+    streamStart.lastIndex = end;
+
+    // Images, fonts, metadata and object streams carry no page text
+    if (
+      /\/Subtype\s*\/(Image|Type1C|CIDFontType0C|OpenType)|\/Length[123]\b|\/Type\s*\/(ObjStm|XRef|Metadata)/.test(
+        dictionary,
+      )
+    ) {
+      continue;
+    }
+    const data = pdf.subarray(start, end);
+    const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1];
+
+    try {
+      if (!filters) {
+        streams.push(data.toString("latin1"));
+      } else if (filters.replace(/[[\]\s]/g, "") === "/FlateDecode") {
+        streams.push(
+          inflateSync(data, { maxOutputLength: MAX_STREAM_BYTES }).toString(
+            "latin1",
+          ),
+        );
+      }
+      // Other filters (DCT, LZW, ...) are not text we can read
+    } catch {
+      // Corrupt or truncated stream; skip it
+    }
+  }
+  return streams;
+}
+
+function readLiteralString(content: string, start: number): [string, number] {
+  let depth = 1;
+  let result = "";
+  let i = start + 1;
+  while (i < content.length && depth > 0) {
+    const char = content[i]!;
+    if (char === "\\") {
+      const next = content[i + 1] ?? "";
+      const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)?.[0];
+      if (octal) {
+        result += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+        continue;
+      }
+      result += ESCAPES[next] ?? (next === "\n" || next === "\r" ? "" : next);
+      i += 2;
+      continue;
+    }
+    if (char === "(") depth++;
+    if (char === ")") depth--;
+    if (depth > 0) result += char;
+    i++;
+  }
+  return [result, i];
+}
+
+function readHexString(content: string, start: number): [string, number] {
+  const end = content.indexOf(">", start);
+  const hex = content.slice(start + 1, end === -1 ? undefined : end);
+  const digits = hex.replace(/\s/g, "");
+  let result = "";
+  for (let i = 0; i < digits.length; i += 2) {
+    result += String.fromCharCode(
+      parseInt(digits.slice(i, i + 2).padEnd(2, "0"), 16),
+    );
+  }
+  return [result, end === -1 ? content.length : end + 1];
+}
+
+function showText(operands: (string | number)[]): string {
+  return operands
+    .map((operand) =>
+      typeof operand === "string"
+        ? operand
+        : // Large negative kerning inside a TJ array usually separates words
+          operand < -200
+          ? " "
+          : "",
+    )
+    .join("");
+}
+
+function extractStreamText(content: string): string {
+  let text = "";
+  let operands: (string | number)[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i]!;
+    if (char === "(") {
+      const [value, next] = readLiteralString(content, i);
+      operands.push(value);
+      i = next;
+    } else if (char === "<" && content[i + 1] !== "<") {
+      const [value, next] = readHexString(content, i);
+      operands.push(value);
+      i = next;
+    } else if (char === "%") {
+      // Comment until end of line
+      while (i < content.length && content[i] !== "\n") i++;
+    } else if (/[-+.\d]/.test(char)) {
+      const number = content.slice(i).match(/^[-+]?(\d+\.?\d*|\.\d+)/)?.[0];
+      if (number) operands.push(parseFloat(number));
+      i += number?.length || 1;
+    } else if (/[A-Za-z'"*]/.test(char)) {
+      const operator = content.slice(i).match(/^[A-Za-z'"*]+/)![0];
+      i += operator.length;
+
+      if (operator === "Tj" || operator === "TJ") {
+        text += showText(operands);
+      } else if (operator === "'" || operator === '"') {
+        text += `\n${showText(operands)}`;
+      } else if (operator === "T*" || operator === "ET" || operator === "Tm") {
+        text += "\n";
+      } else if (operator === "Td" || operator === "TD") {
+        const [tx = 0, ty = 0] = operands.filter(
+          (operand): operand is number => typeof operand === "number",
+        );
+        if (ty !== 0) text += "\n";
+        else if (tx > 0) text += " ";
+      }
+      operands = [];
+    } else {
+      i++;
+    }
+  }
+  return text;
+}
+
+/**
+ * Extracts the text of a PDF.
+ * @returns The text, with runs of blank lines collapsed
+ * @throws Error if the buffer is not a PDF
+ */
+export function extractPdfText(pdf: Buffer): string {
+  if (pdf.subarray(0, 5).toString("latin1") !== "%PDF-") {
+    throw new Error("Not a PDF file");
+  }
+
+  return readContentStreams(pdf)
+    .map(extractStreamText)
+    .join("\n")
+    .replace(/[^\S\n]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
@@ -0,0 +1,177 @@
+/**
+ * Minimal XML parser for reading test reports. It builds an element tree
+ * from well-formed documents; namespaces, DTDs and entity declarations are
+ * not supported, and processing instructions and comments are dropped.
+ */
+
+export type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  /** The element's own text and CDATA, without that of its children */
+  text: string;
+};
+
+const NAME_PATTERN = /^[^\s/>=]+/;
+const ATTRIBUTE_PATTERN = /([^\s/>=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+export function decodeXmlEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name.startsWith("#")) {
+        const codePoint =
+          name[1] === "x" || name[1] === "X"
+            ? parseInt(name.slice(2), 16)
+            : parseInt(name.slice(1), 10);
+        return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+      }
+      return NAMED_ENTITIES[name] ?? entity;
+    },
+  );
+}
+
+/**
+ * Parses an XML document and returns its root element.
+ * @throws When the document is not well-formed
+ */
+export function parseXml(xml: string): XmlElement {
+  const stack: XmlElement[] = [];
+  let root: XmlElement | undefined;
+  let position = 0;
+
+  const appendText = (text: string) => {
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      parent.text += text;
+    } else if (text.trim()) {
+      throw new Error("Invalid XML: text outside the root element");
+    }
+  };
+
+  const skipPast = (terminator: string, what: string) => {
+    const end = xml.indexOf(terminator, position);
+    if (end === -1) {
+      throw new Error(`Invalid XML: unterminated ${what}`);
+    }
+    const content = xml.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+
+  while (position < xml.length) {
+    const tagStart = xml.indexOf("<", position);
+    if (tagStart === -1) {
+      appendText(decodeXmlEntities(xml.slice(position)));
+      break;
+    }
+    appendText(decodeXmlEntities(xml.slice(position, tagStart)));
+    position = tagStart;
+
+    if (xml.startsWith("<!--", position)) {
+      position += 4;
+      skipPast("-->", "comment");
+    } else if (xml.startsWith("<![CDATA[", position)) {
+      position += 9;
+      appendText(skipPast("]]>", "CDATA section"));
+    } else if (
+      xml.startsWith("<?", position) ||
+      xml.startsWith("<!", position)
+    ) {
+      position += 2;
+      skipPast(">", "declaration");
+    } else if (xml.startsWith("</", position)) {
+      position += 2;
+      const name = skipPast(">", "closing tag").trim();
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        throw new Error(`Invalid XML: unexpected closing tag </${name}>`);
+      }
+    } else {
+      position += 1;
+      const tag = readTag(xml, position);
+      position = tag.end;
+
+      const element: XmlElement = {
+        name: tag.name,
+        attributes: tag.attributes,
+        children: [],
+        text: "",
+      };
+      const parent = stack[stack.length - 1];
+      if (parent) {
+        parent.children.push(element);
+      } else if (root) {
+        throw new Error("Invalid XML: more than one root element");
+      } else {
+        root = element;
+      }
+      if (!tag.selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Invalid XML: unclosed element <${stack.pop()!.name}>`);
+  }
+  if (!root) {
+    throw new Error("Invalid XML: no root element");
+  }
+  return root;
+}
+
+function readTag(
+  xml: string,
+  start: number,
+): {
+  name: string;
+  attributes: Record<string, string>;
+  selfClosing: boolean;
+  end: number;
+} {
+  // Attribute values may contain ">", so find the end outside of quotes
+  let quote: string | undefined;
+  let end = start;
+  for (; end < xml.length; end++) {
+    const char = xml[end];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ">") {
+      break;
+    }
+  }
+  if (end === xml.length) {
+    throw new Error("Invalid XML: unterminated tag");
+  }
+
+  let content = xml.slice(start, end);
+  const selfClosing = content.endsWith("/");
+  if (selfClosing) {
+    content = content.slice(0, -1);
+  }
+
+  const name = content.match(NAME_PATTERN)?.[0];
+  if (!name) {
+    throw new Error("Invalid XML: tag without a name");
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const match of content.slice(name.length).matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[match[1]!] = decodeXmlEntities(match[2] ?? match[3] ?? "");
+  }
+
+  return { name, attributes, selfClosing, end: end + 1 };
+}
@@ -0,0 +1,198 @@
+import fs from "fs/promises";
+import path from "path";
+import { inflateRawSync } from "zlib";
+
+/**
+ * Minimal zip reader for unpacking attachments. Only stored and deflated
+ * entries are supported; ZIP64, encrypted entries and symlinks are not.
+ */
+
+export type ZipLimits = {
+  maxEntries: number;
+  /** Total uncompressed size of all extracted entries */
+  maxTotalBytes: number;
+};
+
+export type ZipExtractionResult = {
+  /** Extracted file paths, relative to the destination directory */
+  files: string[];
+  /** Entries that were not extracted, with the reason */
+  skipped: string[];
+};
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const MAX_EOCD_SEARCH = 0xffff + 22;
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+type ZipEntry = {
+  name: string;
+  method: number;
+  flags: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  externalAttributes: number;
+  localHeaderOffset: number;
+};
+
+function findEndOfCentralDirectory(buffer: Buffer): number {
+  const stop = Math.max(0, buffer.length - MAX_EOCD_SEARCH);
+  for (let offset = buffer.length - 22; offset >= stop; offset--) {
+    if (buffer.readUInt32LE(offset) === EOCD_SIGNATURE) {
+      return offset;
+    }
+  }
+  throw new Error("Not a zip archive: end of central directory not found");
+}
+
+function readEntries(buffer: Buffer): ZipEntry[] {
+  const eocd = findEndOfCentralDirectory(buffer);
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  const directoryOffset = buffer.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported");
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (
+      offset + 46 > buffer.length ||
+      buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_SIGNATURE
+    ) {
+      throw new Error("Corrupt zip archive: invalid central directory");
+    }
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    entries.push({
+      flags: buffer.readUInt16LE(offset + 8),
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      externalAttributes: buffer.readUInt32LE(offset + 38),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+      name: buffer.toString("utf8", offset + 46, offset + 46 + nameLength),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+/**
+ * Resolves an entry name inside destDir.
+ * @returns The absolute path, or null if the name would escape destDir
+ */
+export function resolveZipEntryPath(
+  destDir: string,
+  name: string,
+): string | null {
+  const normalized = name.replace(/\\/g, "/");
+  if (
+    normalized.startsWith("/") ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized.split("/").includes("..") ||
+    normalized.includes("\0")
+  ) {
+    return null;
+  }
+  const root = path.resolve(destDir);
+  const target = path.resolve(root, normalized);
+  return target.startsWith(root + path.sep) ? target : null;
+}
+
+function readEntryData(buffer: Buffer, entry: ZipEntry): Buffer {
+  const offset = entry.localHeaderOffset;
+  if (
+    offset + 30 > buffer.length ||
+    buffer.readUInt32LE(offset) !== LOCAL_HEADER_SIGNATURE
+  ) {
+    throw new Error("invalid local header");
+  }
+  const dataStart =
+    offset +
+    30 +
+    buffer.readUInt16LE(offset + 26) +
+    buffer.readUInt16LE(offset + 28);
+  const data = buffer.subarray(dataStart, dataStart + entry.compressedSize);
+
+  const content =
+    entry.method === 0
+      ? data
+      : // maxOutputLength stops entries that lie about their size
+        inflateRawSync(data, {
+          maxOutputLength: Math.max(entry.uncompressedSize, 1),
+        });
+  if (content.length !== entry.uncompressedSize) {
+    throw new Error("size does not match the central directory");
+  }
+  return content;
+}
+
+/**
+ * Extracts a zip archive into destDir. Entries whose paths would escape
+ * destDir, symlinks, encrypted entries and unsupported compression methods
+ * are skipped.
+ * @throws Error if the archive is corrupt or exceeds the limits
+ */
+export async function extractZip(
+  buffer: Buffer,
+  destDir: string,
+  { maxEntries, maxTotalBytes }: ZipLimits,
+): Promise<ZipExtractionResult> {
+  const entries = readEntries(buffer);
+  if (entries.length > maxEntries) {
+    throw new Error(
+      `Archive has ${entries.length} entries, more than the limit of ${maxEntries}`,
+    );
+  }
+  const totalBytes = entries.reduce((sum, e) => sum + e.uncompressedSize, 0);
+  if (totalBytes > maxTotalBytes) {
+    throw new Error(
+      `Archive expands to ${totalBytes} bytes, more than the limit of ${maxTotalBytes}`,
+    );
+  }
+
+  await fs.mkdir(destDir, { recursive: true });
+  const result: ZipExtractionResult = { files: [], skipped: [] };
+
+  for (const entry of entries) {
+    const target = resolveZipEntryPath(destDir, entry.name);
+    if (!target) {
+      result.skipped.push(`${entry.name}: path outside the archive`);
+      continue;
+    }
+    if (entry.name.endsWith("/")) {
+      await fs.mkdir(target, { recursive: true });
+      continue;
+    }
+    if (((entry.externalAttributes >>> 16) & S_IFMT) === S_IFLNK) {
+      result.skipped.push(`${entry.name}: symlink`);
+      continue;
+    }
+    if (entry.flags & 0x1) {
+      result.skipped.push(`${entry.name}: encrypted`);
+      continue;
+    }
+    if (entry.method !== 0 && entry.method !== 8) {
+      result.skipped.push(
+        `${entry.name}: unsupported compression method ${entry.method}`,
+      );
+      continue;
+    }
+
+    try {
+      const content = readEntryData(buffer, entry);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, content);
+      result.files.push(path.relative(path.resolve(destDir), target));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      result.skipped.push(`${entry.name}: ${message}`);
+    }
+  }
+
+  return result;
+}
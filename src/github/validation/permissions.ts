@@ -1,5 +1,5 @@
 import * as core from "@actions/core";
-import type { ParsedGitHubContext } from "../context";
+import type { GitHubContext } from "../context";
 import type { Octokit } from "@octokit/rest";
 
 /**
@@ -12,7 +12,7 @@ import type { Octokit } from "@octokit/rest";
  */
 export async function checkWritePermissions(
   octokit: Octokit,
-  context: ParsedGitHubContext,
+  context: GitHubContext,
   allowedNonWriteUsers?: string,
   githubTokenProvided?: boolean,
 ): Promise<boolean> {
@@ -8,10 +8,14 @@ import {
   isPullRequestEvent,
   isPullRequestReviewEvent,
   isPullRequestReviewCommentEvent,
+  isDiscussionContext,
+  isDiscussionCommentEvent,
 } from "../context";
-import type { ParsedGitHubContext } from "../context";
+import type { DiscussionContext, ParsedGitHubContext } from "../context";
 
-export function checkContainsTrigger(context: ParsedGitHubContext): boolean {
+export function checkContainsTrigger(
+  context: ParsedGitHubContext | DiscussionContext,
+): boolean {
   const {
     inputs: { assigneeTrigger, labelTrigger, triggerPhrase, prompt },
   } = context;
@@ -132,6 +136,42 @@ export function checkContainsTrigger(context: ParsedGitHubContext): boolean {
     }
   }
 
+  // Check for discussion body and title trigger on discussion creation
+  if (
+    isDiscussionContext(context) &&
+    !isDiscussionCommentEvent(context) &&
+    context.eventAction === "created"
+  ) {
+    const discussionBody = context.payload.discussion.body || "";
+    const discussionTitle = context.payload.discussion.title || "";
+    // Check for exact match with word boundaries or punctuation
+    const regex = new RegExp(
+      `(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`,
+    );
+
+    if (regex.test(discussionBody) || regex.test(discussionTitle)) {
+      console.log(
+        `Discussion contains exact trigger phrase '${triggerPhrase}'`,
+      );
+      return true;
+    }
+  }
+
+  // Check for discussion comment and reply trigger
+  if (isDiscussionCommentEvent(context) && context.eventAction === "created") {
+    const commentBody = context.payload.comment.body || "";
+    // Check for exact match with word boundaries or punctuation
+    const regex = new RegExp(
+      `(^|\\s)${escapeRegExp(triggerPhrase)}([\\s.,!?;:]|$)`,
+    );
+    if (regex.test(commentBody)) {
+      console.log(
+        `Discussion comment contains exact trigger phrase '${triggerPhrase}'`,
+      );
+      return true;
+    }
+  }
+
   console.log(`No trigger was met for ${triggerPhrase}`);
 
   return false;
@@ -141,7 +181,9 @@ export function escapeRegExp(string: string) {
   return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
-export async function checkTriggerAction(context: ParsedGitHubContext) {
+export async function checkTriggerAction(
+  context: ParsedGitHubContext | DiscussionContext,
+) {
   const containsTrigger = checkContainsTrigger(context);
   core.setOutput("contains_trigger", containsTrigger.toString());
   return containsTrigger;
@@ -4,8 +4,16 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { GITHUB_API_URL } from "../github/api/config";
-import { mkdir, writeFile } from "fs/promises";
+import { mkdir, readFile, writeFile } from "fs/promises";
 import { Octokit } from "@octokit/rest";
+import {
+  formatLogLines,
+  parseLogSteps,
+  searchLog,
+  splitLogLines,
+  tailLog,
+} from "../github/data/ci-logs";
+import { downloadArtifact } from "../github/data/ci-artifacts";
 
 const REPO_OWNER = process.env.REPO_OWNER;
 const REPO_NAME = process.env.REPO_NAME;
@@ -20,6 +28,38 @@ if (!REPO_OWNER || !REPO_NAME || !PR_NUMBER || !GITHUB_TOKEN) {
   process.exit(1);
 }
 
+const LOGS_DIR = `${RUNNER_TEMP}/github-ci-logs`;
+const ARTIFACTS_DIR = `${RUNNER_TEMP}/github-ci-artifacts`;
+
+/** Lines shown from the end of each failed step */
+const FAILED_STEP_TAIL_LINES = 40;
+
+async function saveJobLog(client: Octokit, job_id: number) {
+  const response = await client.actions.downloadJobLogsForWorkflowRun({
+    owner: REPO_OWNER!,
+    repo: REPO_NAME!,
+    job_id,
+  });
+
+  const logsText = response.data as unknown as string;
+
+  await mkdir(LOGS_DIR, { recursive: true });
+
+  const logPath = `${LOGS_DIR}/job-${job_id}.log`;
+  await writeFile(logPath, logsText, "utf-8");
+
+  return { logPath, logsText };
+}
+
+// Logs saved by download_job_log or by CI triage are read from disk
+async function readJobLog(client: Octokit, job_id: number): Promise<string> {
+  try {
+    return await readFile(`${LOGS_DIR}/job-${job_id}.log`, "utf-8");
+  } catch {
+    return (await saveJobLog(client, job_id)).logsText;
+  }
+}
+
 const server = new McpServer({
   name: "GitHub CI Server",
   version: "0.0.1",
@@ -215,23 +255,321 @@ server.tool(
         baseUrl: GITHUB_API_URL,
       });
 
-      const response = await client.actions.downloadJobLogsForWorkflowRun({
+      const { logPath, logsText } = await saveJobLog(client, job_id);
+
+      const result = {
+        path: logPath,
+        size_bytes: Buffer.byteLength(logsText, "utf-8"),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "get_failed_steps",
+  "Get the failed steps of a job, with the errors and last lines of each step's section of the log",
+  {
+    job_id: z.number().describe("The job ID"),
+  },
+  async ({ job_id }) => {
+    try {
+      const client = new Octokit({
+        auth: GITHUB_TOKEN,
+        baseUrl: GITHUB_API_URL,
+      });
+
+      const { data: job } = await client.actions.getJobForWorkflowRun({
         owner: REPO_OWNER!,
         repo: REPO_NAME!,
         job_id,
       });
 
-      const logsText = response.data as unknown as string;
+      const log = await readJobLog(client, job_id);
+      const lines = splitLogLines(log);
+
+      const failedSections = parseLogSteps(log)
+        .filter((step) => step.errors.length > 0)
+        .map((step) => ({
+          title: step.title,
+          start_line: step.startLine,
+          end_line: step.endLine,
+          errors: step.errors,
+          tail: formatLogLines(
+            lines,
+            Math.max(step.startLine, step.endLine - FAILED_STEP_TAIL_LINES + 1),
+            step.endLine,
+          ),
+        }));
 
-      const logsDir = `${RUNNER_TEMP}/github-ci-logs`;
-      await mkdir(logsDir, { recursive: true });
+      const result = {
+        job_id,
+        job_name: job.name,
+        conclusion: job.conclusion,
+        failed_steps: (job.steps || [])
+          .filter((step) => step.conclusion === "failure")
+          .map((step) => ({ name: step.name, number: step.number })),
+        log_sections: failedSections,
+        total_lines: lines.length,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "search_job_log",
+  "Search a job log for lines matching a regular expression, with the lines around each match",
+  {
+    job_id: z.number().describe("The job ID"),
+    pattern: z
+      .string()
+      .describe("JavaScript regular expression matched against each line"),
+    ignore_case: z
+      .boolean()
+      .optional()
+      .describe("Match case-insensitively (default: false)"),
+    context_lines: z
+      .number()
+      .int()
+      .min(0)
+      .max(50)
+      .optional()
+      .describe("Lines shown before and after each match (default: 3)"),
+    max_matches: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("Most matches shown (default: 20)"),
+  },
+  async ({ job_id, pattern, ignore_case, context_lines, max_matches }) => {
+    try {
+      const regex = new RegExp(pattern, ignore_case ? "i" : "");
 
-      const logPath = `${logsDir}/job-${job_id}.log`;
-      await writeFile(logPath, logsText, "utf-8");
+      const client = new Octokit({
+        auth: GITHUB_TOKEN,
+        baseUrl: GITHUB_API_URL,
+      });
+
+      const log = await readJobLog(client, job_id);
+      const { totalMatches, shownMatches, excerpt } = searchLog(log, regex, {
+        contextLines: context_lines,
+        maxMatches: max_matches,
+      });
 
       const result = {
-        path: logPath,
-        size_bytes: Buffer.byteLength(logsText, "utf-8"),
+        total_matches: totalMatches,
+        shown_matches: shownMatches,
+        excerpt,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "tail_job_log",
+  "Get the last lines of a job log",
+  {
+    job_id: z.number().describe("The job ID"),
+    lines: z
+      .number()
+      .int()
+      .min(1)
+      .max(1000)
+      .optional()
+      .describe("Number of lines (default: 100)"),
+  },
+  async ({ job_id, lines = 100 }) => {
+    try {
+      const client = new Octokit({
+        auth: GITHUB_TOKEN,
+        baseUrl: GITHUB_API_URL,
+      });
+
+      const log = await readJobLog(client, job_id);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: tailLog(log, lines) || "The log is empty.",
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "list_run_artifacts",
+  "List the artifacts of a workflow run, such as test reports",
+  {
+    run_id: z.number().describe("The workflow run ID"),
+  },
+  async ({ run_id }) => {
+    try {
+      const client = new Octokit({
+        auth: GITHUB_TOKEN,
+        baseUrl: GITHUB_API_URL,
+      });
+
+      const { data } = await client.actions.listWorkflowRunArtifacts({
+        owner: REPO_OWNER!,
+        repo: REPO_NAME!,
+        run_id,
+        per_page: 100,
+      });
+
+      const result = {
+        total_count: data.total_count,
+        artifacts: data.artifacts.map((artifact) => ({
+          id: artifact.id,
+          name: artifact.name,
+          size_bytes: artifact.size_in_bytes,
+          expired: artifact.expired,
+          created_at: artifact.created_at,
+        })),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "download_artifact",
+  "Download and unpack a workflow run artifact to disk, summarizing the failed test cases of any JUnit XML reports in it",
+  {
+    artifact_id: z.number().describe("The artifact ID"),
+  },
+  async ({ artifact_id }) => {
+    try {
+      const client = new Octokit({
+        auth: GITHUB_TOKEN,
+        baseUrl: GITHUB_API_URL,
+      });
+
+      const artifact = await downloadArtifact(client, {
+        owner: REPO_OWNER!,
+        repo: REPO_NAME!,
+        artifactId: artifact_id,
+        artifactsDir: ARTIFACTS_DIR,
+      });
+
+      const result = {
+        name: artifact.name,
+        path: artifact.dir,
+        files: artifact.files,
+        ...(artifact.skipped.length > 0 && { skipped: artifact.skipped }),
+        test_reports: artifact.testReports,
+        failed_test_cases: artifact.failedCases,
+        ...(artifact.omittedFailedCases > 0 && {
+          omitted_failed_test_cases: artifact.omittedFailedCases,
+        }),
       };
 
       return {
@@ -4,9 +4,31 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 import { GITHUB_API_URL } from "../github/api/config";
+import { createOctokit } from "../github/api/client";
 import { Octokit } from "@octokit/rest";
-import { updateClaudeComment } from "../github/operations/comments/update-claude-comment";
+import {
+  getClaudeCommentBody,
+  updateClaudeComment,
+} from "../github/operations/comments/update-claude-comment";
+import { withCommentLock } from "../github/operations/comments/comment-lock";
+import {
+  applyMemoryUpdate,
+  extractMemoryBlock,
+  formatMemoryBlock,
+  parseMemoryBlock,
+  setMemoryBlock,
+} from "../github/operations/memory";
 import { sanitizeContent } from "../github/utils/sanitizer";
+import {
+  findRepositoryTarget,
+  parseRepositoryTargets,
+} from "../github/operations/additional-repositories";
+import {
+  createDiscussionReply,
+  getDiscussionComment,
+  markDiscussionAnswer,
+  updateDiscussionReply,
+} from "../github/operations/discussions";
 
 // Get repository information from environment variables
 const REPO_OWNER = process.env.REPO_OWNER;
@@ -19,51 +41,125 @@ if (!REPO_OWNER || !REPO_NAME) {
   process.exit(1);
 }
 
+// Additional repositories Claude may comment on, each with its own token
+const REPOSITORY_TARGETS = parseRepositoryTargets(
+  process.env.REPOSITORY_TARGETS,
+);
+
+// Set when Claude replies in a discussion instead of on an issue or PR. The
+// tracking comment is then a discussion comment, addressed by its node ID
+const DISCUSSION_COMMENT_ID = process.env.DISCUSSION_COMMENT_ID;
+const DISCUSSION_NUMBER = parseInt(process.env.DISCUSSION_NUMBER || "", 10);
+
 const server = new McpServer({
   name: "GitHub Comment Server",
   version: "0.0.1",
 });
 
+function getTrackingComment() {
+  const githubToken = process.env.GITHUB_TOKEN;
+  const claudeCommentId = process.env.CLAUDE_COMMENT_ID;
+
+  if (!githubToken) {
+    throw new Error("GITHUB_TOKEN environment variable is required");
+  }
+  if (!claudeCommentId) {
+    throw new Error("CLAUDE_COMMENT_ID environment variable is required");
+  }
+
+  return {
+    octokit: new Octokit({
+      auth: githubToken,
+      baseUrl: GITHUB_API_URL,
+    }),
+    params: {
+      owner: REPO_OWNER!,
+      repo: REPO_NAME!,
+      commentId: parseInt(claudeCommentId, 10),
+      isPullRequestReviewComment:
+        process.env.GITHUB_EVENT_NAME === "pull_request_review_comment",
+    },
+  };
+}
+
+function getDiscussionReply() {
+  const githubToken = process.env.GITHUB_TOKEN;
+
+  if (!githubToken) {
+    throw new Error("GITHUB_TOKEN environment variable is required");
+  }
+  if (!DISCUSSION_COMMENT_ID || !Number.isFinite(DISCUSSION_NUMBER)) {
+    throw new Error(
+      "DISCUSSION_COMMENT_ID and DISCUSSION_NUMBER environment variables are required",
+    );
+  }
+
+  return {
+    graphql: createOctokit(githubToken).graphql,
+    commentId: DISCUSSION_COMMENT_ID,
+    params: {
+      owner: REPO_OWNER!,
+      repo: REPO_NAME!,
+      discussionNumber: DISCUSSION_NUMBER,
+    },
+  };
+}
+
+// Only this server writes the memory block during a run, so it only needs
+// to be read once
+let memoryBlock: string | undefined;
+let memoryBlockLoaded = false;
+
+async function loadMemoryBlock({
+  octokit,
+  params,
+}: ReturnType<typeof getTrackingComment>): Promise<string | undefined> {
+  if (!memoryBlockLoaded) {
+    memoryBlock = extractMemoryBlock(
+      await getClaudeCommentBody(octokit, params),
+    );
+    memoryBlockLoaded = true;
+  }
+  return memoryBlock;
+}
+
 server.tool(
   "update_claude_comment",
-  "Update the Claude comment with progress and results (automatically handles both issue and PR comments)",
+  "Update the Claude comment with progress and results (automatically handles issue, PR and discussion comments)",
   {
     body: z.string().describe("The updated comment content"),
   },
   async ({ body }) => {
     try {
-      const githubToken = process.env.GITHUB_TOKEN;
-      const claudeCommentId = process.env.CLAUDE_COMMENT_ID;
-      const eventName = process.env.GITHUB_EVENT_NAME;
+      if (DISCUSSION_COMMENT_ID) {
+        const reply = getDiscussionReply();
+        const result = await updateDiscussionReply(
+          reply.graphql,
+          reply.commentId,
+          sanitizeContent(body),
+        );
 
-      if (!githubToken) {
-        throw new Error("GITHUB_TOKEN environment variable is required");
-      }
-      if (!claudeCommentId) {
-        throw new Error("CLAUDE_COMMENT_ID environment variable is required");
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
       }
 
-      const owner = REPO_OWNER;
-      const repo = REPO_NAME;
-      const commentId = parseInt(claudeCommentId, 10);
-
-      const octokit = new Octokit({
-        auth: githubToken,
-        baseUrl: GITHUB_API_URL,
-      });
-
-      const isPullRequestReviewComment =
-        eventName === "pull_request_review_comment";
-
+      const trackingComment = getTrackingComment();
       const sanitizedBody = sanitizeContent(body);
 
-      const result = await updateClaudeComment(octokit, {
-        owner,
-        repo,
-        commentId,
-        body: sanitizedBody,
-        isPullRequestReviewComment,
-      });
+      // Sanitizing strips HTML comments, so the saved memory is re-attached
+      const block = await loadMemoryBlock(trackingComment);
+      const result = await withCommentLock(() =>
+        updateClaudeComment(trackingComment.octokit, {
+          ...trackingComment.params,
+          body: block ? setMemoryBlock(sanitizedBody, block) : sanitizedBody,
+        }),
+      );
 
       return {
         content: [
@@ -90,6 +186,279 @@ server.tool(
   },
 );
 
+// Memory lives in the tracking comment on issues and PRs
+if (!DISCUSSION_COMMENT_ID) {
+  server.tool(
+    "read_memory",
+    "Read the memory saved by earlier runs on this issue or PR: a summary, decisions, open TODOs and files touched",
+    {},
+    async () => {
+      try {
+        const block = await loadMemoryBlock(getTrackingComment());
+        const memory = block && parseMemoryBlock(block);
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: memory
+                ? JSON.stringify(memory, null, 2)
+                : "No memory has been saved for this issue or PR yet.",
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          error: errorMessage,
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "update_memory",
+    "Update the memory kept for later runs on this issue or PR. Fields you pass replace the saved ones; omitted fields are kept. Keep entries short",
+    {
+      summary: z
+        .string()
+        .optional()
+        .describe("Short summary of the work so far and its current state"),
+      decisions: z
+        .array(z.string())
+        .optional()
+        .describe("Decisions made, with a brief reason for each"),
+      todos: z
+        .array(z.string())
+        .optional()
+        .describe("Work that is still open; drop items once they are done"),
+      files: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Files changed or examined that later runs should know about",
+        ),
+    },
+    async (update) => {
+      try {
+        const trackingComment = getTrackingComment();
+        const current = await loadMemoryBlock(trackingComment);
+        const memory = applyMemoryUpdate(
+          current ? parseMemoryBlock(current) : undefined,
+          update,
+        );
+
+        const block = formatMemoryBlock(memory);
+        await withCommentLock(async () => {
+          const body = await getClaudeCommentBody(
+            trackingComment.octokit,
+            trackingComment.params,
+          );
+          await updateClaudeComment(trackingComment.octokit, {
+            ...trackingComment.params,
+            body: setMemoryBlock(body, block),
+          });
+        });
+        memoryBlock = block;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(memory, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          error: errorMessage,
+          isError: true,
+        };
+      }
+    },
+  );
+}
+
+if (DISCUSSION_COMMENT_ID) {
+  server.tool(
+    "reply_to_discussion_comment",
+    "Post a reply in the thread of another comment on this discussion. Use update_claude_comment for your main answer",
+    {
+      comment_id: z
+        .string()
+        .describe("Node ID of the discussion comment to reply to"),
+      body: z.string().describe("The reply content"),
+    },
+    async ({ comment_id, body }) => {
+      try {
+        const { graphql, params } = getDiscussionReply();
+        const comment = await getDiscussionComment(graphql, {
+          ...params,
+          commentId: comment_id,
+        });
+
+        // Replies only nest one level, so replies to replies join the thread
+        const result = await createDiscussionReply(
+          graphql,
+          {
+            discussionId: comment.discussion.id,
+            replyToId: comment.replyTo?.id ?? comment.id,
+          },
+          sanitizeContent(body),
+        );
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          error: errorMessage,
+          isError: true,
+        };
+      }
+    },
+  );
+
+  server.tool(
+    "mark_discussion_answer",
+    "Mark a comment as the answer to this discussion. Only works in categories that accept answers",
+    {
+      comment_id: z
+        .string()
+        .optional()
+        .describe(
+          "Node ID of the comment to mark as the answer (defaults to your reply)",
+        ),
+    },
+    async ({ comment_id }) => {
+      try {
+        const { graphql, commentId, params } = getDiscussionReply();
+        const answerId = comment_id || commentId;
+        await markDiscussionAnswer(graphql, {
+          ...params,
+          commentId: answerId,
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Marked ${answerId} as the answer to discussion #${params.discussionNumber}`,
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          error: errorMessage,
+          isError: true,
+        };
+      }
+    },
+  );
+}
+
+if (REPOSITORY_TARGETS.length > 0) {
+  server.tool(
+    "create_comment",
+    `Create a comment on an issue or pull request in one of the additional repositories (${REPOSITORY_TARGETS.map((t) => t.repository).join(", ")})`,
+    {
+      repository: z
+        .string()
+        .describe("The additional repository, in owner/repo form"),
+      issue_number: z
+        .number()
+        .int()
+        .positive()
+        .describe("The issue or pull request number"),
+      body: z.string().describe("The comment content"),
+    },
+    async ({ repository, issue_number, body }) => {
+      try {
+        const target = findRepositoryTarget(REPOSITORY_TARGETS, repository);
+        const [owner, repo] = target.repository.split("/") as [string, string];
+
+        const octokit = new Octokit({
+          auth: target.token,
+          baseUrl: GITHUB_API_URL,
+        });
+
+        const result = await octokit.rest.issues.createComment({
+          owner,
+          repo,
+          issue_number,
+          body: sanitizeContent(body),
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  id: result.data.id,
+                  html_url: result.data.html_url,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: ${errorMessage}`,
+            },
+          ],
+          error: errorMessage,
+          isError: true,
+        };
+      }
+    },
+  );
+}
+
 async function runServer() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -8,33 +8,23 @@ import { resolve } from "path";
 import { constants } from "fs";
 import fetch from "node-fetch";
 import { GITHUB_API_URL } from "../github/api/config";
-import { retryWithBackoff } from "../utils/retry";
 import { validatePathWithinRepo } from "./path-validation";
-
-type GitHubRef = {
-  object: {
-    sha: string;
-  };
-};
-
-type GitHubCommit = {
-  tree: {
-    sha: string;
-  };
-};
-
-type GitHubTree = {
-  sha: string;
-};
-
-type GitHubNewCommit = {
-  sha: string;
-  message: string;
-  author: {
-    name: string;
-    date: string;
-  };
-};
+import {
+  findRepositoryTarget,
+  parseRepositoryTargets,
+} from "../github/operations/additional-repositories";
+import {
+  createTreeCommit,
+  getOrCreateBranchRef,
+  updateBranchRef,
+  type TreeEntry,
+} from "../github/operations/git-tree";
+import {
+  checkWorkflowChanges,
+  parseWorkflowChangePaths,
+  recordWorkflowChanges,
+  validateWorkflow,
+} from "../github/operations/workflow-changes";
 
 // Get repository information from environment variables
 const REPO_OWNER = process.env.REPO_OWNER;
@@ -49,121 +39,69 @@ if (!REPO_OWNER || !REPO_NAME || !BRANCH_NAME) {
   process.exit(1);
 }
 
-const server = new McpServer({
-  name: "GitHub File Operations Server",
-  version: "0.0.1",
-});
-
-// Helper function to get or create branch reference
-async function getOrCreateBranchRef(
-  owner: string,
-  repo: string,
-  branch: string,
-  githubToken: string,
-): Promise<string> {
-  // Try to get the branch reference
-  const refUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/refs/heads/${branch}`;
-  const refResponse = await fetch(refUrl, {
-    headers: {
-      Accept: "application/vnd.github+json",
-      Authorization: `Bearer ${githubToken}`,
-      "X-GitHub-Api-Version": "2022-11-28",
-    },
-  });
-
-  if (refResponse.ok) {
-    const refData = (await refResponse.json()) as GitHubRef;
-    return refData.object.sha;
-  }
-
-  if (refResponse.status !== 404) {
-    throw new Error(`Failed to get branch reference: ${refResponse.status}`);
-  }
-
-  const baseBranch = process.env.BASE_BRANCH!;
+// Additional repositories that commits can target, each with its own token
+const REPOSITORY_TARGETS = parseRepositoryTargets(
+  process.env.REPOSITORY_TARGETS,
+);
 
-  // Get the SHA of the base branch
-  const baseRefUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/refs/heads/${baseBranch}`;
-  const baseRefResponse = await fetch(baseRefUrl, {
-    headers: {
-      Accept: "application/vnd.github+json",
-      Authorization: `Bearer ${githubToken}`,
-      "X-GitHub-Api-Version": "2022-11-28",
-    },
-  });
+// Workflow files that may be changed in the main repository
+const ALLOWED_WORKFLOW_PATHS = parseWorkflowChangePaths(
+  process.env.ALLOW_WORKFLOW_CHANGES,
+);
 
-  let baseSha: string;
-
-  if (!baseRefResponse.ok) {
-    // If base branch doesn't exist, try default branch
-    const repoUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}`;
-    const repoResponse = await fetch(repoUrl, {
-      headers: {
-        Accept: "application/vnd.github+json",
-        Authorization: `Bearer ${githubToken}`,
-        "X-GitHub-Api-Version": "2022-11-28",
-      },
-    });
-
-    if (!repoResponse.ok) {
-      throw new Error(`Failed to get repository info: ${repoResponse.status}`);
-    }
+type CommitTarget = {
+  owner: string;
+  repo: string;
+  repoDir: string;
+  githubToken: string;
+  baseBranch: string;
+  allowedWorkflowPaths: string[];
+};
 
-    const repoData = (await repoResponse.json()) as {
-      default_branch: string;
+// Resolve the repository a tool call operates on (the main repository by default)
+function resolveCommitTarget(repository?: string): CommitTarget {
+  if (repository && repository !== `${REPO_OWNER}/${REPO_NAME}`) {
+    const target = findRepositoryTarget(REPOSITORY_TARGETS, repository);
+    const [owner, repo] = target.repository.split("/") as [string, string];
+    return {
+      owner,
+      repo,
+      repoDir: target.path,
+      githubToken: target.token,
+      // An empty base falls back to the repository's default branch
+      baseBranch: target.baseBranch ?? "",
+      allowedWorkflowPaths: [],
     };
-    const defaultBranch = repoData.default_branch;
-
-    // Try default branch
-    const defaultRefUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/refs/heads/${defaultBranch}`;
-    const defaultRefResponse = await fetch(defaultRefUrl, {
-      headers: {
-        Accept: "application/vnd.github+json",
-        Authorization: `Bearer ${githubToken}`,
-        "X-GitHub-Api-Version": "2022-11-28",
-      },
-    });
-
-    if (!defaultRefResponse.ok) {
-      throw new Error(
-        `Failed to get default branch reference: ${defaultRefResponse.status}`,
-      );
-    }
-
-    const defaultRefData = (await defaultRefResponse.json()) as GitHubRef;
-    baseSha = defaultRefData.object.sha;
-  } else {
-    const baseRefData = (await baseRefResponse.json()) as GitHubRef;
-    baseSha = baseRefData.object.sha;
   }
 
-  // Create the new branch using the same pattern as octokit
-  const createRefUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/refs`;
-  const createRefResponse = await fetch(createRefUrl, {
-    method: "POST",
-    headers: {
-      Accept: "application/vnd.github+json",
-      Authorization: `Bearer ${githubToken}`,
-      "X-GitHub-Api-Version": "2022-11-28",
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      ref: `refs/heads/${branch}`,
-      sha: baseSha,
-    }),
-  });
-
-  if (!createRefResponse.ok) {
-    const errorText = await createRefResponse.text();
-    throw new Error(
-      `Failed to create branch: ${createRefResponse.status} - ${errorText}`,
-    );
+  const githubToken = process.env.GITHUB_TOKEN;
+  if (!githubToken) {
+    throw new Error("GITHUB_TOKEN environment variable is required");
   }
-
-  console.log(`Successfully created branch ${branch}`);
-  return baseSha;
+  return {
+    owner: REPO_OWNER!,
+    repo: REPO_NAME!,
+    repoDir: REPO_DIR,
+    githubToken,
+    baseBranch: process.env.BASE_BRANCH!,
+    allowedWorkflowPaths: ALLOWED_WORKFLOW_PATHS,
+  };
 }
 
+const repositorySchema = z
+  .string()
+  .optional()
+  .describe(
+    REPOSITORY_TARGETS.length > 0
+      ? `Repository to commit to, in owner/repo form. Defaults to ${REPO_OWNER}/${REPO_NAME}. Additional repositories: ${REPOSITORY_TARGETS.map((t) => t.repository).join(", ")}`
+      : `Repository to commit to. Only ${REPO_OWNER}/${REPO_NAME} is available`,
+  );
+
+const server = new McpServer({
+  name: "GitHub File Operations Server",
+  version: "0.0.1",
+});
+
 // Get the appropriate Git file mode for a file
 async function getFileMode(filePath: string): Promise<string> {
   try {
@@ -203,22 +141,25 @@ server.tool(
         'Array of file paths relative to repository root (e.g. ["src/main.js", "README.md"]). All files must exist locally.',
       ),
     message: z.string().describe("Commit message"),
+    repository: repositorySchema,
   },
-  async ({ files, message }) => {
-    const owner = REPO_OWNER;
-    const repo = REPO_NAME;
+  async ({ files, message, repository }) => {
     const branch = BRANCH_NAME;
     try {
-      const githubToken = process.env.GITHUB_TOKEN;
-      if (!githubToken) {
-        throw new Error("GITHUB_TOKEN environment variable is required");
-      }
+      const {
+        owner,
+        repo,
+        repoDir,
+        githubToken,
+        baseBranch,
+        allowedWorkflowPaths,
+      } = resolveCommitTarget(repository);
 
       // Validate all paths are within repository root and get full/relative paths
-      const resolvedRepoDir = resolve(REPO_DIR);
+      const resolvedRepoDir = resolve(repoDir);
       const validatedFiles = await Promise.all(
         files.map(async (filePath) => {
-          const fullPath = await validatePathWithinRepo(filePath, REPO_DIR);
+          const fullPath = await validatePathWithinRepo(filePath, repoDir);
           // Calculate the relative path for the git tree entry
           // Use the original filePath (normalized) for the git path, not the symlink-resolved path
           const normalizedPath = resolve(resolvedRepoDir, filePath);
@@ -227,33 +168,32 @@ server.tool(
         }),
       );
 
+      // Workflow files must be allowed and pass validation
+      const workflowFiles = checkWorkflowChanges(
+        validatedFiles.map(({ relativePath }) => relativePath),
+        allowedWorkflowPaths,
+      );
+      for (const { fullPath, relativePath } of validatedFiles) {
+        if (!workflowFiles.includes(relativePath)) continue;
+        const problems = validateWorkflow(await readFile(fullPath, "utf-8"));
+        if (problems.length > 0) {
+          throw new Error(
+            `${relativePath} is not a valid workflow, fix it before committing:\n${problems.map((problem) => `- ${problem}`).join("\n")}`,
+          );
+        }
+      }
+
       // 1. Get the branch reference (create if doesn't exist)
       const baseSha = await getOrCreateBranchRef(
         owner,
         repo,
         branch,
         githubToken,
+        baseBranch,
       );
 
-      // 2. Get the base commit
-      const commitUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/commits/${baseSha}`;
-      const commitResponse = await fetch(commitUrl, {
-        headers: {
-          Accept: "application/vnd.github+json",
-          Authorization: `Bearer ${githubToken}`,
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
-      });
-
-      if (!commitResponse.ok) {
-        throw new Error(`Failed to get base commit: ${commitResponse.status}`);
-      }
-
-      const commitData = (await commitResponse.json()) as GitHubCommit;
-      const baseTreeSha = commitData.tree.sha;
-
-      // 3. Create tree entries for all files
-      const treeEntries = await Promise.all(
+      // 2. Create tree entries for all files
+      const treeEntries: TreeEntry[] = await Promise.all(
         validatedFiles.map(async ({ fullPath, relativePath }) => {
           // Get the proper file mode based on file permissions
           const fileMode = await getFileMode(fullPath);
@@ -313,110 +253,28 @@ server.tool(
         }),
       );
 
-      // 4. Create a new tree
-      const treeUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/trees`;
-      const treeResponse = await fetch(treeUrl, {
-        method: "POST",
-        headers: {
-          Accept: "application/vnd.github+json",
-          Authorization: `Bearer ${githubToken}`,
-          "X-GitHub-Api-Version": "2022-11-28",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          base_tree: baseTreeSha,
-          tree: treeEntries,
-        }),
-      });
-
-      if (!treeResponse.ok) {
-        const errorText = await treeResponse.text();
-        throw new Error(
-          `Failed to create tree: ${treeResponse.status} - ${errorText}`,
-        );
-      }
-
-      const treeData = (await treeResponse.json()) as GitHubTree;
-
-      // 5. Create a new commit
-      const newCommitUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/commits`;
-      const newCommitResponse = await fetch(newCommitUrl, {
-        method: "POST",
-        headers: {
-          Accept: "application/vnd.github+json",
-          Authorization: `Bearer ${githubToken}`,
-          "X-GitHub-Api-Version": "2022-11-28",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          message: message,
-          tree: treeData.sha,
-          parents: [baseSha],
-        }),
+      // 3. Create the tree and commit
+      const { commit: newCommitData, treeSha } = await createTreeCommit({
+        owner,
+        repo,
+        githubToken,
+        baseSha,
+        treeEntries,
+        message,
       });
 
-      if (!newCommitResponse.ok) {
-        const errorText = await newCommitResponse.text();
-        throw new Error(
-          `Failed to create commit: ${newCommitResponse.status} - ${errorText}`,
-        );
-      }
-
-      const newCommitData = (await newCommitResponse.json()) as GitHubNewCommit;
-
-      // 6. Update the reference to point to the new commit
-      const updateRefUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/refs/heads/${branch}`;
-
-      // We're seeing intermittent 403 "Resource not accessible by integration" errors
-      // on certain repos when updating git references. These appear to be transient
-      // GitHub API issues that succeed on retry.
-      await retryWithBackoff(
-        async () => {
-          const updateRefResponse = await fetch(updateRefUrl, {
-            method: "PATCH",
-            headers: {
-              Accept: "application/vnd.github+json",
-              Authorization: `Bearer ${githubToken}`,
-              "X-GitHub-Api-Version": "2022-11-28",
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              sha: newCommitData.sha,
-              force: false,
-            }),
-          });
-
-          if (!updateRefResponse.ok) {
-            const errorText = await updateRefResponse.text();
-
-            // Provide a more helpful error message for 403 permission errors
-            if (updateRefResponse.status === 403) {
-              const permissionError = new Error(
-                `Permission denied: Unable to push commits to branch '${branch}'. ` +
-                  `Please rebase your branch from the main/master branch to allow Claude to commit.\n\n` +
-                  `Original error: ${errorText}`,
-              );
-              throw permissionError;
-            }
-
-            // For other errors, use the original message
-            const error = new Error(
-              `Failed to update reference: ${updateRefResponse.status} - ${errorText}`,
-            );
-
-            // For non-403 errors, fail immediately without retry
-            console.error("Non-retryable error:", updateRefResponse.status);
-            throw error;
-          }
-        },
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000, // Start with 1 second delay
-          maxDelayMs: 5000, // Max 5 seconds delay
-          backoffFactor: 2, // Double the delay each time
-        },
+      // 4. Update the reference to point to the new commit
+      await updateBranchRef(
+        owner,
+        repo,
+        branch,
+        newCommitData.sha,
+        githubToken,
       );
 
+      // Flagged in the tracking comment for review
+      await recordWorkflowChanges(workflowFiles);
+
       const simplifiedResult = {
         commit: {
           sha: newCommitData.sha,
@@ -428,7 +286,7 @@ server.tool(
           path: relativePath,
         })),
         tree: {
-          sha: treeData.sha,
+          sha: treeSha,
         },
       };
 
@@ -468,19 +326,22 @@ server.tool(
         'Array of file paths to delete relative to repository root (e.g. ["src/old-file.js", "docs/deprecated.md"])',
       ),
     message: z.string().describe("Commit message"),
+    repository: repositorySchema,
   },
-  async ({ paths, message }) => {
-    const owner = REPO_OWNER;
-    const repo = REPO_NAME;
+  async ({ paths, message, repository }) => {
     const branch = BRANCH_NAME;
     try {
-      const githubToken = process.env.GITHUB_TOKEN;
-      if (!githubToken) {
-        throw new Error("GITHUB_TOKEN environment variable is required");
-      }
+      const {
+        owner,
+        repo,
+        repoDir,
+        githubToken,
+        baseBranch,
+        allowedWorkflowPaths,
+      } = resolveCommitTarget(repository);
 
-      // Convert absolute paths to relative if they match CWD
-      const cwd = process.cwd();
+      // Convert absolute paths to relative if they match the repository checkout
+      const cwd = repository ? resolve(repoDir) : process.cwd();
       const processedPaths = paths.map((filePath) => {
         if (filePath.startsWith("/")) {
           if (filePath.startsWith(cwd)) {
@@ -494,6 +355,10 @@ server.tool(
         }
         return filePath;
       });
+      const workflowFiles = checkWorkflowChanges(
+        processedPaths,
+        allowedWorkflowPaths,
+      );
 
       // 1. Get the branch reference (create if doesn't exist)
       const baseSha = await getOrCreateBranchRef(
@@ -501,138 +366,38 @@ server.tool(
         repo,
         branch,
         githubToken,
+        baseBranch,
       );
 
-      // 2. Get the base commit
-      const commitUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/commits/${baseSha}`;
-      const commitResponse = await fetch(commitUrl, {
-        headers: {
-          Accept: "application/vnd.github+json",
-          Authorization: `Bearer ${githubToken}`,
-          "X-GitHub-Api-Version": "2022-11-28",
-        },
-      });
-
-      if (!commitResponse.ok) {
-        throw new Error(`Failed to get base commit: ${commitResponse.status}`);
-      }
-
-      const commitData = (await commitResponse.json()) as GitHubCommit;
-      const baseTreeSha = commitData.tree.sha;
-
-      // 3. Create tree entries for file deletions (setting SHA to null)
-      const treeEntries = processedPaths.map((path) => ({
+      // 2. Create tree entries for file deletions (setting SHA to null)
+      const treeEntries: TreeEntry[] = processedPaths.map((path) => ({
         path: path,
         mode: "100644",
-        type: "blob" as const,
+        type: "blob",
         sha: null,
       }));
 
-      // 4. Create a new tree with deletions
-      const treeUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/trees`;
-      const treeResponse = await fetch(treeUrl, {
-        method: "POST",
-        headers: {
-          Accept: "application/vnd.github+json",
-          Authorization: `Bearer ${githubToken}`,
-          "X-GitHub-Api-Version": "2022-11-28",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          base_tree: baseTreeSha,
-          tree: treeEntries,
-        }),
-      });
-
-      if (!treeResponse.ok) {
-        const errorText = await treeResponse.text();
-        throw new Error(
-          `Failed to create tree: ${treeResponse.status} - ${errorText}`,
-        );
-      }
-
-      const treeData = (await treeResponse.json()) as GitHubTree;
-
-      // 5. Create a new commit
-      const newCommitUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/commits`;
-      const newCommitResponse = await fetch(newCommitUrl, {
-        method: "POST",
-        headers: {
-          Accept: "application/vnd.github+json",
-          Authorization: `Bearer ${githubToken}`,
-          "X-GitHub-Api-Version": "2022-11-28",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          message: message,
-          tree: treeData.sha,
-          parents: [baseSha],
-        }),
+      // 3. Create the tree and commit
+      const { commit: newCommitData, treeSha } = await createTreeCommit({
+        owner,
+        repo,
+        githubToken,
+        baseSha,
+        treeEntries,
+        message,
       });
 
-      if (!newCommitResponse.ok) {
-        const errorText = await newCommitResponse.text();
-        throw new Error(
-          `Failed to create commit: ${newCommitResponse.status} - ${errorText}`,
-        );
-      }
-
-      const newCommitData = (await newCommitResponse.json()) as GitHubNewCommit;
-
-      // 6. Update the reference to point to the new commit
-      const updateRefUrl = `${GITHUB_API_URL}/repos/${owner}/${repo}/git/refs/heads/${branch}`;
-
-      // We're seeing intermittent 403 "Resource not accessible by integration" errors
-      // on certain repos when updating git references. These appear to be transient
-      // GitHub API issues that succeed on retry.
-      await retryWithBackoff(
-        async () => {
-          const updateRefResponse = await fetch(updateRefUrl, {
-            method: "PATCH",
-            headers: {
-              Accept: "application/vnd.github+json",
-              Authorization: `Bearer ${githubToken}`,
-              "X-GitHub-Api-Version": "2022-11-28",
-              "Content-Type": "application/json",
-            },
-            body: JSON.stringify({
-              sha: newCommitData.sha,
-              force: false,
-            }),
-          });
-
-          if (!updateRefResponse.ok) {
-            const errorText = await updateRefResponse.text();
-
-            // Provide a more helpful error message for 403 permission errors
-            if (updateRefResponse.status === 403) {
-              console.log("Received 403 error, will retry...");
-              const permissionError = new Error(
-                `Permission denied: Unable to push commits to branch '${branch}'. ` +
-                  `Please rebase your branch from the main/master branch to allow Claude to commit.\n\n` +
-                  `Original error: ${errorText}`,
-              );
-              throw permissionError;
-            }
-
-            // For other errors, use the original message
-            const error = new Error(
-              `Failed to update reference: ${updateRefResponse.status} - ${errorText}`,
-            );
-
-            // For non-403 errors, fail immediately without retry
-            console.error("Non-retryable error:", updateRefResponse.status);
-            throw error;
-          }
-        },
-        {
-          maxAttempts: 3,
-          initialDelayMs: 1000, // Start with 1 second delay
-          maxDelayMs: 5000, // Max 5 seconds delay
-          backoffFactor: 2, // Double the delay each time
-        },
+      // 4. Update the reference to point to the new commit
+      await updateBranchRef(
+        owner,
+        repo,
+        branch,
+        newCommitData.sha,
+        githubToken,
       );
 
+      await recordWorkflowChanges(workflowFiles);
+
       const simplifiedResult = {
         commit: {
           sha: newCommitData.sha,
@@ -642,7 +407,7 @@ server.tool(
         },
         deletedFiles: processedPaths.map((path) => ({ path })),
         tree: {
-          sha: treeData.sha,
+          sha: treeSha,
         },
       };
 
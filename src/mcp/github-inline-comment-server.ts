@@ -4,6 +4,25 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { z } from "zod";
 import { createOctokit } from "../github/api/client";
 import { sanitizeContent } from "../github/utils/sanitizer";
+import { resolveReviewThread } from "../github/operations/review-threads";
+import { buildReviewCommentParams } from "../github/operations/pending-review";
+import {
+  buildSuggestionComments,
+  buildSuggestionTreeEntries,
+  validateProposedChanges,
+} from "../github/operations/suggestions";
+import {
+  createBranchRef,
+  createTreeCommit,
+} from "../github/operations/git-tree";
+import { generateBranchName } from "../utils/branch-template";
+import { rejectWorkflowChanges } from "../github/operations/workflow-changes";
+import {
+  fetchPullRequestPatches,
+  formatFilePatch,
+  validateCommentPosition,
+  type CommentPositionError,
+} from "../github/data/diff";
 
 // Get repository and PR information from environment variables
 const REPO_OWNER = process.env.REPO_OWNER;
@@ -17,7 +36,7 @@ if (!REPO_OWNER || !REPO_NAME || !PR_NUMBER) {
   process.exit(1);
 }
 
-// GitHub Inline Comment MCP Server - Provides inline PR comment functionality
+// GitHub Inline Comment MCP Server - Provides inline PR comment, diff, suggestion and review thread resolution functionality
 // Provides an inline comment tool without exposing full PR review capabilities, so that
 // Claude can't accidentally approve a PR
 const server = new McpServer({
@@ -25,6 +44,38 @@ const server = new McpServer({
   version: "0.0.1",
 });
 
+function commentPositionErrorResult(error: CommentPositionError) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            success: false,
+            error: error.message,
+            reason: error.reason,
+            path: error.path,
+            side: error.side,
+            lines: error.lines,
+            nearest_commentable_ranges: error.nearestRanges.map((range) => ({
+              start_line: range.start,
+              end_line: range.end,
+            })),
+            hint:
+              error.reason === "file_not_changed"
+                ? "Only files changed in this pull request can take inline comments"
+                : "Retry with lines inside one of the nearest commentable ranges, or set fallback_to_file_comment to comment on the whole file",
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+    error: error.message,
+    isError: true,
+  };
+}
+
 server.tool(
   "create_inline_comment",
   "Create an inline comment on a specific line or lines in a PR file",
@@ -67,8 +118,23 @@ server.tool(
       .describe(
         "Specific commit SHA to comment on (defaults to latest commit)",
       ),
+    fallback_to_file_comment: z
+      .boolean()
+      .optional()
+      .default(false)
+      .describe(
+        "If the lines are not part of the diff, comment on the whole file instead of failing",
+      ),
   },
-  async ({ path, body, line, startLine, side, commit_id }) => {
+  async ({
+    path,
+    body,
+    line,
+    startLine,
+    side,
+    commit_id,
+    fallback_to_file_comment,
+  }) => {
     try {
       const githubToken = process.env.GITHUB_TOKEN;
 
@@ -102,6 +168,64 @@ server.tool(
         pull_number,
       });
 
+      const commitId = commit_id || pr.data.head.sha;
+
+      // Positions can only be checked against the head commit, which is what
+      // the PR's patches describe
+      if (commitId === pr.data.head.sha) {
+        const files = await fetchPullRequestPatches(
+          octokit,
+          owner,
+          repo,
+          pull_number,
+          Infinity,
+        );
+        const positionError = validateCommentPosition(
+          files.find((file) => file.path === path),
+          path,
+          { line, startLine, side },
+        );
+
+        if (positionError) {
+          if (
+            !fallback_to_file_comment ||
+            positionError.reason === "file_not_changed"
+          ) {
+            return commentPositionErrorResult(positionError);
+          }
+
+          const result = await octokit.rest.pulls.createReviewComment({
+            owner,
+            repo,
+            pull_number,
+            body: sanitizedBody,
+            path,
+            commit_id: commitId,
+            subject_type: "file",
+          });
+
+          return {
+            content: [
+              {
+                type: "text",
+                text: JSON.stringify(
+                  {
+                    success: true,
+                    comment_id: result.data.id,
+                    html_url: result.data.html_url,
+                    path: result.data.path,
+                    subject_type: "file",
+                    message: `${positionError.message} Posted the comment on the whole file instead`,
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+      }
+
       const params: Parameters<
         typeof octokit.rest.pulls.createReviewComment
       >[0] = {
@@ -111,7 +235,7 @@ server.tool(
         body: sanitizedBody,
         path,
         side: side || "RIGHT",
-        commit_id: commit_id || pr.data.head.sha,
+        commit_id: commitId,
       };
 
       if (isSingleLine) {
@@ -173,6 +297,345 @@ server.tool(
   },
 );
 
+server.tool(
+  "get_pr_diff",
+  "Get the diff of a file in this PR against the merge base, optionally limited to the hunks covering a line range. Use it to find lines that can take inline comments",
+  {
+    path: z.string().describe("The file path (e.g., 'src/index.js')"),
+    start_line: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("First line of the range, in the new version of the file"),
+    end_line: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Last line of the range, in the new version of the file"),
+  },
+  async ({ path, start_line, end_line }) => {
+    try {
+      const githubToken = process.env.GITHUB_TOKEN;
+
+      if (!githubToken) {
+        throw new Error("GITHUB_TOKEN environment variable is required");
+      }
+
+      const files = await fetchPullRequestPatches(
+        createOctokit(githubToken).rest,
+        REPO_OWNER,
+        REPO_NAME,
+        parseInt(PR_NUMBER, 10),
+      );
+      const file = files.find(
+        (candidate) =>
+          candidate.path === path || candidate.previousPath === path,
+      );
+      if (!file) {
+        throw new Error(`${path} is not changed in this pull request`);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: formatFilePatch(file, start_line, end_line),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error getting diff: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "propose_changes",
+  "Propose several code changes in one go instead of separate suggestion comments. " +
+    "mode 'review' posts them as suggestion blocks in a single review, so the author can commit them as one batch. " +
+    "mode 'commit' commits them to a new claude/suggestions-* branch and opens a PR into this PR's head branch; it cannot change workflow files. " +
+    "Changes to the same file must not overlap",
+  {
+    changes: z
+      .array(
+        z.object({
+          path: z
+            .string()
+            .describe("The file path to change (e.g., 'src/index.js')"),
+          startLine: z
+            .number()
+            .int()
+            .positive()
+            .optional()
+            .describe("First line to replace (defaults to line)"),
+          line: z.number().int().positive().describe("Last line to replace"),
+          replacement: z
+            .string()
+            .describe(
+              "The new content for the lines, without a suggestion fence. An empty string deletes them",
+            ),
+          comment: z
+            .string()
+            .optional()
+            .describe("Explanation shown above the suggestion (review mode)"),
+        }),
+      )
+      .min(1)
+      .describe("The changes, with line numbers in the PR's head version"),
+    mode: z
+      .enum(["review", "commit"])
+      .optional()
+      .default("review")
+      .describe(
+        "review: one review with suggestion blocks (lines must be in the diff). commit: one commit on a new branch with a PR into the head branch",
+      ),
+    body: z
+      .string()
+      .optional()
+      .describe("Review summary, or the description of the suggestions PR"),
+    commit_message: z
+      .string()
+      .optional()
+      .describe("Commit message (commit mode)"),
+  },
+  async ({ changes, mode, body, commit_message }) => {
+    try {
+      const githubToken = process.env.GITHUB_TOKEN;
+
+      if (!githubToken) {
+        throw new Error("GITHUB_TOKEN environment variable is required");
+      }
+
+      const owner = REPO_OWNER;
+      const repo = REPO_NAME;
+      const pull_number = parseInt(PR_NUMBER, 10);
+      const octokits = createOctokit(githubToken);
+
+      validateProposedChanges(changes);
+
+      const pr = await octokits.rest.pulls.get({ owner, repo, pull_number });
+      const headSha = pr.data.head.sha;
+
+      if (mode === "review") {
+        // Suggestions are review comments, so every range must be in the diff
+        const files = await fetchPullRequestPatches(
+          octokits.rest,
+          owner,
+          repo,
+          pull_number,
+          Infinity,
+        );
+        const problems = changes.flatMap((change, index) => {
+          const positionError = validateCommentPosition(
+            files.find((file) => file.path === change.path),
+            change.path,
+            { line: change.line, startLine: change.startLine },
+          );
+          return positionError
+            ? [`Change ${index}: ${positionError.message}`]
+            : [];
+        });
+        if (problems.length > 0) {
+          throw new Error(
+            `Some changes cannot be posted as suggestions:\n- ${problems.join("\n- ")}\nUse mode 'commit' to change lines outside the diff`,
+          );
+        }
+
+        const comments = buildSuggestionComments(changes).map((comment) => ({
+          ...comment,
+          body: sanitizeContent(comment.body),
+        }));
+        const review = await octokits.rest.pulls.createReview({
+          owner,
+          repo,
+          pull_number,
+          commit_id: headSha,
+          event: "COMMENT",
+          body: sanitizeContent(body ?? ""),
+          comments: buildReviewCommentParams(comments),
+        });
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  success: true,
+                  mode,
+                  review_id: review.data.id,
+                  html_url: review.data.html_url,
+                  suggestions: comments.length,
+                  message: `Posted ${comments.length} suggestion${comments.length === 1 ? "" : "s"} in one review`,
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      // A branch and PR into the head branch only work when the head branch
+      // lives in this repository
+      if (pr.data.head.repo?.full_name !== `${owner}/${repo}`) {
+        throw new Error(
+          "Changes can only be committed when the PR's head branch is in this repository. Use mode 'review' instead",
+        );
+      }
+
+      // Workflow changes need the checks commit_files applies
+      rejectWorkflowChanges(changes.map((change) => change.path));
+
+      const treeEntries = await buildSuggestionTreeEntries(octokits.graphql, {
+        owner,
+        repo,
+        ref: headSha,
+        changes,
+      });
+      const { commit } = await createTreeCommit({
+        owner,
+        repo,
+        githubToken,
+        baseSha: headSha,
+        treeEntries,
+        message: commit_message || `Apply suggested changes to #${PR_NUMBER}`,
+      });
+
+      const branch = generateBranchName(
+        undefined,
+        "claude/suggestions-",
+        "pr",
+        pull_number,
+      );
+      await createBranchRef(owner, repo, branch, commit.sha, githubToken);
+
+      const suggestionsPr = await octokits.rest.pulls.create({
+        owner,
+        repo,
+        head: branch,
+        base: pr.data.head.ref,
+        title: `Suggested changes for #${PR_NUMBER}`,
+        body: sanitizeContent(
+          body || `Suggested changes for #${PR_NUMBER}. Merge to apply them.`,
+        ),
+      });
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                mode,
+                branch,
+                commit_sha: commit.sha,
+                pull_request: suggestionsPr.data.html_url,
+                files: treeEntries.map((entry) => entry.path),
+                message: `Committed ${changes.length} change${changes.length === 1 ? "" : "s"} to ${branch} and opened a PR into ${pr.data.head.ref}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error proposing changes: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "resolve_review_thread",
+  "Resolve a review thread on this PR after addressing its feedback. Thread IDs are listed in the review comments section of your context",
+  {
+    thread_id: z
+      .string()
+      .describe("The review thread ID (e.g., 'PRRT_kwDOAbc123')"),
+  },
+  async ({ thread_id }) => {
+    try {
+      const githubToken = process.env.GITHUB_TOKEN;
+
+      if (!githubToken) {
+        throw new Error("GITHUB_TOKEN environment variable is required");
+      }
+
+      const result = await resolveReviewThread(
+        createOctokit(githubToken).graphql,
+        {
+          threadId: thread_id,
+          owner: REPO_OWNER,
+          repo: REPO_NAME,
+          prNumber: parseInt(PR_NUMBER, 10),
+        },
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                thread_id: result.threadId,
+                path: result.path,
+                message: result.alreadyResolved
+                  ? `Thread on ${result.path} was already resolved`
+                  : `Resolved thread on ${result.path}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error resolving review thread: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
 async function runServer() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
@@ -0,0 +1,312 @@
+#!/usr/bin/env node
+// GitHub Review MCP Server - Buffers inline comments and submits them as a single PR review
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import { createOctokit } from "../github/api/client";
+import { sanitizeContent } from "../github/utils/sanitizer";
+import {
+  REVIEW_EVENTS,
+  buildReviewCommentParams,
+  parseReviewEvent,
+  resolveReviewEvent,
+  validatePendingReviewComment,
+  type PendingReviewComment,
+} from "../github/operations/pending-review";
+
+// Get repository and PR information from environment variables
+const REPO_OWNER = process.env.REPO_OWNER;
+const REPO_NAME = process.env.REPO_NAME;
+const PR_NUMBER = process.env.PR_NUMBER;
+const DEFAULT_REVIEW_EVENT = parseReviewEvent(
+  process.env.REVIEW_EVENT || "COMMENT",
+);
+const ALLOW_REVIEW_APPROVAL = process.env.ALLOW_REVIEW_APPROVAL === "true";
+
+if (!REPO_OWNER || !REPO_NAME || !PR_NUMBER) {
+  console.error(
+    "Error: REPO_OWNER, REPO_NAME, and PR_NUMBER environment variables are required",
+  );
+  process.exit(1);
+}
+
+// Comments are held in memory until submit_review is called, so the PR author
+// receives a single notification for the whole review
+const pendingComments: PendingReviewComment[] = [];
+let submittedReviewUrl: string | undefined;
+
+const server = new McpServer({
+  name: "GitHub Review Server",
+  version: "0.0.1",
+});
+
+function assertNotSubmitted() {
+  if (submittedReviewUrl) {
+    throw new Error(
+      `The review has already been submitted (${submittedReviewUrl}). Only one review can be submitted per run.`,
+    );
+  }
+}
+
+server.tool(
+  "add_review_comment",
+  "Add an inline comment to the pending review. Comments are not posted until submit_review is called.",
+  {
+    path: z
+      .string()
+      .describe("The file path to comment on (e.g., 'src/index.js')"),
+    body: z
+      .string()
+      .describe(
+        "The comment text (supports markdown and GitHub code suggestion blocks). " +
+          "For code suggestions, use: ```suggestion\\nreplacement code\\n```. " +
+          "The suggestion block will REPLACE the ENTIRE line range (single line or startLine to line).",
+      ),
+    line: z
+      .number()
+      .int()
+      .positive()
+      .describe("Line number for the comment (the end line for ranges)"),
+    startLine: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Start line for multi-line comments"),
+    side: z
+      .enum(["LEFT", "RIGHT"])
+      .optional()
+      .default("RIGHT")
+      .describe(
+        "Side of the diff to comment on: LEFT (old code) or RIGHT (new code)",
+      ),
+  },
+  async ({ path, body, line, startLine, side }) => {
+    try {
+      assertNotSubmitted();
+
+      const comment: PendingReviewComment = {
+        path,
+        body: sanitizeContent(body),
+        line,
+        ...(startLine !== undefined && { startLine }),
+        side: side || "RIGHT",
+      };
+      validatePendingReviewComment(comment);
+      pendingComments.push(comment);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                index: pendingComments.length - 1,
+                pending_comments: pendingComments.length,
+                message: `Comment on ${path}${startLine ? ` lines ${startLine}-${line}` : ` line ${line}`} added to the pending review`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error adding review comment: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "list_pending_review_comments",
+  "List the inline comments buffered in the pending review",
+  {},
+  async () => {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              submitted: !!submittedReviewUrl,
+              comments: pendingComments.map((comment, index) => ({
+                index,
+                ...comment,
+              })),
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+    };
+  },
+);
+
+server.tool(
+  "remove_review_comment",
+  "Remove a comment from the pending review by its index",
+  {
+    index: z
+      .number()
+      .int()
+      .nonnegative()
+      .describe("Index returned by add_review_comment"),
+  },
+  async ({ index }) => {
+    try {
+      assertNotSubmitted();
+      if (index >= pendingComments.length) {
+        throw new Error(
+          `No pending comment at index ${index} (${pendingComments.length} pending)`,
+        );
+      }
+      const [removed] = pendingComments.splice(index, 1);
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                removed,
+                pending_comments: pendingComments.length,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error removing review comment: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+server.tool(
+  "submit_review",
+  "Submit the pending review with a summary body and all buffered inline comments. Can only be called once.",
+  {
+    body: z.string().describe("The review summary (supports markdown)"),
+    event: z
+      .enum(REVIEW_EVENTS)
+      .optional()
+      .describe(
+        `The review verdict. Defaults to ${DEFAULT_REVIEW_EVENT}.${ALLOW_REVIEW_APPROVAL ? "" : " APPROVE is not permitted."}`,
+      ),
+  },
+  async ({ body, event }) => {
+    try {
+      assertNotSubmitted();
+
+      const githubToken = process.env.GITHUB_TOKEN;
+      if (!githubToken) {
+        throw new Error("GITHUB_TOKEN environment variable is required");
+      }
+
+      const reviewEvent = resolveReviewEvent(
+        event,
+        DEFAULT_REVIEW_EVENT,
+        ALLOW_REVIEW_APPROVAL,
+      );
+
+      const owner = REPO_OWNER;
+      const repo = REPO_NAME;
+      const pull_number = parseInt(PR_NUMBER, 10);
+
+      const octokit = createOctokit(githubToken).rest;
+
+      const pr = await octokit.pulls.get({
+        owner,
+        repo,
+        pull_number,
+      });
+
+      const result = await octokit.pulls.createReview({
+        owner,
+        repo,
+        pull_number,
+        commit_id: pr.data.head.sha,
+        body: sanitizeContent(body),
+        event: reviewEvent,
+        comments: buildReviewCommentParams(pendingComments),
+      });
+
+      submittedReviewUrl = result.data.html_url;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                success: true,
+                review_id: result.data.id,
+                html_url: result.data.html_url,
+                event: reviewEvent,
+                comments: pendingComments.length,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      let helpMessage = "";
+      if (errorMessage.includes("Validation Failed")) {
+        helpMessage =
+          "\n\nThis usually means one of the pending comments targets a line that isn't part of the diff. Use list_pending_review_comments and remove_review_comment to fix it, then submit again.";
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error submitting review: ${errorMessage}${helpMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(console.error);
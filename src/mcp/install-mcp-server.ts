@@ -1,9 +1,10 @@
 import * as core from "@actions/core";
 import { GITHUB_API_URL, GITHUB_SERVER_URL } from "../github/api/config";
 import type { GitHubContext } from "../github/context";
-import { isEntityContext } from "../github/context";
+import { isDiscussionContext, isEntityContext } from "../github/context";
 import { Octokit } from "@octokit/rest";
 import type { AutoDetectedMode } from "../modes/detector";
+import type { RepositoryTarget } from "../github/operations/additional-repositories";
 
 type PrepareConfigParams = {
   githubToken: string;
@@ -12,11 +13,16 @@ type PrepareConfigParams = {
   branch: string;
   baseBranch: string;
   claudeCommentId?: string;
+  /** Node ID of Claude's reply when answering in a discussion */
+  discussionCommentId?: string;
   allowedTools: string[];
   mode: AutoDetectedMode;
   context: GitHubContext;
   linearApiKey?: string;
   linearTeamId?: string;
+  additionalRepositories?: RepositoryTarget[];
+  /** Where the failures from test_reports were saved, when it is set */
+  testReportsPath?: string;
 };
 
 async function checkActionsReadPermission(
@@ -61,17 +67,22 @@ export async function prepareMcpConfig(
     branch,
     baseBranch,
     claudeCommentId,
+    discussionCommentId,
     allowedTools,
     context,
     mode,
     linearApiKey,
     linearTeamId,
+    additionalRepositories = [],
+    testReportsPath,
   } = params;
   try {
     const allowedToolsList = allowedTools || [];
 
     // Detect if we're in agent mode (explicit prompt provided)
     const isAgentMode = mode === "agent";
+    const isReviewMode = mode === "review";
+    const isDiscussionMode = mode === "discussion";
 
     const hasGitHubCommentTools = allowedToolsList.some((tool) =>
       tool.startsWith("mcp__github_comment__"),
@@ -85,6 +96,10 @@ export async function prepareMcpConfig(
       tool.startsWith("mcp__github_inline_comment__"),
     );
 
+    const hasReviewTools = allowedToolsList.some((tool) =>
+      tool.startsWith("mcp__github_review__"),
+    );
+
     const hasGitHubCITools = allowedToolsList.some((tool) =>
       tool.startsWith("mcp__github_ci__"),
     );
@@ -93,18 +108,29 @@ export async function prepareMcpConfig(
       tool.startsWith("mcp__linear__"),
     );
 
+    const hasTestReportTools = allowedToolsList.some((tool) =>
+      tool.startsWith("mcp__test_reports__"),
+    );
+
     const hasSequentialThinkingTools = allowedToolsList.some((tool) =>
       tool.startsWith("mcp__sequential_thinking__"),
     );
 
+    // Additional repositories are passed to the servers that can target them
+    const repositoryTargetsEnv =
+      additionalRepositories.length > 0
+        ? { REPOSITORY_TARGETS: JSON.stringify(additionalRepositories) }
+        : {};
+
     const baseMcpConfig: { mcpServers: Record<string, unknown> } = {
       mcpServers: {},
     };
 
     // Include comment server:
-    // - Always in tag mode (for updating Claude comments)
-    // - Only with explicit tools in agent mode
-    const shouldIncludeCommentServer = !isAgentMode || hasGitHubCommentTools;
+    // - Always in tag and discussion mode (for updating Claude comments)
+    // - Only with explicit tools in agent and review mode
+    const shouldIncludeCommentServer =
+      (!isAgentMode && !isReviewMode) || hasGitHubCommentTools;
 
     if (shouldIncludeCommentServer) {
       baseMcpConfig.mcpServers.github_comment = {
@@ -118,14 +144,23 @@ export async function prepareMcpConfig(
           REPO_OWNER: owner,
           REPO_NAME: repo,
           ...(claudeCommentId && { CLAUDE_COMMENT_ID: claudeCommentId }),
+          ...(discussionCommentId &&
+            isDiscussionContext(context) && {
+              DISCUSSION_COMMENT_ID: discussionCommentId,
+              DISCUSSION_NUMBER: context.discussionNumber.toString(),
+            }),
           GITHUB_EVENT_NAME: process.env.GITHUB_EVENT_NAME || "",
           GITHUB_API_URL: GITHUB_API_URL,
+          // Where the comment lock shared with live progress lives
+          RUNNER_TEMP: process.env.RUNNER_TEMP || "/tmp",
+          ...repositoryTargetsEnv,
         },
       };
     }
 
-    // Include file ops server when commit signing is enabled
-    if (context.inputs.useCommitSigning) {
+    // Include file ops server when committing through the API. Discussion
+    // mode does not commit
+    if (context.inputs.commitStrategy === "api" && !isDiscussionMode) {
       baseMcpConfig.mcpServers.github_file_ops = {
         command: "bun",
         args: [
@@ -142,6 +177,10 @@ export async function prepareMcpConfig(
           GITHUB_EVENT_NAME: process.env.GITHUB_EVENT_NAME || "",
           IS_PR: process.env.IS_PR || "false",
           GITHUB_API_URL: GITHUB_API_URL,
+          ALLOW_WORKFLOW_CHANGES: context.inputs.allowWorkflowChanges,
+          // Where committed workflow changes are recorded for the comment
+          RUNNER_TEMP: process.env.RUNNER_TEMP || "/tmp",
+          ...repositoryTargetsEnv,
         },
       };
     }
@@ -168,6 +207,30 @@ export async function prepareMcpConfig(
       };
     }
 
+    // Include review server for PRs in review mode or when requested via allowed tools
+    if (
+      isEntityContext(context) &&
+      context.isPR &&
+      (isReviewMode || hasReviewTools)
+    ) {
+      baseMcpConfig.mcpServers.github_review = {
+        command: "bun",
+        args: [
+          "run",
+          `${process.env.GITHUB_ACTION_PATH}/src/mcp/github-review-server.ts`,
+        ],
+        env: {
+          GITHUB_TOKEN: githubToken,
+          REPO_OWNER: owner,
+          REPO_NAME: repo,
+          PR_NUMBER: context.entityNumber?.toString() || "",
+          REVIEW_EVENT: context.inputs.reviewEvent,
+          ALLOW_REVIEW_APPROVAL: String(context.inputs.allowReviewApproval),
+          GITHUB_API_URL: GITHUB_API_URL,
+        },
+      };
+    }
+
     // CI server is included when:
     // - In tag mode: when we have a workflow token and context is a PR
     // - In agent mode: same conditions PLUS explicit CI tools in allowedTools
@@ -230,9 +293,26 @@ export async function prepareMcpConfig(
       };
     }
 
+    // Include the test reports server when test_reports was read
+    const shouldIncludeTestReportsServer =
+      testReportsPath &&
+      (hasTestReportTools || (!isAgentMode && !isReviewMode));
+    if (shouldIncludeTestReportsServer) {
+      baseMcpConfig.mcpServers.test_reports = {
+        command: "bun",
+        args: [
+          "run",
+          `${process.env.GITHUB_ACTION_PATH}/src/mcp/test-reports-server.ts`,
+        ],
+        env: {
+          TEST_REPORTS_PATH: testReportsPath,
+        },
+      };
+    }
+
     // Include Linear server when API key is provided and Linear tools are allowed
     const shouldIncludeLinearServer =
-      linearApiKey && (hasLinearTools || !isAgentMode);
+      linearApiKey && (hasLinearTools || (!isAgentMode && !isReviewMode));
     if (shouldIncludeLinearServer) {
       baseMcpConfig.mcpServers.linear = {
         command: "bun",
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+// Test Reports MCP Server - Serves the failures read from test_reports
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { readFile } from "fs/promises";
+import { z } from "zod";
+import {
+  filterReportFailures,
+  type TestReports,
+} from "../github/data/test-reports";
+
+const TEST_REPORTS_PATH = process.env.TEST_REPORTS_PATH;
+
+if (!TEST_REPORTS_PATH) {
+  console.error(
+    "[Test Reports Server] Error: TEST_REPORTS_PATH environment variable is required",
+  );
+  process.exit(1);
+}
+
+const server = new McpServer({
+  name: "Test Reports Server",
+  version: "0.0.1",
+});
+
+server.tool(
+  "get_test_failures",
+  "Get the failed tests and analysis findings from the reports listed in test_reports, with their file, line, test or rule, message and details",
+  {
+    file: z
+      .string()
+      .optional()
+      .describe("Only failures in files whose path contains this"),
+    format: z
+      .enum(["junit", "tap", "sarif"])
+      .optional()
+      .describe("Only failures from reports in this format"),
+    severity: z
+      .enum(["error", "warning", "note"])
+      .optional()
+      .describe("Only failures with this severity"),
+    query: z
+      .string()
+      .optional()
+      .describe(
+        "Only failures whose test name, rule ID or message contains this, ignoring case",
+      ),
+    limit: z
+      .number()
+      .int()
+      .min(1)
+      .max(200)
+      .optional()
+      .describe("Most failures returned (default: 50)"),
+  },
+  async ({ file, format, severity, query, limit = 50 }) => {
+    try {
+      const testReports = JSON.parse(
+        await readFile(TEST_REPORTS_PATH!, "utf-8"),
+      ) as TestReports;
+
+      const failures = filterReportFailures(testReports.failures, {
+        file,
+        format,
+        severity,
+        query,
+      });
+
+      const result = {
+        reports: testReports.reports,
+        ...(testReports.errors.length > 0 && { errors: testReports.errors }),
+        total_failures: failures.length,
+        failures: failures.slice(0, limit),
+        ...(testReports.omittedFailures > 0 && {
+          omitted_failures: testReports.omittedFailures,
+        }),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        error: errorMessage,
+        isError: true,
+      };
+    }
+  },
+);
+
+async function runServer() {
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+  process.on("exit", () => {
+    server.close();
+  });
+}
+
+runServer().catch(() => {
+  process.exit(1);
+});
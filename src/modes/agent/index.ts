@@ -6,11 +6,23 @@ import { prepareMcpConfig } from "../../mcp/install-mcp-server";
 import { parseAllowedTools } from "./parse-tools";
 import {
   configureGitAuth,
-  setupSshSigning,
+  setupCommitSigning,
 } from "../../github/operations/git-config";
 import { checkHumanActor } from "../../github/validation/actor";
 import type { GitHubContext } from "../../github/context";
-import { isEntityContext } from "../../github/context";
+import { getDispatchAllowedTools, isEntityContext } from "../../github/context";
+import {
+  fetchSinceLastRun,
+  getLastRunLookup,
+} from "../../github/data/last-run";
+import {
+  prepareTestReports,
+  TEST_REPORT_TOOLS,
+} from "../../github/data/test-reports";
+import {
+  formatSinceLastRunBlock,
+  formatTestReportsBlock,
+} from "../../create-prompt";
 
 /**
  * Extract GitHub context as environment variables for agent mode
@@ -85,32 +97,16 @@ export const agentMode: Mode = {
     context,
     octokit,
     githubToken,
+    additionalRepositories = [],
   }: ModeOptions): Promise<ModeResult> {
     // Check if actor is human (prevents bot-triggered loops)
     await checkHumanActor(octokit.rest, context);
 
-    // Configure git authentication for agent mode (same as tag mode)
-    // SSH signing takes precedence if provided
-    const useSshSigning = !!context.inputs.sshSigningKey;
-    const useApiCommitSigning =
-      context.inputs.useCommitSigning && !useSshSigning;
+    // Configure commit signing and git auth (same as tag mode)
+    const commitStrategy = context.inputs.commitStrategy;
+    await setupCommitSigning(commitStrategy, context.inputs);
 
-    if (useSshSigning) {
-      // Setup SSH signing for commits
-      await setupSshSigning(context.inputs.sshSigningKey);
-
-      // Still configure git auth for push operations (user/email and remote URL)
-      const user = {
-        login: context.inputs.botName,
-        id: parseInt(context.inputs.botId),
-      };
-      try {
-        await configureGitAuth(githubToken, context, user);
-      } catch (error) {
-        console.error("Failed to configure git authentication:", error);
-        // Continue anyway - git operations may still work with default config
-      }
-    } else if (!useApiCommitSigning) {
+    if (commitStrategy !== "api") {
       // Use bot_id and bot_name from inputs directly
       const user = {
         login: context.inputs.botName,
@@ -131,10 +127,32 @@ export const agentMode: Mode = {
       recursive: true,
     });
 
+    // On synchronize, point Claude at what changed since its previous run
+    let sinceLastRunInfo = "";
+    const lastRunLookup = isEntityContext(context) && getLastRunLookup(context);
+    if (isEntityContext(context) && lastRunLookup) {
+      try {
+        const sinceLastRun = await fetchSinceLastRun(octokit.rest, {
+          owner: context.repository.owner,
+          repo: context.repository.repo,
+          prNumber: context.entityNumber,
+          ...lastRunLookup,
+        });
+        sinceLastRunInfo = formatSinceLastRunBlock(sinceLastRun);
+      } catch (error) {
+        console.warn("Failed to fetch changes since the last run:", error);
+      }
+    }
+
+    // Failures from test and lint reports of the run that dispatched Claude
+    const testReports = await prepareTestReports(octokit.rest, context);
+
     // Write the prompt file - use the user's prompt directly
     const promptContent =
-      context.inputs.prompt ||
-      `Repository: ${context.repository.owner}/${context.repository.repo}`;
+      (context.inputs.prompt ||
+        `Repository: ${context.repository.owner}/${context.repository.repo}`) +
+      sinceLastRunInfo +
+      formatTestReportsBlock(testReports?.testReports);
 
     await writeFile(
       `${process.env.RUNNER_TEMP || "/tmp"}/claude-prompts/claude-prompt.txt`,
@@ -143,7 +161,11 @@ export const agentMode: Mode = {
 
     // Parse allowed tools from user's claude_args
     const userClaudeArgs = process.env.CLAUDE_ARGS || "";
-    const allowedTools = parseAllowedTools(userClaudeArgs);
+    const extraTools = [
+      ...getDispatchAllowedTools(context),
+      ...(testReports ? TEST_REPORT_TOOLS : []),
+    ];
+    const allowedTools = [...parseAllowedTools(userClaudeArgs), ...extraTools];
 
     // Check for branch info from environment variables (useful for auto-fix workflows)
     const claudeBranch = process.env.CLAUDE_BRANCH || undefined;
@@ -170,6 +192,8 @@ export const agentMode: Mode = {
       context,
       linearApiKey: context.inputs.linearApiKey,
       linearTeamId: context.inputs.linearTeamId,
+      additionalRepositories,
+      testReportsPath: testReports?.path,
     });
 
     // Build final claude_args with multiple --mcp-config flags
@@ -182,6 +206,11 @@ export const agentMode: Mode = {
       claudeArgs = `--mcp-config '${escapedOurConfig}'`;
     }
 
+    // Add the tools the dispatch payload allows and the test reports tool
+    if (extraTools.length > 0) {
+      claudeArgs += ` --allowedTools "${extraTools.join(",")}"`;
+    }
+
     // Append user's claude_args (which may have more --mcp-config flags)
     claudeArgs = `${claudeArgs} ${userClaudeArgs}`.trim();
 
@@ -1,22 +1,104 @@
 import type { GitHubContext } from "../github/context";
 import {
+  isDiscussionContext,
+  isDispatchEvent,
   isEntityContext,
   isIssueCommentEvent,
   isPullRequestReviewCommentEvent,
   isPullRequestEvent,
   isIssuesEvent,
   isPullRequestReviewEvent,
+  isWorkflowRunEvent,
 } from "../github/context";
 import { checkContainsTrigger } from "../github/validation/trigger";
+import type { BuiltInModeName, Mode, ModeName } from "./types";
 
-export type AutoDetectedMode = "tag" | "agent";
+export type AutoDetectedMode = ModeName;
 
-export function detectMode(context: GitHubContext): AutoDetectedMode {
+/**
+ * Priority of the built-in detection rules relative to registered modes.
+ * Registered modes without an explicit priority sit above the built-ins.
+ */
+export const BUILT_IN_MODE_PRIORITY = 0;
+export const DEFAULT_CUSTOM_MODE_PRIORITY = 100;
+
+const REVIEW_PR_ACTIONS = [
+  "opened",
+  "synchronize",
+  "ready_for_review",
+  "reopened",
+];
+
+function getModePriority(mode: Mode): number {
+  return mode.priority ?? DEFAULT_CUSTOM_MODE_PRIORITY;
+}
+
+function findMatchingMode(
+  modes: Mode[],
+  context: GitHubContext,
+): ModeName | undefined {
+  return modes.find((mode) => mode.detect?.(context))?.name;
+}
+
+/**
+ * Detects the mode to run for the given context.
+ * @param context The GitHub context
+ * @param registeredModes Custom modes to consult, in addition to the built-in rules
+ * @returns The name of the selected mode
+ */
+export function detectMode(
+  context: GitHubContext,
+  registeredModes: Mode[] = [],
+): AutoDetectedMode {
   // Validate track_progress usage
   if (context.inputs.trackProgress) {
     validateTrackProgressEvent(context);
   }
 
+  // Stable sort keeps registration order for equal priorities
+  const sortedModes = [...registeredModes].sort(
+    (a, b) => getModePriority(b) - getModePriority(a),
+  );
+  const beforeBuiltIns = sortedModes.filter(
+    (mode) => getModePriority(mode) > BUILT_IN_MODE_PRIORITY,
+  );
+  const afterBuiltIns = sortedModes.filter(
+    (mode) => getModePriority(mode) <= BUILT_IN_MODE_PRIORITY,
+  );
+
+  return (
+    findMatchingMode(beforeBuiltIns, context) ??
+    detectBuiltInMode(context) ??
+    findMatchingMode(afterBuiltIns, context) ??
+    // Default to agent mode (which won't trigger without a prompt)
+    "agent"
+  );
+}
+
+function detectBuiltInMode(
+  context: GitHubContext,
+): BuiltInModeName | undefined {
+  // Dispatches that target an issue or PR work on it like a tag mode run
+  if (isEntityContext(context) && isDispatchEvent(context)) {
+    return "tag";
+  }
+
+  // ci_triage opts failed workflow runs on a PR into triage, unless a
+  // prompt says otherwise
+  if (
+    context.inputs.ciTriage &&
+    isEntityContext(context) &&
+    isWorkflowRunEvent(context) &&
+    !context.inputs.prompt
+  ) {
+    return "ci-triage";
+  }
+
+  // review_mode opts PR events into a single batched review
+  if (context.inputs.reviewMode && isReviewModeEvent(context)) {
+    return "review";
+  }
+
   // If track_progress is set for PR/issue events, force tag mode
   if (context.inputs.trackProgress && isEntityContext(context)) {
     if (
@@ -60,6 +142,18 @@ export function detectMode(context: GitHubContext): AutoDetectedMode {
     }
   }
 
+  // Discussion events
+  if (isDiscussionContext(context)) {
+    // If prompt is provided, use agent mode (same as comment events)
+    if (context.inputs.prompt) {
+      return "agent";
+    }
+    // Reply in the discussion if @claude mention found
+    if (checkContainsTrigger(context)) {
+      return "discussion";
+    }
+  }
+
   // PR events (opened, synchronize, etc.)
   if (isEntityContext(context) && isPullRequestEvent(context)) {
     const supportedActions = [
@@ -76,8 +170,25 @@ export function detectMode(context: GitHubContext): AutoDetectedMode {
     }
   }
 
-  // Default to agent mode (which won't trigger without a prompt)
-  return "agent";
+  // An explicit prompt always selects agent mode for any other event
+  if (context.inputs.prompt) {
+    return "agent";
+  }
+
+  return undefined;
+}
+
+function isReviewModeEvent(context: GitHubContext): boolean {
+  if (!isEntityContext(context) || !context.isPR) {
+    return false;
+  }
+  if (isPullRequestEvent(context)) {
+    return (
+      !!context.eventAction && REVIEW_PR_ACTIONS.includes(context.eventAction)
+    );
+  }
+  // Comments on a PR only start a review when they mention Claude
+  return checkContainsTrigger(context);
 }
 
 export function getModeDescription(mode: AutoDetectedMode): string {
@@ -86,12 +197,27 @@ export function getModeDescription(mode: AutoDetectedMode): string {
       return "Interactive mode triggered by @claude mentions";
     case "agent":
       return "Direct automation mode for explicit prompts";
+    case "review":
+      return "Pull request review mode that submits a single batched review";
+    case "discussion":
+      return "Discussion mode that replies to @claude mentions in threads";
+    case "ci-triage":
+      return "CI triage mode that diagnoses and fixes failed workflow runs";
     default:
       return "Unknown mode";
   }
 }
 
 function validateTrackProgressEvent(context: GitHubContext): void {
+  // Dispatches that target an issue or PR, and failed workflow runs on a
+  // PR, always track progress
+  if (
+    isEntityContext(context) &&
+    (isDispatchEvent(context) || isWorkflowRunEvent(context))
+  ) {
+    return;
+  }
+
   // track_progress is only valid for pull_request and issue events
   const validEvents = [
     "pull_request",
@@ -125,7 +251,7 @@ function validateTrackProgressEvent(context: GitHubContext): void {
 }
 
 export function shouldUseTrackingComment(mode: AutoDetectedMode): boolean {
-  return mode === "tag";
+  return mode === "tag" || mode === "discussion" || mode === "ci-triage";
 }
 
 export function getDefaultPromptForMode(
@@ -0,0 +1,253 @@
+import * as core from "@actions/core";
+import { mkdir, writeFile } from "fs/promises";
+import type { Mode, ModeOptions, ModeResult } from "../types";
+import { checkContainsTrigger } from "../../github/validation/trigger";
+import { checkHumanActor } from "../../github/validation/actor";
+import { prepareMcpConfig } from "../../mcp/install-mcp-server";
+import {
+  extractTriggerTimestamp,
+  fetchDiscussionData,
+  type FetchDiscussionResult,
+} from "../../github/data/fetcher";
+import {
+  formatBody,
+  formatDiscussionComments,
+  formatDiscussionContext,
+  formatTruncationNotice,
+} from "../../github/data/formatter";
+import {
+  createDiscussionReply,
+  getDiscussionReplyTarget,
+} from "../../github/operations/discussions";
+import {
+  createCommentBody,
+  createJobRunLink,
+} from "../../github/operations/comments/common";
+import {
+  isDiscussionCommentEvent,
+  isDiscussionContext,
+  type DiscussionContext,
+} from "../../github/context";
+import { sanitizeContent } from "../../github/utils/sanitizer";
+import type { PreparedContext } from "../../create-prompt/types";
+import { parseAllowedTools } from "../agent/parse-tools";
+
+/**
+ * Discussion mode implementation.
+ *
+ * Answers @claude mentions in GitHub Discussions. Claude replies in the
+ * thread of the triggering comment, or with a top-level comment on a new
+ * discussion, and can mark an answer in categories that accept one. The
+ * repository is only read; nothing is committed.
+ */
+export const discussionMode: Mode = {
+  name: "discussion",
+  description: "Discussion mode that replies to @claude mentions in threads",
+
+  shouldTrigger(context) {
+    if (!isDiscussionContext(context)) {
+      return false;
+    }
+    return checkContainsTrigger(context);
+  },
+
+  prepareContext(context, data) {
+    return {
+      mode: "discussion",
+      githubContext: context,
+      commentId: data?.commentId,
+      baseBranch: data?.baseBranch,
+    };
+  },
+
+  getAllowedTools() {
+    return [];
+  },
+
+  getDisallowedTools() {
+    return [];
+  },
+
+  shouldCreateTrackingComment() {
+    return true;
+  },
+
+  async prepare({
+    context,
+    octokit,
+    githubToken,
+  }: ModeOptions): Promise<ModeResult> {
+    if (!isDiscussionContext(context)) {
+      throw new Error("Discussion mode requires a discussion context");
+    }
+
+    // Check if actor is human
+    await checkHumanActor(octokit.rest, context);
+
+    const { owner, repo } = context.repository;
+
+    // The reply doubles as the tracking comment
+    const target = await getDiscussionReplyTarget(octokit.graphql, context);
+    const reply = await createDiscussionReply(
+      octokit.graphql,
+      target,
+      createCommentBody(createJobRunLink(owner, repo, context.runId)),
+    );
+    core.setOutput("claude_comment_id", reply.databaseId.toString());
+    core.setOutput("discussion_comment_node_id", reply.id);
+    console.log(`✅ Created discussion reply with ID: ${reply.id}`);
+
+    const discussionData = await fetchDiscussionData({
+      octokits: octokit,
+      repository: context.repository.full_name,
+      discussionNumber: context.discussionNumber,
+      triggerTime: extractTriggerTimestamp(context),
+      includeCommentsByActor: context.inputs.includeCommentsByActor,
+      excludeCommentsByActor: context.inputs.excludeCommentsByActor,
+    });
+
+    const promptDir = `${process.env.RUNNER_TEMP || "/tmp"}/claude-prompts`;
+    await mkdir(promptDir, { recursive: true });
+    await writeFile(
+      `${promptDir}/claude-prompt.txt`,
+      generateDiscussionPrompt(context, discussionData, reply.id),
+    );
+
+    const userClaudeArgs = process.env.CLAUDE_ARGS || "";
+    const userAllowedMCPTools = parseAllowedTools(userClaudeArgs).filter(
+      (tool) => tool.startsWith("mcp__github_"),
+    );
+
+    // Discussion mode only reads the repository
+    const discussionModeTools = [
+      "Glob",
+      "Grep",
+      "LS",
+      "Read",
+      "Bash(git log:*)",
+      "Bash(git show:*)",
+      "Bash(git status:*)",
+      "mcp__github_comment__update_claude_comment",
+      "mcp__github_comment__reply_to_discussion_comment",
+      "mcp__github_comment__mark_discussion_answer",
+      ...userAllowedMCPTools,
+    ];
+
+    const baseBranch =
+      context.inputs.baseBranch || context.payload.repository.default_branch;
+
+    const ourMcpConfig = await prepareMcpConfig({
+      githubToken,
+      owner,
+      repo,
+      branch: baseBranch,
+      baseBranch,
+      claudeCommentId: reply.databaseId.toString(),
+      discussionCommentId: reply.id,
+      allowedTools: Array.from(new Set(discussionModeTools)),
+      mode: "discussion",
+      context,
+    });
+
+    const escapedOurConfig = ourMcpConfig.replace(/'/g, "'\\''");
+    let claudeArgs = `--mcp-config '${escapedOurConfig}'`;
+    claudeArgs += ` --allowedTools "${Array.from(new Set(discussionModeTools)).join(",")}"`;
+
+    // Append user's claude_args (which may have more --mcp-config flags)
+    if (userClaudeArgs) {
+      claudeArgs += ` ${userClaudeArgs}`;
+    }
+
+    core.setOutput("claude_args", claudeArgs.trim());
+
+    return {
+      commentId: reply.databaseId,
+      branchInfo: {
+        baseBranch,
+        currentBranch: baseBranch,
+      },
+      mcpConfig: ourMcpConfig,
+    };
+  },
+
+  generatePrompt(context: PreparedContext): string {
+    // The prompt is written in prepare, which has the discussion thread
+    return context.prompt || `Repository: ${context.repository}`;
+  },
+
+  getSystemPrompt() {
+    return undefined;
+  },
+};
+
+/**
+ * Generates the prompt for discussion mode.
+ * @param replyId Node ID of the reply Claude updates with its answer
+ * @internal
+ */
+export function generateDiscussionPrompt(
+  context: DiscussionContext,
+  { discussion, comments, truncation }: FetchDiscussionResult,
+  replyId: string,
+): string {
+  const triggerComment = isDiscussionCommentEvent(context)
+    ? `
+<trigger_comment>
+${sanitizeContent(context.payload.comment.body)}
+</trigger_comment>
+`
+    : "";
+
+  const truncationNotice = formatTruncationNotice(truncation);
+  const truncationInfo = truncationNotice
+    ? `
+
+<truncated_context>
+${truncationNotice}
+</truncated_context>`
+    : "";
+
+  const answerInfo = discussion.category.isAnswerable
+    ? `
+- mcp__github_comment__mark_discussion_answer: mark your reply, or another comment by its ID, as the answer to the discussion. Only do this when the question is fully answered and the discussion has no answer yet.`
+    : "";
+
+  return `You are Claude, an AI assistant answering a question in a GitHub Discussion. Your answer is posted as a reply in the discussion.
+
+<formatted_context>
+${formatDiscussionContext(discussion)}
+</formatted_context>
+
+<discussion_body>
+${discussion.body ? formatBody(discussion.body, new Map()) : "No description provided"}
+</discussion_body>
+
+<comments>
+${formatDiscussionComments(comments) || "No comments"}
+</comments>${truncationInfo}
+
+<repository>${context.repository.full_name}</repository>
+<discussion_number>${context.discussionNumber}</discussion_number>
+<trigger_username>${context.actor}</trigger_username>
+<claude_reply_id>${replyId}</claude_reply_id>
+${triggerComment}
+<discussion_tool_info>
+- mcp__github_comment__update_claude_comment: replace the body of your reply. It currently shows that you are working; put your answer here.
+- mcp__github_comment__reply_to_discussion_comment: post a separate reply in the thread of another comment, by its ID. Only use this when a different thread needs a response.${answerInfo}
+</discussion_tool_info>
+
+Follow these steps:
+
+1. Understand the question:
+   - Read the discussion and its comments above. ${triggerComment ? "The trigger comment is the request you are answering." : "The discussion itself is the request you are answering."}
+   - Look at the repository code, docs and history where they help answer it.
+
+2. Answer:
+   - Update your reply with mcp__github_comment__update_claude_comment. Write for the people in the discussion: lead with the answer, then the supporting details.
+   - Link to files as repository paths and quote only the lines that matter.
+   - If you cannot answer with confidence, say what you found and what is still unclear.
+
+IMPORTANT:
+- Do not modify files, create commits, or push changes. Discussions are answered in replies only.
+- Your console outputs are NOT visible to the user; only your reply is.`;
+}
@@ -2,38 +2,193 @@
  * Mode Registry for claude-code-action v1.0
  *
  * This module provides access to all available execution modes and handles
- * automatic mode detection based on GitHub event types.
+ * automatic mode detection based on GitHub event types. Built-in modes are
+ * always available; custom modes can be registered at runtime, either
+ * directly via `registerMode` or from modules in the repository via
+ * `loadCustomModes`.
  */
 
-import type { Mode, ModeName } from "./types";
+import { pathToFileURL } from "url";
+import {
+  BUILT_IN_MODES,
+  type BuiltInModeName,
+  type Mode,
+  type ModeName,
+} from "./types";
 import { tagMode } from "./tag";
 import { agentMode } from "./agent";
+import { reviewMode } from "./review";
+import { discussionMode } from "./discussion";
+import { ciTriageMode } from "./ci-triage";
 import type { GitHubContext } from "../github/context";
-import { detectMode, type AutoDetectedMode } from "./detector";
+import { detectMode } from "./detector";
+import { validatePathWithinRepo } from "../mcp/path-validation";
 
-export const VALID_MODES = ["tag", "agent"] as const;
+export const VALID_MODES = BUILT_IN_MODES;
 
 /**
- * All available modes in v1.0
+ * All built-in modes in v1.0
  */
-const modes = {
+const builtInModes = {
   tag: tagMode,
   agent: agentMode,
-} as const satisfies Record<AutoDetectedMode, Mode>;
+  review: reviewMode,
+  discussion: discussionMode,
+  "ci-triage": ciTriageMode,
+} as const satisfies Record<BuiltInModeName, Mode>;
+
+/**
+ * Custom modes registered at runtime, in registration order
+ */
+const customModes = new Map<ModeName, Mode>();
+
+const REQUIRED_MODE_METHODS = [
+  "detect",
+  "shouldTrigger",
+  "prepareContext",
+  "getAllowedTools",
+  "getDisallowedTools",
+  "shouldCreateTrackingComment",
+  "generatePrompt",
+  "prepare",
+] as const;
+
+function isBuiltInMode(name: string): name is BuiltInModeName {
+  return (BUILT_IN_MODES as readonly string[]).includes(name);
+}
+
+/**
+ * Registers a custom execution mode.
+ * Custom modes must provide a `detect` predicate so that `detectMode` can
+ * decide when to select them.
+ * @param mode The mode to register
+ * @throws Error if the mode is malformed or its name is already taken
+ */
+export function registerMode(mode: Mode): void {
+  if (!mode || typeof mode.name !== "string" || !mode.name.trim()) {
+    throw new Error("Custom mode must have a non-empty 'name'");
+  }
+  if (isBuiltInMode(mode.name)) {
+    throw new Error(
+      `Cannot register custom mode '${mode.name}': name is reserved for a built-in mode`,
+    );
+  }
+  if (customModes.has(mode.name)) {
+    throw new Error(
+      `Cannot register custom mode '${mode.name}': a mode with this name is already registered`,
+    );
+  }
+
+  const missingMethods = REQUIRED_MODE_METHODS.filter(
+    (method) => typeof mode[method] !== "function",
+  );
+  if (missingMethods.length > 0) {
+    throw new Error(
+      `Custom mode '${mode.name}' is missing required methods: ${missingMethods.join(", ")}`,
+    );
+  }
+  if (mode.priority !== undefined && !Number.isFinite(mode.priority)) {
+    throw new Error(
+      `Custom mode '${mode.name}' has an invalid priority: ${mode.priority}`,
+    );
+  }
+
+  customModes.set(mode.name, mode);
+  console.log(
+    `Registered custom mode: ${mode.name}${mode.priority !== undefined ? ` (priority ${mode.priority})` : ""}`,
+  );
+}
+
+/**
+ * Removes all registered custom modes. Built-in modes are unaffected.
+ */
+export function clearRegisteredModes(): void {
+  customModes.clear();
+}
+
+/**
+ * Returns all registered custom modes in registration order.
+ */
+export function getRegisteredModes(): Mode[] {
+  return Array.from(customModes.values());
+}
+
+/**
+ * Parses the custom_modes input into a list of module paths.
+ * @param input Newline- or comma-separated list of paths
+ */
+export function parseCustomModePaths(input: string | undefined): string[] {
+  if (!input) {
+    return [];
+  }
+  return input
+    .split(/[\n,]/)
+    .map((path) => path.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Loads and registers custom modes from modules in the repository.
+ * Each module must default-export a Mode or an array of Modes.
+ * @param paths Module paths, relative to the repository root
+ * @param repoDir The repository root
+ * @returns The modes that were registered
+ */
+export async function loadCustomModes(
+  paths: string[],
+  repoDir: string = process.env.GITHUB_WORKSPACE || process.cwd(),
+): Promise<Mode[]> {
+  const loaded: Mode[] = [];
+
+  for (const path of paths) {
+    const fullPath = await validatePathWithinRepo(path, repoDir);
+
+    let moduleExports: { default?: Mode | Mode[] };
+    try {
+      moduleExports = await import(pathToFileURL(fullPath).href);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `Failed to load custom mode from '${path}': ${errorMessage}`,
+      );
+    }
+
+    if (!moduleExports.default) {
+      throw new Error(
+        `Custom mode module '${path}' must default-export a mode or an array of modes`,
+      );
+    }
+
+    const modes = Array.isArray(moduleExports.default)
+      ? moduleExports.default
+      : [moduleExports.default];
+
+    for (const mode of modes) {
+      registerMode(mode);
+      loaded.push(mode);
+    }
+  }
+
+  return loaded;
+}
 
 /**
  * Automatically detects and retrieves the appropriate mode based on the GitHub context.
- * In v1.0, modes are auto-selected based on event type.
+ * In v1.0, modes are auto-selected based on event type, consulting registered
+ * custom modes according to their priority.
  * @param context The GitHub context
  * @returns The appropriate mode for the context
  */
 export function getMode(context: GitHubContext): Mode {
-  const modeName = detectMode(context);
+  const modeName = detectMode(context, getRegisteredModes());
   console.log(
     `Auto-detected mode: ${modeName} for event: ${context.eventName}`,
   );
 
-  const mode = modes[modeName];
+  const mode = isBuiltInMode(modeName)
+    ? builtInModes[modeName]
+    : customModes.get(modeName);
   if (!mode) {
     throw new Error(
       `Mode '${modeName}' not found. This should not happen. Please report this issue.`,
@@ -46,9 +201,8 @@ export function getMode(context: GitHubContext): Mode {
 /**
  * Type guard to check if a string is a valid mode name.
  * @param name The string to check
- * @returns True if the name is a valid mode name
+ * @returns True if the name is a built-in or registered mode name
  */
 export function isValidMode(name: string): name is ModeName {
-  const validModes = ["tag", "agent"];
-  return validModes.includes(name);
+  return isBuiltInMode(name) || customModes.has(name);
 }
@@ -0,0 +1,303 @@
+import * as core from "@actions/core";
+import type { Mode, ModeOptions, ModeResult } from "../types";
+import { checkHumanActor } from "../../github/validation/actor";
+import { setupBranch } from "../../github/operations/branch";
+import { prepareMcpConfig } from "../../mcp/install-mcp-server";
+import {
+  fetchGitHubData,
+  extractTriggerTimestamp,
+  extractOriginalTitle,
+} from "../../github/data/fetcher";
+import { getLastRunLookup } from "../../github/data/last-run";
+import {
+  formatContext,
+  formatBody,
+  formatComments,
+  formatReviewComments,
+  formatChangedFilesWithSHA,
+  formatTruncationNotice,
+} from "../../github/data/formatter";
+import {
+  createPrompt,
+  formatAttachmentsBlock,
+  formatDiffBlock,
+  formatSinceLastRunBlock,
+  getEventTypeAndContext,
+} from "../../create-prompt";
+import { isEntityContext } from "../../github/context";
+import { sanitizeContent } from "../../github/utils/sanitizer";
+import {
+  parseReviewEvent,
+  resolveReviewEvent,
+} from "../../github/operations/pending-review";
+import type { PreparedContext } from "../../create-prompt/types";
+import type { FetchDataResult } from "../../github/data/fetcher";
+import { parseAllowedTools } from "../agent/parse-tools";
+
+/**
+ * Review mode implementation.
+ *
+ * Runs on pull requests when review_mode is enabled. Inline comments are
+ * buffered by the github_review MCP server and submitted once as a single
+ * PR review with a summary body and one verdict. No tracking comment is
+ * created and no changes are pushed.
+ */
+export const reviewMode: Mode = {
+  name: "review",
+  description: "Pull request review mode that submits a single batched review",
+
+  shouldTrigger(context) {
+    return isEntityContext(context) && context.isPR;
+  },
+
+  prepareContext(context, data) {
+    return {
+      mode: "review",
+      githubContext: context,
+      baseBranch: data?.baseBranch,
+    };
+  },
+
+  getAllowedTools() {
+    return [];
+  },
+
+  getDisallowedTools() {
+    return [];
+  },
+
+  shouldCreateTrackingComment() {
+    return false;
+  },
+
+  async prepare({
+    context,
+    octokit,
+    githubToken,
+  }: ModeOptions): Promise<ModeResult> {
+    if (!isEntityContext(context) || !context.isPR) {
+      throw new Error("Review mode requires a pull request context");
+    }
+
+    // Check if actor is human
+    await checkHumanActor(octokit.rest, context);
+
+    // Fail early on a misconfigured review_event rather than at submission time
+    resolveReviewEvent(
+      undefined,
+      parseReviewEvent(context.inputs.reviewEvent),
+      context.inputs.allowReviewApproval,
+    );
+
+    const triggerTime = extractTriggerTimestamp(context);
+    const originalTitle = extractOriginalTitle(context);
+
+    const githubData = await fetchGitHubData({
+      octokits: octokit,
+      repository: `${context.repository.owner}/${context.repository.repo}`,
+      prNumber: context.entityNumber.toString(),
+      isPR: true,
+      triggerUsername: context.actor,
+      triggerTime,
+      originalTitle,
+      includeCommentsByActor: context.inputs.includeCommentsByActor,
+      excludeCommentsByActor: context.inputs.excludeCommentsByActor,
+      includeDiff: context.inputs.includeDiff,
+      lastRunLookup: getLastRunLookup(context),
+    });
+
+    // Check out the PR branch so the code under review is available locally
+    const branchInfo = await setupBranch(octokit, githubData, context);
+
+    const modeContext = this.prepareContext(context, {
+      baseBranch: branchInfo.baseBranch,
+    });
+
+    await createPrompt(reviewMode, modeContext, githubData, context);
+
+    const userClaudeArgs = process.env.CLAUDE_ARGS || "";
+    const userAllowedMCPTools = parseAllowedTools(userClaudeArgs).filter(
+      (tool) => tool.startsWith("mcp__github_"),
+    );
+
+    // Review mode is read-only apart from the review itself
+    const reviewModeTools = [
+      "Glob",
+      "Grep",
+      "LS",
+      "Read",
+      "Bash(git diff:*)",
+      "Bash(git log:*)",
+      "Bash(git show:*)",
+      "Bash(git status:*)",
+      "mcp__github_review__add_review_comment",
+      "mcp__github_review__list_pending_review_comments",
+      "mcp__github_review__remove_review_comment",
+      "mcp__github_review__submit_review",
+      "mcp__github_inline_comment__get_pr_diff",
+      ...userAllowedMCPTools,
+    ];
+
+    const ourMcpConfig = await prepareMcpConfig({
+      githubToken,
+      owner: context.repository.owner,
+      repo: context.repository.repo,
+      branch: branchInfo.currentBranch,
+      baseBranch: branchInfo.baseBranch,
+      allowedTools: Array.from(new Set(reviewModeTools)),
+      mode: "review",
+      context,
+    });
+
+    const escapedOurConfig = ourMcpConfig.replace(/'/g, "'\\''");
+    let claudeArgs = `--mcp-config '${escapedOurConfig}'`;
+    claudeArgs += ` --allowedTools "${Array.from(new Set(reviewModeTools)).join(",")}"`;
+
+    // Append user's claude_args (which may have more --mcp-config flags)
+    if (userClaudeArgs) {
+      claudeArgs += ` ${userClaudeArgs}`;
+    }
+
+    core.setOutput("claude_args", claudeArgs.trim());
+
+    return {
+      commentId: undefined,
+      branchInfo,
+      mcpConfig: ourMcpConfig,
+    };
+  },
+
+  generatePrompt(
+    context: PreparedContext,
+    githubData: FetchDataResult,
+  ): string {
+    return generateReviewPrompt(context, githubData);
+  },
+
+  getSystemPrompt() {
+    return undefined;
+  },
+};
+
+/**
+ * Generates the prompt for review mode.
+ * @internal
+ */
+export function generateReviewPrompt(
+  context: PreparedContext,
+  githubData: FetchDataResult,
+): string {
+  const {
+    contextData,
+    comments,
+    changedFilesWithSHA,
+    reviewData,
+    imageUrlMap,
+  } = githubData;
+  const { eventData } = context;
+  const { eventType, triggerContext } = getEventTypeAndContext(context);
+
+  const reviewEvent = parseReviewEvent(
+    context.githubContext?.inputs.reviewEvent || "COMMENT",
+  );
+  const allowApproval = !!context.githubContext?.inputs.allowReviewApproval;
+  const allowedEvents = allowApproval
+    ? "COMMENT, REQUEST_CHANGES, or APPROVE"
+    : "COMMENT or REQUEST_CHANGES (APPROVE is not permitted)";
+
+  const formattedBody = contextData?.body
+    ? formatBody(contextData.body, imageUrlMap)
+    : "No description provided";
+
+  const triggerComment =
+    (eventData.eventName === "issue_comment" ||
+      eventData.eventName === "pull_request_review_comment" ||
+      eventData.eventName === "pull_request_review") &&
+    eventData.commentBody
+      ? `
+<trigger_comment>
+${sanitizeContent(eventData.commentBody)}
+</trigger_comment>
+`
+      : "";
+
+  const truncationNotice = formatTruncationNotice(githubData.truncation);
+  const truncationInfo = truncationNotice
+    ? `
+
+<truncated_context>
+${truncationNotice}
+</truncated_context>`
+    : "";
+
+  let promptContent = `You are Claude, an AI assistant reviewing a GitHub pull request. Your review will be submitted as a single pull request review with a summary and inline comments.
+
+<formatted_context>
+${formatContext(contextData, true)}
+</formatted_context>
+
+<pr_or_issue_body>
+${formattedBody}
+</pr_or_issue_body>
+
+<comments>
+${formatComments(comments, imageUrlMap, githubData.omitted?.comments) || "No comments"}
+</comments>
+
+<review_comments>
+${formatReviewComments(reviewData, imageUrlMap, githubData.omitted, githubData.reviewThreads) || "No review comments"}
+</review_comments>
+
+<changed_files>
+${formatChangedFilesWithSHA(changedFilesWithSHA, githubData.omitted?.files) || "No files changed"}
+</changed_files>${formatSinceLastRunBlock(githubData.sinceLastRun)}${formatDiffBlock(githubData)}${formatAttachmentsBlock(githubData)}${truncationInfo}
+
+<event_type>${eventType}</event_type>
+<trigger_context>${triggerContext}</trigger_context>
+<repository>${context.repository}</repository>
+<pr_number>${eventData.isPR && eventData.prNumber ? eventData.prNumber : ""}</pr_number>
+<trigger_username>${context.triggerUsername ?? "Unknown"}</trigger_username>
+${triggerComment}
+<review_tool_info>
+Inline comments are buffered and only posted when you submit the review:
+- mcp__github_review__add_review_comment: add an inline comment on a line (or startLine to line range) of the diff
+- mcp__github_review__list_pending_review_comments: list the buffered comments with their indexes
+- mcp__github_review__remove_review_comment: drop a buffered comment by index
+- mcp__github_review__submit_review: submit the summary body and all buffered comments as one review. This can only be called once.
+- mcp__github_inline_comment__get_pr_diff: show a file's diff, or the hunks covering a line range, to find lines you can comment on
+
+The default verdict is ${reviewEvent}. You may submit with ${allowedEvents}.
+</review_tool_info>
+
+Follow these steps:
+
+1. Understand the change:
+   - Read the PR description and existing discussion above.
+   - Use 'git diff origin/${eventData.baseBranch || "main"}...HEAD' to see the changes (NOT 'main' or 'master' unless that is the base branch).
+   - Read the surrounding code where needed to judge correctness.
+
+2. Collect findings:
+   - Add an inline comment for each concrete issue, anchored to the changed lines it concerns.
+   - Only comment on lines that are part of the diff.
+   - Prefer GitHub suggestion blocks for small, self-contained fixes.
+   - Do not repeat feedback that already appears in the existing review comments.
+
+3. Submit the review:
+   - Call mcp__github_review__submit_review exactly once, after all inline comments have been added.
+   - The body should summarize the overall assessment and the most important findings.
+   - Use REQUEST_CHANGES only for problems that must be fixed before merging.
+
+IMPORTANT:
+- Do not modify files, create commits, or push changes. This is a review only.
+- Your console outputs are NOT visible to the user; only the submitted review is.`;
+
+  if (context.githubContext?.inputs?.prompt) {
+    promptContent += `
+
+<custom_instructions>
+${context.githubContext.inputs.prompt}
+</custom_instructions>`;
+  }
+
+  return promptContent;
+}
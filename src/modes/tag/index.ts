@@ -3,10 +3,16 @@ import type { Mode, ModeOptions, ModeResult } from "../types";
 import { checkContainsTrigger } from "../../github/validation/trigger";
 import { checkHumanActor } from "../../github/validation/actor";
 import { createInitialComment } from "../../github/operations/comments/create-initial";
+import { getSessionArtifactName } from "../../github/operations/session";
+import {
+  fetchTrackingState,
+  type TrackingState,
+} from "../../github/operations/tracking-state";
 import { setupBranch } from "../../github/operations/branch";
+import { getCommitTools } from "../../github/operations/commit-strategy";
 import {
   configureGitAuth,
-  setupSshSigning,
+  setupCommitSigning,
 } from "../../github/operations/git-config";
 import { prepareMcpConfig } from "../../mcp/install-mcp-server";
 import {
@@ -14,8 +20,13 @@ import {
   extractTriggerTimestamp,
   extractOriginalTitle,
 } from "../../github/data/fetcher";
+import { getLastRunLookup } from "../../github/data/last-run";
+import {
+  prepareTestReports,
+  TEST_REPORT_TOOLS,
+} from "../../github/data/test-reports";
 import { createPrompt, generateDefaultPrompt } from "../../create-prompt";
-import { isEntityContext } from "../../github/context";
+import { getDispatchAllowedTools, isEntityContext } from "../../github/context";
 import type { PreparedContext } from "../../create-prompt/types";
 import type { FetchDataResult } from "../../github/data/fetcher";
 import { parseAllowedTools } from "../agent/parse-tools";
@@ -46,6 +57,8 @@ export const tagMode: Mode = {
       commentId: data?.commentId,
       baseBranch: data?.baseBranch,
       claudeBranch: data?.claudeBranch,
+      memory: data?.memory,
+      testReports: data?.testReports,
     };
   },
 
@@ -65,6 +78,7 @@ export const tagMode: Mode = {
     context,
     octokit,
     githubToken,
+    additionalRepositories = [],
   }: ModeOptions): Promise<ModeResult> {
     // Tag mode only handles entity-based events
     if (!isEntityContext(context)) {
@@ -74,8 +88,42 @@ export const tagMode: Mode = {
     // Check if actor is human
     await checkHumanActor(octokit.rest, context);
 
+    // Load the memory and session that earlier runs left in their tracking
+    // comments, so the new tracking comment carries the memory
+    let trackingState: TrackingState = {};
+    try {
+      trackingState = await fetchTrackingState(octokit.rest, {
+        owner: context.repository.owner,
+        repo: context.repository.repo,
+        entityNumber: context.entityNumber,
+        isPR: context.isPR,
+        botName: context.inputs.botName,
+      });
+    } catch (error) {
+      console.warn("Failed to load state from earlier runs:", error);
+    }
+    const { memory, session } = trackingState;
+
+    // Resume the previous session. Its transcript is restored by a later
+    // step, and Claude starts a fresh session if that fails.
+    if (context.inputs.resumeSession && session) {
+      console.log(
+        `Found session ${session.sessionId} from run ${session.runId}`,
+      );
+      core.setOutput("resume_session_id", session.sessionId);
+      core.setOutput("resume_session_run_id", session.runId);
+      core.setOutput(
+        "resume_session_artifact",
+        getSessionArtifactName(session.sessionId),
+      );
+    }
+
     // Create initial tracking comment
-    const commentData = await createInitialComment(octokit.rest, context);
+    const commentData = await createInitialComment(
+      octokit.rest,
+      context,
+      memory,
+    );
     const commentId = commentData.id;
 
     const triggerTime = extractTriggerTimestamp(context);
@@ -91,33 +139,18 @@ export const tagMode: Mode = {
       originalTitle,
       includeCommentsByActor: context.inputs.includeCommentsByActor,
       excludeCommentsByActor: context.inputs.excludeCommentsByActor,
+      includeDiff: context.inputs.includeDiff,
+      lastRunLookup: getLastRunLookup(context),
     });
 
     // Setup branch
     const branchInfo = await setupBranch(octokit, githubData, context);
 
-    // Configure git authentication
-    // SSH signing takes precedence if provided
-    const useSshSigning = !!context.inputs.sshSigningKey;
-    const useApiCommitSigning =
-      context.inputs.useCommitSigning && !useSshSigning;
+    // Configure commit signing and, for the git strategies, git auth
+    const commitStrategy = context.inputs.commitStrategy;
+    await setupCommitSigning(commitStrategy, context.inputs);
 
-    if (useSshSigning) {
-      // Setup SSH signing for commits
-      await setupSshSigning(context.inputs.sshSigningKey);
-
-      // Still configure git auth for push operations (user/email and remote URL)
-      const user = {
-        login: context.inputs.botName,
-        id: parseInt(context.inputs.botId),
-      };
-      try {
-        await configureGitAuth(githubToken, context, user);
-      } catch (error) {
-        console.error("Failed to configure git authentication:", error);
-        throw error;
-      }
-    } else if (!useApiCommitSigning) {
+    if (commitStrategy !== "api") {
       // Use bot_id and bot_name from inputs directly
       const user = {
         login: context.inputs.botName,
@@ -132,11 +165,15 @@ export const tagMode: Mode = {
       }
     }
 
+    const testReports = await prepareTestReports(octokit.rest, context);
+
     // Create prompt file
     const modeContext = this.prepareContext(context, {
       commentId,
       baseBranch: branchInfo.baseBranch,
       claudeBranch: branchInfo.claudeBranch,
+      memory,
+      testReports: testReports?.testReports,
     });
 
     await createPrompt(tagMode, modeContext, githubData, context);
@@ -161,32 +198,36 @@ export const tagMode: Mode = {
       "Read",
       "Write",
       "mcp__github_comment__update_claude_comment",
+      "mcp__github_comment__read_memory",
+      "mcp__github_comment__update_memory",
       "mcp__github_ci__get_ci_status",
       "mcp__github_ci__get_workflow_run_details",
       "mcp__github_ci__download_job_log",
+      "mcp__github_ci__get_failed_steps",
+      "mcp__github_ci__search_job_log",
+      "mcp__github_ci__tail_job_log",
+      "mcp__github_ci__list_run_artifacts",
+      "mcp__github_ci__download_artifact",
       ...userAllowedMCPTools,
     ];
 
-    // Add git commands when using git CLI (no API commit signing, or SSH signing)
-    // SSH signing still uses git CLI, just with signing enabled
-    if (!useApiCommitSigning) {
-      tagModeTools.push(
-        "Bash(git add:*)",
-        "Bash(git commit:*)",
-        "Bash(git push:*)",
-        "Bash(git status:*)",
-        "Bash(git diff:*)",
-        "Bash(git log:*)",
-        "Bash(git rm:*)",
-      );
-    } else {
-      // When using API commit signing, use MCP file ops tools
+    // Add git commands for the git strategies, file ops tools for API commits
+    tagModeTools.push(...getCommitTools(commitStrategy));
+
+    // Allow reading the diff and resolving review threads once their
+    // feedback is addressed
+    if (context.isPR) {
       tagModeTools.push(
-        "mcp__github_file_ops__commit_files",
-        "mcp__github_file_ops__delete_files",
+        "mcp__github_inline_comment__get_pr_diff",
+        "mcp__github_inline_comment__resolve_review_thread",
       );
     }
 
+    // Allow commenting on issues and PRs in additional repositories
+    if (additionalRepositories.length > 0) {
+      tagModeTools.push("mcp__github_comment__create_comment");
+    }
+
     // Add Linear tools when Linear API key is provided
     if (linearEnabled) {
       tagModeTools.push(
@@ -202,6 +243,13 @@ export const tagMode: Mode = {
       );
     }
 
+    if (testReports) {
+      tagModeTools.push(...TEST_REPORT_TOOLS);
+    }
+
+    // Add the tools the dispatch payload allows
+    tagModeTools.push(...getDispatchAllowedTools(context));
+
     // Get our GitHub MCP servers configuration
     const ourMcpConfig = await prepareMcpConfig({
       githubToken,
@@ -215,6 +263,8 @@ export const tagMode: Mode = {
       context,
       linearApiKey: context.inputs.linearApiKey,
       linearTeamId: context.inputs.linearTeamId,
+      additionalRepositories,
+      testReportsPath: testReports?.path,
     });
 
     // Build complete claude_args with multiple --mcp-config flags
@@ -2,8 +2,30 @@ import type { GitHubContext } from "../github/context";
 import type { PreparedContext } from "../create-prompt/types";
 import type { FetchDataResult } from "../github/data/fetcher";
 import type { Octokits } from "../github/api/client";
+import type { RepositoryTarget } from "../github/operations/additional-repositories";
+import type { EntityMemory } from "../github/operations/memory";
+import type { CiFailure } from "../github/data/ci-failure";
+import type { TestReports } from "../github/data/test-reports";
 
-export type ModeName = "tag" | "agent";
+/**
+ * Names of the modes that ship with the action. This is the single source of
+ * truth for built-in mode names; custom modes are added at runtime through
+ * the mode registry.
+ */
+export const BUILT_IN_MODES = [
+  "tag",
+  "agent",
+  "review",
+  "discussion",
+  "ci-triage",
+] as const;
+
+export type BuiltInModeName = (typeof BUILT_IN_MODES)[number];
+
+/**
+ * Name of any mode, built-in or registered at runtime.
+ */
+export type ModeName = string;
 
 export type ModeContext = {
   mode: ModeName;
@@ -11,12 +33,18 @@ export type ModeContext = {
   commentId?: number;
   baseBranch?: string;
   claudeBranch?: string;
+  memory?: EntityMemory;
+  ciFailure?: CiFailure;
+  testReports?: TestReports;
 };
 
 export type ModeData = {
   commentId?: number;
   baseBranch?: string;
   claudeBranch?: string;
+  memory?: EntityMemory;
+  ciFailure?: CiFailure;
+  testReports?: TestReports;
 };
 
 /**
@@ -27,11 +55,30 @@ export type ModeData = {
  * Current modes include:
  * - 'tag': Interactive mode triggered by @claude mentions
  * - 'agent': Direct automation mode triggered by explicit prompts
+ * - 'review': Pull request review mode that submits a single batched review
+ * - 'discussion': Replies to @claude mentions in GitHub Discussions
+ * - 'ci-triage': Diagnoses and fixes failed workflow runs on pull requests
+ *
+ * Additional modes can be registered at runtime via `registerMode` in
+ * the mode registry.
  */
 export type Mode = {
   name: ModeName;
   description: string;
 
+  /**
+   * Trigger predicate consulted by `detectMode` for registered modes.
+   * Built-in modes are selected by the detector's own rules and leave this unset.
+   */
+  detect?(context: GitHubContext): boolean;
+
+  /**
+   * Order in which `detectMode` consults registered modes (higher first).
+   * Modes with a priority above BUILT_IN_MODE_PRIORITY are consulted before the
+   * built-in rules; all others only when no built-in rule matches.
+   */
+  priority?: number;
+
   /**
    * Determines if this mode should trigger based on the GitHub context
    */
@@ -87,6 +134,8 @@ export type ModeOptions = {
   context: GitHubContext;
   octokit: Octokits;
   githubToken: string;
+  // Repositories checked out alongside the main one (additional_repositories)
+  additionalRepositories?: RepositoryTarget[];
 };
 
 export type ModeResult = {
@@ -3,6 +3,10 @@
  */
 
 import type { PrepareOptions, PrepareResult } from "./types";
+import {
+  parseAdditionalRepositories,
+  setupAdditionalRepositories,
+} from "../github/operations/additional-repositories";
 
 export async function prepare(options: PrepareOptions): Promise<PrepareResult> {
   const { mode, context, octokit, githubToken } = options;
@@ -11,10 +15,23 @@ export async function prepare(options: PrepareOptions): Promise<PrepareResult> {
     `Preparing with mode: ${mode.name} for event: ${context.eventName}`,
   );
 
+  // Check out additional repositories before the mode builds its MCP config
+  const additionalRepositories = await setupAdditionalRepositories(
+    parseAdditionalRepositories(
+      context.inputs.additionalRepositories,
+      context.repository.full_name,
+    ),
+    {
+      login: context.inputs.botName,
+      id: parseInt(context.inputs.botId),
+    },
+  );
+
   // Delegate to the mode's prepare method
   return mode.prepare({
     context,
     octokit,
     githubToken,
+    additionalRepositories,
   });
 }
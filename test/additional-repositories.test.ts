@@ -0,0 +1,200 @@
+import { describe, test, expect } from "bun:test";
+import { $ } from "bun";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  findRepositoryTarget,
+  formatAdditionalRepositories,
+  parseAdditionalRepositories,
+  parseRepositoryTargets,
+  writeCredentialHelper,
+} from "../src/github/operations/additional-repositories";
+import { generateDefaultPrompt } from "../src/create-prompt";
+import type { PreparedContext } from "../src/create-prompt";
+import type { FetchDataResult } from "../src/github/data/fetcher";
+import { mockIssueCommentContext } from "./mockContext";
+
+describe("parseAdditionalRepositories", () => {
+  test("returns an empty list for empty input", () => {
+    expect(parseAdditionalRepositories("", "owner/main")).toEqual([]);
+    expect(parseAdditionalRepositories(undefined, "owner/main")).toEqual([]);
+  });
+
+  test("parses newline- and comma-separated repositories with optional refs", () => {
+    expect(
+      parseAdditionalRepositories(
+        "my-org/shared-schema\n my-org/client.sdk@release/v2 ,other/repo",
+        "my-org/service",
+      ),
+    ).toEqual([
+      {
+        owner: "my-org",
+        repo: "shared-schema",
+        fullName: "my-org/shared-schema",
+        path: ".claude-repos/my-org/shared-schema",
+      },
+      {
+        owner: "my-org",
+        repo: "client.sdk",
+        fullName: "my-org/client.sdk",
+        ref: "release/v2",
+        path: ".claude-repos/my-org/client.sdk",
+      },
+      {
+        owner: "other",
+        repo: "repo",
+        fullName: "other/repo",
+        path: ".claude-repos/other/repo",
+      },
+    ]);
+  });
+
+  test("rejects malformed entries", () => {
+    expect(() => parseAdditionalRepositories("just-a-name", "o/r")).toThrow(
+      "Invalid additional repository 'just-a-name'",
+    );
+    expect(() => parseAdditionalRepositories("a/b/c", "o/r")).toThrow(
+      "Invalid additional repository",
+    );
+    expect(() => parseAdditionalRepositories("owner/..", "o/r")).toThrow(
+      "Invalid additional repository",
+    );
+    expect(() => parseAdditionalRepositories("owner/repo@-x", "o/r")).toThrow(
+      "Invalid ref",
+    );
+  });
+
+  test("rejects the current repository and duplicates", () => {
+    expect(() =>
+      parseAdditionalRepositories("My-Org/Service", "my-org/service"),
+    ).toThrow("is the repository the workflow runs in");
+    expect(() =>
+      parseAdditionalRepositories("a/b\nA/B@main", "my-org/service"),
+    ).toThrow("is listed twice");
+  });
+});
+
+describe("repository targets", () => {
+  const targets = [
+    {
+      repository: "my-org/shared-schema",
+      path: "/workspace/.claude-repos/my-org/shared-schema",
+      token: "token-1",
+    },
+  ];
+
+  test("round-trips through the MCP server environment", () => {
+    expect(parseRepositoryTargets(JSON.stringify(targets))).toEqual(targets);
+    expect(parseRepositoryTargets(undefined)).toEqual([]);
+    expect(() => parseRepositoryTargets("{}")).toThrow("JSON array");
+  });
+
+  test("finds targets case-insensitively", () => {
+    expect(findRepositoryTarget(targets, "My-Org/Shared-Schema").token).toBe(
+      "token-1",
+    );
+  });
+
+  test("lists the configured repositories when no target matches", () => {
+    expect(() => findRepositoryTarget(targets, "my-org/other")).toThrow(
+      "Available additional repositories: my-org/shared-schema",
+    );
+  });
+});
+
+describe("additional repositories in the prompt", () => {
+  const githubData = {
+    contextData: {
+      title: "Issue",
+      body: "Body",
+      author: { login: "user" },
+      state: "OPEN",
+      createdAt: "2023-01-01T00:00:00Z",
+      comments: { nodes: [] },
+    },
+    comments: [],
+    changedFiles: [],
+    changedFilesWithSHA: [],
+    reviewData: null,
+    imageUrlMap: new Map<string, string>(),
+  } as unknown as FetchDataResult;
+
+  function createContext(additionalRepositories: string): PreparedContext {
+    return {
+      repository: "test-owner/test-repo",
+      claudeCommentId: "12345",
+      triggerPhrase: "@claude",
+      eventData: {
+        eventName: "issue_comment",
+        commentId: "67890",
+        isPR: false,
+        baseBranch: "main",
+        claudeBranch: "claude/issue-1",
+        issueNumber: "1",
+        commentBody: "@claude update the schema too",
+      },
+      githubContext: {
+        ...mockIssueCommentContext,
+        inputs: { ...mockIssueCommentContext.inputs, additionalRepositories },
+      },
+    };
+  }
+
+  test("formats repositories with their checkout paths", () => {
+    expect(
+      formatAdditionalRepositories(
+        parseAdditionalRepositories("my-org/schema@main", "o/r"),
+      ),
+    ).toBe(
+      "- my-org/schema (checked out at .claude-repos/my-org/schema, ref main)",
+    );
+  });
+
+  test("lists additional repositories when configured", () => {
+    const prompt = generateDefaultPrompt(
+      createContext("my-org/schema"),
+      githubData,
+      true,
+    );
+
+    expect(prompt).toContain("<additional_repositories>");
+    expect(prompt).toContain(
+      "- my-org/schema (checked out at .claude-repos/my-org/schema)",
+    );
+    expect(prompt).toContain("set the repository parameter");
+  });
+
+  test("omits the section when none are configured", () => {
+    const prompt = generateDefaultPrompt(createContext(""), githubData, false);
+
+    expect(prompt).not.toContain("<additional_repositories>");
+  });
+});
+
+describe("writeCredentialHelper", () => {
+  test("answers git's get request with the token", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "claude-credentials-"));
+    try {
+      const [repository] = parseAdditionalRepositories(
+        "my-org/shared-schema",
+        "my-org/service",
+      );
+      const helper = await writeCredentialHelper(
+        repository!,
+        "ghs_scoped",
+        dir,
+      );
+
+      expect(helper).toBe(join(dir, "my-org__shared-schema.sh"));
+      expect((await $`${helper} get`.text()).split("\n")).toEqual([
+        "username=x-access-token",
+        "password=ghs_scoped",
+        "",
+      ]);
+      expect(await $`${helper} store`.text()).toBe("");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,431 @@
+import {
+  describe,
+  test,
+  expect,
+  spyOn,
+  beforeEach,
+  afterEach,
+  jest,
+} from "bun:test";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { deflateRawSync, deflateSync } from "zlib";
+import {
+  downloadCommentAttachments,
+  findAttachmentUrls,
+  getAttachmentName,
+  MAX_ATTACHMENT_BYTES,
+  resolveSignedUrl,
+} from "../src/github/utils/attachment-downloader";
+import { extractZip, resolveZipEntryPath } from "../src/github/utils/zip";
+import { extractPdfText } from "../src/github/utils/pdf-text";
+import { formatAttachments } from "../src/github/data/formatter";
+import type { Octokits } from "../src/github/api/client";
+
+type TestZipEntry = {
+  name: string;
+  content?: string;
+  /** Store uncompressed instead of deflating */
+  stored?: boolean;
+  /** Unix mode, stored in the external attributes */
+  mode?: number;
+};
+
+// Writes a minimal zip archive; sizes are taken from the content unless
+// overridden by declaredSize
+function buildZip(entries: (TestZipEntry & { declaredSize?: number })[]) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const raw = Buffer.from(entry.content ?? "");
+    const data = entry.stored ? raw : deflateRawSync(raw);
+    const size = entry.declaredSize ?? raw.length;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(entry.stored ? 0 : 8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(size, 22);
+    local.writeUInt16LE(name.length, 26);
+    locals.push(local, name, data);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(entry.stored ? 0 : 8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(size, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((entry.mode ?? 0o100644) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+    centrals.push(central, name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centrals);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralDirectory.length, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, centralDirectory, eocd]);
+}
+
+function buildPdf(content: string, compress = false): Buffer {
+  const data = compress
+    ? deflateSync(Buffer.from(content, "latin1"))
+    : Buffer.from(content, "latin1");
+  const filter = compress ? " /Filter /FlateDecode" : "";
+  return Buffer.concat([
+    Buffer.from(
+      `%PDF-1.4\n1 0 obj\n<< /Type /Catalog >>\nendobj\n4 0 obj\n<< /Length ${data.length}${filter} >>\nstream\n`,
+      "latin1",
+    ),
+    data,
+    Buffer.from("\nendstream\nendobj\n%%EOF\n", "latin1"),
+  ]);
+}
+
+const LIMITS = { maxEntries: 10, maxTotalBytes: 1024 };
+
+describe("extractZip", () => {
+  let destDir: string;
+
+  beforeEach(async () => {
+    destDir = await fs.mkdtemp(path.join(os.tmpdir(), "zip-test-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(destDir, { recursive: true, force: true });
+  });
+
+  test("extracts stored and deflated entries into nested directories", async () => {
+    const zip = buildZip([
+      { name: "repro/", stored: true },
+      { name: "repro/index.js", content: "console.log('hi');\n" },
+      { name: "repro/README.md", content: "steps", stored: true },
+    ]);
+
+    const result = await extractZip(zip, destDir, LIMITS);
+
+    expect(result).toEqual({
+      files: ["repro/index.js", "repro/README.md"],
+      skipped: [],
+    });
+    expect(
+      await fs.readFile(path.join(destDir, "repro/index.js"), "utf8"),
+    ).toBe("console.log('hi');\n");
+    expect(
+      await fs.readFile(path.join(destDir, "repro/README.md"), "utf8"),
+    ).toBe("steps");
+  });
+
+  test("skips entries that would escape the destination", async () => {
+    const zip = buildZip([
+      { name: "../evil.sh", content: "rm -rf /" },
+      { name: "a/../../evil.sh", content: "rm -rf /" },
+      { name: "/etc/evil", content: "x" },
+      { name: "..\\evil.bat", content: "x" },
+      { name: "C:/evil", content: "x" },
+      { name: "ok.txt", content: "ok" },
+    ]);
+
+    const result = await extractZip(zip, destDir, LIMITS);
+
+    expect(result.files).toEqual(["ok.txt"]);
+    expect(result.skipped).toEqual([
+      "../evil.sh: path outside the archive",
+      "a/../../evil.sh: path outside the archive",
+      "/etc/evil: path outside the archive",
+      "..\\evil.bat: path outside the archive",
+      "C:/evil: path outside the archive",
+    ]);
+    expect(await fs.readdir(path.dirname(destDir))).not.toContain("evil.sh");
+  });
+
+  test("skips symlinks", async () => {
+    const zip = buildZip([
+      { name: "link", content: "/etc/passwd", stored: true, mode: 0o120777 },
+    ]);
+
+    const result = await extractZip(zip, destDir, LIMITS);
+
+    expect(result).toEqual({ files: [], skipped: ["link: symlink"] });
+  });
+
+  test("rejects archives over the entry or size limits", async () => {
+    await expect(
+      extractZip(
+        buildZip([{ name: "a" }, { name: "b" }, { name: "c" }]),
+        destDir,
+        { ...LIMITS, maxEntries: 2 },
+      ),
+    ).rejects.toThrow("Archive has 3 entries, more than the limit of 2");
+
+    await expect(
+      extractZip(
+        buildZip([{ name: "big.txt", content: "x".repeat(2000) }]),
+        destDir,
+        LIMITS,
+      ),
+    ).rejects.toThrow(
+      "Archive expands to 2000 bytes, more than the limit of 1024",
+    );
+  });
+
+  test("does not inflate past the declared size", async () => {
+    const zip = buildZip([
+      { name: "bomb.txt", content: "x".repeat(100_000), declaredSize: 10 },
+    ]);
+
+    const result = await extractZip(zip, destDir, LIMITS);
+
+    expect(result.files).toEqual([]);
+    expect(result.skipped).toHaveLength(1);
+    expect(result.skipped[0]).toStartWith("bomb.txt: ");
+  });
+
+  test("rejects data that is not a zip archive", async () => {
+    await expect(
+      extractZip(Buffer.from("not a zip file at all"), destDir, LIMITS),
+    ).rejects.toThrow("Not a zip archive");
+  });
+});
+
+describe("resolveZipEntryPath", () => {
+  test("resolves names inside the destination", () => {
+    expect(resolveZipEntryPath("/tmp/out", "a/b.txt")).toBe("/tmp/out/a/b.txt");
+    expect(resolveZipEntryPath("/tmp/out", "./a.txt")).toBe("/tmp/out/a.txt");
+  });
+
+  test("rejects the destination itself and NUL bytes", () => {
+    expect(resolveZipEntryPath("/tmp/out", ".")).toBeNull();
+    expect(resolveZipEntryPath("/tmp/out", "a\0.txt")).toBeNull();
+  });
+});
+
+describe("extractPdfText", () => {
+  test("reads text from uncompressed content streams", () => {
+    const pdf = buildPdf(
+      "BT /F1 12 Tf 72 720 Td (Error: connection refused) Tj 0 -14 Td (at line 42) Tj ET",
+    );
+
+    expect(extractPdfText(pdf)).toBe("Error: connection refused\nat line 42");
+  });
+
+  test("reads Flate-compressed streams, TJ arrays and escapes", () => {
+    const pdf = buildPdf(
+      "BT [(Stack)-250(trace)] TJ T* (\\(see log\\)) Tj T* <48690A> Tj ET",
+      true,
+    );
+
+    expect(extractPdfText(pdf)).toBe("Stack trace\n(see log)\nHi");
+  });
+
+  test("throws for files that are not PDFs", () => {
+    expect(() => extractPdfText(Buffer.from("hello"))).toThrow(
+      "Not a PDF file",
+    );
+  });
+});
+
+describe("findAttachmentUrls", () => {
+  test("finds file links but not images or other links", () => {
+    const body = [
+      "Logs: [server.log](https://github.com/user-attachments/files/123/server.log)",
+      "Repro: [repro.zip](https://github.com/owner/repo/files/456/repro.zip)",
+      "Image: ![shot](https://github.com/user-attachments/assets/abc.png)",
+      "Docs: [guide](https://example.com/files/1/guide.txt)",
+      "Again: [server.log](https://github.com/user-attachments/files/123/server.log)",
+    ].join("\n");
+
+    expect(findAttachmentUrls(body)).toEqual([
+      "https://github.com/user-attachments/files/123/server.log",
+      "https://github.com/owner/repo/files/456/repro.zip",
+    ]);
+  });
+});
+
+describe("getAttachmentName", () => {
+  test("decodes the file name and keeps it safe for the file system", () => {
+    expect(
+      getAttachmentName(
+        "https://github.com/user-attachments/files/1/build%20output.log",
+      ),
+    ).toBe("build_output.log");
+  });
+
+  test("keeps a name with malformed escapes as written", () => {
+    const [url] = findAttachmentUrls(
+      "[crash](https://github.com/user-attachments/files/1/crash%ZZ.log)",
+    );
+    expect(getAttachmentName(url!)).toBe("crash_ZZ.log");
+  });
+});
+
+describe("resolveSignedUrl", () => {
+  const url = "https://github.com/user-attachments/files/123/server.log";
+
+  test("picks the signed href matching the file name", () => {
+    const html = [
+      '<a href="https://objects.githubusercontent.com/files/1/other.log?X-Amz-Signature=a&amp;b=c">other.log</a>',
+      '<a href="https://objects.githubusercontent.com/files/123/server.log?X-Amz-Signature=x&amp;b=c">server.log</a>',
+    ].join("\n");
+
+    expect(resolveSignedUrl(url, html)).toBe(
+      "https://objects.githubusercontent.com/files/123/server.log?X-Amz-Signature=x&b=c",
+    );
+  });
+
+  test("falls back to the original URL", () => {
+    expect(resolveSignedUrl(url, undefined)).toBe(url);
+    expect(resolveSignedUrl(url, "<p>no links</p>")).toBe(url);
+  });
+});
+
+describe("downloadCommentAttachments", () => {
+  let consoleLogSpy: any;
+  let consoleWarnSpy: any;
+  let consoleErrorSpy: any;
+  let fsMkdirSpy: any;
+  let fsWriteFileSpy: any;
+  let fetchSpy: any;
+
+  beforeEach(() => {
+    consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
+    consoleWarnSpy = spyOn(console, "warn").mockImplementation(() => {});
+    consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+    fsMkdirSpy = spyOn(fs, "mkdir").mockResolvedValue(undefined);
+    fsWriteFileSpy = spyOn(fs, "writeFile").mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    consoleLogSpy.mockRestore();
+    consoleWarnSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    fsMkdirSpy.mockRestore();
+    fsWriteFileSpy.mockRestore();
+    if (fetchSpy) fetchSpy.mockRestore();
+  });
+
+  const createMockOctokit = (bodyHtml = ""): Octokits =>
+    ({
+      rest: {
+        issues: {
+          getComment: jest.fn().mockResolvedValue({
+            data: { body_html: bodyHtml },
+          }),
+        },
+      },
+    }) as any as Octokits;
+
+  const mockResponse = (body: Buffer, contentLength?: number) =>
+    ({
+      ok: true,
+      headers: new Headers(
+        contentLength === undefined
+          ? {}
+          : { "content-length": String(contentLength) },
+      ),
+      arrayBuffer: async () =>
+        body.buffer.slice(body.byteOffset, body.byteOffset + body.length),
+    }) as Response;
+
+  test("downloads text attachments through the signed URL", async () => {
+    const signedUrl =
+      "https://objects.githubusercontent.com/files/123/server.log?sig=abc";
+    const octokit = createMockOctokit(`<a href="${signedUrl}">server.log</a>`);
+    const content = Buffer.from("ERROR boom\n");
+    fetchSpy = spyOn(global, "fetch").mockResolvedValue(mockResponse(content));
+
+    const result = await downloadCommentAttachments(octokit, "owner", "repo", [
+      {
+        type: "issue_comment",
+        id: "123",
+        body: "See [server.log](https://github.com/user-attachments/files/123/server.log)",
+      },
+    ]);
+
+    expect(fetchSpy).toHaveBeenCalledWith(signedUrl);
+    expect(fsWriteFileSpy).toHaveBeenCalledWith(
+      "/tmp/github-attachments/1-server.log",
+      content,
+    );
+    expect(result).toEqual([
+      {
+        url: "https://github.com/user-attachments/files/123/server.log",
+        name: "server.log",
+        source: "issue_comment 123",
+        kind: "text",
+        localPath: "/tmp/github-attachments/1-server.log",
+      },
+    ]);
+  });
+
+  test("lists unsupported and oversized attachments without saving them", async () => {
+    fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+      mockResponse(Buffer.from(""), MAX_ATTACHMENT_BYTES + 1),
+    );
+
+    const result = await downloadCommentAttachments(
+      createMockOctokit(),
+      "owner",
+      "repo",
+      [
+        {
+          type: "issue_comment",
+          id: "123",
+          body: [
+            "[setup.exe](https://github.com/user-attachments/files/1/setup.exe)",
+            "[huge.log](https://github.com/user-attachments/files/2/huge.log)",
+          ].join(" "),
+        },
+      ],
+    );
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(fsWriteFileSpy).not.toHaveBeenCalled();
+    expect(result.map((attachment) => attachment.note)).toEqual([
+      "not downloaded: unsupported file type",
+      "not downloaded: larger than 10 MB",
+    ]);
+    expect(formatAttachments(result)).toBe(
+      [
+        "- setup.exe (from issue_comment 123): not downloaded: unsupported file type",
+        "- huge.log (from issue_comment 123): not downloaded: larger than 10 MB",
+      ].join("\n"),
+    );
+  });
+
+  test("saves extracted PDF text next to the PDF", async () => {
+    fetchSpy = spyOn(global, "fetch").mockResolvedValue(
+      mockResponse(buildPdf("BT (Kernel panic) Tj ET")),
+    );
+
+    const [attachment] = await downloadCommentAttachments(
+      createMockOctokit(),
+      "owner",
+      "repo",
+      [
+        {
+          type: "issue_comment",
+          id: "123",
+          body: "[crash.pdf](https://github.com/user-attachments/files/9/crash.pdf)",
+        },
+      ],
+    );
+
+    expect(attachment?.textPath).toBe(
+      "/tmp/github-attachments/1-crash.pdf.txt",
+    );
+    expect(fsWriteFileSpy).toHaveBeenCalledWith(
+      "/tmp/github-attachments/1-crash.pdf.txt",
+      "Kernel panic",
+    );
+  });
+});
@@ -1,21 +1,54 @@
 import { describe, test, expect, beforeEach, afterEach, spyOn } from "bun:test";
-import { checkAndCommitOrDeleteBranch } from "../src/github/operations/branch-cleanup";
+import { $ } from "bun";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  checkAndCommitOrDeleteBranch,
+  getUncommittedChanges,
+} from "../src/github/operations/branch-cleanup";
 import type { Octokits } from "../src/github/api/client";
 import { GITHUB_SERVER_URL } from "../src/github/api/config";
 
+// A clone on claude/issue-123 of a bare repository with one commit on main
+async function createTestRepo(dir: string): Promise<void> {
+  await $`git init -q --bare -b main ${join(dir, "remote.git")}`.quiet();
+  await $`git init -q -b main ${join(dir, "work")}`.quiet();
+  process.chdir(join(dir, "work"));
+  await $`git config user.name test`.quiet();
+  await $`git config user.email test@example.com`.quiet();
+  await $`git config commit.gpgsign false`.quiet();
+  await $`git remote add origin ${join(dir, "remote.git")}`.quiet();
+  await writeFile("README.md", "# Test\n");
+  await writeFile("run.sh", "echo hi\n");
+  await $`git add -A`.quiet();
+  await $`git commit -q -m init`.quiet();
+  await $`git push -q origin main`.quiet();
+  await $`git checkout -q -b claude/issue-123`.quiet();
+}
+
 describe("checkAndCommitOrDeleteBranch", () => {
   let consoleLogSpy: any;
   let consoleErrorSpy: any;
+  let originalCwd: string;
+  let tempDir: string;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     // Spy on console methods
     consoleLogSpy = spyOn(console, "log").mockImplementation(() => {});
     consoleErrorSpy = spyOn(console, "error").mockImplementation(() => {});
+
+    // Check for uncommitted changes in a clean checkout
+    originalCwd = process.cwd();
+    tempDir = await mkdtemp(join(tmpdir(), "branch-cleanup-test-"));
+    await createTestRepo(tempDir);
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     consoleLogSpy.mockRestore();
     consoleErrorSpy.mockRestore();
+    process.chdir(originalCwd);
+    await rm(tempDir, { recursive: true, force: true });
   });
 
   const createMockOctokit = (
@@ -58,7 +91,8 @@ describe("checkAndCommitOrDeleteBranch", () => {
       "repo",
       undefined,
       "main",
-      false,
+      "git",
+      "token",
     );
 
     expect(result.shouldDeleteBranch).toBe(false);
@@ -66,7 +100,7 @@ describe("checkAndCommitOrDeleteBranch", () => {
     expect(consoleLogSpy).not.toHaveBeenCalled();
   });
 
-  test("should mark branch for deletion when commit signing is enabled and no commits", async () => {
+  test("should mark branch for deletion when there are no commits or changes", async () => {
     const mockOctokit = createMockOctokit({ total_commits: 0 });
     const result = await checkAndCommitOrDeleteBranch(
       mockOctokit,
@@ -74,13 +108,14 @@ describe("checkAndCommitOrDeleteBranch", () => {
       "repo",
       "claude/issue-123-20240101-1234",
       "main",
-      true, // commit signing enabled
+      "api",
+      "token",
     );
 
     expect(result.shouldDeleteBranch).toBe(true);
     expect(result.branchLink).toBe("");
     expect(consoleLogSpy).toHaveBeenCalledWith(
-      "Branch claude/issue-123-20240101-1234 has no commits from Claude, will delete it",
+      "No uncommitted changes found, marking branch for deletion",
     );
   });
 
@@ -92,7 +127,8 @@ describe("checkAndCommitOrDeleteBranch", () => {
       "repo",
       "claude/issue-123-20240101-1234",
       "main",
-      false,
+      "git",
+      "token",
     );
 
     expect(result.shouldDeleteBranch).toBe(false);
@@ -125,7 +161,8 @@ describe("checkAndCommitOrDeleteBranch", () => {
       "repo",
       "claude/issue-123-20240101-1234",
       "main",
-      false,
+      "git",
+      "token",
     );
 
     expect(result.shouldDeleteBranch).toBe(false);
@@ -148,7 +185,8 @@ describe("checkAndCommitOrDeleteBranch", () => {
       "repo",
       "claude/issue-123-20240101-1234",
       "main",
-      true, // commit signing enabled - will try to delete
+      "api",
+      "token",
     );
 
     expect(result.shouldDeleteBranch).toBe(true);
@@ -172,7 +210,8 @@ describe("checkAndCommitOrDeleteBranch", () => {
       "repo",
       "claude/issue-123-20240101-1234",
       "main",
-      false,
+      "git",
+      "token",
     );
 
     expect(result.shouldDeleteBranch).toBe(false);
@@ -184,4 +223,73 @@ describe("checkAndCommitOrDeleteBranch", () => {
       "Branch claude/issue-123-20240101-1234 does not exist remotely, no branch link will be added",
     );
   });
+
+  test("should commit and push uncommitted changes with git", async () => {
+    await writeFile("README.md", "# Changed\n");
+    const mockOctokit = createMockOctokit({ total_commits: 0 });
+
+    const result = await checkAndCommitOrDeleteBranch(
+      mockOctokit,
+      "owner",
+      "repo",
+      "claude/issue-123",
+      "main",
+      "git",
+      "token",
+    );
+
+    expect(result.shouldDeleteBranch).toBe(false);
+    expect(result.branchLink).toBe(
+      `\n[View branch](${GITHUB_SERVER_URL}/owner/repo/tree/claude/issue-123)`,
+    );
+    const pushed =
+      await $`git --git-dir=${join(tempDir, "remote.git")} log -1 --format=%s claude/issue-123`.quiet();
+    expect(pushed.stdout.toString().trim()).toBe(
+      "Auto-commit: Save uncommitted changes from Claude",
+    );
+  });
+});
+
+describe("getUncommittedChanges", () => {
+  let originalCwd: string;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    tempDir = await mkdtemp(join(tmpdir(), "branch-cleanup-test-"));
+    await createTestRepo(tempDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("should list added, changed and deleted files", async () => {
+    await writeFile("README.md", "# Changed\n");
+    await writeFile("new.sh", "echo new\n", { mode: 0o755 });
+    await rm("run.sh");
+
+    const changes = await getUncommittedChanges();
+    const blobSha = async (content: string) =>
+      (
+        await $`git hash-object --stdin < ${new Response(content)}`.quiet()
+      ).stdout
+        .toString()
+        .trim();
+
+    expect(changes).toEqual([
+      {
+        path: "README.md",
+        mode: "100644",
+        sha: await blobSha("# Changed\n"),
+      },
+      { path: "new.sh", mode: "100755", sha: await blobSha("echo new\n") },
+      { path: "run.sh", mode: "100644", sha: null },
+    ]);
+  });
+
+  test("should return no changes for a clean checkout", async () => {
+    expect(await getUncommittedChanges()).toEqual([]);
+  });
 });
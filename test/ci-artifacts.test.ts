@@ -0,0 +1,114 @@
+import { describe, test, expect, jest, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, mkdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  MAX_ARTIFACT_BYTES,
+  downloadArtifact,
+  summarizeTestReports,
+} from "../src/github/data/ci-artifacts";
+
+function createMockOctokit(artifact: Record<string, unknown>) {
+  return {
+    actions: {
+      getArtifact: jest.fn(async () => ({
+        data: { id: 9, name: "test-results", expired: false, ...artifact },
+      })),
+      downloadArtifact: jest.fn(async () => ({ data: new ArrayBuffer(0) })),
+    },
+  } as any;
+}
+
+describe("summarizeTestReports", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "claude-ci-artifacts-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("summarizes the JUnit reports among the files", async () => {
+    const report = await readFile(
+      join(__dirname, "fixtures", "junit-report.xml"),
+      "utf8",
+    );
+    await mkdir(join(dir, "reports"));
+    await writeFile(join(dir, "reports", "junit.xml"), report);
+    await writeFile(join(dir, "pom.xml"), "<project/>");
+    await writeFile(join(dir, "broken.xml"), "<testsuite>");
+    await writeFile(join(dir, "coverage.txt"), "90%");
+
+    const result = await summarizeTestReports(dir, [
+      "reports/junit.xml",
+      "pom.xml",
+      "broken.xml",
+      "coverage.txt",
+    ]);
+
+    expect(result.testReports).toEqual([
+      {
+        path: "reports/junit.xml",
+        tests: 5,
+        failures: 1,
+        errors: 1,
+        skipped: 1,
+      },
+    ]);
+    expect(
+      result.failedCases.map(({ report, name }) => ({ report, name })),
+    ).toEqual([
+      { report: "reports/junit.xml", name: "rejects an expired token" },
+      { report: "reports/junit.xml", name: "connects" },
+    ]);
+    expect(result.omittedFailedCases).toBe(0);
+  });
+
+  test("lists at most 50 failed test cases", async () => {
+    const cases = Array.from(
+      { length: 60 },
+      (_, i) => `<testcase name="t${i}"><failure/></testcase>`,
+    );
+    await writeFile(
+      join(dir, "junit.xml"),
+      `<testsuite>${cases.join("")}</testsuite>`,
+    );
+
+    const result = await summarizeTestReports(dir, ["junit.xml"]);
+
+    expect(result.testReports[0]!.failures).toBe(60);
+    expect(result.failedCases).toHaveLength(50);
+    expect(result.omittedFailedCases).toBe(10);
+  });
+});
+
+describe("downloadArtifact", () => {
+  const params = {
+    owner: "test-owner",
+    repo: "test-repo",
+    artifactId: 9,
+    artifactsDir: "/tmp/unused",
+  };
+
+  test("refuses expired artifacts", async () => {
+    const octokit = createMockOctokit({ expired: true });
+
+    await expect(downloadArtifact(octokit, params)).rejects.toThrow(
+      "Artifact test-results has expired",
+    );
+    expect(octokit.actions.downloadArtifact).not.toHaveBeenCalled();
+  });
+
+  test("refuses artifacts over the size limit", async () => {
+    const octokit = createMockOctokit({
+      size_in_bytes: MAX_ARTIFACT_BYTES + 1,
+    });
+
+    await expect(downloadArtifact(octokit, params)).rejects.toThrow(
+      "more than the limit",
+    );
+    expect(octokit.actions.downloadArtifact).not.toHaveBeenCalled();
+  });
+});
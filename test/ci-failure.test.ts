@@ -0,0 +1,434 @@
+import {
+  describe,
+  test,
+  expect,
+  jest,
+  beforeEach,
+  afterEach,
+  afterAll,
+} from "bun:test";
+import * as github from "@actions/github";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  countFixAttempts,
+  fetchCiFailure,
+  fetchFailedJobs,
+  isClaudeFixRun,
+} from "../src/github/data/ci-failure";
+import {
+  isAutomationContext,
+  isEntityContext,
+  parseGitHubContext,
+} from "../src/github/context";
+import { createMockContext } from "./mockContext";
+
+const identity = { botName: "claude[bot]", botId: "41898282" };
+
+const claudeCommit = {
+  author: {
+    name: "claude[bot]",
+    email: "41898282+claude[bot]@users.noreply.github.com",
+  },
+};
+const humanCommit = {
+  author: { name: "Dev", email: "dev@example.com" },
+};
+
+function workflowRun(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 500,
+    name: "CI",
+    workflow_id: 7,
+    head_sha: "sha-500",
+    head_branch: "feature",
+    html_url: "https://github.com/test-owner/test-repo/actions/runs/500",
+    run_attempt: 1,
+    conclusion: "failure",
+    created_at: "2024-05-01T12:00:00Z",
+    head_commit: claudeCommit,
+    actor: { login: "claude[bot]" },
+    pull_requests: [],
+    ...overrides,
+  } as any;
+}
+
+function createMockOctokit({
+  runs = [],
+  jobs = [],
+  logs = {},
+}: {
+  runs?: unknown[];
+  jobs?: unknown[];
+  logs?: Record<number, string>;
+}) {
+  return {
+    actions: {
+      listWorkflowRuns: jest.fn(async () => ({
+        data: { workflow_runs: runs },
+      })),
+      listJobsForWorkflowRun: jest.fn(async () => ({ data: { jobs } })),
+      downloadJobLogsForWorkflowRun: jest.fn(
+        async ({ job_id }: { job_id: number }) => {
+          if (!(job_id in logs)) {
+            throw new Error("Not Found");
+          }
+          return { data: logs[job_id] };
+        },
+      ),
+    },
+  } as any;
+}
+
+describe("isClaudeFixRun", () => {
+  test("recognizes Claude's git identity and pushes", () => {
+    expect(isClaudeFixRun(workflowRun(), identity)).toBe(true);
+    expect(
+      isClaudeFixRun(
+        workflowRun({
+          head_commit: {
+            author: { name: "renamed", email: claudeCommit.author.email },
+          },
+          actor: { login: "dev" },
+        }),
+        identity,
+      ),
+    ).toBe(true);
+    expect(
+      isClaudeFixRun(
+        workflowRun({ head_commit: humanCommit, actor: { login: "dev" } }),
+        identity,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("countFixAttempts", () => {
+  const params = { owner: "test-owner", repo: "test-repo", identity };
+
+  test("counts Claude's failed fixes in a row", async () => {
+    const run = workflowRun();
+    const octokit = createMockOctokit({
+      runs: [
+        workflowRun({ id: 600, created_at: "2024-05-01T13:00:00Z" }),
+        run,
+        workflowRun({ id: 400, head_sha: "sha-400" }),
+        // A re-run of the same commit
+        workflowRun({ id: 399, head_sha: "sha-400" }),
+        workflowRun({
+          id: 300,
+          head_sha: "sha-300",
+          head_commit: humanCommit,
+          actor: { login: "dev" },
+        }),
+        workflowRun({ id: 200, head_sha: "sha-200" }),
+      ],
+    });
+
+    expect(await countFixAttempts(octokit, { ...params, run })).toBe(2);
+    expect(octokit.actions.listWorkflowRuns).toHaveBeenCalledWith(
+      expect.objectContaining({ workflow_id: 7, branch: "feature" }),
+    );
+  });
+
+  test("stops at a run that passed", async () => {
+    const run = workflowRun();
+    const octokit = createMockOctokit({
+      runs: [
+        workflowRun({ id: 400, head_sha: "sha-400", conclusion: "success" }),
+        workflowRun({ id: 300, head_sha: "sha-300" }),
+      ],
+    });
+
+    expect(await countFixAttempts(octokit, { ...params, run })).toBe(1);
+  });
+
+  test("is zero when someone else pushed the failing commit", async () => {
+    const run = workflowRun({
+      head_commit: humanCommit,
+      actor: { login: "dev" },
+    });
+    const octokit = createMockOctokit({
+      runs: [workflowRun({ id: 400, head_sha: "sha-400" })],
+    });
+
+    expect(await countFixAttempts(octokit, { ...params, run })).toBe(0);
+  });
+});
+
+describe("fetchFailedJobs", () => {
+  let logsDir: string;
+
+  beforeEach(async () => {
+    logsDir = await mkdtemp(join(tmpdir(), "claude-ci-logs-"));
+  });
+
+  afterEach(async () => {
+    await rm(logsDir, { recursive: true, force: true });
+  });
+
+  test("downloads and excerpts the logs of failed jobs", async () => {
+    const log = "setup\nerror: cannot find module 'left-pad'\ncleanup\n";
+    const octokit = createMockOctokit({
+      jobs: [
+        {
+          id: 1,
+          name: "lint",
+          conclusion: "success",
+          html_url: "https://example.com/1",
+          steps: [],
+        },
+        {
+          id: 2,
+          name: "test",
+          conclusion: "failure",
+          html_url: "https://example.com/2",
+          steps: [
+            { name: "Install", conclusion: "success" },
+            { name: "Run tests", conclusion: "failure" },
+          ],
+        },
+        {
+          id: 3,
+          name: "e2e",
+          conclusion: "timed_out",
+          html_url: "https://example.com/3",
+          steps: [],
+        },
+      ],
+      logs: { 2: log },
+    });
+
+    const result = await fetchFailedJobs(octokit, {
+      owner: "test-owner",
+      repo: "test-repo",
+      runId: 500,
+      logsDir,
+    });
+
+    expect(result.omittedJobs).toBe(0);
+    expect(result.jobs).toEqual([
+      {
+        id: 2,
+        name: "test",
+        htmlUrl: "https://example.com/2",
+        failedSteps: ["Run tests"],
+        logPath: `${logsDir}/job-2.log`,
+        excerpt:
+          "--- lines 1-3 ---\nsetup\nerror: cannot find module 'left-pad'\ncleanup",
+      },
+      // Its log could not be downloaded
+      {
+        id: 3,
+        name: "e2e",
+        htmlUrl: "https://example.com/3",
+        failedSteps: [],
+      },
+    ]);
+    expect(await readFile(`${logsDir}/job-2.log`, "utf-8")).toBe(log);
+  });
+});
+
+describe("fetchCiFailure", () => {
+  const originalRunnerTemp = process.env.RUNNER_TEMP;
+  let runnerTemp: string;
+
+  beforeEach(async () => {
+    runnerTemp = await mkdtemp(join(tmpdir(), "claude-ci-failure-"));
+    process.env.RUNNER_TEMP = runnerTemp;
+  });
+
+  afterEach(async () => {
+    await rm(runnerTemp, { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    process.env.RUNNER_TEMP = originalRunnerTemp;
+  });
+
+  const createContext = (maxCiFixAttempts: string, run = workflowRun()) =>
+    createMockContext({
+      eventName: "workflow_run",
+      payload: { action: "completed", workflow_run: run } as any,
+      entityNumber: 42,
+      isPR: true,
+      inputs: { maxCiFixAttempts } as any,
+    }) as any;
+  const openPullRequest = { state: "OPEN", headRefOid: "sha-500" };
+
+  test("allows a fix below the limit", async () => {
+    const octokit = createMockOctokit({
+      runs: [workflowRun({ id: 400, head_sha: "sha-400" })],
+    });
+
+    const ciFailure = await fetchCiFailure(
+      octokit,
+      createContext("3"),
+      openPullRequest,
+    );
+
+    expect(ciFailure).toMatchObject({
+      runId: 500,
+      workflowName: "CI",
+      headSha: "sha-500",
+      headBranch: "feature",
+      fixAttempts: 2,
+      jobs: [],
+    });
+    expect(ciFailure.diagnoseOnlyReason).toBeUndefined();
+  });
+
+  test("only diagnoses once the limit is reached", async () => {
+    const octokit = createMockOctokit({
+      runs: [workflowRun({ id: 400, head_sha: "sha-400" })],
+    });
+
+    const ciFailure = await fetchCiFailure(
+      octokit,
+      createContext("2"),
+      openPullRequest,
+    );
+
+    expect(ciFailure.diagnoseOnlyReason).toContain(
+      "2 of your fixes in a row have failed",
+    );
+  });
+
+  test("only diagnoses when fixes are disabled", async () => {
+    const octokit = createMockOctokit({});
+
+    const ciFailure = await fetchCiFailure(
+      octokit,
+      createContext("0"),
+      openPullRequest,
+    );
+
+    expect(ciFailure.diagnoseOnlyReason).toContain("max_ci_fix_attempts: 0");
+    expect(octokit.actions.listWorkflowRuns).not.toHaveBeenCalled();
+  });
+
+  test("only diagnoses when the PR is closed or has moved on", async () => {
+    const octokit = createMockOctokit({});
+
+    expect(
+      (
+        await fetchCiFailure(octokit, createContext("3"), {
+          state: "MERGED",
+          headRefOid: "sha-500",
+        })
+      ).diagnoseOnlyReason,
+    ).toContain("The pull request is merged");
+    expect(
+      (
+        await fetchCiFailure(octokit, createContext("3"), {
+          state: "OPEN",
+          headRefOid: "sha-501",
+        })
+      ).diagnoseOnlyReason,
+    ).toContain("new commits since the failed run");
+  });
+
+  test("rejects an invalid max_ci_fix_attempts", async () => {
+    await expect(
+      fetchCiFailure(
+        createMockOctokit({}),
+        createContext("many"),
+        openPullRequest,
+      ),
+    ).rejects.toThrow(
+      'max_ci_fix_attempts must be a non-negative number, got "many"',
+    );
+  });
+});
+
+describe("parseGitHubContext for workflow_run events", () => {
+  const originalContext = {
+    eventName: github.context.eventName,
+    payload: github.context.payload,
+  };
+  let originalEnv: typeof process.env;
+
+  const repository = {
+    id: 1,
+    name: "test-repo",
+    owner: { login: "test-owner" },
+  };
+  const pullRequest = (number: number, headSha: string, baseRepoId = 1) => ({
+    number,
+    head: { ref: "feature", sha: headSha, repo: { id: 1 } },
+    base: { ref: "main", sha: "base", repo: { id: baseRepoId } },
+  });
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    process.env.GITHUB_REPOSITORY = "test-owner/test-repo";
+    process.env.GITHUB_RUN_ID = "1234567890";
+    process.env.CI_TRIAGE = "true";
+    github.context.eventName = "workflow_run";
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    Object.assign(github.context, originalContext);
+  });
+
+  test("maps a failed run on a PR to an entity context", () => {
+    github.context.payload = {
+      action: "completed",
+      workflow_run: workflowRun({
+        pull_requests: [
+          pullRequest(41, "older-sha"),
+          pullRequest(42, "sha-500"),
+        ],
+      }),
+      repository,
+    } as any;
+
+    const context = parseGitHubContext();
+
+    expect(isEntityContext(context)).toBe(true);
+    if (isEntityContext(context)) {
+      expect(context.entityNumber).toBe(42);
+      expect(context.isPR).toBe(true);
+    }
+  });
+
+  test("keeps runs that passed as automation contexts", () => {
+    github.context.payload = {
+      action: "completed",
+      workflow_run: workflowRun({
+        conclusion: "success",
+        pull_requests: [pullRequest(42, "sha-500")],
+      }),
+      repository,
+    } as any;
+
+    expect(isAutomationContext(parseGitHubContext())).toBe(true);
+  });
+
+  test("keeps failed runs as automation contexts without ci_triage", () => {
+    delete process.env.CI_TRIAGE;
+    github.context.payload = {
+      action: "completed",
+      workflow_run: workflowRun({
+        pull_requests: [pullRequest(42, "sha-500")],
+      }),
+      repository,
+    } as any;
+
+    expect(isAutomationContext(parseGitHubContext())).toBe(true);
+  });
+
+  test("ignores pull requests into other repositories", () => {
+    github.context.payload = {
+      action: "completed",
+      workflow_run: workflowRun({
+        pull_requests: [pullRequest(42, "sha-500", 2)],
+      }),
+      repository,
+    } as any;
+
+    expect(isAutomationContext(parseGitHubContext())).toBe(true);
+  });
+});
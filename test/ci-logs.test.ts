@@ -0,0 +1,224 @@
+import { describe, test, expect } from "bun:test";
+import {
+  cleanLogLine,
+  extractErrorExcerpt,
+  isErrorLine,
+  parseLogSteps,
+  searchLog,
+  splitLogLines,
+  tailLog,
+} from "../src/github/data/ci-logs";
+
+// Builds a log with GitHub's timestamps from numbered filler lines, with the
+// given lines replacing the filler at their 1-based line numbers
+function buildLog(length: number, lines: Record<number, string> = {}) {
+  return Array.from(
+    { length },
+    (_, index) =>
+      `2024-05-01T12:00:00.1234567Z ${lines[index + 1] ?? `step output ${index + 1}`}`,
+  ).join("\n");
+}
+
+describe("cleanLogLine", () => {
+  test("strips timestamps and ANSI color codes", () => {
+    expect(
+      cleanLogLine(
+        "2024-05-01T12:00:00.1234567Z \x1b[31mFAIL\x1b[0m src/app.test.ts",
+      ),
+    ).toBe("FAIL src/app.test.ts");
+    expect(cleanLogLine("no timestamp")).toBe("no timestamp");
+  });
+});
+
+describe("isErrorLine", () => {
+  test("matches common failure output", () => {
+    expect(isErrorLine("##[error]Process completed with exit code 1.")).toBe(
+      true,
+    );
+    expect(isErrorLine("src/app.ts(3,7): error TS2322: Type mismatch")).toBe(
+      true,
+    );
+    expect(isErrorLine("FAILED tests/test_app.py::test_login")).toBe(true);
+    expect(isErrorLine("Traceback (most recent call last):")).toBe(true);
+    expect(isErrorLine("npm ERR! code ELIFECYCLE")).toBe(true);
+    expect(isErrorLine("  ✕ renders the header (12 ms)")).toBe(true);
+  });
+
+  test("ignores ordinary output", () => {
+    expect(isErrorLine("Tests: 12 passed, 12 total")).toBe(false);
+    expect(isErrorLine("Found 0 errors in 12 files")).toBe(false);
+    expect(isErrorLine("Run npm test")).toBe(false);
+  });
+});
+
+describe("extractErrorExcerpt", () => {
+  test("keeps the lines around each error with their line numbers", () => {
+    const log = buildLog(100, {
+      30: "src/app.ts(3,7): error TS2322: Type mismatch",
+      90: "##[error]Process completed with exit code 2.",
+    });
+
+    const excerpt = extractErrorExcerpt(log, {
+      contextBefore: 2,
+      contextAfter: 1,
+    });
+
+    expect(excerpt).toBe(
+      [
+        "--- lines 28-31 ---",
+        "step output 28",
+        "step output 29",
+        "src/app.ts(3,7): error TS2322: Type mismatch",
+        "step output 31",
+        "--- lines 88-91 ---",
+        "step output 88",
+        "step output 89",
+        "##[error]Process completed with exit code 2.",
+        "step output 91",
+      ].join("\n"),
+    );
+  });
+
+  test("merges errors whose context overlaps", () => {
+    const log = buildLog(20, {
+      5: "error: first",
+      8: "error: second",
+    });
+
+    expect(
+      extractErrorExcerpt(log, { contextBefore: 2, contextAfter: 1 }),
+    ).toStartWith("--- lines 3-9 ---\n");
+  });
+
+  test("keeps the first and the last errors within maxLines", () => {
+    const log = buildLog(200, {
+      10: "error: the cause",
+      100: "error: a consequence",
+      190: "##[error]Process completed with exit code 1.",
+    });
+
+    const excerpt = extractErrorExcerpt(log, {
+      contextBefore: 1,
+      contextAfter: 1,
+      maxLines: 6,
+    });
+
+    expect(excerpt).toContain("error: the cause");
+    expect(excerpt).toContain("exit code 1");
+    expect(excerpt).not.toContain("a consequence");
+  });
+
+  test("falls back to the end of a log without errors", () => {
+    const excerpt = extractErrorExcerpt(buildLog(50), { maxLines: 3 });
+
+    expect(excerpt).toBe(
+      "--- lines 48-50 ---\nstep output 48\nstep output 49\nstep output 50",
+    );
+  });
+
+  test("truncates very long lines", () => {
+    const excerpt = extractErrorExcerpt(`error: ${"x".repeat(600)}`);
+
+    expect(excerpt).toContain("… [107 characters truncated]");
+  });
+
+  test("returns an empty string for an empty log", () => {
+    expect(extractErrorExcerpt("")).toBe("");
+  });
+});
+
+describe("splitLogLines", () => {
+  test("drops the byte order mark and the trailing newline", () => {
+    expect(
+      splitLogLines("\uFEFF2024-05-01T12:00:00.1234567Z first\r\nsecond\n"),
+    ).toEqual(["first", "second"]);
+    expect(splitLogLines("")).toEqual([]);
+  });
+});
+
+describe("parseLogSteps", () => {
+  test("splits the log at each step and collects its errors", () => {
+    const log = buildLog(12, {
+      1: "Current runner version: '2.317.0'",
+      3: "##[group]Run actions/checkout@v4",
+      4: "##[endgroup]",
+      6: "##[group]Run npm test",
+      9: "\x1b[31m##[error]\x1b[0mProcess completed with exit code 1.",
+      10: "Post job cleanup.",
+    });
+
+    expect(parseLogSteps(log)).toEqual([
+      { title: "Set up job", startLine: 1, endLine: 2, errors: [] },
+      {
+        title: "Run actions/checkout@v4",
+        startLine: 3,
+        endLine: 5,
+        errors: [],
+      },
+      {
+        title: "Run npm test",
+        startLine: 6,
+        endLine: 9,
+        errors: ["Process completed with exit code 1."],
+      },
+      { title: "Post job cleanup", startLine: 10, endLine: 12, errors: [] },
+    ]);
+  });
+
+  test("returns no steps for an empty log", () => {
+    expect(parseLogSteps("")).toEqual([]);
+  });
+});
+
+describe("searchLog", () => {
+  test("returns the matches with their context", () => {
+    const log = buildLog(30, {
+      5: "warning: deprecated API",
+      20: "WARNING: slow test",
+    });
+
+    const result = searchLog(log, /warning/i, { contextLines: 1 });
+
+    expect(result).toEqual({
+      totalMatches: 2,
+      shownMatches: 2,
+      excerpt: [
+        "--- lines 4-6 ---",
+        "step output 4",
+        "warning: deprecated API",
+        "step output 6",
+        "--- lines 19-21 ---",
+        "step output 19",
+        "WARNING: slow test",
+        "step output 21",
+      ].join("\n"),
+    });
+  });
+
+  test("shows only the first maxMatches matches", () => {
+    const result = searchLog(buildLog(10), /step output/, {
+      contextLines: 0,
+      maxMatches: 2,
+    });
+
+    expect(result.totalMatches).toBe(10);
+    expect(result.shownMatches).toBe(2);
+    expect(result.excerpt).toBe(
+      "--- lines 1-2 ---\nstep output 1\nstep output 2",
+    );
+  });
+
+  test("matches against the cleaned lines", () => {
+    expect(searchLog(buildLog(3), /^step output 2$/).totalMatches).toBe(1);
+  });
+});
+
+describe("tailLog", () => {
+  test("returns the last lines with their line numbers", () => {
+    expect(tailLog(buildLog(10), 2)).toBe(
+      "--- lines 9-10 ---\nstep output 9\nstep output 10",
+    );
+    expect(tailLog(buildLog(2), 5)).toStartWith("--- lines 1-2 ---");
+    expect(tailLog("", 5)).toBe("");
+  });
+});
@@ -443,4 +443,108 @@ describe("updateCommentBody", () => {
       expect(result).not.toContain("tree/claude/issue-123");
     });
   });
+
+  describe("last run marker", () => {
+    it("replaces the previous marker with one for the new head", () => {
+      const result = updateCommentBody({
+        ...baseInput,
+        currentBody:
+          "Review done\n\n<!-- claude-last-run: 1111111111111111111111111111111111111111 -->",
+        lastRunSha: "2222222222222222222222222222222222222222",
+      });
+
+      expect(result).not.toContain("1111111");
+      expect(result).toEndWith(
+        "Review done\n\n<!-- claude-last-run: 2222222222222222222222222222222222222222 -->",
+      );
+    });
+
+    it("does not record a failed run", () => {
+      const result = updateCommentBody({
+        ...baseInput,
+        actionFailed: true,
+        lastRunSha: "2222222222222222222222222222222222222222",
+      });
+
+      expect(result).not.toContain("claude-last-run");
+    });
+  });
+
+  describe("session marker", () => {
+    it("replaces the previous session with the new one", () => {
+      const result = updateCommentBody({
+        ...baseInput,
+        currentBody: "Done\n\n<!-- claude-session: old-session run:1 -->",
+        session: { sessionId: "new-session", runId: "2" },
+      });
+
+      expect(result).not.toContain("old-session");
+      expect(result).toEndWith(
+        "Done\n\n<!-- claude-session: new-session run:2 -->",
+      );
+    });
+  });
+
+  describe("workflow changes", () => {
+    it("flags changed workflow files for review", () => {
+      const result = updateCommentBody({
+        ...baseInput,
+        currentBody: "Updated the CI workflow",
+        workflowChanges: [".github/workflows/ci.yml"],
+      });
+
+      expect(result).toContain(
+        "> [!WARNING]\n> **This run changed GitHub Actions workflows.** Review these changes carefully before merging:\n> - `.github/workflows/ci.yml`\n\n---\n",
+      );
+    });
+  });
+
+  describe("live progress", () => {
+    it("removes the progress section", () => {
+      const result = updateCommentBody({
+        ...baseInput,
+        currentBody:
+          "Done\n\n<!-- claude-progress-start -->\n### Live progress\n\n- [x] Fix the bug\n<!-- claude-progress-end -->",
+      });
+
+      expect(result).not.toContain("Live progress");
+      expect(result).toEndWith("Done");
+    });
+  });
+
+  describe("budget exceeded", () => {
+    it("shows the stop and the spend instead of an error", () => {
+      const result = updateCommentBody({
+        ...baseInput,
+        actionFailed: true,
+        executionDetails: { total_cost_usd: 1.0312, duration_ms: 125000 },
+        budgetExceeded: {
+          reason: "cost",
+          maxCostUsd: 1,
+          committedWorkInProgress: true,
+        },
+      });
+
+      expect(result).toStartWith(
+        "**Claude stopped: budget exceeded after 2m 5s**",
+      );
+      expect(result).toContain(
+        "Stopped at the $1.00 cost limit after spending $1.03. Uncommitted work in progress was committed and pushed.",
+      );
+      expect(result).not.toContain("encountered an error");
+    });
+
+    it("names the time limit", () => {
+      const result = updateCommentBody({
+        ...baseInput,
+        actionFailed: true,
+        executionDetails: { total_cost_usd: 0.5 },
+        budgetExceeded: { reason: "duration", maxDurationMinutes: 30 },
+      });
+
+      expect(result).toContain(
+        "Stopped at the 30-minute time limit after spending $0.50.",
+      );
+    });
+  });
 });
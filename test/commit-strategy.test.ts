@@ -0,0 +1,180 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import * as github from "@actions/github";
+import { parseGitHubContext } from "../src/github/context";
+import {
+  getCommitTools,
+  resolveCommitStrategy,
+} from "../src/github/operations/commit-strategy";
+import {
+  parseGpgSecretKeyFingerprint,
+  setupCommitSigning,
+} from "../src/github/operations/git-config";
+
+describe("resolveCommitStrategy", () => {
+  const legacy = {
+    useCommitSigning: false,
+    sshSigningKey: "",
+    gpgSigningKey: "",
+  };
+
+  test("uses the commit_strategy input", () => {
+    for (const strategy of ["api", "git", "git-gpg-signed"]) {
+      expect(
+        resolveCommitStrategy({
+          ...legacy,
+          commitStrategy: strategy,
+          useCommitSigning: true,
+        }),
+      ).toBe(strategy as any);
+    }
+    expect(
+      resolveCommitStrategy({
+        ...legacy,
+        commitStrategy: " git-ssh-signed ",
+        sshSigningKey: "key",
+      }),
+    ).toBe("git-ssh-signed");
+  });
+
+  test("derives the strategy from the older inputs when it is not set", () => {
+    expect(resolveCommitStrategy({ ...legacy, commitStrategy: "" })).toBe(
+      "git",
+    );
+    expect(
+      resolveCommitStrategy({
+        ...legacy,
+        commitStrategy: undefined,
+        useCommitSigning: true,
+      }),
+    ).toBe("api");
+    expect(
+      resolveCommitStrategy({
+        commitStrategy: "",
+        useCommitSigning: true,
+        sshSigningKey: "key",
+        gpgSigningKey: "",
+      }),
+    ).toBe("git-ssh-signed");
+    expect(
+      resolveCommitStrategy({
+        ...legacy,
+        commitStrategy: "",
+        useCommitSigning: true,
+        gpgSigningKey: "key",
+      }),
+    ).toBe("git-gpg-signed");
+  });
+
+  test("requires a strategy when both signing keys are set", () => {
+    const inputs = { ...legacy, sshSigningKey: "ssh", gpgSigningKey: "gpg" };
+
+    expect(() =>
+      resolveCommitStrategy({ ...inputs, commitStrategy: "" }),
+    ).toThrow(
+      "Both ssh_signing_key and gpg_signing_key are set, choose one with commit_strategy",
+    );
+    expect(
+      resolveCommitStrategy({ ...inputs, commitStrategy: "git-gpg-signed" }),
+    ).toBe("git-gpg-signed");
+  });
+
+  test("rejects unknown strategies", () => {
+    expect(() =>
+      resolveCommitStrategy({ ...legacy, commitStrategy: "signed" }),
+    ).toThrow(
+      'commit_strategy must be one of api, git, git-ssh-signed, git-gpg-signed, got "signed"',
+    );
+  });
+
+  test("keeps git-ssh-signed without the key", () => {
+    expect(
+      resolveCommitStrategy({ ...legacy, commitStrategy: "git-ssh-signed" }),
+    ).toBe("git-ssh-signed");
+  });
+});
+
+describe("setupCommitSigning", () => {
+  test("requires an SSH key for git-ssh-signed", async () => {
+    await expect(
+      setupCommitSigning("git-ssh-signed", {
+        sshSigningKey: " ",
+        gpgSigningKey: "",
+        gpgSigningKeyPassphrase: "",
+      }),
+    ).rejects.toThrow(
+      "commit_strategy git-ssh-signed requires ssh_signing_key",
+    );
+  });
+});
+
+describe("parseGitHubContext in post steps", () => {
+  const originalContext = {
+    eventName: github.context.eventName,
+    payload: github.context.payload,
+  };
+  let originalEnv: typeof process.env;
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    process.env.GITHUB_REPOSITORY = "test-owner/test-repo";
+    process.env.GITHUB_RUN_ID = "1234567890";
+    delete process.env.SSH_SIGNING_KEY;
+    delete process.env.GPG_SIGNING_KEY;
+    github.context.eventName = "issue_comment";
+    github.context.payload = {
+      action: "created",
+      issue: { number: 42, pull_request: {} },
+      comment: { id: 1, body: "@claude fix this" },
+      repository: { name: "test-repo", owner: { login: "test-owner" } },
+    } as any;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    Object.assign(github.context, originalContext);
+  });
+
+  test("accepts the strategy prepare resolved without the signing keys", () => {
+    process.env.COMMIT_STRATEGY = "git-ssh-signed";
+
+    expect(parseGitHubContext().inputs.commitStrategy).toBe("git-ssh-signed");
+  });
+});
+
+describe("getCommitTools", () => {
+  test("uses the file ops tools for API commits", () => {
+    expect(getCommitTools("api")).toEqual([
+      "mcp__github_file_ops__commit_files",
+      "mcp__github_file_ops__delete_files",
+    ]);
+  });
+
+  test("uses git commands for every git strategy", () => {
+    const gitTools = getCommitTools("git");
+    expect(gitTools).toContain("Bash(git commit:*)");
+    expect(gitTools).toContain("Bash(git push:*)");
+    expect(getCommitTools("git-ssh-signed")).toEqual(gitTools);
+    expect(getCommitTools("git-gpg-signed")).toEqual(gitTools);
+  });
+});
+
+describe("parseGpgSecretKeyFingerprint", () => {
+  test("returns the primary key fingerprint", () => {
+    const listing = [
+      "sec:u:255:22:AAAAAAAAAAAAAAAA:1700000000:::u:::scESC:::+:::23::0:",
+      "fpr:::::::::1111111111111111111111111111111111111111:",
+      "grp:::::::::2222222222222222222222222222222222222222:",
+      "uid:u::::1700000000::3333333333333333333333333333333333333333::Claude <claude@example.com>::::::::::0:",
+      "ssb:u:255:18:BBBBBBBBBBBBBBBB:1700000000::::::e:::+:::23:",
+      "fpr:::::::::4444444444444444444444444444444444444444:",
+    ].join("\n");
+
+    expect(parseGpgSecretKeyFingerprint(listing)).toBe(
+      "1111111111111111111111111111111111111111",
+    );
+  });
+
+  test("returns undefined for an empty keyring", () => {
+    expect(parseGpgSecretKeyFingerprint("")).toBeUndefined();
+  });
+});
@@ -0,0 +1,332 @@
+import { describe, test, expect } from "bun:test";
+import {
+  applyContextBudget,
+  estimateTokens,
+  parseMaxContextTokens,
+} from "../src/github/data/context-budget";
+import {
+  formatChangedFilesWithSHA,
+  formatComments,
+  formatReviewComments,
+} from "../src/github/data/formatter";
+import { generatePrompt } from "../src/create-prompt";
+import type { PreparedContext } from "../src/create-prompt";
+import type { FetchDataResult } from "../src/github/data/fetcher";
+import type { GitHubReview } from "../src/github/types";
+import { agentMode } from "../src/modes/agent";
+import { mockPullRequestCommentContext } from "./mockContext";
+
+function comment(id: number, body: string, createdAt: string) {
+  return {
+    id: `comment-${id}`,
+    databaseId: String(id),
+    body,
+    author: { login: `user${id}` },
+    createdAt,
+  };
+}
+
+function review(
+  id: number,
+  submittedAt: string,
+  paths: string[] = [],
+): GitHubReview {
+  return {
+    id: `review-${id}`,
+    databaseId: String(id),
+    author: { login: "reviewer" },
+    body: `Review ${id}`,
+    state: "COMMENTED",
+    submittedAt,
+    comments: {
+      nodes: paths.map((path, index) => ({
+        id: `review-comment-${id}-${index}`,
+        databaseId: `${id}${index}`,
+        body: `Please fix ${path}`,
+        path,
+        line: 1,
+        author: { login: "reviewer" },
+        createdAt: submittedAt,
+      })),
+    },
+  };
+}
+
+function file(path: string) {
+  return {
+    path,
+    additions: 1,
+    deletions: 1,
+    changeType: "MODIFIED",
+    sha: "abc123",
+  };
+}
+
+function createData(overrides: Partial<FetchDataResult> = {}) {
+  return {
+    contextData: {
+      title: "Large PR",
+      body: "Short description",
+      author: { login: "author" },
+      state: "OPEN",
+      createdAt: "2024-01-01T00:00:00Z",
+      commits: { totalCount: 0, nodes: [] },
+      files: { nodes: [] },
+    },
+    comments: [],
+    changedFiles: [],
+    changedFilesWithSHA: [],
+    reviewData: { nodes: [] },
+    imageUrlMap: new Map<string, string>(),
+    ...overrides,
+  } as unknown as FetchDataResult;
+}
+
+describe("parseMaxContextTokens", () => {
+  test("returns undefined when unset", () => {
+    expect(parseMaxContextTokens(undefined)).toBeUndefined();
+    expect(parseMaxContextTokens(" ")).toBeUndefined();
+  });
+
+  test("parses positive integers", () => {
+    expect(parseMaxContextTokens("30000")).toBe(30000);
+  });
+
+  test("rejects invalid values", () => {
+    expect(() => parseMaxContextTokens("30k")).toThrow(
+      "max_context_tokens must be a positive integer",
+    );
+    expect(() => parseMaxContextTokens("0")).toThrow();
+  });
+});
+
+describe("estimateTokens", () => {
+  test("estimates about four characters per token", () => {
+    expect(estimateTokens("")).toBe(0);
+    expect(estimateTokens("abcd")).toBe(1);
+    expect(estimateTokens("abcde")).toBe(2);
+  });
+});
+
+describe("applyContextBudget", () => {
+  test("keeps everything when it fits", () => {
+    const data = createData({
+      comments: [comment(1, "hello", "2024-01-01T01:00:00Z")],
+      changedFilesWithSHA: [file("a.ts")],
+    });
+
+    const result = applyContextBudget(data, { maxTokens: 10000 });
+
+    expect(result.comments).toHaveLength(1);
+    expect(result.changedFilesWithSHA).toHaveLength(1);
+    expect(result.omitted).toEqual({
+      comments: 0,
+      reviews: 0,
+      reviewComments: 0,
+      reviewThreads: 0,
+      files: 0,
+      diffFiles: 0,
+      bodyCharacters: 0,
+    });
+  });
+
+  test("keeps the trigger and newest comments, in their original order", () => {
+    const long = "x".repeat(200);
+    const data = createData({
+      comments: [
+        comment(1, `trigger ${long}`, "2024-01-01T01:00:00Z"),
+        comment(2, `old ${long}`, "2024-01-01T02:00:00Z"),
+        comment(3, `new ${long}`, "2024-01-01T03:00:00Z"),
+      ],
+    });
+
+    const result = applyContextBudget(data, {
+      maxTokens: 150,
+      triggerIds: ["1"],
+    });
+
+    expect(result.comments.map((c) => c.databaseId)).toEqual(["1", "3"]);
+    expect(result.omitted?.comments).toBe(1);
+  });
+
+  test("keeps the trigger even when it exceeds the budget", () => {
+    const data = createData({
+      comments: [comment(1, "x".repeat(1000), "2024-01-01T01:00:00Z")],
+    });
+
+    const result = applyContextBudget(data, {
+      maxTokens: 10,
+      triggerIds: ["1"],
+    });
+
+    expect(result.comments).toHaveLength(1);
+  });
+
+  test("prefers the latest reviews and files touched by review threads", () => {
+    const data = createData({
+      reviewData: {
+        nodes: [
+          review(1, "2024-01-01T01:00:00Z", ["old.ts"]),
+          review(2, "2024-01-01T02:00:00Z", ["threaded.ts"]),
+        ],
+      },
+      changedFilesWithSHA: [
+        file("untouched-1.ts"),
+        file("untouched-2.ts"),
+        file("threaded.ts"),
+      ],
+      changedFiles: [
+        file("untouched-1.ts"),
+        file("untouched-2.ts"),
+        file("threaded.ts"),
+      ],
+    });
+
+    const result = applyContextBudget(data, {
+      maxTokens: 50,
+      latestReviewCount: 1,
+    });
+
+    expect(result.reviewData?.nodes.map((r) => r.databaseId)).toEqual(["2"]);
+    expect(result.reviewData?.nodes[0]?.comments.nodes).toHaveLength(1);
+    expect(result.changedFilesWithSHA.map((f) => f.path)).toContain(
+      "threaded.ts",
+    );
+    expect(result.changedFiles).toHaveLength(result.changedFilesWithSHA.length);
+    expect(result.omitted?.reviews).toBe(1);
+    expect(result.omitted?.reviewComments).toBe(1);
+    expect(result.omitted?.files).toBeGreaterThan(0);
+  });
+
+  test("keeps unresolved threads ahead of resolved ones", () => {
+    const thread = (id: string, isResolved: boolean, path: string) => ({
+      id,
+      isResolved,
+      isOutdated: false,
+      path,
+      line: 1,
+      originalLine: 1,
+      comments: {
+        nodes: [
+          {
+            id: `${id}-comment`,
+            databaseId: id,
+            body: "w".repeat(120),
+            path,
+            line: 1,
+            originalLine: 1,
+            author: { login: "reviewer" },
+            createdAt: "2024-01-01T01:00:00Z",
+          },
+        ],
+      },
+    });
+    const data = createData({
+      reviewThreads: [
+        thread("resolved", true, "done.ts"),
+        thread("open", false, "todo.ts"),
+      ],
+      changedFilesWithSHA: [file("done.ts"), file("todo.ts")],
+    });
+
+    const result = applyContextBudget(data, { maxTokens: 75 });
+
+    expect(result.reviewThreads?.map((t) => t.id)).toEqual(["open"]);
+    expect(result.changedFilesWithSHA.map((f) => f.path)).toEqual(["todo.ts"]);
+    expect(result.omitted?.reviewThreads).toBe(1);
+  });
+
+  test("drops file diffs before changed files", () => {
+    const diff = (path: string) => ({
+      path,
+      status: "modified",
+      additions: 1,
+      deletions: 0,
+      patch: `@@ -1 +1,2 @@\n ${"d".repeat(200)}\n+added`,
+      omittedLines: 0,
+    });
+    const data = createData({
+      changedFilesWithSHA: [file("a.ts"), file("b.ts")],
+      diff: [diff("a.ts"), diff("b.ts")],
+    });
+
+    const result = applyContextBudget(data, { maxTokens: 100 });
+
+    expect(result.changedFilesWithSHA).toHaveLength(2);
+    expect(result.diff?.map((f) => f.path)).toEqual(["a.ts"]);
+    expect(result.omitted?.diffFiles).toBe(1);
+  });
+
+  test("truncates a body larger than a quarter of the budget", () => {
+    const data = createData({
+      contextData: {
+        ...createData().contextData,
+        body: "y".repeat(1000),
+      },
+    });
+
+    const result = applyContextBudget(data, { maxTokens: 100 });
+
+    expect(result.contextData.body).toStartWith("y".repeat(100));
+    expect(result.contextData.body).toContain(
+      "900 characters of the description omitted",
+    );
+    expect(result.omitted?.bodyCharacters).toBe(900);
+    expect(data.contextData.body).toHaveLength(1000);
+  });
+});
+
+describe("omitted markers", () => {
+  test("formatters append markers for omitted items", () => {
+    expect(formatComments([], undefined, 3)).toBe(
+      "[3 comments omitted to fit the context budget]",
+    );
+    expect(formatChangedFilesWithSHA([file("a.ts")], 2)).toBe(
+      "- a.ts (MODIFIED) +1/-1 SHA: abc123\n\n[2 changed files omitted to fit the context budget]",
+    );
+    expect(
+      formatReviewComments({ nodes: [] }, undefined, {
+        reviews: 1,
+        reviewComments: 4,
+      }),
+    ).toBe(
+      "[1 review omitted to fit the context budget]\n[4 inline review comments omitted to fit the context budget]",
+    );
+  });
+
+  test("generatePrompt applies max_context_tokens", () => {
+    const context: PreparedContext = {
+      repository: "owner/repo",
+      claudeCommentId: "",
+      triggerPhrase: "@claude",
+      eventData: {
+        eventName: "issue_comment",
+        commentId: "1",
+        isPR: true,
+        prNumber: "42",
+        commentBody: "@claude review",
+      },
+      githubContext: {
+        ...mockPullRequestCommentContext,
+        inputs: {
+          ...mockPullRequestCommentContext.inputs,
+          maxContextTokens: "60",
+        },
+      },
+      promptTemplate: "$PR_COMMENTS",
+    };
+    const data = createData({
+      comments: [
+        comment(1, "@claude review", "2024-01-01T01:00:00Z"),
+        ...[2, 3, 4, 5].map((id) =>
+          comment(id, "z".repeat(100), `2024-01-01T0${id}:00:00Z`),
+        ),
+      ],
+    });
+
+    const prompt = generatePrompt(context, data, false, agentMode);
+
+    expect(prompt).toContain("@claude review");
+    expect(prompt).toContain("comments omitted to fit the context budget");
+  });
+});
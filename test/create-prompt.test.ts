@@ -199,6 +199,53 @@ describe("generatePrompt", () => {
     expect(prompt).not.toContain("filename\tstatus\tadditions\tdeletions\tsha"); // since it's not a PR
   });
 
+  test("should include failures from test reports", async () => {
+    const envVars: PreparedContext = {
+      repository: "owner/repo",
+      claudeCommentId: "12345",
+      triggerPhrase: "@claude",
+      eventData: {
+        eventName: "issue_comment",
+        commentId: "67890",
+        isPR: false,
+        baseBranch: "main",
+        claudeBranch: "claude/issue-67890-20240101-1200",
+        issueNumber: "67890",
+        commentBody: "@claude please fix this",
+      },
+      testReports: {
+        reports: [
+          { path: "junit.xml", format: "junit", tests: 3, failures: 1 },
+        ],
+        failures: [
+          {
+            format: "junit",
+            report: "junit.xml",
+            file: "src/auth.test.ts",
+            line: 42,
+            test: "auth > rejects an expired token",
+            severity: "error",
+            message: "expected 401, got 200<!-- hidden -->",
+          },
+        ],
+        omittedFailures: 0,
+        errors: [],
+      },
+    };
+
+    const prompt = await generatePrompt(
+      envVars,
+      mockGitHubData,
+      false,
+      mockTagMode,
+    );
+
+    expect(prompt).toContain("<test_reports>");
+    expect(prompt).toContain(
+      '<failure format="junit" severity="error" location="src/auth.test.ts:42">\nauth > rejects an expired token: expected 401, got 200\n</failure>',
+    );
+  });
+
   test("should generate prompt for pull_request_review event", async () => {
     const envVars: PreparedContext = {
       repository: "owner/repo",
@@ -1045,7 +1092,7 @@ describe("buildAllowedToolsString", () => {
   });
 
   test("should return correct tools with default parameters", async () => {
-    const result = buildAllowedToolsString([], false, false);
+    const result = buildAllowedToolsString([], false, "git");
 
     // The base tools should be in the result
     expect(result).toContain("Edit");
@@ -1097,6 +1144,11 @@ describe("buildAllowedToolsString", () => {
     expect(result).toContain("mcp__github_ci__get_ci_status");
     expect(result).toContain("mcp__github_ci__get_workflow_run_details");
     expect(result).toContain("mcp__github_ci__download_job_log");
+    expect(result).toContain("mcp__github_ci__get_failed_steps");
+    expect(result).toContain("mcp__github_ci__search_job_log");
+    expect(result).toContain("mcp__github_ci__tail_job_log");
+    expect(result).toContain("mcp__github_ci__list_run_artifacts");
+    expect(result).toContain("mcp__github_ci__download_artifact");
   });
 
   test("should include both custom and Actions tools when both provided", async () => {
@@ -1116,8 +1168,8 @@ describe("buildAllowedToolsString", () => {
     expect(result).toContain("mcp__github_ci__download_job_log");
   });
 
-  test("should include commit signing tools when useCommitSigning is true", async () => {
-    const result = buildAllowedToolsString([], false, true);
+  test("should include file ops tools for the api commit strategy", async () => {
+    const result = buildAllowedToolsString([], false, "api");
 
     // Base tools should be present
     expect(result).toContain("Edit");
@@ -1137,8 +1189,8 @@ describe("buildAllowedToolsString", () => {
     expect(result).not.toContain("Bash(");
   });
 
-  test("should include specific Bash git commands when useCommitSigning is false", async () => {
-    const result = buildAllowedToolsString([], false, false);
+  test("should include specific Bash git commands for the git commit strategy", async () => {
+    const result = buildAllowedToolsString([], false, "git");
 
     // Base tools should be present
     expect(result).toContain("Edit");
@@ -1165,9 +1217,19 @@ describe("buildAllowedToolsString", () => {
     expect(result).not.toContain("mcp__github_file_ops__delete_files");
   });
 
+  test("should include Bash git commands for the signed git commit strategies", async () => {
+    for (const strategy of ["git-ssh-signed", "git-gpg-signed"] as const) {
+      const result = buildAllowedToolsString([], false, strategy);
+
+      expect(result).toContain("Bash(git commit:*)");
+      expect(result).toContain("Bash(git push:*)");
+      expect(result).not.toContain("mcp__github_file_ops__commit_files");
+    }
+  });
+
   test("should handle all combinations of options", async () => {
     const customTools = ["CustomTool1", "CustomTool2"];
-    const result = buildAllowedToolsString(customTools, true, false);
+    const result = buildAllowedToolsString(customTools, true, "git");
 
     // Base tools should be present
     expect(result).toContain("Edit");
@@ -5,7 +5,9 @@ import {
   fetchGitHubData,
   filterCommentsToTriggerTime,
   filterReviewsToTriggerTime,
+  filterReviewThreads,
   isBodySafeToUse,
+  fetchDiscussionData,
 } from "../src/github/data/fetcher";
 import {
   createMockContext,
@@ -16,6 +18,12 @@ import {
   mockPullRequestOpenedContext,
   mockIssueOpenedContext,
 } from "./mockContext";
+import { paginateConnection } from "../src/github/data/pagination";
+import {
+  ISSUE_PAGE_QUERIES,
+  PR_PAGE_QUERIES,
+  REVIEW_COMMENTS_PAGE_QUERY,
+} from "../src/github/api/queries/github";
 import type { GitHubComment, GitHubReview } from "../src/github/types";
 
 describe("extractTriggerTimestamp", () => {
@@ -1198,3 +1206,399 @@ describe("filterCommentsByActor", () => {
     expect(filtered).toHaveLength(0);
   });
 });
+
+describe("paginateConnection", () => {
+  const pages: Record<string, { nodes: number[]; next: string | null }> = {
+    a: { nodes: [3, 4], next: "b" },
+    b: { nodes: [5], next: null },
+  };
+  const fetchPage = jest.fn(async (cursor: string) => ({
+    nodes: pages[cursor]!.nodes,
+    pageInfo: {
+      hasNextPage: pages[cursor]!.next !== null,
+      endCursor: pages[cursor]!.next,
+    },
+  }));
+  const initial = {
+    totalCount: 5,
+    pageInfo: { hasNextPage: true, endCursor: "a" },
+    nodes: [1, 2],
+  };
+
+  it("follows cursors until the last page", async () => {
+    fetchPage.mockClear();
+    const result = await paginateConnection(initial, fetchPage);
+
+    expect(result.nodes).toEqual([1, 2, 3, 4, 5]);
+    expect(result.truncated).toBeUndefined();
+    expect(fetchPage.mock.calls.map(([cursor]) => cursor)).toEqual(["a", "b"]);
+  });
+
+  it("stops at maxPages and reports truncation", async () => {
+    fetchPage.mockClear();
+    const result = await paginateConnection(initial, fetchPage, 2);
+
+    expect(result.nodes).toEqual([1, 2, 3, 4]);
+    expect(result.truncated).toEqual({ fetched: 4, totalCount: 5 });
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns a single page without pageInfo unchanged", async () => {
+    fetchPage.mockClear();
+    const result = await paginateConnection({ nodes: [1] }, fetchPage);
+
+    expect(result.nodes).toEqual([1]);
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+});
+
+describe("fetchGitHubData pagination", () => {
+  function page<T>(nodes: T[], totalCount: number, endCursor: string | null) {
+    return {
+      totalCount,
+      pageInfo: { hasNextPage: endCursor !== null, endCursor },
+      nodes,
+    };
+  }
+
+  function files(start: number, count: number) {
+    return Array.from({ length: count }, (_, i) => ({
+      path: `src/file-${start + i}.ts`,
+      additions: 1,
+      deletions: 0,
+      // Deleted files skip the git hash-object call
+      changeType: "DELETED",
+    }));
+  }
+
+  function comments(prefix: string, start: number, count: number) {
+    return Array.from({ length: count }, (_, i) => ({
+      id: `${prefix}-${start + i}`,
+      databaseId: `${start + i}`,
+      body: `${prefix} ${start + i}`,
+      path: "src/file-0.ts",
+      line: 1,
+      author: { login: "reviewer" },
+      createdAt: "2024-01-15T11:00:00Z",
+    }));
+  }
+
+  const basePullRequest = {
+    title: "Large PR",
+    body: "",
+    author: { login: "author" },
+    baseRefName: "main",
+    headRefName: "feature",
+    headRefOid: "abc",
+    createdAt: "2024-01-15T10:00:00Z",
+    additions: 250,
+    deletions: 0,
+    state: "OPEN",
+    labels: page([{ name: "monorepo" }], 1, null),
+    commits: page([], 0, null),
+  };
+
+  it("loads every page of files, comments, reviews and review comments", async () => {
+    const graphql = jest.fn(async (query: string, variables: any) => {
+      if (query === PR_PAGE_QUERIES.files) {
+        return {
+          repository: {
+            pullRequest: {
+              files:
+                variables.cursor === "files-1"
+                  ? page(files(100, 100), 250, "files-2")
+                  : page(files(200, 50), 250, null),
+            },
+          },
+        };
+      }
+      if (query === PR_PAGE_QUERIES.comments) {
+        return {
+          repository: {
+            pullRequest: {
+              comments: page(comments("comment", 100, 20), 120, null),
+            },
+          },
+        };
+      }
+      if (query === PR_PAGE_QUERIES.reviews) {
+        return {
+          repository: {
+            pullRequest: {
+              reviews: page(
+                [
+                  {
+                    id: "review-2",
+                    databaseId: "2",
+                    author: { login: "reviewer" },
+                    body: "",
+                    state: "COMMENTED",
+                    submittedAt: "2024-01-15T11:00:00Z",
+                    comments: page(comments("late", 0, 1), 1, null),
+                  },
+                ],
+                2,
+                null,
+              ),
+            },
+          },
+        };
+      }
+      if (query === REVIEW_COMMENTS_PAGE_QUERY) {
+        expect(variables.id).toBe("review-1");
+        return {
+          node: { comments: page(comments("inline", 100, 5), 105, null) },
+        };
+      }
+      return {
+        repository: {
+          pullRequest: {
+            ...basePullRequest,
+            files: page(files(0, 100), 250, "files-1"),
+            comments: page(comments("comment", 0, 100), 120, "comments-1"),
+            reviews: page(
+              [
+                {
+                  id: "review-1",
+                  databaseId: "1",
+                  author: { login: "reviewer" },
+                  body: "",
+                  state: "COMMENTED",
+                  submittedAt: "2024-01-15T11:00:00Z",
+                  comments: page(comments("inline", 0, 100), 105, "inline-1"),
+                },
+              ],
+              2,
+              "reviews-1",
+            ),
+          },
+        },
+      };
+    });
+
+    const result = await fetchGitHubData({
+      octokits: { graphql, rest: {} } as any,
+      repository: "test-owner/test-repo",
+      prNumber: "1",
+      isPR: true,
+    });
+
+    expect(result.changedFiles).toHaveLength(250);
+    expect(result.changedFiles[249]?.path).toBe("src/file-249.ts");
+    expect(result.changedFilesWithSHA).toHaveLength(250);
+    expect(result.comments).toHaveLength(120);
+    expect(result.reviewData?.nodes).toHaveLength(2);
+    expect(result.reviewData?.nodes[0]?.comments.nodes).toHaveLength(105);
+    expect(result.reviewData?.nodes[1]?.comments.nodes).toHaveLength(1);
+    expect(result.truncation).toEqual({});
+  });
+
+  it("records truncation when a connection exceeds the page limit", async () => {
+    const graphql = jest.fn(async (query: string, variables: any) => {
+      if (query === PR_PAGE_QUERIES.files) {
+        const index = Number(variables.cursor);
+        return {
+          repository: {
+            pullRequest: {
+              files: page(files(index, 1), 5000, String(index + 1)),
+            },
+          },
+        };
+      }
+      return {
+        repository: {
+          pullRequest: {
+            ...basePullRequest,
+            files: page(files(0, 1), 5000, "1"),
+            comments: page([], 0, null),
+            reviews: page([], 0, null),
+          },
+        },
+      };
+    });
+
+    const result = await fetchGitHubData({
+      octokits: { graphql, rest: {} } as any,
+      repository: "test-owner/test-repo",
+      prNumber: "1",
+      isPR: true,
+    });
+
+    expect(result.changedFiles).toHaveLength(30);
+    expect(result.truncation).toEqual({
+      files: { fetched: 30, totalCount: 5000 },
+    });
+  });
+
+  it("pages through issue comments", async () => {
+    const graphql = jest.fn(async (query: string) => {
+      if (query === ISSUE_PAGE_QUERIES.comments) {
+        return {
+          repository: {
+            issue: { comments: page(comments("comment", 100, 50), 150, null) },
+          },
+        };
+      }
+      return {
+        repository: {
+          issue: {
+            title: "Issue",
+            body: "",
+            author: { login: "author" },
+            createdAt: "2024-01-15T10:00:00Z",
+            state: "OPEN",
+            labels: page([], 0, null),
+            comments: page(comments("comment", 0, 100), 150, "comments-1"),
+          },
+        },
+      };
+    });
+
+    const result = await fetchGitHubData({
+      octokits: { graphql, rest: {} } as any,
+      repository: "test-owner/test-repo",
+      prNumber: "2",
+      isPR: false,
+    });
+
+    expect(result.comments).toHaveLength(150);
+    expect(result.comments[149]?.body).toBe("comment 149");
+  });
+});
+
+describe("filterReviewThreads", () => {
+  const thread = {
+    id: "PRRT_1",
+    isResolved: false,
+    isOutdated: false,
+    path: "src/a.ts",
+    line: 3,
+    originalLine: 3,
+    comments: {
+      nodes: [
+        {
+          id: "c1",
+          databaseId: "1",
+          body: "Before trigger",
+          path: "src/a.ts",
+          line: 3,
+          originalLine: 3,
+          author: { login: "reviewer" },
+          createdAt: "2024-01-15T11:00:00Z",
+        },
+        {
+          id: "c2",
+          databaseId: "2",
+          body: "After trigger",
+          path: "src/a.ts",
+          line: 3,
+          originalLine: 3,
+          author: { login: "bot[bot]" },
+          createdAt: "2024-01-15T13:00:00Z",
+        },
+      ],
+    },
+  };
+
+  it("filters thread comments by trigger time and actor", () => {
+    const result = filterReviewThreads([thread], "2024-01-15T12:00:00Z");
+    expect(result[0]?.comments.nodes.map((c) => c.id)).toEqual(["c1"]);
+  });
+
+  it("drops threads with no remaining comments", () => {
+    expect(
+      filterReviewThreads([thread], undefined, "", "reviewer,bot[bot]"),
+    ).toEqual([]);
+  });
+});
+
+describe("fetchDiscussionData", () => {
+  const comment = (id: string, createdAt: string, replies: unknown[] = []) => ({
+    id,
+    databaseId: id,
+    body: `Comment ${id}`,
+    author: { login: "user" },
+    createdAt,
+    isAnswer: false,
+    replies: { nodes: replies },
+  });
+
+  const mockOctokits = (discussion: Record<string, unknown>) => ({
+    graphql: jest.fn().mockResolvedValue({
+      repository: {
+        discussion: {
+          id: "D_1",
+          number: 7,
+          title: "Question",
+          body: "How do retries work?",
+          url: "https://github.com/test-owner/test-repo/discussions/7",
+          author: { login: "asker" },
+          createdAt: "2024-01-15T10:00:00Z",
+          category: { name: "Q&A", isAnswerable: true },
+          answer: null,
+          ...discussion,
+        },
+      },
+    }),
+    rest: jest.fn() as any,
+  });
+
+  it("should filter comments and replies to the trigger time", async () => {
+    const octokits = mockOctokits({
+      comments: {
+        nodes: [
+          comment("DC_1", "2024-01-15T11:00:00Z", [
+            comment("DC_2", "2024-01-15T11:30:00Z"),
+            comment("DC_3", "2024-01-15T13:00:00Z"),
+          ]),
+          comment("DC_4", "2024-01-15T13:00:00Z"),
+        ],
+      },
+    });
+
+    const result = await fetchDiscussionData({
+      octokits: octokits as any,
+      repository: "test-owner/test-repo",
+      discussionNumber: 7,
+      triggerTime: "2024-01-15T12:00:00Z",
+    });
+
+    expect(result.comments.map((c) => c.id)).toEqual(["DC_1"]);
+    expect(result.comments[0]?.replies.nodes.map((r) => r.id)).toEqual([
+      "DC_2",
+    ]);
+    expect(result.discussion.body).toBe("How do retries work?");
+    expect(octokits.graphql).toHaveBeenCalledTimes(1);
+  });
+
+  it("should drop a body edited after the trigger", async () => {
+    const result = await fetchDiscussionData({
+      octokits: mockOctokits({
+        lastEditedAt: "2024-01-15T12:30:00Z",
+        comments: { nodes: [] },
+      }) as any,
+      repository: "test-owner/test-repo",
+      discussionNumber: 7,
+      triggerTime: "2024-01-15T12:00:00Z",
+    });
+
+    expect(result.discussion.body).toBe("");
+  });
+
+  it("should throw when the discussion does not exist", async () => {
+    const octokits = {
+      graphql: jest
+        .fn()
+        .mockResolvedValue({ repository: { discussion: null } }),
+      rest: jest.fn() as any,
+    };
+
+    await expect(
+      fetchDiscussionData({
+        octokits: octokits as any,
+        repository: "test-owner/test-repo",
+        discussionNumber: 7,
+      }),
+    ).rejects.toThrow("Failed to fetch discussion data");
+  });
+});
@@ -6,8 +6,16 @@ import {
   formatReviewComments,
   formatChangedFiles,
   formatChangedFilesWithSHA,
+  formatTruncationNotice,
+  formatReviewThreads,
+  getReviewThreadState,
+  formatDiscussionContext,
+  formatDiscussionComments,
 } from "../src/github/data/formatter";
 import type {
+  GitHubDiscussion,
+  GitHubDiscussionComment,
+  GitHubReviewThread,
   GitHubPullRequest,
   GitHubIssue,
   GitHubComment,
@@ -794,3 +802,238 @@ describe("formatChangedFilesWithSHA", () => {
     expect(result).toBe("");
   });
 });
+
+describe("formatTruncationNotice", () => {
+  test("returns empty string when nothing was truncated", () => {
+    expect(formatTruncationNotice(undefined)).toBe("");
+    expect(formatTruncationNotice({})).toBe("");
+  });
+
+  test("lists each capped connection", () => {
+    const notice = formatTruncationNotice({
+      files: { fetched: 3000, totalCount: 3412 },
+      reviewComments: { fetched: 3000, totalCount: 3050 },
+    });
+
+    expect(notice).toContain(
+      "- Only 3000 of 3412 changed files are included above.",
+    );
+    expect(notice).toContain(
+      "- Only 3000 of 3050 inline review comments are included above.",
+    );
+  });
+});
+
+describe("review threads", () => {
+  function thread(
+    id: string,
+    state: { isResolved?: boolean; isOutdated?: boolean },
+    bodies: string[],
+  ): GitHubReviewThread {
+    return {
+      id,
+      isResolved: state.isResolved ?? false,
+      isOutdated: state.isOutdated ?? false,
+      path: "src/api.ts",
+      line: state.isOutdated ? null : 12,
+      originalLine: 10,
+      comments: {
+        nodes: bodies.map((body, index) => ({
+          id: `${id}-${index}`,
+          databaseId: `${index}`,
+          body,
+          path: "src/api.ts",
+          line: 12,
+          originalLine: 10,
+          diffHunk:
+            "@@ -1,8 +1,12 @@\n line1\n line2\n line3\n line4\n line5\n+line6\n+line7",
+          author: { login: index === 0 ? "reviewer" : "author" },
+          createdAt: `2024-01-01T0${index}:00:00Z`,
+        })),
+      },
+    };
+  }
+
+  test("resolved wins over outdated", () => {
+    expect(getReviewThreadState(thread("t", { isResolved: true }, []))).toBe(
+      "resolved",
+    );
+    expect(
+      getReviewThreadState(
+        thread("t", { isResolved: true, isOutdated: true }, []),
+      ),
+    ).toBe("resolved");
+    expect(getReviewThreadState(thread("t", { isOutdated: true }, []))).toBe(
+      "outdated",
+    );
+    expect(getReviewThreadState(thread("t", {}, []))).toBe("unresolved");
+  });
+
+  test("groups threads by state with hunks and replies for open threads", () => {
+    const formatted = formatReviewThreads([
+      thread("PRRT_resolved", { isResolved: true }, [
+        "Rename this",
+        "Done",
+        "Thanks",
+      ]),
+      thread("PRRT_open", {}, ["Handle the null case", "On it"]),
+      thread("PRRT_outdated", { isOutdated: true }, ["Typo here"]),
+    ]);
+
+    expect(formatted).toBe(`Unresolved review threads (still need attention):
+
+[Thread PRRT_open on src/api.ts:12]
+\`\`\`diff
+ line2
+ line3
+ line4
+ line5
++line6
++line7
+\`\`\`
+  [reviewer at 2024-01-01T00:00:00Z]: Handle the null case
+  [author at 2024-01-01T01:00:00Z]: On it
+
+Outdated review threads (the code has changed since; check whether they still apply):
+
+[Thread PRRT_outdated on src/api.ts:10 (original)]
+\`\`\`diff
+ line2
+ line3
+ line4
+ line5
++line6
++line7
+\`\`\`
+  [reviewer at 2024-01-01T00:00:00Z]: Typo here
+
+Resolved review threads (already addressed; do not act on them unless asked):
+
+[Thread PRRT_resolved on src/api.ts:12]
+  [reviewer at 2024-01-01T00:00:00Z]: Rename this
+  (2 more replies)`);
+  });
+
+  test("formatReviewComments shows review bodies and threads instead of per-review comments", () => {
+    const reviewData = {
+      nodes: [
+        {
+          id: "review1",
+          databaseId: "400001",
+          author: { login: "reviewer" },
+          body: "Mostly good",
+          state: "CHANGES_REQUESTED",
+          submittedAt: "2023-01-01T00:00:00Z",
+          comments: {
+            nodes: [
+              {
+                id: "c1",
+                databaseId: "1",
+                body: "Handle the null case",
+                author: { login: "reviewer" },
+                createdAt: "2023-01-01T00:00:00Z",
+                path: "src/api.ts",
+                line: 12,
+              },
+            ],
+          },
+        },
+        {
+          id: "review2",
+          databaseId: "400002",
+          author: { login: "author" },
+          body: "",
+          state: "COMMENTED",
+          submittedAt: "2023-01-02T00:00:00Z",
+          comments: { nodes: [] },
+        },
+      ],
+    };
+
+    const formatted = formatReviewComments(reviewData, undefined, undefined, [
+      thread("PRRT_open", {}, ["Handle the null case"]),
+    ]);
+
+    expect(formatted).toStartWith(
+      "[Review by reviewer at 2023-01-01T00:00:00Z]: CHANGES_REQUESTED\nMostly good\n\nUnresolved review threads",
+    );
+    expect(formatted).not.toContain("[Comment on src/api.ts:12]");
+    expect(formatted).not.toContain("Review by author");
+  });
+});
+
+describe("discussions", () => {
+  const discussionComment = (
+    id: string,
+    body: string,
+    overrides: Partial<GitHubDiscussionComment> = {},
+  ): GitHubDiscussionComment => ({
+    id,
+    databaseId: id,
+    body,
+    author: { login: "user1" },
+    createdAt: "2023-01-01T00:00:00Z",
+    isAnswer: false,
+    replies: { nodes: [] },
+    ...overrides,
+  });
+
+  test("formatDiscussionContext shows the category and answer state", () => {
+    const discussion = {
+      title: "How do retries work?",
+      author: { login: "asker" },
+      category: { name: "Q&A", isAnswerable: true },
+      answer: null,
+    } as unknown as GitHubDiscussion;
+
+    expect(formatDiscussionContext(discussion)).toBe(
+      `Discussion Title: How do retries work?
+Discussion Author: asker
+Discussion Category: Q&A (answers can be marked)
+Answered: no`,
+    );
+    expect(
+      formatDiscussionContext({
+        ...discussion,
+        category: { name: "General", isAnswerable: false },
+        answer: { id: "DC_1" },
+      }),
+    ).toContain("Discussion Category: General\nAnswered: yes");
+  });
+
+  test("formatDiscussionComments indents replies under their comment", () => {
+    const comments = [
+      discussionComment("DC_1", "First question", {
+        isAnswer: true,
+        replies: {
+          nodes: [
+            {
+              id: "DC_2",
+              databaseId: "2",
+              body: "A reply",
+              author: { login: "user2" },
+              createdAt: "2023-01-02T00:00:00Z",
+            },
+            {
+              id: "DC_3",
+              databaseId: "3",
+              body: "Hidden reply",
+              author: { login: "user3" },
+              createdAt: "2023-01-03T00:00:00Z",
+              isMinimized: true,
+            },
+          ],
+        },
+      }),
+      discussionComment("DC_4", "Spam", { isMinimized: true }),
+      discussionComment("DC_5", "Second question"),
+    ];
+
+    expect(formatDiscussionComments(comments)).toBe(
+      `[Marked as answer] [user1 at 2023-01-01T00:00:00Z] (id: DC_1): First question
+  [user2 at 2023-01-02T00:00:00Z] (id: DC_2): A reply
+
+[user1 at 2023-01-01T00:00:00Z] (id: DC_5): Second question`,
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, test, expect, jest } from "bun:test";
+import {
+  createDiscussionReply,
+  getDiscussionReplyTarget,
+  markDiscussionAnswer,
+} from "../src/github/operations/discussions";
+import {
+  ADD_DISCUSSION_COMMENT_MUTATION,
+  DISCUSSION_COMMENT_QUERY,
+  MARK_DISCUSSION_COMMENT_AS_ANSWER_MUTATION,
+} from "../src/github/api/queries/github";
+import { createMockDiscussionContext } from "./mockContext";
+
+function mockGraphql(comment: unknown) {
+  return jest.fn(async (query: string) => {
+    if (query === DISCUSSION_COMMENT_QUERY) {
+      return { node: comment };
+    }
+    if (query === ADD_DISCUSSION_COMMENT_MUTATION) {
+      return {
+        addDiscussionComment: {
+          comment: { id: "DC_new", databaseId: 99, url: "https://x" },
+        },
+      };
+    }
+    return {};
+  });
+}
+
+function comment(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "DC_kwDOA2",
+    url: "https://github.com/test-owner/test-repo/discussions/7#discussioncomment-2",
+    body: "/claude how do retries work?",
+    viewerCanMarkAsAnswer: true,
+    replyTo: null,
+    discussion: {
+      id: "D_kwDOA1",
+      number: 7,
+      category: { isAnswerable: true },
+      repository: { nameWithOwner: "Test-Owner/test-repo" },
+    },
+    ...overrides,
+  };
+}
+
+const params = {
+  commentId: "DC_kwDOA2",
+  owner: "test-owner",
+  repo: "test-repo",
+  discussionNumber: 7,
+};
+
+describe("getDiscussionReplyTarget", () => {
+  test("answers a new discussion with a top-level comment", async () => {
+    const graphql = mockGraphql(comment());
+
+    const target = await getDiscussionReplyTarget(
+      graphql as any,
+      createMockDiscussionContext(),
+    );
+
+    expect(target).toEqual({ discussionId: "D_kwDOA1" });
+    expect(graphql).not.toHaveBeenCalled();
+  });
+
+  test("replies in the thread of a top-level comment", async () => {
+    const graphql = mockGraphql(comment());
+
+    const target = await getDiscussionReplyTarget(
+      graphql as any,
+      createMockDiscussionContext({ commentBody: "/claude help" }),
+    );
+
+    expect(target).toEqual({
+      discussionId: "D_kwDOA1",
+      replyToId: "DC_kwDOA2",
+    });
+  });
+
+  test("replies to a reply under its parent comment", async () => {
+    const graphql = mockGraphql(comment({ replyTo: { id: "DC_parent" } }));
+
+    const target = await getDiscussionReplyTarget(
+      graphql as any,
+      createMockDiscussionContext({
+        commentBody: "/claude help",
+        replyToId: "DC_parent",
+      }),
+    );
+
+    expect(target.replyToId).toBe("DC_parent");
+  });
+});
+
+describe("createDiscussionReply", () => {
+  test("posts a top-level comment without replyToId", async () => {
+    const graphql = mockGraphql(null);
+
+    const reply = await createDiscussionReply(
+      graphql as any,
+      { discussionId: "D_kwDOA1" },
+      "Working…",
+    );
+
+    expect(reply.id).toBe("DC_new");
+    expect(graphql).toHaveBeenCalledWith(ADD_DISCUSSION_COMMENT_MUTATION, {
+      discussionId: "D_kwDOA1",
+      body: "Working…",
+      replyToId: null,
+    });
+  });
+});
+
+describe("markDiscussionAnswer", () => {
+  test("marks a comment in an answerable category", async () => {
+    const graphql = mockGraphql(comment());
+
+    await markDiscussionAnswer(graphql as any, params);
+
+    expect(graphql).toHaveBeenCalledWith(
+      MARK_DISCUSSION_COMMENT_AS_ANSWER_MUTATION,
+      { id: "DC_kwDOA2" },
+    );
+  });
+
+  test("rejects categories that do not accept answers", async () => {
+    const graphql = mockGraphql(
+      comment({
+        discussion: {
+          ...comment().discussion,
+          category: { isAnswerable: false },
+        },
+      }),
+    );
+
+    await expect(markDiscussionAnswer(graphql as any, params)).rejects.toThrow(
+      "Discussion #7 is in a category that does not accept answers",
+    );
+    expect(graphql).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects comments the token cannot mark", async () => {
+    const graphql = mockGraphql(comment({ viewerCanMarkAsAnswer: false }));
+
+    await expect(markDiscussionAnswer(graphql as any, params)).rejects.toThrow(
+      "cannot be marked as the answer with this token",
+    );
+  });
+
+  test("rejects comments from another discussion", async () => {
+    const graphql = mockGraphql(
+      comment({
+        discussion: { ...comment().discussion, number: 8 },
+      }),
+    );
+
+    await expect(markDiscussionAnswer(graphql as any, params)).rejects.toThrow(
+      "Discussion comment DC_kwDOA2 belongs to Test-Owner/test-repo#8, not test-owner/test-repo#7",
+    );
+  });
+
+  test("rejects missing comments", async () => {
+    const graphql = mockGraphql(null);
+
+    await expect(markDiscussionAnswer(graphql as any, params)).rejects.toThrow(
+      "Discussion comment DC_kwDOA2 not found",
+    );
+  });
+});
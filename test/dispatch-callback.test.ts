@@ -0,0 +1,118 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import type { Server } from "bun";
+import {
+  getDispatchCallbackStatus,
+  sendDispatchCallback,
+  type DispatchCallbackPayload,
+} from "../src/entrypoints/dispatch-callback";
+
+describe("getDispatchCallbackStatus", () => {
+  test("reports how the run ended", () => {
+    expect(
+      getDispatchCallbackStatus({
+        prepareSuccess: true,
+        containsTrigger: true,
+        claudeSuccess: true,
+      }),
+    ).toBe("success");
+    expect(
+      getDispatchCallbackStatus({
+        prepareSuccess: true,
+        containsTrigger: true,
+        claudeSuccess: false,
+      }),
+    ).toBe("failure");
+    expect(
+      getDispatchCallbackStatus({
+        prepareSuccess: true,
+        containsTrigger: false,
+        claudeSuccess: false,
+      }),
+    ).toBe("skipped");
+    expect(
+      getDispatchCallbackStatus({
+        prepareSuccess: false,
+        containsTrigger: false,
+        claudeSuccess: false,
+      }),
+    ).toBe("failure");
+  });
+});
+
+describe("sendDispatchCallback", () => {
+  let server: Server;
+  let received: { path: string; headers: Headers; body: any }[];
+  // Status codes the stub answers with, in order, then 204
+  let responses: number[];
+
+  const payload: DispatchCallbackPayload = {
+    status: "success",
+    repository: "test-owner/test-repo",
+    event_name: "repository_dispatch",
+    run_id: "1234567890",
+    run_url: "https://github.com/test-owner/test-repo/actions/runs/1234567890",
+    issue_number: 42,
+    branch: "claude/issue-42-20240101-1200",
+  };
+
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        received.push({
+          path: new URL(request.url).pathname + new URL(request.url).search,
+          headers: request.headers,
+          body: await request.json(),
+        });
+        return new Response(null, { status: responses.shift() ?? 204 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  const reset = () => {
+    received = [];
+    responses = [];
+  };
+
+  test("POSTs the payload as JSON", async () => {
+    reset();
+
+    await sendDispatchCallback(
+      `http://localhost:${server.port}/hooks/claude?id=7`,
+      payload,
+    );
+
+    expect(received).toHaveLength(1);
+    expect(received[0]!.path).toBe("/hooks/claude?id=7");
+    expect(received[0]!.headers.get("content-type")).toBe("application/json");
+    expect(received[0]!.body).toEqual(payload);
+  });
+
+  test("retries when the callback fails", async () => {
+    reset();
+    responses = [503];
+
+    await sendDispatchCallback(`http://localhost:${server.port}/`, payload, {
+      initialDelayMs: 1,
+    });
+
+    expect(received).toHaveLength(2);
+  });
+
+  test("throws when every attempt fails", async () => {
+    reset();
+    responses = [500, 500];
+
+    await expect(
+      sendDispatchCallback(`http://localhost:${server.port}/`, payload, {
+        maxAttempts: 2,
+        initialDelayMs: 1,
+      }),
+    ).rejects.toThrow("Callback returned 500 Internal Server Error");
+    expect(received).toHaveLength(2);
+  });
+});
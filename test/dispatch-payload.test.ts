@@ -0,0 +1,233 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import * as github from "@actions/github";
+import {
+  getDispatchAllowedTools,
+  isAutomationContext,
+  isEntityContext,
+  parseDispatchPayload,
+  parseGitHubContext,
+} from "../src/github/context";
+
+describe("parseDispatchPayload", () => {
+  test("parses a repository_dispatch client_payload", () => {
+    expect(
+      parseDispatchPayload({
+        issue_number: 42,
+        base_branch: "release/1.2",
+        prompt: "Investigate the outage",
+        allowed_tools: ["Bash(kubectl get:*)", "WebFetch"],
+        callback_url: "https://incidents.example.com/hooks/claude?id=7",
+        source: "pager",
+      }),
+    ).toEqual({
+      issueNumber: 42,
+      prNumber: undefined,
+      baseBranch: "release/1.2",
+      prompt: "Investigate the outage",
+      allowedTools: ["Bash(kubectl get:*)", "WebFetch"],
+      callbackUrl: "https://incidents.example.com/hooks/claude?id=7",
+    });
+  });
+
+  test("parses workflow_dispatch inputs, which are all strings", () => {
+    expect(
+      parseDispatchPayload({
+        issue_number: "",
+        pr_number: "17",
+        base_branch: "",
+        prompt: "  ",
+        allowed_tools: "WebFetch, Bash(make test)\nWebSearch,",
+        callback_url: "",
+      }),
+    ).toEqual({
+      issueNumber: undefined,
+      prNumber: 17,
+      baseBranch: undefined,
+      prompt: undefined,
+      allowedTools: ["WebFetch", "Bash(make test)", "WebSearch"],
+      callbackUrl: undefined,
+    });
+  });
+
+  test("accepts a missing payload", () => {
+    expect(parseDispatchPayload(undefined)).toEqual({
+      issueNumber: undefined,
+      prNumber: undefined,
+      baseBranch: undefined,
+      prompt: undefined,
+      allowedTools: [],
+      callbackUrl: undefined,
+    });
+  });
+
+  test("reports every invalid field", () => {
+    expect(() =>
+      parseDispatchPayload({
+        issue_number: "forty-two",
+        allowed_tools: ['Bash(echo "hi")'],
+        callback_url: "ftp://example.com/callback",
+      }),
+    ).toThrow(
+      "Invalid dispatch payload: issue_number: Expected number, received nan; allowed_tools.0: tool names must not contain quotes; callback_url: must be an http or https URL",
+    );
+  });
+
+  test("rejects a payload that targets both an issue and a PR", () => {
+    expect(() =>
+      parseDispatchPayload({ issue_number: 1, pr_number: 2 }),
+    ).toThrow(
+      "Invalid dispatch payload: set either issue_number or pr_number, not both",
+    );
+  });
+});
+
+describe("parseGitHubContext for dispatch events", () => {
+  const originalContext = {
+    eventName: github.context.eventName,
+    payload: github.context.payload,
+    actor: github.context.actor,
+  };
+  let originalEnv: typeof process.env;
+
+  const repository = { name: "test-repo", owner: { login: "test-owner" } };
+
+  beforeEach(() => {
+    originalEnv = { ...process.env };
+    process.env.GITHUB_REPOSITORY = "test-owner/test-repo";
+    process.env.GITHUB_RUN_ID = "1234567890";
+    process.env.DISPATCH_PAYLOAD = "true";
+    process.env.DISPATCH_ALLOWED_TOOLS = "Bash(bun test:*)";
+    delete process.env.PROMPT;
+    delete process.env.BASE_BRANCH;
+    github.context.actor = "incident-bot[bot]";
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    Object.assign(github.context, originalContext);
+  });
+
+  test("maps a payload with a target into an entity context", () => {
+    github.context.eventName = "repository_dispatch";
+    github.context.payload = {
+      action: "claude",
+      client_payload: {
+        pr_number: 17,
+        base_branch: "release/1.2",
+        prompt: "Fix the flaky test",
+        allowed_tools: ["Bash(bun test:*)", "Bash"],
+      },
+      repository,
+    } as any;
+
+    const context = parseGitHubContext();
+
+    expect(isEntityContext(context)).toBe(true);
+    expect(isAutomationContext(context)).toBe(false);
+    if (isEntityContext(context)) {
+      expect(context.eventName).toBe("repository_dispatch");
+      expect(context.entityNumber).toBe(17);
+      expect(context.isPR).toBe(true);
+    }
+    expect(context.inputs.prompt).toBe("Fix the flaky test");
+    expect(context.inputs.baseBranch).toBe("release/1.2");
+    expect(getDispatchAllowedTools(context)).toEqual(["Bash(bun test:*)"]);
+  });
+
+  test("keeps a payload without a target as an automation context", () => {
+    github.context.eventName = "workflow_dispatch";
+    github.context.payload = {
+      inputs: { prompt: "Summarize open incidents", issue_number: "" },
+      repository,
+    } as any;
+
+    const context = parseGitHubContext();
+
+    expect(isAutomationContext(context)).toBe(true);
+    expect(isEntityContext(context)).toBe(false);
+    expect(context.inputs.prompt).toBe("Summarize open incidents");
+  });
+
+  test("lets the workflow's inputs take precedence over the payload", () => {
+    process.env.PROMPT = "Workflow prompt";
+    process.env.BASE_BRANCH = "main";
+    github.context.eventName = "repository_dispatch";
+    github.context.payload = {
+      action: "claude",
+      client_payload: {
+        issue_number: 42,
+        base_branch: "release/1.2",
+        prompt: "Payload prompt",
+      },
+      repository,
+    } as any;
+
+    const context = parseGitHubContext();
+
+    expect(context.inputs.prompt).toBe("Workflow prompt");
+    expect(context.inputs.baseBranch).toBe("main");
+  });
+
+  test("drops payload tools that dispatch_allowed_tools does not list", () => {
+    delete process.env.DISPATCH_ALLOWED_TOOLS;
+    github.context.eventName = "repository_dispatch";
+    github.context.payload = {
+      action: "claude",
+      client_payload: { issue_number: 42, allowed_tools: ["Bash"] },
+      repository,
+    } as any;
+
+    expect(getDispatchAllowedTools(parseGitHubContext())).toEqual([]);
+  });
+
+  test("leaves workflow_dispatch inputs alone without dispatch_payload", () => {
+    delete process.env.DISPATCH_PAYLOAD;
+    github.context.eventName = "workflow_dispatch";
+    github.context.payload = {
+      // An existing input that means something else, and would not validate
+      inputs: { issue_number: "all", prompt: "Triage the backlog" },
+      repository,
+    } as any;
+
+    const context = parseGitHubContext();
+
+    expect(isAutomationContext(context)).toBe(true);
+    expect("dispatch" in context).toBe(false);
+    expect(context.inputs.prompt).toBe("");
+  });
+
+  test("throws on an invalid payload", () => {
+    github.context.eventName = "repository_dispatch";
+    github.context.payload = {
+      action: "claude",
+      client_payload: { pr_number: -1 },
+      repository,
+    } as any;
+
+    expect(() => parseGitHubContext()).toThrow(
+      "Invalid dispatch payload: pr_number:",
+    );
+  });
+});
+
+describe("action.yml dispatch wiring", () => {
+  // Steps whose entrypoints parse the context, and so the dispatch payload
+  const entrypoints = ["prepare", "update-comment-link", "dispatch-callback"];
+
+  test("passes dispatch_payload to every step that reads the payload", async () => {
+    const action = Bun.YAML.parse(
+      await Bun.file(`${import.meta.dir}/../action.yml`).text(),
+    ) as {
+      runs: { steps: { run?: string; env?: Record<string, string> }[] };
+    };
+
+    for (const entrypoint of entrypoints) {
+      const step = action.runs.steps.find((step) =>
+        step.run?.includes(`src/entrypoints/${entrypoint}.ts`),
+      );
+      expect(step?.env?.DISPATCH_PAYLOAD).toBe(
+        "${{ inputs.dispatch_payload }}",
+      );
+    }
+  });
+});
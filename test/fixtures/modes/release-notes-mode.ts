@@ -0,0 +1,46 @@
+import type { Mode } from "../../../src/modes/types";
+
+/**
+ * Minimal custom mode used to exercise loading modes from the repository.
+ */
+const releaseNotesMode: Mode = {
+  name: "release-notes",
+  description: "Drafts release notes on workflow_dispatch",
+
+  detect(context) {
+    return context.eventName === "workflow_dispatch";
+  },
+
+  shouldTrigger() {
+    return true;
+  },
+
+  prepareContext(context) {
+    return { mode: "release-notes", githubContext: context };
+  },
+
+  getAllowedTools() {
+    return [];
+  },
+
+  getDisallowedTools() {
+    return [];
+  },
+
+  shouldCreateTrackingComment() {
+    return false;
+  },
+
+  generatePrompt() {
+    return "Draft release notes for the latest changes.";
+  },
+
+  async prepare() {
+    return {
+      branchInfo: { baseBranch: "main", currentBranch: "main" },
+      mcpConfig: JSON.stringify({ mcpServers: {} }),
+    };
+  },
+};
+
+export default releaseNotesMode;
@@ -0,0 +1,110 @@
+#!/usr/bin/env bun
+
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { $ } from "bun";
+import { mkdir, mkdtemp, rm, stat, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  cleanupGpgSigning,
+  importGpgSigningKey,
+} from "../src/github/operations/git-config";
+
+describe("GPG Signing", () => {
+  let tempDir: string;
+  let protectedKey: string;
+  let unprotectedKey: string;
+
+  // Generates a throwaway ed25519 signing key and exports it armored
+  const generateKey = async (passphrase: string) => {
+    const home = await mkdtemp(join(tempDir, "keygen-"));
+    await $`gpg --homedir ${home} --batch --pinentry-mode loopback --passphrase ${passphrase} --quick-gen-key ${"Test Bot <1+test-bot@users.noreply.github.com>"} ed25519 sign never`.quiet();
+    const exported =
+      await $`gpg --homedir ${home} --batch --pinentry-mode loopback --passphrase ${passphrase} --armor --export-secret-keys`.quiet();
+    await $`gpgconf --homedir ${home} --kill gpg-agent`.quiet().nothrow();
+    return exported.stdout.toString();
+  };
+
+  beforeAll(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "claude-gpg-"));
+    protectedKey = await generateKey("correct horse");
+    unprotectedKey = await generateKey("");
+  });
+
+  afterAll(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("should import a protected key and sign commits with it", async () => {
+    const gnupgHome = join(tempDir, "gnupg-protected");
+    const { fingerprint, program } = await importGpgSigningKey(
+      protectedKey,
+      "correct horse",
+      gnupgHome,
+    );
+
+    expect(fingerprint).toMatch(/^[0-9A-F]{40}$/);
+    expect((await stat(gnupgHome)).mode & 0o777).toBe(0o700);
+    expect((await stat(join(gnupgHome, "passphrase"))).mode & 0o777).toBe(
+      0o600,
+    );
+
+    const repo = join(tempDir, "repo");
+    await mkdir(repo);
+    await $`git init -q`.cwd(repo).quiet();
+    await writeFile(join(repo, "file.txt"), "signed\n");
+    await $`git add file.txt`.cwd(repo).quiet();
+    await $`git -c user.name=test -c user.email=1+test-bot@users.noreply.github.com -c gpg.format=openpgp -c gpg.program=${program} -c user.signingkey=${fingerprint} commit -q -S -m signed`
+      .cwd(repo)
+      .quiet();
+
+    const signature = await $`git log -1 --format=%G?%n%GF`
+      .cwd(repo)
+      .env({ ...process.env, GNUPGHOME: gnupgHome })
+      .quiet();
+    // U: a good signature from a key the temporary keyring does not trust
+    const [status, signer] = signature.stdout.toString().trim().split("\n");
+    expect(["G", "U"]).toContain(status!);
+    expect(signer).toBe(fingerprint);
+
+    await cleanupGpgSigning(gnupgHome);
+    await expect(stat(gnupgHome)).rejects.toThrow();
+  });
+
+  test("should import a key without a passphrase", async () => {
+    const gnupgHome = join(tempDir, "gnupg-unprotected");
+    const { fingerprint } = await importGpgSigningKey(
+      unprotectedKey,
+      "",
+      gnupgHome,
+    );
+
+    expect(fingerprint).toMatch(/^[0-9A-F]{40}$/);
+    await cleanupGpgSigning(gnupgHome);
+  });
+
+  test("should reject a wrong passphrase", async () => {
+    const gnupgHome = join(tempDir, "gnupg-wrong-passphrase");
+
+    await expect(
+      importGpgSigningKey(protectedKey, "wrong", gnupgHome),
+    ).rejects.toThrow(
+      "GPG signing key cannot sign, check gpg_signing_key_passphrase",
+    );
+    await cleanupGpgSigning(gnupgHome);
+  });
+
+  test("should reject keys that are not armored private keys", async () => {
+    await expect(
+      importGpgSigningKey(
+        "-----BEGIN PGP PUBLIC KEY BLOCK-----",
+        "",
+        join(tempDir, "gnupg-invalid"),
+      ),
+    ).rejects.toThrow("Invalid GPG private key format");
+  });
+
+  test("should not throw when there is nothing to clean up", async () => {
+    await cleanupGpgSigning(join(tempDir, "missing"));
+  });
+});
@@ -33,6 +33,9 @@ describe("prepareMcpConfig", () => {
       useStickyComment: false,
       useCommitSigning: false,
       sshSigningKey: "",
+      gpgSigningKey: "",
+      gpgSigningKeyPassphrase: "",
+      commitStrategy: "git",
       botId: String(CLAUDE_APP_BOT_ID),
       botName: CLAUDE_BOT_LOGIN,
       allowedBots: "",
@@ -43,6 +46,23 @@ describe("prepareMcpConfig", () => {
       excludeCommentsByActor: "",
       linearApiKey: "",
       linearTeamId: "",
+      customModes: "",
+      reviewMode: false,
+      reviewEvent: "COMMENT",
+      allowReviewApproval: false,
+      promptTemplate: "",
+      promptPreview: false,
+      additionalRepositories: "",
+      maxContextTokens: "",
+      includeDiff: false,
+      incrementalContext: true,
+      resumeSession: false,
+      allowWorkflowChanges: "",
+      ciTriage: false,
+      maxCiFixAttempts: "3",
+      testReports: "",
+      dispatchPayload: false,
+      dispatchAllowedTools: "",
     },
   };
 
@@ -58,6 +78,7 @@ describe("prepareMcpConfig", () => {
     inputs: {
       ...mockContext.inputs,
       useCommitSigning: true,
+      commitStrategy: "api",
     },
   };
 
@@ -170,6 +191,111 @@ describe("prepareMcpConfig", () => {
     expect(parsed.mcpServers.github_inline_comment.env.PR_NUMBER).toBe("456");
   });
 
+  test("should include review server and skip comment server in review mode", async () => {
+    const result = await prepareMcpConfig({
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      allowedTools: ["mcp__github_review__submit_review"],
+      mode: "review",
+      context: {
+        ...mockPRContext,
+        inputs: {
+          ...mockPRContext.inputs,
+          reviewEvent: "REQUEST_CHANGES",
+        },
+      },
+    });
+
+    const parsed = JSON.parse(result);
+    expect(parsed.mcpServers.github_comment).not.toBeDefined();
+    expect(parsed.mcpServers.github_review).toBeDefined();
+    expect(parsed.mcpServers.github_review.env.PR_NUMBER).toBe("456");
+    expect(parsed.mcpServers.github_review.env.REVIEW_EVENT).toBe(
+      "REQUEST_CHANGES",
+    );
+    expect(parsed.mcpServers.github_review.env.ALLOW_REVIEW_APPROVAL).toBe(
+      "false",
+    );
+  });
+
+  test("should pass additional repositories to the comment and file ops servers", async () => {
+    const additionalRepositories = [
+      {
+        repository: "test-owner/shared-schema",
+        path: "/workspace/.claude-repos/test-owner/shared-schema",
+        token: "schema-token",
+      },
+    ];
+
+    const result = await prepareMcpConfig({
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      allowedTools: [],
+      mode: "tag",
+      context: mockContextWithSigning,
+      additionalRepositories,
+    });
+
+    const parsed = JSON.parse(result);
+    expect(
+      JSON.parse(parsed.mcpServers.github_comment.env.REPOSITORY_TARGETS),
+    ).toEqual(additionalRepositories);
+    expect(
+      JSON.parse(parsed.mcpServers.github_file_ops.env.REPOSITORY_TARGETS),
+    ).toEqual(additionalRepositories);
+  });
+
+  test("should include test reports server when test reports were read", async () => {
+    const params = {
+      githubToken: "test-token",
+      owner: "test-owner",
+      repo: "test-repo",
+      branch: "test-branch",
+      baseBranch: "main",
+      context: mockContext,
+      testReportsPath: "/tmp/claude-test-reports/failures.json",
+    };
+
+    const tagResult = JSON.parse(
+      await prepareMcpConfig({ ...params, allowedTools: [], mode: "tag" }),
+    );
+    expect(tagResult.mcpServers.test_reports).toBeDefined();
+    expect(tagResult.mcpServers.test_reports.env.TEST_REPORTS_PATH).toBe(
+      "/tmp/claude-test-reports/failures.json",
+    );
+
+    // Agent mode only includes it with its tool allowed
+    const agentResult = JSON.parse(
+      await prepareMcpConfig({ ...params, allowedTools: [], mode: "agent" }),
+    );
+    expect(agentResult.mcpServers.test_reports).not.toBeDefined();
+
+    const agentWithToolResult = JSON.parse(
+      await prepareMcpConfig({
+        ...params,
+        allowedTools: ["mcp__test_reports__get_test_failures"],
+        mode: "agent",
+      }),
+    );
+    expect(agentWithToolResult.mcpServers.test_reports).toBeDefined();
+
+    const withoutReports = JSON.parse(
+      await prepareMcpConfig({
+        ...params,
+        testReportsPath: undefined,
+        allowedTools: [],
+        mode: "tag",
+      }),
+    );
+    expect(withoutReports.mcpServers.test_reports).not.toBeDefined();
+  });
+
   test("should include comment server when no GitHub tools are allowed and signing disabled", async () => {
     const result = await prepareMcpConfig({
       githubToken: "test-token",
@@ -0,0 +1,108 @@
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { parseXml } from "../src/github/utils/xml";
+import { parseJUnitReport } from "../src/github/data/junit";
+
+const report = readFileSync(
+  join(__dirname, "fixtures", "junit-report.xml"),
+  "utf8",
+);
+
+describe("parseXml", () => {
+  test("builds the element tree with decoded attributes and text", () => {
+    const root = parseXml(
+      `<?xml version="1.0"?><a x="1 &gt; 0" y='it&apos;s'><b>t &amp; <![CDATA[<raw>]]></b><c/></a>`,
+    );
+
+    expect(root.name).toBe("a");
+    expect(root.attributes).toEqual({ x: "1 > 0", y: "it's" });
+    expect(root.children.map((child) => child.name)).toEqual(["b", "c"]);
+    expect(root.children[0]!.text).toBe("t & <raw>");
+  });
+
+  test("accepts > inside attribute values", () => {
+    expect(parseXml(`<a msg="x > y"/>`).attributes.msg).toBe("x > y");
+  });
+
+  test("rejects documents that are not well-formed", () => {
+    expect(() => parseXml("<a><b></a>")).toThrow(
+      "Invalid XML: unexpected closing tag </a>",
+    );
+    expect(() => parseXml("<a>")).toThrow("Invalid XML: unclosed element <a>");
+    expect(() => parseXml("<a/><b/>")).toThrow(
+      "Invalid XML: more than one root element",
+    );
+    expect(() => parseXml("not xml")).toThrow(
+      "Invalid XML: text outside the root element",
+    );
+  });
+});
+
+describe("parseJUnitReport", () => {
+  test("counts test cases and summarizes the failed ones", () => {
+    const summary = parseJUnitReport(report);
+
+    expect(summary).toMatchObject({
+      tests: 5,
+      failures: 1,
+      errors: 1,
+      skipped: 1,
+    });
+    expect(summary.failedCases).toEqual([
+      {
+        suite: "auth",
+        classname: "auth login",
+        name: "rejects an expired token",
+        file: "src/auth.test.ts",
+        kind: "failure",
+        message: "expected 401, got 200",
+        details:
+          "AssertionError: expected 401, got 200\n    at Object.<anonymous> (src/auth.test.ts:42:7)",
+      },
+      {
+        suite: "db",
+        classname: "db.pool",
+        name: "connects",
+        file: "tests/test_db.py",
+        line: 17,
+        kind: "error",
+        message: "ConnectionRefusedError: [Errno 111] <localhost:5432>",
+        details:
+          "ConnectionRefusedError: [Errno 111] <localhost:5432>\nTraceback follows",
+      },
+    ]);
+  });
+
+  test("reads a report with a single test suite", () => {
+    const summary = parseJUnitReport(
+      `<testsuite name="unit"><testcase name="works"/></testsuite>`,
+    );
+
+    expect(summary).toEqual({
+      tests: 1,
+      failures: 0,
+      errors: 0,
+      skipped: 0,
+      failedCases: [],
+    });
+  });
+
+  test("truncates long failure output", () => {
+    const trace = Array.from({ length: 40 }, (_, i) => `at frame ${i}`);
+    const summary = parseJUnitReport(
+      `<testsuite><testcase name="t"><failure>${trace.join("\n")}</failure></testcase></testsuite>`,
+    );
+
+    const details = summary.failedCases[0]!.details!;
+    expect(details).toStartWith("at frame 0\n");
+    expect(details).toContain("at frame 29\n… [10 more lines]");
+    expect(summary.failedCases[0]!.message).toBe("at frame 0");
+  });
+
+  test("rejects XML that is not a JUnit report", () => {
+    expect(() => parseJUnitReport("<project/>")).toThrow(
+      "Not a JUnit report: the root element is <project>",
+    );
+  });
+});
@@ -0,0 +1,319 @@
+import { describe, expect, jest, test } from "bun:test";
+import {
+  fetchSinceLastRun,
+  findLastRun,
+  formatLastRunMarker,
+  formatSinceLastRun,
+  getLastRunLookup,
+} from "../src/github/data/last-run";
+import { mockPullRequestOpenedContext } from "./mockContext";
+import type { ParsedGitHubContext } from "../src/github/context";
+import type { PullRequestEvent } from "@octokit/webhooks-types";
+
+const OLD_SHA = "a".repeat(40);
+const NEW_SHA = "b".repeat(40);
+const HEAD_SHA = "c".repeat(40);
+
+const claude = { id: 209825114, login: "claude[bot]", type: "Bot" };
+const human = { id: 2, login: "alice", type: "User" };
+const otherBot = { id: 41898282, login: "github-actions[bot]", type: "Bot" };
+
+function synchronizeContext(
+  inputs: Partial<ParsedGitHubContext["inputs"]> = {},
+): ParsedGitHubContext {
+  const payload = mockPullRequestOpenedContext.payload as PullRequestEvent;
+  return {
+    ...mockPullRequestOpenedContext,
+    eventAction: "synchronize",
+    payload: {
+      ...payload,
+      action: "synchronize",
+      pull_request: { ...payload.pull_request, head: { sha: HEAD_SHA } },
+    } as PullRequestEvent,
+    inputs: { ...mockPullRequestOpenedContext.inputs, ...inputs },
+  };
+}
+
+describe("getLastRunLookup", () => {
+  test("returns the head commit on synchronize", () => {
+    expect(getLastRunLookup(synchronizeContext())).toEqual({
+      headSha: HEAD_SHA,
+      botName: "claude[bot]",
+    });
+  });
+
+  test("is skipped for other actions and when disabled", () => {
+    expect(getLastRunLookup(mockPullRequestOpenedContext)).toBeUndefined();
+    expect(
+      getLastRunLookup(synchronizeContext({ incrementalContext: false })),
+    ).toBeUndefined();
+  });
+});
+
+describe("findLastRun", () => {
+  test("prefers the most recent marker or Claude review", () => {
+    const lastRun = findLastRun(
+      [
+        {
+          id: 1,
+          body: `Done\n\n${formatLastRunMarker(OLD_SHA)}`,
+          user: claude,
+          updated_at: "2024-01-01T00:00:00Z",
+        },
+      ],
+      [
+        {
+          id: 2,
+          commit_id: NEW_SHA,
+          user: claude,
+          submitted_at: "2024-01-02T00:00:00Z",
+        },
+        {
+          id: 3,
+          commit_id: HEAD_SHA,
+          user: human,
+          submitted_at: "2024-01-03T00:00:00Z",
+        },
+      ],
+      "claude[bot]",
+    );
+
+    expect(lastRun).toEqual({
+      sha: NEW_SHA,
+      at: "2024-01-02T00:00:00Z",
+      source: "review 2",
+    });
+  });
+
+  test("ignores markers and reviews by bots other than Claude", () => {
+    expect(
+      findLastRun(
+        [
+          {
+            id: 1,
+            body: formatLastRunMarker(HEAD_SHA),
+            user: otherBot,
+            updated_at: "2024-01-01T00:00:00Z",
+          },
+        ],
+        [
+          {
+            id: 2,
+            commit_id: HEAD_SHA,
+            user: { id: 5, login: "claude-impostor[bot]", type: "Bot" },
+            submitted_at: "2024-01-02T00:00:00Z",
+          },
+        ],
+        "claude[bot]",
+      ),
+    ).toBeUndefined();
+  });
+
+  test("ignores markers written by users", () => {
+    expect(
+      findLastRun(
+        [
+          {
+            id: 1,
+            body: formatLastRunMarker(HEAD_SHA),
+            user: human,
+            updated_at: "2024-01-01T00:00:00Z",
+          },
+        ],
+        [],
+        "claude[bot]",
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("fetchSinceLastRun", () => {
+  const createMockRest = () => {
+    const rest = {
+      issues: { listComments: jest.fn() },
+      pulls: { listReviews: jest.fn(), listReviewComments: jest.fn() },
+      repos: {
+        compareCommitsWithBasehead: jest.fn().mockResolvedValue({
+          data: {
+            status: "ahead",
+            total_commits: 2,
+            commits: [
+              {
+                sha: NEW_SHA,
+                commit: { message: "Fix typo\n\nDetails", author: {} },
+                author: { login: "alice" },
+              },
+              {
+                sha: HEAD_SHA,
+                commit: { message: "Handle null user", author: {} },
+                author: { login: "alice" },
+              },
+            ],
+            files: [
+              {
+                filename: "src/user.ts",
+                status: "modified",
+                additions: 3,
+                deletions: 1,
+              },
+            ],
+          },
+        }),
+      },
+    };
+    const pages = new Map<unknown, unknown[]>([
+      [
+        rest.issues.listComments,
+        [
+          {
+            id: 10,
+            body: `Looks good\n\n${formatLastRunMarker(OLD_SHA)}`,
+            user: claude,
+            created_at: "2024-01-01T00:00:00Z",
+            updated_at: "2024-01-01T00:00:00Z",
+          },
+          {
+            id: 11,
+            body: "Old question",
+            user: human,
+            created_at: "2023-12-31T00:00:00Z",
+          },
+          {
+            id: 12,
+            body: "Pushed a fix",
+            user: human,
+            created_at: "2024-01-02T00:00:00Z",
+          },
+        ],
+      ],
+      [rest.pulls.listReviews, []],
+      [
+        rest.pulls.listReviewComments,
+        [
+          {
+            id: 20,
+            body: "This can be null",
+            user: claude,
+            path: "src/user.ts",
+            created_at: "2023-12-31T12:00:00Z",
+          },
+          {
+            id: 21,
+            body: "Fixed, thanks",
+            user: human,
+            path: "src/user.ts",
+            in_reply_to_id: 20,
+            created_at: "2024-01-02T01:00:00Z",
+          },
+          {
+            id: 22,
+            body: "Unrelated thread",
+            user: human,
+            path: "src/other.ts",
+            created_at: "2024-01-02T02:00:00Z",
+          },
+        ],
+      ],
+    ]);
+    return {
+      rest,
+      paginate: jest.fn(async (method: unknown) => pages.get(method)),
+    } as any;
+  };
+
+  const lookup = {
+    owner: "owner",
+    repo: "repo",
+    prNumber: 7,
+    headSha: HEAD_SHA,
+    botName: "claude[bot]",
+  };
+
+  test("collects commits, files and replies since the marker", async () => {
+    const octokit = createMockRest();
+
+    const sinceLastRun = await fetchSinceLastRun(octokit, lookup);
+
+    expect(octokit.rest.repos.compareCommitsWithBasehead).toHaveBeenCalledWith({
+      owner: "owner",
+      repo: "repo",
+      basehead: `${OLD_SHA}...${HEAD_SHA}`,
+    });
+    expect(sinceLastRun).toEqual({
+      lastRun: {
+        sha: OLD_SHA,
+        at: "2024-01-01T00:00:00Z",
+        source: "comment 10",
+      },
+      headSha: HEAD_SHA,
+      rewritten: false,
+      commits: [
+        { sha: NEW_SHA, message: "Fix typo", author: "alice" },
+        { sha: HEAD_SHA, message: "Handle null user", author: "alice" },
+      ],
+      omittedCommits: 0,
+      files: [
+        { path: "src/user.ts", status: "modified", additions: 3, deletions: 1 },
+      ],
+      replies: [
+        {
+          author: "alice",
+          body: "Pushed a fix",
+          createdAt: "2024-01-02T00:00:00Z",
+        },
+        {
+          author: "alice",
+          body: "Fixed, thanks",
+          createdAt: "2024-01-02T01:00:00Z",
+          path: "src/user.ts",
+        },
+      ],
+    });
+  });
+
+  test("returns undefined when the last run saw the current head", async () => {
+    const octokit = createMockRest();
+
+    expect(
+      await fetchSinceLastRun(octokit, { ...lookup, headSha: OLD_SHA }),
+    ).toBeUndefined();
+    expect(
+      octokit.rest.repos.compareCommitsWithBasehead,
+    ).not.toHaveBeenCalled();
+  });
+});
+
+describe("formatSinceLastRun", () => {
+  test("lists commits, files and replies and flags rewritten history", () => {
+    const formatted = formatSinceLastRun({
+      lastRun: { sha: OLD_SHA, at: "2024-01-01T00:00:00Z", source: "review 1" },
+      headSha: HEAD_SHA,
+      rewritten: true,
+      commits: [
+        { sha: HEAD_SHA, message: "Handle null user", author: "alice" },
+      ],
+      omittedCommits: 3,
+      files: [
+        { path: "src/user.ts", status: "modified", additions: 3, deletions: 1 },
+      ],
+      replies: [
+        {
+          author: "alice",
+          body: "Fixed, thanks",
+          createdAt: "2024-01-02T01:00:00Z",
+          path: "src/user.ts",
+        },
+      ],
+    });
+
+    expect(formatted).toBe(
+      [
+        "Claude last ran on this pull request at 2024-01-01T00:00:00Z, on commit aaaaaaa. The head is now ccccccc.",
+        "The branch was force-pushed or rebased since then, so some of the commits below may already have been reviewed.",
+        "New commits:\n- [3 older commits]\n- ccccccc Handle null user (alice)",
+        "Files changed by these commits:\n- src/user.ts (modified) +3/-1",
+        "Replies since the last run:\n[alice at 2024-01-02T01:00:00Z on src/user.ts]: Fixed, thanks",
+      ].join("\n\n"),
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, test } from "bun:test";
+import {
+  applyMemoryUpdate,
+  extractMemoryBlock,
+  formatEntityMemory,
+  formatMemoryBlock,
+  MAX_MEMORY_LENGTH,
+  parseMemoryBlock,
+  setMemoryBlock,
+  type EntityMemory,
+} from "../src/github/operations/memory";
+
+const MEMORY: EntityMemory = {
+  summary: "Added retry logic to the uploader",
+  decisions: ["Use exponential backoff, capped at 30s"],
+  todos: ["Add a test for the timeout path"],
+  files: ["src/uploader.ts"],
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+describe("memory blocks", () => {
+  test("round-trip through a comment body", () => {
+    const body = setMemoryBlock(
+      "**Claude finished**",
+      formatMemoryBlock(MEMORY),
+    );
+
+    expect(body).toStartWith("**Claude finished**\n\n<!-- claude-memory\n");
+    expect(parseMemoryBlock(body)).toEqual(MEMORY);
+  });
+
+  test("cannot be closed early by their content", () => {
+    const memory = { ...MEMORY, summary: "Fixed the --> in the template" };
+    const block = formatMemoryBlock(memory);
+
+    expect(block.indexOf("-->")).toBe(block.length - 3);
+    expect(parseMemoryBlock(block)).toEqual(memory);
+  });
+
+  test("replace the existing block", () => {
+    const body = setMemoryBlock(
+      setMemoryBlock("Done", formatMemoryBlock(MEMORY)),
+      formatMemoryBlock({ ...MEMORY, todos: [] }),
+    );
+
+    expect(body.match(/claude-memory/g)).toHaveLength(1);
+    expect(parseMemoryBlock(body)?.todos).toEqual([]);
+    expect(extractMemoryBlock(body)).toBe(
+      formatMemoryBlock({ ...MEMORY, todos: [] }),
+    );
+  });
+
+  test("ignore malformed blocks and fields", () => {
+    expect(
+      parseMemoryBlock("<!-- claude-memory\nnot json\n-->"),
+    ).toBeUndefined();
+    expect(
+      parseMemoryBlock(
+        '<!-- claude-memory\n{"summary":1,"todos":["a",2]}\n-->',
+      ),
+    ).toEqual({ summary: "", decisions: [], todos: [], files: [] });
+  });
+});
+
+describe("applyMemoryUpdate", () => {
+  const now = new Date("2024-02-01T00:00:00.000Z");
+
+  test("replaces the given fields and keeps the rest", () => {
+    expect(applyMemoryUpdate(MEMORY, { todos: [] }, now)).toEqual({
+      ...MEMORY,
+      todos: [],
+      updatedAt: "2024-02-01T00:00:00.000Z",
+    });
+  });
+
+  test("starts from empty memory", () => {
+    expect(applyMemoryUpdate(undefined, { summary: "Started" }, now)).toEqual({
+      summary: "Started",
+      decisions: [],
+      todos: [],
+      files: [],
+      updatedAt: "2024-02-01T00:00:00.000Z",
+    });
+  });
+
+  test("rejects memory over the size limit", () => {
+    expect(() =>
+      applyMemoryUpdate(MEMORY, { summary: "x".repeat(MAX_MEMORY_LENGTH) }),
+    ).toThrow("Memory is too large");
+  });
+});
+
+describe("formatEntityMemory", () => {
+  test("lists the non-empty sections", () => {
+    expect(formatEntityMemory({ ...MEMORY, decisions: [] })).toBe(
+      [
+        "Last updated: 2024-01-01T00:00:00.000Z",
+        "Summary:\nAdded retry logic to the uploader",
+        "Open TODOs:\n- Add a test for the timeout path",
+        "Files touched:\n- src/uploader.ts",
+      ].join("\n\n"),
+    );
+  });
+});
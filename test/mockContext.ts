@@ -1,6 +1,7 @@
 import type {
   ParsedGitHubContext,
   AutomationContext,
+  DiscussionContext,
   RepositoryDispatchEvent,
 } from "../src/github/context";
 import type {
@@ -21,6 +22,9 @@ const defaultInputs = {
   useStickyComment: false,
   useCommitSigning: false,
   sshSigningKey: "",
+  gpgSigningKey: "",
+  gpgSigningKeyPassphrase: "",
+  commitStrategy: "git" as const,
   botId: String(CLAUDE_APP_BOT_ID),
   botName: CLAUDE_BOT_LOGIN,
   allowedBots: "",
@@ -31,6 +35,23 @@ const defaultInputs = {
   excludeCommentsByActor: "",
   linearApiKey: "",
   linearTeamId: "",
+  customModes: "",
+  reviewMode: false,
+  reviewEvent: "COMMENT",
+  allowReviewApproval: false,
+  promptTemplate: "",
+  promptPreview: false,
+  additionalRepositories: "",
+  maxContextTokens: "",
+  includeDiff: false,
+  incrementalContext: true,
+  resumeSession: false,
+  allowWorkflowChanges: "",
+  ciTriage: false,
+  maxCiFixAttempts: "3",
+  testReports: "",
+  dispatchPayload: false,
+  dispatchAllowedTools: "",
 };
 
 const defaultRepository = {
@@ -99,6 +120,53 @@ export const createMockAutomationContext = (
   return { ...baseContext, ...overrides, inputs: mergedInputs };
 };
 
+type MockDiscussionOverrides = Omit<Partial<DiscussionContext>, "inputs"> & {
+  inputs?: Partial<DiscussionContext["inputs"]>;
+  /** Body of the triggering comment; omit for a discussion event */
+  commentBody?: string;
+  /** Node ID of the comment the triggering comment replies to */
+  replyToId?: string;
+};
+
+export const createMockDiscussionContext = ({
+  commentBody,
+  replyToId,
+  ...overrides
+}: MockDiscussionOverrides = {}): DiscussionContext => {
+  const discussion = {
+    node_id: "D_kwDOA1",
+    number: 7,
+    title: "How do I configure retries?",
+    body: "/claude how are retries configured?",
+    category: { name: "Q&A", is_answerable: true },
+  };
+  const isComment = commentBody !== undefined;
+
+  return {
+    runId: "1234567890",
+    eventName: isComment ? "discussion_comment" : "discussion",
+    eventAction: "created",
+    repository: defaultRepository,
+    actor: "test-actor",
+    payload: {
+      action: "created",
+      discussion,
+      ...(isComment && {
+        comment: {
+          node_id: "DC_kwDOA2",
+          body: commentBody,
+          created_at: "2024-01-01T00:00:00Z",
+          parent_id: replyToId ? 1 : null,
+        },
+      }),
+      repository: { default_branch: "main" },
+    } as any,
+    discussionNumber: discussion.number,
+    ...overrides,
+    inputs: { ...defaultInputs, ...overrides.inputs },
+  };
+};
+
 export const mockRepositoryDispatchContext: AutomationContext = {
   runId: "1234567890",
   eventName: "repository_dispatch",
@@ -187,6 +187,42 @@ describe("Agent Mode", () => {
       process.env.GITHUB_REF_NAME = originalRefName;
   });
 
+  test("prepare method adds the payload tools that dispatch_allowed_tools lists", async () => {
+    setOutputSpy.mockClear();
+    process.env.CLAUDE_ARGS = "--max-turns 10";
+
+    const dispatchContext = createMockAutomationContext({
+      eventName: "repository_dispatch",
+      dispatch: { allowedTools: ["WebFetch", "Bash(make test)", "Bash"] },
+      inputs: { dispatchAllowedTools: "WebFetch,Bash(make test)" } as any,
+    });
+    const mockOctokit = {
+      rest: {
+        users: {
+          getByUsername: mock(() =>
+            Promise.resolve({
+              data: { login: "test-user", id: 12345, type: "User" },
+            }),
+          ),
+        },
+      },
+    } as any;
+
+    await agentMode.prepare({
+      context: dispatchContext,
+      octokit: mockOctokit,
+      githubToken: "test-token",
+    });
+
+    const callArgs = setOutputSpy.mock.calls[0];
+    expect(callArgs[0]).toBe("claude_args");
+    expect(callArgs[1]).toBe(
+      '--allowedTools "WebFetch,Bash(make test)" --max-turns 10',
+    );
+
+    delete process.env.CLAUDE_ARGS;
+  });
+
   test("prepare method rejects bot actors without allowed_bots", async () => {
     const contextWithPrompts = createMockAutomationContext({
       eventName: "workflow_dispatch",
@@ -21,6 +21,9 @@ describe("detectMode with enhanced routing", () => {
       useStickyComment: false,
       useCommitSigning: false,
       sshSigningKey: "",
+      gpgSigningKey: "",
+      gpgSigningKeyPassphrase: "",
+      commitStrategy: "git" as const,
       botId: "123456",
       botName: "claude-bot",
       allowedBots: "",
@@ -31,6 +34,23 @@ describe("detectMode with enhanced routing", () => {
       excludeCommentsByActor: "",
       linearApiKey: "",
       linearTeamId: "",
+      customModes: "",
+      reviewMode: false,
+      reviewEvent: "COMMENT",
+      allowReviewApproval: false,
+      promptTemplate: "",
+      promptPreview: false,
+      additionalRepositories: "",
+      maxContextTokens: "",
+      includeDiff: false,
+      incrementalContext: true,
+      resumeSession: false,
+      allowWorkflowChanges: "",
+      ciTriage: false,
+      maxCiFixAttempts: "3",
+      testReports: "",
+      dispatchPayload: false,
+      dispatchAllowedTools: "",
     },
   };
 
@@ -213,6 +233,25 @@ describe("detectMode with enhanced routing", () => {
       );
     });
 
+    it("should use tag mode for dispatches that target an issue or PR", () => {
+      const context: GitHubContext = {
+        ...baseContext,
+        eventName: "repository_dispatch",
+        payload: {} as any,
+        entityNumber: 42,
+        isPR: true,
+        dispatch: { prNumber: 42, allowedTools: [] },
+        inputs: {
+          ...baseContext.inputs,
+          prompt: "Fix the flaky test",
+          reviewMode: true,
+          trackProgress: true,
+        },
+      };
+
+      expect(detectMode(context)).toBe("tag");
+    });
+
     it("should use agent mode for workflow_dispatch without track_progress", () => {
       const context: GitHubContext = {
         ...baseContext,
@@ -262,4 +301,186 @@ describe("detectMode with enhanced routing", () => {
       expect(detectMode(context)).toBe("tag");
     });
   });
+
+  describe("PR Events with review_mode", () => {
+    it("should use review mode for pull_request.opened when review_mode is true", () => {
+      const context: GitHubContext = {
+        ...baseContext,
+        eventName: "pull_request",
+        eventAction: "opened",
+        payload: { pull_request: { number: 1 } } as any,
+        entityNumber: 1,
+        isPR: true,
+        inputs: { ...baseContext.inputs, reviewMode: true },
+      };
+
+      expect(detectMode(context)).toBe("review");
+    });
+
+    it("should use review mode even when a prompt is provided", () => {
+      const context: GitHubContext = {
+        ...baseContext,
+        eventName: "pull_request",
+        eventAction: "synchronize",
+        payload: { pull_request: { number: 1 } } as any,
+        entityNumber: 1,
+        isPR: true,
+        inputs: {
+          ...baseContext.inputs,
+          reviewMode: true,
+          prompt: "Focus on error handling",
+        },
+      };
+
+      expect(detectMode(context)).toBe("review");
+    });
+
+    it("should not use review mode for unsupported PR actions", () => {
+      const context: GitHubContext = {
+        ...baseContext,
+        eventName: "pull_request",
+        eventAction: "closed",
+        payload: { pull_request: { number: 1 } } as any,
+        entityNumber: 1,
+        isPR: true,
+        inputs: { ...baseContext.inputs, reviewMode: true },
+      };
+
+      expect(detectMode(context)).toBe("agent");
+    });
+
+    it("should use review mode for PR comments that mention the trigger phrase", () => {
+      const context: GitHubContext = {
+        ...baseContext,
+        eventName: "issue_comment",
+        eventAction: "created",
+        payload: {
+          issue: { number: 1, body: "Test", pull_request: {} },
+          comment: { body: "@claude review this" },
+        } as any,
+        entityNumber: 1,
+        isPR: true,
+        inputs: { ...baseContext.inputs, reviewMode: true },
+      };
+
+      expect(detectMode(context)).toBe("review");
+    });
+
+    it("should not use review mode for issues", () => {
+      const context: GitHubContext = {
+        ...baseContext,
+        eventName: "issues",
+        eventAction: "opened",
+        payload: { issue: { number: 1, body: "@claude help" } } as any,
+        entityNumber: 1,
+        isPR: false,
+        inputs: { ...baseContext.inputs, reviewMode: true },
+      };
+
+      expect(detectMode(context)).toBe("tag");
+    });
+  });
+
+  describe("Discussion events", () => {
+    const discussionContext = (
+      overrides: Partial<GitHubContext> = {},
+    ): GitHubContext =>
+      ({
+        ...baseContext,
+        eventName: "discussion_comment",
+        eventAction: "created",
+        payload: {
+          discussion: { number: 7, title: "Question", body: "" },
+          comment: { body: "@claude how do retries work?" },
+        } as any,
+        discussionNumber: 7,
+        ...overrides,
+      }) as GitHubContext;
+
+    it("should use discussion mode when the comment mentions the trigger phrase", () => {
+      expect(detectMode(discussionContext())).toBe("discussion");
+    });
+
+    it("should use agent mode when a prompt is provided", () => {
+      expect(
+        detectMode(
+          discussionContext({
+            inputs: { ...baseContext.inputs, prompt: "Triage this" },
+          }),
+        ),
+      ).toBe("agent");
+    });
+
+    it("should fall back to agent mode without a mention", () => {
+      expect(
+        detectMode(
+          discussionContext({
+            payload: {
+              discussion: { number: 7, title: "Question", body: "" },
+              comment: { body: "Thanks!" },
+            } as any,
+          }),
+        ),
+      ).toBe("agent");
+    });
+  });
+  describe("Failed workflow runs", () => {
+    const workflowRunContext = (
+      overrides: Partial<GitHubContext> = {},
+    ): GitHubContext =>
+      ({
+        ...baseContext,
+        eventName: "workflow_run",
+        eventAction: "completed",
+        payload: { workflow_run: { conclusion: "failure" } } as any,
+        ...overrides,
+      }) as GitHubContext;
+
+    it("should use ci-triage mode for a failed run on a PR", () => {
+      expect(
+        detectMode(
+          workflowRunContext({
+            entityNumber: 42,
+            isPR: true,
+            inputs: {
+              ...baseContext.inputs,
+              ciTriage: true,
+              trackProgress: true,
+            },
+          } as Partial<GitHubContext>),
+        ),
+      ).toBe("ci-triage");
+    });
+
+    it("should not use ci-triage mode without ci_triage", () => {
+      expect(
+        detectMode(
+          workflowRunContext({
+            entityNumber: 42,
+            isPR: true,
+          } as Partial<GitHubContext>),
+        ),
+      ).toBe("agent");
+    });
+
+    it("should use agent mode when a prompt is provided", () => {
+      expect(
+        detectMode(
+          workflowRunContext({
+            entityNumber: 42,
+            isPR: true,
+            inputs: {
+              ...baseContext.inputs,
+              ciTriage: true,
+              prompt: "Fix CI",
+            },
+          } as Partial<GitHubContext>),
+        ),
+      ).toBe("agent");
+    });
+
+    it("should fall back to agent mode for runs without a PR", () => {
+      expect(detectMode(workflowRunContext())).toBe("agent");
+    });
+  });
 });
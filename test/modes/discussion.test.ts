@@ -0,0 +1,89 @@
+import { describe, test, expect } from "bun:test";
+import {
+  discussionMode,
+  generateDiscussionPrompt,
+} from "../../src/modes/discussion";
+import type { FetchDiscussionResult } from "../../src/github/data/fetcher";
+import {
+  createMockDiscussionContext,
+  mockIssueCommentContext,
+} from "../mockContext";
+
+function discussionData(isAnswerable: boolean): FetchDiscussionResult {
+  return {
+    discussion: {
+      id: "D_kwDOA1",
+      number: 7,
+      title: "How do I configure retries?",
+      body: "Retries seem to be ignored",
+      url: "https://github.com/test-owner/test-repo/discussions/7",
+      author: { login: "asker" },
+      createdAt: "2024-01-01T00:00:00Z",
+      category: { name: isAnswerable ? "Q&A" : "General", isAnswerable },
+      answer: null,
+      comments: { nodes: [] },
+    },
+    comments: [
+      {
+        id: "DC_1",
+        databaseId: "1",
+        body: "Same problem here",
+        author: { login: "helper" },
+        createdAt: "2024-01-01T01:00:00Z",
+        isAnswer: false,
+        replies: { nodes: [] },
+      },
+    ],
+  };
+}
+
+describe("Discussion Mode", () => {
+  test("only triggers on discussion events that mention Claude", () => {
+    expect(discussionMode.shouldTrigger(createMockDiscussionContext())).toBe(
+      true,
+    );
+    expect(
+      discussionMode.shouldTrigger(
+        createMockDiscussionContext({ commentBody: "Thanks!" }),
+      ),
+    ).toBe(false);
+    expect(discussionMode.shouldTrigger(mockIssueCommentContext)).toBe(false);
+  });
+
+  test("creates a tracking comment", () => {
+    expect(discussionMode.shouldCreateTrackingComment()).toBe(true);
+  });
+});
+
+describe("generateDiscussionPrompt", () => {
+  test("includes the thread, the trigger comment and Claude's reply", () => {
+    const prompt = generateDiscussionPrompt(
+      createMockDiscussionContext({ commentBody: "/claude any idea?" }),
+      discussionData(true),
+      "DC_reply",
+    );
+
+    expect(prompt).toContain("Discussion Title: How do I configure retries?");
+    expect(prompt).toContain("Retries seem to be ignored");
+    expect(prompt).toContain("(id: DC_1): Same problem here");
+    expect(prompt).toContain(
+      "<trigger_comment>\n/claude any idea?\n</trigger_comment>",
+    );
+    expect(prompt).toContain("<claude_reply_id>DC_reply</claude_reply_id>");
+    expect(prompt).toContain("mcp__github_comment__mark_discussion_answer");
+  });
+
+  test("leaves out answer marking when the category does not accept answers", () => {
+    const prompt = generateDiscussionPrompt(
+      createMockDiscussionContext(),
+      discussionData(false),
+      "DC_reply",
+    );
+
+    expect(prompt).not.toContain("mark_discussion_answer");
+    expect(prompt).not.toContain("<trigger_comment>");
+    expect(prompt).toContain(
+      "The discussion itself is the request you are answering.",
+    );
+  });
+});
@@ -1,7 +1,18 @@
-import { describe, test, expect } from "bun:test";
-import { getMode, isValidMode } from "../../src/modes/registry";
+import { describe, test, expect, afterEach } from "bun:test";
+import { resolve } from "path";
+import {
+  clearRegisteredModes,
+  getMode,
+  getRegisteredModes,
+  isValidMode,
+  loadCustomModes,
+  parseCustomModePaths,
+  registerMode,
+} from "../../src/modes/registry";
 import { agentMode } from "../../src/modes/agent";
 import { tagMode } from "../../src/modes/tag";
+import type { Mode } from "../../src/modes/types";
+import type { GitHubContext } from "../../src/github/context";
 import {
   createMockContext,
   createMockAutomationContext,
@@ -146,10 +157,149 @@ describe("Mode Registry", () => {
   test("isValidMode returns true for all valid modes", () => {
     expect(isValidMode("tag")).toBe(true);
     expect(isValidMode("agent")).toBe(true);
+    expect(isValidMode("review")).toBe(true);
   });
 
   test("isValidMode returns false for invalid mode", () => {
     expect(isValidMode("invalid")).toBe(false);
-    expect(isValidMode("review")).toBe(false);
+  });
+});
+
+function createCustomMode(
+  name: string,
+  detect: (context: GitHubContext) => boolean,
+  priority?: number,
+): Mode {
+  return {
+    ...agentMode,
+    name,
+    description: `Custom ${name} mode`,
+    detect,
+    priority,
+  };
+}
+
+describe("Custom mode registration", () => {
+  const mentionContext = createMockContext({
+    eventName: "issue_comment",
+    payload: {
+      action: "created",
+      comment: { body: "/claude please help" },
+    } as any,
+  });
+
+  const scheduleContext = createMockAutomationContext({
+    eventName: "schedule",
+  });
+
+  afterEach(() => {
+    clearRegisteredModes();
+  });
+
+  test("registered mode is selected when its predicate matches", () => {
+    const triageMode = createCustomMode(
+      "triage",
+      (context) => context.eventName === "schedule",
+    );
+    registerMode(triageMode);
+
+    expect(getMode(scheduleContext)).toBe(triageMode);
+    expect(isValidMode("triage")).toBe(true);
+  });
+
+  test("registered mode with default priority is consulted before built-ins", () => {
+    const triageMode = createCustomMode("triage", () => true);
+    registerMode(triageMode);
+
+    expect(getMode(mentionContext)).toBe(triageMode);
+  });
+
+  test("registered mode with non-positive priority only runs when no built-in rule matches", () => {
+    const fallbackMode = createCustomMode("fallback", () => true, 0);
+    registerMode(fallbackMode);
+
+    // Built-in rule matches the @mention, so tag mode wins
+    expect(getMode(mentionContext)).toBe(tagMode);
+    // No built-in rule matches a schedule event without a prompt
+    expect(getMode(scheduleContext)).toBe(fallbackMode);
+  });
+
+  test("higher priority registered modes are consulted first", () => {
+    const lowMode = createCustomMode("low", () => true, 10);
+    const highMode = createCustomMode("high", () => true, 50);
+    registerMode(lowMode);
+    registerMode(highMode);
+
+    expect(getMode(scheduleContext)).toBe(highMode);
+  });
+
+  test("equal priorities keep registration order", () => {
+    const firstMode = createCustomMode("first", () => true, 10);
+    const secondMode = createCustomMode("second", () => true, 10);
+    registerMode(firstMode);
+    registerMode(secondMode);
+
+    expect(getMode(scheduleContext)).toBe(firstMode);
+  });
+
+  test("falls back to built-in detection when no registered mode matches", () => {
+    registerMode(createCustomMode("never", () => false));
+
+    expect(getMode(mentionContext)).toBe(tagMode);
+    expect(getMode(scheduleContext)).toBe(agentMode);
+  });
+
+  test("rejects modes that reuse a built-in name", () => {
+    expect(() => registerMode(createCustomMode("tag", () => true))).toThrow(
+      "reserved for a built-in mode",
+    );
+  });
+
+  test("rejects duplicate registrations", () => {
+    registerMode(createCustomMode("triage", () => true));
+    expect(() => registerMode(createCustomMode("triage", () => true))).toThrow(
+      "already registered",
+    );
+  });
+
+  test("rejects modes without a detect predicate", () => {
+    const { detect: _detect, ...withoutDetect } = createCustomMode(
+      "triage",
+      () => true,
+    );
+    expect(() => registerMode(withoutDetect as Mode)).toThrow(
+      "missing required methods: detect",
+    );
+  });
+
+  test("parseCustomModePaths splits newline and comma separated input", () => {
+    expect(parseCustomModePaths("")).toEqual([]);
+    expect(parseCustomModePaths(undefined)).toEqual([]);
+    expect(
+      parseCustomModePaths(" .github/modes/triage.ts\n\n a.ts, b.ts "),
+    ).toEqual([".github/modes/triage.ts", "a.ts", "b.ts"]);
+  });
+
+  test("loadCustomModes registers the default export of a repository module", async () => {
+    const repoDir = resolve(__dirname, "../fixtures");
+    const loaded = await loadCustomModes(
+      ["modes/release-notes-mode.ts"],
+      repoDir,
+    );
+
+    expect(loaded.map((mode) => mode.name)).toEqual(["release-notes"]);
+    expect(getRegisteredModes()).toEqual(loaded);
+
+    const workflowDispatchContext = createMockAutomationContext({
+      eventName: "workflow_dispatch",
+    });
+    expect(getMode(workflowDispatchContext).name).toBe("release-notes");
+  });
+
+  test("loadCustomModes rejects paths outside the repository", async () => {
+    const repoDir = resolve(__dirname, "../fixtures");
+    await expect(
+      loadCustomModes(["../modes/registry.test.ts"], repoDir),
+    ).rejects.toThrow("resolves outside the repository root");
   });
 });
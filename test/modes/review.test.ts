@@ -0,0 +1,141 @@
+import { describe, test, expect } from "bun:test";
+import { reviewMode, generateReviewPrompt } from "../../src/modes/review";
+import type { PreparedContext } from "../../src/create-prompt/types";
+import type { FetchDataResult } from "../../src/github/data/fetcher";
+import {
+  createMockContext,
+  createMockAutomationContext,
+  mockPullRequestOpenedContext,
+} from "../mockContext";
+
+const mockGitHubData = {
+  contextData: {
+    title: "Add authentication",
+    body: "Adds JWT auth",
+    author: { login: "feature-developer" },
+    state: "OPEN",
+    labels: { nodes: [] },
+    createdAt: "2023-01-01T00:00:00Z",
+    additions: 15,
+    deletions: 5,
+    baseRefName: "main",
+    headRefName: "feature-branch",
+    headRefOid: "abc123",
+    commits: { totalCount: 0, nodes: [] },
+    files: { nodes: [] },
+    comments: { nodes: [] },
+    reviews: { nodes: [] },
+  },
+  comments: [],
+  changedFiles: [],
+  changedFilesWithSHA: [
+    {
+      path: "src/auth.ts",
+      additions: 15,
+      deletions: 5,
+      changeType: "MODIFIED",
+      sha: "def456",
+    },
+  ],
+  reviewData: { nodes: [] },
+  imageUrlMap: new Map<string, string>(),
+} as unknown as FetchDataResult;
+
+function createPreparedContext(
+  inputs: Partial<typeof mockPullRequestOpenedContext.inputs> = {},
+): PreparedContext {
+  return {
+    repository: "test-owner/test-repo",
+    claudeCommentId: "",
+    triggerPhrase: "@claude",
+    eventData: {
+      eventName: "pull_request",
+      eventAction: "opened",
+      isPR: true,
+      prNumber: "456",
+      baseBranch: "develop",
+    },
+    githubContext: {
+      ...mockPullRequestOpenedContext,
+      inputs: { ...mockPullRequestOpenedContext.inputs, ...inputs },
+    },
+  };
+}
+
+describe("Review Mode", () => {
+  test("review mode has correct properties", () => {
+    expect(reviewMode.name).toBe("review");
+    expect(reviewMode.description).toBe(
+      "Pull request review mode that submits a single batched review",
+    );
+    expect(reviewMode.shouldCreateTrackingComment()).toBe(false);
+    expect(reviewMode.getAllowedTools()).toEqual([]);
+    expect(reviewMode.getDisallowedTools()).toEqual([]);
+  });
+
+  test("shouldTrigger only accepts pull request contexts", () => {
+    expect(reviewMode.shouldTrigger(mockPullRequestOpenedContext)).toBe(true);
+    expect(
+      reviewMode.shouldTrigger(
+        createMockContext({ eventName: "issues", isPR: false }),
+      ),
+    ).toBe(false);
+    expect(
+      reviewMode.shouldTrigger(
+        createMockAutomationContext({ eventName: "workflow_dispatch" }),
+      ),
+    ).toBe(false);
+  });
+
+  test("prepareContext carries the base branch without a tracking comment", () => {
+    const modeContext = reviewMode.prepareContext(
+      mockPullRequestOpenedContext,
+      { commentId: 123, baseBranch: "develop" },
+    );
+
+    expect(modeContext.mode).toBe("review");
+    expect(modeContext.baseBranch).toBe("develop");
+    expect(modeContext.commentId).toBeUndefined();
+  });
+
+  test("prompt describes the batched review tools and default verdict", () => {
+    const prompt = generateReviewPrompt(
+      createPreparedContext(),
+      mockGitHubData,
+    );
+
+    expect(prompt).toContain("<pr_number>456</pr_number>");
+    expect(prompt).toContain("src/auth.ts");
+    expect(prompt).toContain("mcp__github_review__add_review_comment");
+    expect(prompt).toContain("mcp__github_review__submit_review");
+    expect(prompt).toContain("The default verdict is COMMENT.");
+    expect(prompt).toContain("APPROVE is not permitted");
+    expect(prompt).toContain("git diff origin/develop...HEAD");
+    expect(prompt).not.toContain("mcp__github_comment__update_claude_comment");
+  });
+
+  test("prompt reflects approval being allowed", () => {
+    const prompt = generateReviewPrompt(
+      createPreparedContext({
+        reviewEvent: "request_changes",
+        allowReviewApproval: true,
+      }),
+      mockGitHubData,
+    );
+
+    expect(prompt).toContain("The default verdict is REQUEST_CHANGES.");
+    expect(prompt).toContain("COMMENT, REQUEST_CHANGES, or APPROVE");
+  });
+
+  test("custom prompt is appended as custom instructions", () => {
+    const prompt = reviewMode.generatePrompt(
+      createPreparedContext({ prompt: "Focus on security" }),
+      mockGitHubData,
+      false,
+    );
+
+    expect(prompt).toContain(
+      "<custom_instructions>\nFocus on security\n</custom_instructions>",
+    );
+  });
+});
@@ -94,4 +94,34 @@ describe("parseAdditionalPermissions", () => {
       workflows: "write",
     });
   });
+
+  test("requests workflows: write when workflow changes are allowed", () => {
+    process.env.ADDITIONAL_PERMISSIONS = "actions: read";
+    process.env.ALLOW_WORKFLOW_CHANGES = ".github/workflows/ci.yml";
+    process.env.COMMIT_STRATEGY = "api";
+    try {
+      expect(parseAdditionalPermissions()).toEqual({
+        contents: "write",
+        pull_requests: "write",
+        issues: "write",
+        workflows: "write",
+        actions: "read",
+      });
+    } finally {
+      delete process.env.ALLOW_WORKFLOW_CHANGES;
+      delete process.env.COMMIT_STRATEGY;
+    }
+  });
+
+  test("leaves out workflows: write for git commit strategies", () => {
+    delete process.env.ADDITIONAL_PERMISSIONS;
+    process.env.ALLOW_WORKFLOW_CHANGES = ".github/workflows/ci.yml";
+    process.env.COMMIT_STRATEGY = "git";
+    try {
+      expect(parseAdditionalPermissions()).toBeUndefined();
+    } finally {
+      delete process.env.ALLOW_WORKFLOW_CHANGES;
+      delete process.env.COMMIT_STRATEGY;
+    }
+  });
 });
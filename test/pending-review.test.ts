@@ -0,0 +1,108 @@
+import { describe, test, expect } from "bun:test";
+import {
+  buildReviewCommentParams,
+  parseReviewEvent,
+  resolveReviewEvent,
+  validatePendingReviewComment,
+} from "../src/github/operations/pending-review";
+
+describe("parseReviewEvent", () => {
+  test("accepts known events case-insensitively", () => {
+    expect(parseReviewEvent("COMMENT")).toBe("COMMENT");
+    expect(parseReviewEvent("approve")).toBe("APPROVE");
+    expect(parseReviewEvent(" request-changes ")).toBe("REQUEST_CHANGES");
+  });
+
+  test("rejects unknown events", () => {
+    expect(() => parseReviewEvent("DISMISS")).toThrow(
+      "Invalid review event 'DISMISS'",
+    );
+  });
+});
+
+describe("resolveReviewEvent", () => {
+  test("falls back to the default event", () => {
+    expect(resolveReviewEvent(undefined, "REQUEST_CHANGES", false)).toBe(
+      "REQUEST_CHANGES",
+    );
+  });
+
+  test("prefers the requested event", () => {
+    expect(resolveReviewEvent("request_changes", "COMMENT", false)).toBe(
+      "REQUEST_CHANGES",
+    );
+  });
+
+  test("blocks APPROVE unless allowed", () => {
+    expect(() => resolveReviewEvent("APPROVE", "COMMENT", false)).toThrow(
+      "allow_review_approval",
+    );
+    expect(() => resolveReviewEvent(undefined, "APPROVE", false)).toThrow(
+      "allow_review_approval",
+    );
+    expect(resolveReviewEvent("APPROVE", "COMMENT", true)).toBe("APPROVE");
+  });
+});
+
+describe("validatePendingReviewComment", () => {
+  test("accepts single and multi-line comments", () => {
+    expect(() =>
+      validatePendingReviewComment({
+        path: "src/index.ts",
+        body: "Nit",
+        line: 10,
+        side: "RIGHT",
+      }),
+    ).not.toThrow();
+    expect(() =>
+      validatePendingReviewComment({
+        path: "src/index.ts",
+        body: "Nit",
+        line: 10,
+        startLine: 5,
+        side: "RIGHT",
+      }),
+    ).not.toThrow();
+  });
+
+  test("rejects empty bodies and inverted ranges", () => {
+    expect(() =>
+      validatePendingReviewComment({
+        path: "src/index.ts",
+        body: "  ",
+        line: 10,
+        side: "RIGHT",
+      }),
+    ).toThrow("Comment body cannot be empty");
+    expect(() =>
+      validatePendingReviewComment({
+        path: "src/index.ts",
+        body: "Nit",
+        line: 5,
+        startLine: 10,
+        side: "RIGHT",
+      }),
+    ).toThrow("startLine (10) must be less than line (5)");
+  });
+});
+
+describe("buildReviewCommentParams", () => {
+  test("maps multi-line comments to start_line and start_side", () => {
+    expect(
+      buildReviewCommentParams([
+        { path: "a.ts", body: "One", line: 3, side: "RIGHT" },
+        { path: "b.ts", body: "Two", line: 8, startLine: 4, side: "LEFT" },
+      ]),
+    ).toEqual([
+      { path: "a.ts", body: "One", line: 3, side: "RIGHT" },
+      {
+        path: "b.ts",
+        body: "Two",
+        line: 8,
+        side: "LEFT",
+        start_line: 4,
+        start_side: "LEFT",
+      },
+    ]);
+  });
+});
@@ -69,6 +69,9 @@ describe("checkWritePermissions", () => {
       useStickyComment: false,
       useCommitSigning: false,
       sshSigningKey: "",
+      gpgSigningKey: "",
+      gpgSigningKeyPassphrase: "",
+      commitStrategy: "git",
       botId: String(CLAUDE_APP_BOT_ID),
       botName: CLAUDE_BOT_LOGIN,
       allowedBots: "",
@@ -79,6 +82,23 @@ describe("checkWritePermissions", () => {
       excludeCommentsByActor: "",
       linearApiKey: "",
       linearTeamId: "",
+      customModes: "",
+      reviewMode: false,
+      reviewEvent: "COMMENT",
+      allowReviewApproval: false,
+      promptTemplate: "",
+      promptPreview: false,
+      additionalRepositories: "",
+      maxContextTokens: "",
+      includeDiff: false,
+      incrementalContext: true,
+      resumeSession: false,
+      allowWorkflowChanges: "",
+      ciTriage: false,
+      maxCiFixAttempts: "3",
+      testReports: "",
+      dispatchPayload: false,
+      dispatchAllowedTools: "",
     },
   });
 
@@ -0,0 +1,345 @@
+import { describe, expect, jest, test } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import {
+  capPatch,
+  extractPatchRange,
+  fetchPullRequestPatches,
+  findNearestRanges,
+  formatFilePatch,
+  formatPullRequestDiff,
+  getCommentableRanges,
+  parsePatchLines,
+  validateCommentPosition,
+  type FilePatch,
+} from "../src/github/data/diff";
+import { fetchGitHubData } from "../src/github/data/fetcher";
+
+// Two hunks: lines 3-6 and 20-22 of the new file
+const PATCH = [
+  "@@ -3,4 +3,4 @@ function setup() {",
+  " const a = 1;",
+  "-const b = 2;",
+  "+const b = 3;",
+  " const c = 4;",
+  " const d = 5;",
+  "@@ -20,2 +20,3 @@ function teardown() {",
+  " cleanup();",
+  "+log();",
+  " return;",
+  "\\ No newline at end of file",
+].join("\n");
+
+function filePatch(overrides: Partial<FilePatch> = {}): FilePatch {
+  return {
+    path: "src/app.ts",
+    status: "modified",
+    additions: 2,
+    deletions: 1,
+    patch: PATCH,
+    omittedLines: 0,
+    ...overrides,
+  };
+}
+
+describe("parsePatchLines", () => {
+  test("tracks new-file lines on the right and old-file lines on the left", () => {
+    const lines = parsePatchLines(PATCH);
+
+    expect([...lines.RIGHT]).toEqual([3, 4, 5, 6, 20, 21, 22]);
+    expect([...lines.LEFT]).toEqual([3, 4, 5, 6, 20, 21]);
+  });
+});
+
+describe("capPatch", () => {
+  test("leaves short patches alone", () => {
+    expect(capPatch(PATCH, 100)).toEqual({ patch: PATCH, omittedLines: 0 });
+  });
+
+  test("cuts at the last hunk boundary that fits", () => {
+    const { patch, omittedLines } = capPatch(PATCH, 8);
+
+    expect(patch.split("\n")).toHaveLength(6);
+    expect(patch).not.toContain("@@ -20");
+    expect(omittedLines).toBe(5);
+  });
+
+  test("cuts mid-hunk when the first hunk alone is too long", () => {
+    const { patch, omittedLines } = capPatch(PATCH, 3);
+
+    expect(patch.split("\n")).toHaveLength(3);
+    expect(omittedLines).toBe(8);
+  });
+});
+
+describe("extractPatchRange", () => {
+  test("returns the whole patch without a range", () => {
+    expect(extractPatchRange(PATCH)).toBe(PATCH);
+  });
+
+  test("returns only hunks overlapping the range", () => {
+    const range = extractPatchRange(PATCH, 21);
+
+    expect(range).toStartWith("@@ -20,2 +20,3 @@");
+    expect(range).not.toContain("const b");
+    expect(extractPatchRange(PATCH, 5, 20)).toBe(PATCH);
+    expect(extractPatchRange(PATCH, 10, 15)).toBe("");
+  });
+});
+
+describe("validateCommentPosition", () => {
+  // Recorded pulls.listFiles response
+  const recorded = JSON.parse(
+    readFileSync(
+      join(__dirname, "fixtures", "pull-request-files.json"),
+      "utf-8",
+    ),
+  );
+  const rest = { paginate: async () => recorded, rest: { pulls: {} } };
+  const loadFiles = () =>
+    fetchPullRequestPatches(rest as any, "octo-org", "octo-app", 42);
+  const validate = async (
+    path: string,
+    position: Parameters<typeof validateCommentPosition>[2],
+  ) => {
+    const files = await loadFiles();
+    return validateCommentPosition(
+      files.find((file) => file.path === path),
+      path,
+      position,
+    );
+  };
+
+  test("finds one commentable range per hunk on each side", async () => {
+    const [router] = await loadFiles();
+
+    expect(getCommentableRanges(router!.patch!, "RIGHT")).toEqual([
+      { start: 12, end: 19 },
+      { start: 42, end: 51 },
+    ]);
+    expect(getCommentableRanges(router!.patch!, "LEFT")).toEqual([
+      { start: 12, end: 18 },
+      { start: 41, end: 48 },
+    ]);
+  });
+
+  test("accepts lines and ranges within a hunk", async () => {
+    expect(await validate("src/server/router.ts", { line: 16 })).toBeNull();
+    expect(
+      await validate("src/server/router.ts", { startLine: 45, line: 48 }),
+    ).toBeNull();
+    expect(
+      await validate("src/server/router.ts", { line: 15, side: "LEFT" }),
+    ).toBeNull();
+    expect(
+      await validate("src/server/handlers/users.ts", { line: 1 }),
+    ).toBeNull();
+    expect(
+      await validate("src/legacy/health.ts", { line: 2, side: "LEFT" }),
+    ).toBeNull();
+  });
+
+  test("lists the nearest commentable ranges for lines outside the diff", async () => {
+    const error = await validate("src/server/router.ts", { line: 38 });
+
+    expect(error).toEqual({
+      reason: "outside_diff",
+      message:
+        "Line 38 of src/server/router.ts is not part of the diff on the RIGHT side. Nearest commentable lines: 42-51, 12-19",
+      path: "src/server/router.ts",
+      side: "RIGHT",
+      lines: [38],
+      nearestRanges: [
+        { start: 42, end: 51 },
+        { start: 12, end: 19 },
+      ],
+    });
+  });
+
+  test("rejects multi-line comments that span hunks", async () => {
+    const error = await validate("src/server/router.ts", {
+      startLine: 18,
+      line: 44,
+    });
+
+    expect(error?.reason).toBe("spans_hunks");
+    expect(error?.lines).toEqual([18, 44]);
+    expect(error?.message).toContain("must stay within one hunk");
+  });
+
+  test("rejects the wrong side of added and removed files", async () => {
+    const error = await validate("src/legacy/health.ts", { line: 1 });
+
+    expect(error?.reason).toBe("outside_diff");
+    expect(error?.nearestRanges).toEqual([]);
+    expect(error?.message).toContain(
+      "No lines on the RIGHT side can be commented on",
+    );
+  });
+
+  test("rejects binary and unchanged files", async () => {
+    expect((await validate("docs/architecture.png", { line: 1 }))?.reason).toBe(
+      "no_patch",
+    );
+    expect((await validate("README.md", { line: 1 }))?.message).toBe(
+      "README.md is not changed in this pull request",
+    );
+  });
+
+  test("orders nearest ranges by distance to any requested line", () => {
+    const ranges = [
+      { start: 1, end: 5 },
+      { start: 20, end: 25 },
+      { start: 60, end: 70 },
+      { start: 100, end: 101 },
+    ];
+
+    expect(findNearestRanges(ranges, [58])).toEqual([
+      { start: 60, end: 70 },
+      { start: 20, end: 25 },
+      { start: 100, end: 101 },
+    ]);
+    expect(findNearestRanges(ranges, [10, 98], 2)).toEqual([
+      { start: 100, end: 101 },
+      { start: 1, end: 5 },
+    ]);
+  });
+});
+
+describe("formatting", () => {
+  test("formats renames with both paths", () => {
+    const formatted = formatFilePatch(
+      filePatch({
+        path: "src/new.ts",
+        previousPath: "src/old.ts",
+        status: "renamed",
+      }),
+    );
+
+    expect(formatted).toStartWith(
+      "diff --git a/src/old.ts b/src/new.ts\nrename from src/old.ts\nrename to src/new.ts\n--- a/src/old.ts\n+++ b/src/new.ts\n@@ -3,4",
+    );
+  });
+
+  test("uses /dev/null for added files and notes omitted lines", () => {
+    const formatted = formatFilePatch(
+      filePatch({ status: "added", omittedLines: 12 }),
+    );
+
+    expect(formatted).toContain("--- /dev/null\n+++ b/src/app.ts");
+    expect(formatted).toEndWith("[... 12 more diff lines omitted ...]");
+  });
+
+  test("lists binary files instead of showing them", () => {
+    const formatted = formatPullRequestDiff(
+      [
+        filePatch(),
+        filePatch({ path: "logo.png", patch: undefined, status: "added" }),
+      ],
+      2,
+    );
+
+    expect(formatted).toContain("diff --git a/src/app.ts b/src/app.ts");
+    expect(formatted).not.toContain("diff --git a/logo.png");
+    expect(formatted).toContain("Not shown (binary or too large): logo.png");
+    expect(formatted).toEndWith(
+      "[2 file diffs omitted to fit the context budget]",
+    );
+  });
+});
+
+describe("fetchPullRequestPatches", () => {
+  const listFiles = jest.fn();
+  const rest = {
+    paginate: jest.fn().mockResolvedValue([
+      {
+        filename: "src/new.ts",
+        previous_filename: "src/old.ts",
+        status: "renamed",
+        additions: 2,
+        deletions: 1,
+        patch: PATCH,
+      },
+      {
+        filename: "logo.png",
+        status: "added",
+        additions: 0,
+        deletions: 0,
+      },
+    ]),
+    rest: { pulls: { listFiles } },
+  };
+
+  test("maps and caps GitHub's file patches", async () => {
+    const files = await fetchPullRequestPatches(
+      rest as any,
+      "owner",
+      "repo",
+      7,
+      8,
+    );
+
+    expect(rest.paginate).toHaveBeenCalledWith(listFiles, {
+      owner: "owner",
+      repo: "repo",
+      pull_number: 7,
+      per_page: 100,
+    });
+    expect(files).toEqual([
+      {
+        path: "src/new.ts",
+        previousPath: "src/old.ts",
+        status: "renamed",
+        additions: 2,
+        deletions: 1,
+        patch: PATCH.split("\n").slice(0, 6).join("\n"),
+        omittedLines: 5,
+      },
+      {
+        path: "logo.png",
+        status: "added",
+        additions: 0,
+        deletions: 0,
+        omittedLines: 0,
+      },
+    ]);
+  });
+
+  test("is fetched by fetchGitHubData only when includeDiff is set", async () => {
+    const graphql = jest.fn().mockResolvedValue({
+      repository: {
+        pullRequest: {
+          title: "PR",
+          body: "",
+          author: { login: "author" },
+          baseRefName: "main",
+          headRefName: "feature",
+          headRefOid: "abc",
+          createdAt: "2024-01-15T10:00:00Z",
+          additions: 2,
+          deletions: 1,
+          state: "OPEN",
+          commits: { totalCount: 0, nodes: [] },
+          files: { nodes: [] },
+          comments: { nodes: [] },
+          reviews: { nodes: [] },
+        },
+      },
+    });
+    const params = {
+      octokits: { graphql, rest } as any,
+      repository: "owner/repo",
+      prNumber: "7",
+      isPR: true,
+    };
+
+    const withoutDiff = await fetchGitHubData(params);
+    const withDiff = await fetchGitHubData({ ...params, includeDiff: true });
+
+    expect(withoutDiff.diff).toBeUndefined();
+    expect(withDiff.diff?.map((file) => file.path)).toEqual([
+      "src/new.ts",
+      "logo.png",
+    ]);
+  });
+});
@@ -289,6 +289,65 @@ describe("parseEnvVarsWithContext", () => {
     });
   });
 
+  describe("dispatch events", () => {
+    const dispatchContext = createMockContext({
+      eventName: "repository_dispatch",
+      actor: "incident-bot[bot]",
+      entityNumber: 42,
+      isPR: false,
+      dispatch: { issueNumber: 42, allowedTools: [] },
+      inputs: { prompt: "Investigate the outage" },
+    });
+
+    test("should parse a dispatch that targets an issue", () => {
+      const result = prepareContext(
+        dispatchContext,
+        "12345",
+        "release/1.2",
+        "claude/issue-42-20240101-1200",
+      );
+
+      expect(result.triggerUsername).toBe("incident-bot[bot]");
+      expect(result.prompt).toBe("Investigate the outage");
+      expect(result.eventData).toEqual({
+        eventName: "repository_dispatch",
+        isPR: false,
+        issueNumber: "42",
+        claudeBranch: "claude/issue-42-20240101-1200",
+        baseBranch: "release/1.2",
+      });
+    });
+
+    test("should parse a dispatch that targets a PR", () => {
+      const result = prepareContext(
+        createMockContext({
+          ...dispatchContext,
+          eventName: "workflow_dispatch",
+          isPR: true,
+          inputs: dispatchContext.inputs,
+        }),
+        "12345",
+      );
+
+      expect(result.eventData).toEqual({
+        eventName: "workflow_dispatch",
+        isPR: true,
+        prNumber: "42",
+      });
+    });
+
+    test("should throw error when the dispatch has no prompt", () => {
+      expect(() =>
+        prepareContext(
+          createMockContext({ ...dispatchContext, inputs: { prompt: "" } }),
+          "12345",
+        ),
+      ).toThrow(
+        "A prompt is required for dispatches that target an issue or PR",
+      );
+    });
+  });
+
   describe("context generation", () => {
     test("should generate context without legacy fields", () => {
       process.env = BASE_ENV;
@@ -0,0 +1,206 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { mkdir, writeFile, rm } from "fs/promises";
+import { resolve } from "path";
+import { tmpdir } from "os";
+import {
+  PROMPT_TEMPLATE_VARIABLES,
+  buildTemplateVariables,
+  findUnknownTemplateVariables,
+  loadPromptTemplate,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from "../src/create-prompt/template";
+import { generatePrompt } from "../src/create-prompt";
+import type { PreparedContext } from "../src/create-prompt";
+import type { FetchDataResult } from "../src/github/data/fetcher";
+import { agentMode } from "../src/modes/agent";
+
+const mockGitHubData = {
+  contextData: {
+    title: "Add retry logic",
+    body: "Retries failed uploads",
+    author: { login: "author1" },
+    state: "OPEN",
+    labels: { nodes: [] },
+    createdAt: "2023-01-01T00:00:00Z",
+    additions: 10,
+    deletions: 2,
+    baseRefName: "main",
+    headRefName: "feature/retry",
+    headRefOid: "abc123",
+    commits: { totalCount: 1, nodes: [] },
+    files: { nodes: [] },
+    comments: { nodes: [] },
+    reviews: { nodes: [] },
+  },
+  comments: [
+    {
+      id: "comment1",
+      databaseId: "1",
+      body: "Looks close",
+      author: { login: "user1" },
+      createdAt: "2023-01-01T01:00:00Z",
+    },
+  ],
+  changedFiles: [],
+  changedFilesWithSHA: [
+    {
+      path: "src/upload.ts",
+      additions: 10,
+      deletions: 2,
+      changeType: "MODIFIED",
+      sha: "def456",
+    },
+  ],
+  reviewData: { nodes: [] },
+  imageUrlMap: new Map<string, string>(),
+  triggerDisplayName: "User Two",
+} as unknown as FetchDataResult;
+
+const mockContext: PreparedContext = {
+  repository: "owner/repo",
+  claudeCommentId: "999",
+  triggerPhrase: "@claude",
+  triggerUsername: "user2",
+  prompt: "Be concise",
+  eventData: {
+    eventName: "issue_comment",
+    commentId: "2",
+    isPR: true,
+    prNumber: "42",
+    commentBody: "@claude please review",
+  },
+};
+
+describe("findUnknownTemplateVariables", () => {
+  test("returns unknown names once, in order", () => {
+    expect(
+      findUnknownTemplateVariables("$PR_BODY $FOO ${BAR} $FOO $PR_FILES"),
+    ).toEqual(["FOO", "BAR"]);
+  });
+
+  test("ignores escaped dollars and lowercase names", () => {
+    expect(findUnknownTemplateVariables("cost: $$5, $$HOME, $lower")).toEqual(
+      [],
+    );
+  });
+});
+
+describe("validatePromptTemplate", () => {
+  test("lists unknown variables in the error", () => {
+    expect(() => validatePromptTemplate("Hello $PR_TITEL")).toThrow(
+      "Prompt template references unknown variables: $PR_TITEL",
+    );
+  });
+
+  test("accepts every documented variable", () => {
+    const template = Object.keys(PROMPT_TEMPLATE_VARIABLES)
+      .map((name) => `$${name}`)
+      .join("\n");
+    expect(() => validatePromptTemplate(template)).not.toThrow();
+  });
+});
+
+describe("buildTemplateVariables", () => {
+  test("fills variables from the prepared context and GitHub data", () => {
+    const variables = buildTemplateVariables(
+      mockContext,
+      mockGitHubData,
+      "GENERAL_COMMENT",
+      "issue comment with '@claude'",
+    );
+
+    expect(variables.REPOSITORY).toBe("owner/repo");
+    expect(variables.IS_PR).toBe("true");
+    expect(variables.PR_NUMBER).toBe("42");
+    expect(variables.ISSUE_NUMBER).toBe("");
+    expect(variables.PR_TITLE).toBe("Add retry logic");
+    expect(variables.PR_BODY).toBe("Retries failed uploads");
+    expect(variables.PR_COMMENTS).toContain("Looks close");
+    expect(variables.PR_REVIEW_COMMENTS).toBe("No review comments");
+    expect(variables.PR_FILES).toContain("src/upload.ts");
+    expect(variables.BASE_BRANCH).toBe("main");
+    expect(variables.HEAD_BRANCH).toBe("feature/retry");
+    expect(variables.TRIGGER_USERNAME).toBe("user2");
+    expect(variables.TRIGGER_DISPLAY_NAME).toBe("User Two");
+    expect(variables.TRIGGER_COMMENT).toBe("@claude please review");
+    expect(variables.CLAUDE_COMMENT_ID).toBe("999");
+    expect(variables.CUSTOM_INSTRUCTIONS).toBe("Be concise");
+  });
+});
+
+describe("renderPromptTemplate", () => {
+  const variables = buildTemplateVariables(
+    mockContext,
+    mockGitHubData,
+    "GENERAL_COMMENT",
+    "issue comment with '@claude'",
+  );
+
+  test("substitutes bare and braced variables", () => {
+    expect(
+      renderPromptTemplate("Review #$PR_NUMBER in ${REPOSITORY}", variables),
+    ).toBe("Review #42 in owner/repo");
+  });
+
+  test("renders $$ as a literal dollar sign", () => {
+    expect(renderPromptTemplate("Echo $$HOME for $PR_NUMBER", variables)).toBe(
+      "Echo $HOME for 42",
+    );
+  });
+
+  test("throws on unknown variables", () => {
+    expect(() => renderPromptTemplate("$NOPE", variables)).toThrow(
+      "unknown variables: $NOPE",
+    );
+  });
+
+  test("generatePrompt uses the template instead of the mode prompt", () => {
+    const prompt = generatePrompt(
+      { ...mockContext, promptTemplate: "Files:\n$PR_FILES" },
+      mockGitHubData,
+      false,
+      agentMode,
+    );
+
+    expect(prompt).toStartWith("Files:\n");
+    expect(prompt).toContain("src/upload.ts");
+    expect(prompt).not.toContain("Be concise");
+  });
+});
+
+describe("loadPromptTemplate", () => {
+  let repoRoot: string;
+
+  beforeAll(async () => {
+    repoRoot = resolve(tmpdir(), `prompt-template-test-${Date.now()}`);
+    await mkdir(resolve(repoRoot, ".github"), { recursive: true });
+    await writeFile(
+      resolve(repoRoot, ".github", "prompt.md"),
+      "Review $PR_NUMBER",
+    );
+    await writeFile(resolve(repoRoot, ".github", "bad.md"), "Review $PR");
+  });
+
+  afterAll(async () => {
+    await rm(repoRoot, { recursive: true, force: true });
+  });
+
+  test("reads a template from the repository", async () => {
+    expect(await loadPromptTemplate(".github/prompt.md", repoRoot)).toBe(
+      "Review $PR_NUMBER",
+    );
+  });
+
+  test("rejects templates with unknown variables", async () => {
+    await expect(
+      loadPromptTemplate(".github/bad.md", repoRoot),
+    ).rejects.toThrow("unknown variables: $PR");
+  });
+
+  test("rejects paths outside the repository", async () => {
+    await expect(
+      loadPromptTemplate("../outside.md", repoRoot),
+    ).rejects.toThrow();
+  });
+});
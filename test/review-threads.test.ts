@@ -0,0 +1,82 @@
+import { describe, test, expect, jest } from "bun:test";
+import { resolveReviewThread } from "../src/github/operations/review-threads";
+import {
+  RESOLVE_REVIEW_THREAD_MUTATION,
+  REVIEW_THREAD_QUERY,
+} from "../src/github/api/queries/github";
+
+function mockGraphql(thread: unknown) {
+  return jest.fn(async (query: string) => {
+    if (query === REVIEW_THREAD_QUERY) {
+      return { node: thread };
+    }
+    return { resolveReviewThread: { thread: { isResolved: true } } };
+  });
+}
+
+const params = {
+  threadId: "PRRT_1",
+  owner: "owner",
+  repo: "repo",
+  prNumber: 42,
+};
+
+function thread(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "PRRT_1",
+    isResolved: false,
+    path: "src/a.ts",
+    pullRequest: { number: 42, repository: { nameWithOwner: "Owner/Repo" } },
+    ...overrides,
+  };
+}
+
+describe("resolveReviewThread", () => {
+  test("resolves a thread on the current pull request", async () => {
+    const graphql = mockGraphql(thread());
+
+    const result = await resolveReviewThread(graphql as any, params);
+
+    expect(result).toEqual({
+      threadId: "PRRT_1",
+      path: "src/a.ts",
+      alreadyResolved: false,
+    });
+    expect(graphql).toHaveBeenCalledWith(RESOLVE_REVIEW_THREAD_MUTATION, {
+      threadId: "PRRT_1",
+    });
+  });
+
+  test("does not call the mutation for resolved threads", async () => {
+    const graphql = mockGraphql(thread({ isResolved: true }));
+
+    const result = await resolveReviewThread(graphql as any, params);
+
+    expect(result.alreadyResolved).toBe(true);
+    expect(graphql).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects threads from another pull request", async () => {
+    const graphql = mockGraphql(
+      thread({
+        pullRequest: {
+          number: 7,
+          repository: { nameWithOwner: "owner/repo" },
+        },
+      }),
+    );
+
+    await expect(resolveReviewThread(graphql as any, params)).rejects.toThrow(
+      "belongs to owner/repo#7, not owner/repo#42",
+    );
+    expect(graphql).toHaveBeenCalledTimes(1);
+  });
+
+  test("rejects unknown threads", async () => {
+    const graphql = mockGraphql(null);
+
+    await expect(resolveReviewThread(graphql as any, params)).rejects.toThrow(
+      "Review thread PRRT_1 not found",
+    );
+  });
+});
@@ -0,0 +1,179 @@
+import { expect, test, describe } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { buildRunReport, formatRunReport } from "../src/entrypoints/run-report";
+import type { Turn } from "../src/entrypoints/format-turns";
+
+function toolUse(id: string, name: string, input: Record<string, any>): Turn {
+  return {
+    type: "assistant",
+    message: { content: [{ type: "tool_use", id, name, input }] },
+  };
+}
+
+function toolResult(id: string, content: any, isError = false): Turn {
+  return {
+    type: "user",
+    message: {
+      content: [
+        { type: "tool_result", tool_use_id: id, content, is_error: isError },
+      ],
+    },
+  };
+}
+
+const turns: Turn[] = [
+  { type: "system", subtype: "init", tools: [] },
+  toolUse("1", "Edit", { file_path: "/workspace/repo/src/app.ts" }),
+  toolResult("1", "File updated"),
+  toolUse("2", "Bash", { command: "npm test" }),
+  { type: "tool_progress", tool_use_id: "2", elapsed_time_seconds: 3 },
+  { type: "tool_progress", tool_use_id: "2", elapsed_time_seconds: 12.5 },
+  toolResult("2", "1 test failed", true),
+  toolUse("3", "Bash", { command: 'git commit -m "Fix null check"' }),
+  toolResult("3", [
+    {
+      type: "text",
+      text: "[claude/issue-5 1a2b3c4] Fix null check\n 1 file changed",
+    },
+  ]),
+  toolUse("4", "mcp__github_file_ops__commit_files", {
+    files: ["src/util.ts"],
+    message: "Add helper",
+  }),
+  toolResult("4", [
+    {
+      type: "text",
+      text: JSON.stringify({
+        commit: { sha: "9f8e7d6c5b4a", message: "Add helper\n\nDetails" },
+      }),
+    },
+  ]),
+  toolUse("5", "mcp__github_inline_comment__create_inline_comment", {
+    path: "src/app.ts",
+  }),
+  toolResult("5", "Inline comment created"),
+  {
+    type: "result",
+    subtype: "success",
+    is_error: false,
+    num_turns: 6,
+    duration_ms: 45000,
+    duration_api_ms: 30000,
+    total_cost_usd: 0.1234,
+    usage: {
+      input_tokens: 100,
+      output_tokens: 50,
+      cache_creation_input_tokens: 10,
+      cache_read_input_tokens: 1000,
+    },
+  },
+];
+
+describe("buildRunReport", () => {
+  test("summarizes tools, changes and usage", () => {
+    const report = buildRunReport(turns, {
+      workspace: "/workspace/repo",
+      repository: "owner/repo",
+      branchName: "claude/issue-5",
+      pullRequestUrl: "https://github.com/owner/repo/pull/6",
+    });
+
+    expect(report).toEqual({
+      conclusion: "success",
+      num_turns: 6,
+      duration_ms: 45000,
+      duration_api_ms: 30000,
+      cost_usd: 0.1234,
+      usage: {
+        input_tokens: 100,
+        output_tokens: 50,
+        cache_creation_input_tokens: 10,
+        cache_read_input_tokens: 1000,
+      },
+      tools: [
+        { name: "Bash", calls: 2, errors: 1, duration_ms: 12500 },
+        { name: "Edit", calls: 1, errors: 0 },
+        {
+          name: "mcp__github_file_ops__commit_files",
+          calls: 1,
+          errors: 0,
+        },
+        {
+          name: "mcp__github_inline_comment__create_inline_comment",
+          calls: 1,
+          errors: 0,
+        },
+      ],
+      errors: [{ tool: "Bash", message: "1 test failed" }],
+      files_changed: ["src/app.ts", "src/util.ts"],
+      commits: [
+        { sha: "1a2b3c4", message: "Fix null check" },
+        { sha: "9f8e7d6c5b4a", message: "Add helper" },
+      ],
+      comments_posted: 1,
+      branch: {
+        name: "claude/issue-5",
+        url: "https://github.com/owner/repo/tree/claude/issue-5",
+      },
+      pull_request_url: "https://github.com/owner/repo/pull/6",
+    });
+  });
+
+  test("reports failed runs and sums usage without a result", () => {
+    const report = buildRunReport([
+      {
+        type: "assistant",
+        message: {
+          content: [{ type: "text", text: "Working" }],
+          usage: { input_tokens: 10, output_tokens: 5 },
+        },
+      },
+      {
+        type: "assistant",
+        message: {
+          content: [{ type: "text", text: "Still working" }],
+          usage: { input_tokens: 20, output_tokens: 7 },
+        },
+      },
+    ]);
+
+    expect(report.conclusion).toBe("failure");
+    expect(report.usage.input_tokens).toBe(30);
+    expect(report.usage.output_tokens).toBe(12);
+    expect(report.tools).toEqual([]);
+  });
+
+  test("handles the sample execution file", () => {
+    const data: Turn[] = JSON.parse(
+      readFileSync(join(__dirname, "fixtures", "sample-turns.json"), "utf-8"),
+    );
+
+    const report = buildRunReport(data);
+
+    expect(report.conclusion).toBe("success");
+    expect(report.cost_usd).toBe(0.0347);
+    expect(report.tools.map((tool) => tool.name).sort()).toEqual([
+      "Edit",
+      "Read",
+      "mcp__github__add_pull_request_review_comment",
+    ]);
+    expect(report.files_changed).toEqual(["/path/to/sample/file.py"]);
+  });
+});
+
+describe("formatRunReport", () => {
+  test("renders per-tool and error tables", () => {
+    const markdown = formatRunReport(
+      buildRunReport(turns, { workspace: "/workspace/repo" }),
+    );
+
+    expect(markdown).toContain("| success | 6 | 45.0s | $0.1234 | 1110 | 50 |");
+    expect(markdown).toContain("| `Bash` | 2 | 1 | 12.5s |");
+    expect(markdown).toContain("| `Edit` | 1 | 0 | – |");
+    expect(markdown).toContain("| `Bash` | 1 test failed |");
+    expect(markdown).toContain("- `1a2b3c4` Fix null check");
+    expect(markdown).toContain("- `src/app.ts`");
+    expect(markdown).toContain("**Comments posted:** 1");
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { isSarifLog, parseSarifReport } from "../src/github/data/sarif";
+
+const report = readFileSync(
+  join(__dirname, "fixtures", "eslint-report.sarif"),
+  "utf8",
+);
+
+describe("parseSarifReport", () => {
+  test("reads results with their rules and locations", () => {
+    const summary = parseSarifReport(report);
+
+    expect(summary.ignored).toBe(2);
+    expect(summary.results).toEqual([
+      {
+        tool: "ESLint",
+        ruleId: "no-unused-vars",
+        level: "warning",
+        message: "'token' is defined but never used.",
+        file: "file:///home/runner/work/app/app/src/auth.js",
+        line: 4,
+        column: 7,
+      },
+      {
+        tool: "ESLint",
+        ruleId: "eqeqeq",
+        level: "error",
+        message: "Expected '===' and instead saw '=='.",
+        file: "file:///home/runner/work/app/app/src/auth utils.js",
+        line: 18,
+      },
+    ]);
+  });
+
+  test("defaults to the warning level and the rule's description", () => {
+    const summary = parseSarifReport(
+      JSON.stringify({
+        version: "2.1.0",
+        runs: [
+          {
+            tool: {
+              driver: {
+                name: "Semgrep",
+                rules: [
+                  { id: "sql-injection", shortDescription: { text: "SQLi" } },
+                ],
+              },
+            },
+            results: [{ ruleId: "sql-injection", message: {} }],
+          },
+        ],
+      }),
+    );
+
+    expect(summary.results).toEqual([
+      {
+        tool: "Semgrep",
+        ruleId: "sql-injection",
+        level: "warning",
+        message: "SQLi",
+      },
+    ]);
+  });
+
+  test("rejects JSON that is not SARIF", () => {
+    expect(() => parseSarifReport('{"results": []}')).toThrow(
+      "Not a SARIF log",
+    );
+    expect(isSarifLog({ version: "2.1.0", runs: [] })).toBe(true);
+    expect(isSarifLog([])).toBe(false);
+  });
+});
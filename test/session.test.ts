@@ -0,0 +1,26 @@
+import { describe, expect, test } from "bun:test";
+import {
+  formatSessionMarker,
+  getSessionArtifactName,
+  parseSessionMarker,
+} from "../src/github/operations/session";
+
+const SESSION_ID = "0b6c3a4e-5f1d-4c2a-9e8b-7d6f5a4b3c2d";
+
+describe("session markers", () => {
+  test("round-trip through a comment body", () => {
+    const body = `Done\n\n${formatSessionMarker(SESSION_ID, "12345")}`;
+
+    expect(parseSessionMarker(body)).toEqual({
+      sessionId: SESSION_ID,
+      runId: "12345",
+    });
+    expect(getSessionArtifactName(SESSION_ID)).toBe(
+      `claude-session-${SESSION_ID}`,
+    );
+  });
+
+  test("ignore bodies without a marker", () => {
+    expect(parseSessionMarker("Done")).toBeUndefined();
+  });
+});
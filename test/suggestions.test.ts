@@ -0,0 +1,191 @@
+import { describe, expect, jest, test } from "bun:test";
+import {
+  applyProposedChanges,
+  buildSuggestionBody,
+  buildSuggestionComments,
+  buildSuggestionTreeEntries,
+  validateProposedChanges,
+} from "../src/github/operations/suggestions";
+import { FILE_AT_REF_QUERY } from "../src/github/api/queries/github";
+
+const FILE = ["one", "two", "three", "four", "five", ""].join("\n");
+
+describe("validateProposedChanges", () => {
+  test("accepts adjacent changes and changes to different files", () => {
+    expect(() =>
+      validateProposedChanges([
+        { path: "a.ts", startLine: 1, line: 2, replacement: "x" },
+        { path: "a.ts", line: 3, replacement: "y" },
+        { path: "b.ts", startLine: 1, line: 3, replacement: "z" },
+      ]),
+    ).not.toThrow();
+  });
+
+  test("rejects overlapping changes to the same file", () => {
+    expect(() =>
+      validateProposedChanges([
+        { path: "a.ts", startLine: 4, line: 6, replacement: "x" },
+        { path: "a.ts", startLine: 1, line: 4, replacement: "y" },
+      ]),
+    ).toThrow("Changes to a.ts overlap: lines 1-4 and lines 4-6");
+  });
+
+  test("reports every invalid range", () => {
+    expect(() =>
+      validateProposedChanges([
+        { path: "a.ts", startLine: 5, line: 2, replacement: "x" },
+        { path: "", line: 0, replacement: "y" },
+      ]),
+    ).toThrow(
+      "Invalid changes:\n- Change 0: startLine (5) must not be after line (2)\n- Change 1: path cannot be empty\n- Change 1: invalid line 0",
+    );
+  });
+
+  test("requires at least one change", () => {
+    expect(() => validateProposedChanges([])).toThrow(
+      "At least one change is required",
+    );
+  });
+});
+
+describe("buildSuggestionBody", () => {
+  test("wraps the replacement in a suggestion block below the comment", () => {
+    expect(
+      buildSuggestionBody({
+        path: "a.ts",
+        line: 1,
+        replacement: "const a = 1;\n",
+        comment: "Use const",
+      }),
+    ).toBe("Use const\n\n```suggestion\nconst a = 1;\n```");
+  });
+
+  test("uses a longer fence when the replacement contains backticks", () => {
+    expect(
+      buildSuggestionBody({
+        path: "README.md",
+        line: 1,
+        replacement: "```bash\nnpm test\n```",
+      }),
+    ).toBe("````suggestion\n```bash\nnpm test\n```\n````");
+  });
+
+  test("renders an empty block to delete lines", () => {
+    expect(
+      buildSuggestionBody({ path: "a.ts", line: 1, replacement: "" }),
+    ).toBe("```suggestion\n```");
+  });
+});
+
+describe("buildSuggestionComments", () => {
+  test("maps ranges onto review comment lines", () => {
+    expect(
+      buildSuggestionComments([
+        { path: "a.ts", startLine: 2, line: 3, replacement: "x" },
+        { path: "a.ts", startLine: 5, line: 5, replacement: "y" },
+      ]),
+    ).toEqual([
+      {
+        path: "a.ts",
+        body: "```suggestion\nx\n```",
+        line: 3,
+        startLine: 2,
+        side: "RIGHT",
+      },
+      { path: "a.ts", body: "```suggestion\ny\n```", line: 5, side: "RIGHT" },
+    ]);
+  });
+});
+
+describe("applyProposedChanges", () => {
+  test("applies several changes against the original line numbers", () => {
+    expect(
+      applyProposedChanges(FILE, [
+        { path: "a.ts", line: 1, replacement: "ONE\nONE-AND-A-HALF" },
+        { path: "a.ts", startLine: 3, line: 4, replacement: "" },
+        { path: "a.ts", line: 5, replacement: "FIVE\n" },
+      ]),
+    ).toBe(["ONE", "ONE-AND-A-HALF", "two", "FIVE", ""].join("\n"));
+  });
+
+  test("rejects changes past the end of the file", () => {
+    expect(() =>
+      applyProposedChanges(FILE, [{ path: "a.ts", line: 6, replacement: "x" }]),
+    ).toThrow("a.ts has 5 lines, cannot replace line 6");
+  });
+});
+
+describe("buildSuggestionTreeEntries", () => {
+  test("loads each file once and keeps its mode", async () => {
+    const graphql = jest.fn(async (_query: string, variables: any) => ({
+      repository: {
+        file: {
+          text: variables.file.endsWith("run.sh") ? "echo hi\n" : FILE,
+          isBinary: false,
+          isTruncated: false,
+        },
+        directory: {
+          entries: [
+            { name: "run.sh", mode: 0o100755 },
+            { name: "a.ts", mode: 0o100644 },
+          ],
+        },
+      },
+    }));
+
+    const entries = await buildSuggestionTreeEntries(graphql as any, {
+      owner: "owner",
+      repo: "repo",
+      ref: "abc123",
+      changes: [
+        { path: "src/a.ts", line: 1, replacement: "ONE" },
+        { path: "scripts/run.sh", line: 1, replacement: "echo bye" },
+        { path: "src/a.ts", line: 2, replacement: "TWO" },
+      ],
+    });
+
+    expect(graphql).toHaveBeenCalledTimes(2);
+    expect(graphql).toHaveBeenCalledWith(FILE_AT_REF_QUERY, {
+      owner: "owner",
+      repo: "repo",
+      file: "abc123:src/a.ts",
+      directory: "abc123:src",
+    });
+    expect(entries).toEqual([
+      {
+        path: "src/a.ts",
+        mode: "100644",
+        type: "blob",
+        content: ["ONE", "TWO", "three", "four", "five", ""].join("\n"),
+      },
+      {
+        path: "scripts/run.sh",
+        mode: "100755",
+        type: "blob",
+        content: "echo bye\n",
+      },
+    ]);
+  });
+
+  test("refuses binary and missing files", async () => {
+    const load = (file: unknown) =>
+      buildSuggestionTreeEntries(
+        jest.fn().mockResolvedValue({
+          repository: { file, directory: null },
+        }) as any,
+        {
+          owner: "owner",
+          repo: "repo",
+          ref: "abc123",
+          changes: [{ path: "logo.png", line: 1, replacement: "x" }],
+        },
+      );
+
+    await expect(
+      load({ text: null, isBinary: true, isTruncated: false }),
+    ).rejects.toThrow("logo.png is a binary file and cannot be changed");
+    await expect(load(null)).rejects.toThrow(
+      "logo.png does not exist at abc123",
+    );
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, test, expect } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { isTapReport, parseTapReport } from "../src/github/data/tap";
+
+const report = readFileSync(
+  join(__dirname, "fixtures", "node-test-report.tap"),
+  "utf8",
+);
+
+describe("parseTapReport", () => {
+  test("reads node:test output with subtests and diagnostics", () => {
+    const summary = parseTapReport(report);
+
+    expect(summary).toMatchObject({ tests: 5, failures: 1, skipped: 1 });
+    expect(summary.failedTests).toHaveLength(1);
+    expect(summary.failedTests[0]).toMatchObject({
+      name: "rejects an expired token",
+      parents: ["auth"],
+      file: "/home/runner/work/app/app/test/auth.test.js",
+      line: 10,
+      column: 3,
+      message: "Expected values to be strictly equal:",
+    });
+    expect(summary.failedTests[0]!.details).toContain("401 !== 200");
+  });
+
+  test("reads node-tap locations and prove-style output", () => {
+    const summary = parseTapReport(
+      [
+        "1..3",
+        "ok 1 - parses input",
+        "not ok 2 - formats output",
+        "  ---",
+        "  message: 'should be equal'",
+        "  at:",
+        "    file: test/format.js",
+        "    line: 21",
+        "    column: 5",
+        "  ...",
+        "not ok 3",
+      ].join("\n"),
+    );
+
+    expect(summary.failures).toBe(2);
+    expect(summary.failedTests).toEqual([
+      {
+        name: "formats output",
+        parents: [],
+        file: "test/format.js",
+        line: 21,
+        column: 5,
+        message: "should be equal",
+        details:
+          "message: 'should be equal'\nat:\n  file: test/format.js\n  line: 21\n  column: 5",
+      },
+      { name: "(unnamed)", parents: [] },
+    ]);
+  });
+
+  test("reads bats locations and bail outs", () => {
+    const summary = parseTapReport(
+      [
+        "1..2",
+        "not ok 1 install creates the config",
+        "# (in test file test/install.bats, line 14)",
+        "#   `[ -f config ]' failed",
+        "Bail out! Cannot reach the test database",
+      ].join("\n"),
+    );
+
+    expect(summary.failedTests).toEqual([
+      {
+        name: "install creates the config",
+        parents: [],
+        file: "test/install.bats",
+        line: 14,
+      },
+    ]);
+    expect(summary.bailOut).toBe("Cannot reach the test database");
+  });
+
+  test("rejects text without TAP", () => {
+    expect(() => parseTapReport("all tests passed")).toThrow(
+      "Not a TAP report",
+    );
+  });
+});
+
+describe("isTapReport", () => {
+  test("recognizes TAP output", () => {
+    expect(isTapReport(report)).toBe(true);
+    expect(isTapReport("1..0 # SKIP no tests")).toBe(true);
+    expect(isTapReport("okay, done")).toBe(false);
+  });
+});
@@ -0,0 +1,356 @@
+import { describe, test, expect, jest, beforeEach, afterEach } from "bun:test";
+import { copyFile, mkdir, mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  detectReportFormat,
+  filterReportFailures,
+  formatTestReports,
+  loadTestReports,
+  parseReport,
+  parseTestReportEntries,
+  prepareTestReports,
+  toWorkspacePath,
+  type ReportFailure,
+  type TestReports,
+} from "../src/github/data/test-reports";
+import { createMockContext } from "./mockContext";
+
+const WORKSPACE = "/home/runner/work/app/app";
+const fixture = (name: string) => join(__dirname, "fixtures", name);
+
+function createContext(testReports: string, overrides = {}) {
+  return createMockContext({
+    runId: "1234",
+    inputs: { testReports } as any,
+    ...overrides,
+  });
+}
+
+function createMockOctokit(artifacts: unknown[] = []) {
+  return {
+    actions: {
+      listWorkflowRunArtifacts: jest.fn(async () => ({
+        data: { artifacts },
+      })),
+    },
+  } as any;
+}
+
+describe("parseTestReportEntries", () => {
+  test("reads one entry per line", () => {
+    expect(
+      parseTestReportEntries("reports/junit.xml\n\n  artifact:lint  \n"),
+    ).toEqual(["reports/junit.xml", "artifact:lint"]);
+  });
+});
+
+describe("detectReportFormat", () => {
+  test("goes by the file name, then by the content", () => {
+    expect(detectReportFormat("out/eslint.sarif", "")).toBe("sarif");
+    expect(detectReportFormat("out/eslint.sarif.json", "")).toBe("sarif");
+    expect(detectReportFormat("out/results.tap", "")).toBe("tap");
+    expect(detectReportFormat("out/junit.xml", "")).toBe("junit");
+    expect(detectReportFormat("out/results", "<testsuites/>")).toBe("junit");
+    expect(
+      detectReportFormat("out/results", '{"version":"2.1.0","runs":[]}'),
+    ).toBe("sarif");
+    expect(detectReportFormat("out/results", "TAP version 14\n1..0")).toBe(
+      "tap",
+    );
+    expect(
+      detectReportFormat("out/results.json", '{"tests": 3}'),
+    ).toBeUndefined();
+    expect(detectReportFormat("out/log.txt", "All good")).toBeUndefined();
+  });
+});
+
+describe("toWorkspacePath", () => {
+  test("makes paths in the workspace relative", () => {
+    expect(toWorkspacePath(`${WORKSPACE}/src/app.ts`, WORKSPACE)).toBe(
+      "src/app.ts",
+    );
+    expect(toWorkspacePath(`file://${WORKSPACE}/src/app.ts`, WORKSPACE)).toBe(
+      "src/app.ts",
+    );
+    expect(toWorkspacePath("/usr/lib/node.js", WORKSPACE)).toBe(
+      "/usr/lib/node.js",
+    );
+    expect(toWorkspacePath("src/app.ts", WORKSPACE)).toBe("src/app.ts");
+  });
+});
+
+describe("parseReport", () => {
+  test("normalizes JUnit failures", async () => {
+    const { info, failures } = parseReport(
+      "junit.xml",
+      await readFile(fixture("junit-report.xml"), "utf8"),
+      "junit",
+      WORKSPACE,
+    );
+
+    expect(info).toEqual({
+      path: "junit.xml",
+      format: "junit",
+      tests: 5,
+      failures: 2,
+    });
+    expect(failures[0]).toMatchObject({
+      format: "junit",
+      report: "junit.xml",
+      file: "src/auth.test.ts",
+      // Found in the stack trace
+      line: 42,
+      test: "auth login > rejects an expired token",
+      severity: "error",
+      message: "expected 401, got 200",
+    });
+    expect(failures[1]).toMatchObject({
+      file: "tests/test_db.py",
+      line: 17,
+      test: "db.pool > connects",
+    });
+  });
+
+  test("normalizes TAP failures", async () => {
+    const { info, failures } = parseReport(
+      "results.tap",
+      await readFile(fixture("node-test-report.tap"), "utf8"),
+      "tap",
+      WORKSPACE,
+    );
+
+    expect(info).toEqual({
+      path: "results.tap",
+      format: "tap",
+      tests: 5,
+      failures: 1,
+    });
+    expect(failures).toEqual([
+      expect.objectContaining({
+        format: "tap",
+        file: "test/auth.test.js",
+        line: 10,
+        column: 3,
+        test: "auth > rejects an expired token",
+        message: "Expected values to be strictly equal:",
+      }),
+    ]);
+  });
+
+  test("normalizes SARIF findings", async () => {
+    const { info, failures } = parseReport(
+      "eslint.sarif",
+      await readFile(fixture("eslint-report.sarif"), "utf8"),
+      "sarif",
+      WORKSPACE,
+    );
+
+    expect(info).toEqual({
+      path: "eslint.sarif",
+      format: "sarif",
+      failures: 2,
+    });
+    expect(failures).toEqual([
+      {
+        format: "sarif",
+        report: "eslint.sarif",
+        file: "src/auth.js",
+        line: 4,
+        column: 7,
+        rule: "no-unused-vars",
+        tool: "ESLint",
+        severity: "warning",
+        message: "'token' is defined but never used.",
+      },
+      {
+        format: "sarif",
+        report: "eslint.sarif",
+        file: "src/auth utils.js",
+        line: 18,
+        rule: "eqeqeq",
+        tool: "ESLint",
+        severity: "error",
+        message: "Expected '===' and instead saw '=='.",
+      },
+    ]);
+  });
+});
+
+describe("loadTestReports", () => {
+  let workspace: string;
+
+  beforeEach(async () => {
+    workspace = await mkdtemp(join(tmpdir(), "claude-test-reports-"));
+    await mkdir(join(workspace, "reports", "unit"), { recursive: true });
+    await copyFile(
+      fixture("junit-report.xml"),
+      join(workspace, "reports", "unit", "junit.xml"),
+    );
+    await copyFile(
+      fixture("node-test-report.tap"),
+      join(workspace, "reports", "node.tap"),
+    );
+    await writeFile(join(workspace, "reports", "coverage.xml"), "<coverage/>");
+    await copyFile(fixture("eslint-report.sarif"), join(workspace, "lint.out"));
+  });
+
+  afterEach(async () => {
+    await rm(workspace, { recursive: true, force: true });
+  });
+
+  test("reads files and directories, errors first", async () => {
+    const result = await loadTestReports(
+      createMockOctokit(),
+      createContext("lint.out\nreports"),
+      { workspace },
+    );
+
+    expect(result.reports.map((report) => report.path)).toEqual([
+      "lint.out",
+      "reports/node.tap",
+      "reports/unit/junit.xml",
+    ]);
+    expect(result.errors).toEqual([]);
+    expect(result.failures.map((failure) => failure.severity)).toEqual([
+      "error",
+      "error",
+      "error",
+      "error",
+      "warning",
+    ]);
+    expect(result.omittedFailures).toBe(0);
+  });
+
+  test("reports entries that can't be read", async () => {
+    const result = await loadTestReports(
+      createMockOctokit(),
+      createContext("missing.xml\nreports/coverage.xml\nartifact:lint"),
+      { workspace },
+    );
+
+    expect(result.reports).toEqual([]);
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors[0]).toStartWith("missing.xml: ENOENT");
+    expect(result.errors[1]).toBe(
+      "reports/coverage.xml: Not a JUnit report: the root element is <coverage>, not <testsuites> or <testsuite>",
+    );
+    expect(result.errors[2]).toBe(
+      'artifact:lint: no artifact named "lint" in workflow run 1234',
+    );
+  });
+
+  test("looks for artifacts in the run that triggered a workflow_run", async () => {
+    const octokit = createMockOctokit();
+
+    await loadTestReports(
+      octokit,
+      createContext("artifact:test-results", {
+        eventName: "workflow_run",
+        payload: { action: "completed", workflow_run: { id: 500 } } as any,
+      }),
+      { workspace },
+    );
+
+    expect(octokit.actions.listWorkflowRunArtifacts).toHaveBeenCalledWith(
+      expect.objectContaining({ run_id: 500, name: "test-results" }),
+    );
+  });
+});
+
+describe("prepareTestReports", () => {
+  test("does nothing without test_reports", async () => {
+    expect(
+      await prepareTestReports(createMockOctokit(), createContext("  \n")),
+    ).toBeUndefined();
+  });
+});
+
+const failures: ReportFailure[] = [
+  {
+    format: "junit",
+    report: "junit.xml",
+    file: "src/auth.test.ts",
+    line: 42,
+    test: "auth > rejects an expired token",
+    severity: "error",
+    message: "expected 401, got 200",
+    details: "AssertionError: expected 401, got 200",
+  },
+  {
+    format: "sarif",
+    report: "eslint.sarif",
+    file: "src/auth.js",
+    line: 4,
+    column: 7,
+    rule: "no-unused-vars",
+    tool: "ESLint",
+    severity: "warning",
+    message: "'token' is defined but never used.",
+  },
+];
+
+describe("filterReportFailures", () => {
+  test("keeps the failures that match every filter", () => {
+    expect(filterReportFailures(failures, { file: "auth" })).toHaveLength(2);
+    expect(filterReportFailures(failures, { format: "sarif" })).toEqual([
+      failures[1]!,
+    ]);
+    expect(
+      filterReportFailures(failures, { query: "EXPIRED", severity: "error" }),
+    ).toEqual([failures[0]!]);
+    expect(
+      filterReportFailures(failures, { query: "no-unused", format: "junit" }),
+    ).toEqual([]);
+  });
+});
+
+describe("formatTestReports", () => {
+  const testReports: TestReports = {
+    reports: [
+      { path: "junit.xml", format: "junit", tests: 5, failures: 1 },
+      { path: "eslint.sarif", format: "sarif", failures: 1 },
+    ],
+    failures,
+    omittedFailures: 0,
+    errors: ["missing.xml: ENOENT: no such file or directory"],
+  };
+
+  test("lists the reports and the failures with their locations", () => {
+    expect(formatTestReports(testReports)).toBe(
+      [
+        "- junit.xml (junit): 5 tests, 1 failures",
+        "- eslint.sarif (sarif): 1 findings",
+        "- Not read: missing.xml: ENOENT: no such file or directory",
+        "",
+        '<failure format="junit" severity="error" location="src/auth.test.ts:42">',
+        "auth > rejects an expired token: expected 401, got 200",
+        "</failure>",
+        '<failure format="sarif" severity="warning" location="src/auth.js:4:7">',
+        "no-unused-vars: 'token' is defined but never used.",
+        "</failure>",
+      ].join("\n"),
+    );
+  });
+
+  test("points to the MCP tool for failures left out", () => {
+    const many = Array.from({ length: 60 }, () => failures[0]!);
+
+    const formatted = formatTestReports({
+      ...testReports,
+      failures: many,
+      omittedFailures: 5,
+    });
+
+    expect(formatted.match(/<failure /g)).toHaveLength(50);
+    expect(formatted).toContain(
+      "15 more failures are not listed; use mcp__test_reports__get_test_failures to see them.",
+    );
+  });
+
+  test("says when the reports have no failures", () => {
+    expect(
+      formatTestReports({ ...testReports, failures: [], errors: [] }),
+    ).toContain("The reports have no failures.");
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, expect, jest, test } from "bun:test";
+import {
+  formatMemoryBlock,
+  setMemoryBlock,
+  type EntityMemory,
+} from "../src/github/operations/memory";
+import { formatSessionMarker } from "../src/github/operations/session";
+import { fetchTrackingState } from "../src/github/operations/tracking-state";
+
+const MEMORY: EntityMemory = {
+  summary: "Added retry logic to the uploader",
+  decisions: ["Use exponential backoff, capped at 30s"],
+  todos: ["Add a test for the timeout path"],
+  files: ["src/uploader.ts"],
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+const SESSION_ID = "0b6c3a4e-5f1d-4c2a-9e8b-7d6f5a4b3c2d";
+
+const CLAUDE = { id: 209825114, login: "claude[bot]", type: "Bot" };
+
+describe("fetchTrackingState", () => {
+  const createMockRest = (issueComments: unknown[], reviewComments = []) => {
+    const rest = {
+      issues: { listComments: jest.fn() },
+      pulls: { listReviewComments: jest.fn() },
+    };
+    return {
+      rest,
+      paginate: jest.fn(async (method: unknown) =>
+        method === rest.issues.listComments ? issueComments : reviewComments,
+      ),
+    } as any;
+  };
+  const params = {
+    owner: "owner",
+    repo: "repo",
+    entityNumber: 5,
+    botName: "claude[bot]",
+  };
+
+  test("reads the most recent memory and session written by Claude", async () => {
+    const octokit = createMockRest([
+      {
+        body: setMemoryBlock(
+          formatSessionMarker("older-session", "1"),
+          formatMemoryBlock({ ...MEMORY, summary: "Older" }),
+        ),
+        user: CLAUDE,
+        updated_at: "2024-01-01T00:00:00Z",
+      },
+      {
+        body: setMemoryBlock(
+          `Done\n\n${formatSessionMarker(SESSION_ID, "2")}`,
+          formatMemoryBlock(MEMORY),
+        ),
+        user: CLAUDE,
+        updated_at: "2024-01-02T00:00:00Z",
+      },
+      {
+        body: setMemoryBlock(
+          formatSessionMarker("forged-session", "3"),
+          formatMemoryBlock({ ...MEMORY, summary: "Forged" }),
+        ),
+        user: { id: 3, login: "mallory", type: "User" },
+        updated_at: "2024-01-03T00:00:00Z",
+      },
+    ]);
+
+    expect(
+      await fetchTrackingState(octokit, { ...params, isPR: false }),
+    ).toEqual({
+      memory: MEMORY,
+      session: { sessionId: SESSION_ID, runId: "2" },
+    });
+    expect(octokit.paginate).toHaveBeenCalledTimes(1);
+  });
+
+  test("takes memory and session from different comments", async () => {
+    const octokit = createMockRest([
+      {
+        body: formatMemoryBlock(MEMORY),
+        user: CLAUDE,
+        updated_at: "2024-01-01T00:00:00Z",
+      },
+      {
+        body: formatSessionMarker(SESSION_ID, "2"),
+        user: CLAUDE,
+        updated_at: "2024-01-02T00:00:00Z",
+      },
+    ]);
+
+    expect(
+      await fetchTrackingState(octokit, { ...params, isPR: false }),
+    ).toEqual({
+      memory: MEMORY,
+      session: { sessionId: SESSION_ID, runId: "2" },
+    });
+  });
+
+  test("ignores comments by other bots", async () => {
+    const octokit = createMockRest([
+      {
+        body: setMemoryBlock(
+          formatSessionMarker("forged-session", "3"),
+          formatMemoryBlock(MEMORY),
+        ),
+        user: { id: 41898282, login: "github-actions[bot]", type: "Bot" },
+        updated_at: "2024-01-02T00:00:00Z",
+      },
+    ]);
+
+    expect(
+      await fetchTrackingState(octokit, { ...params, isPR: false }),
+    ).toEqual({});
+  });
+
+  test("accepts the bot configured with bot_name", async () => {
+    const octokit = createMockRest([
+      {
+        body: formatSessionMarker(SESSION_ID, "2"),
+        user: { id: 77, login: "Acme-Claude[bot]", type: "Bot" },
+        updated_at: "2024-01-02T00:00:00Z",
+      },
+    ]);
+
+    expect(
+      await fetchTrackingState(octokit, {
+        ...params,
+        botName: "acme-claude[bot]",
+        isPR: false,
+      }),
+    ).toEqual({ session: { sessionId: SESSION_ID, runId: "2" } });
+  });
+
+  test("also searches review comments on pull requests", async () => {
+    const octokit = createMockRest([], [
+      {
+        body: formatMemoryBlock(MEMORY),
+        user: CLAUDE,
+        updated_at: "2024-01-02T00:00:00Z",
+      },
+    ] as any);
+
+    expect(
+      await fetchTrackingState(octokit, { ...params, isPR: true }),
+    ).toEqual({ memory: MEMORY });
+    expect(octokit.paginate).toHaveBeenCalledTimes(2);
+  });
+});
@@ -5,6 +5,7 @@ import {
 import { describe, it, expect } from "bun:test";
 import {
   createMockContext,
+  createMockDiscussionContext,
   mockIssueAssignedContext,
   mockIssueLabeledContext,
   mockIssueCommentContext,
@@ -451,6 +452,62 @@ describe("checkContainsTrigger", () => {
   });
 });
 
+describe("checkContainsTrigger for discussions", () => {
+  it("should return true for a new discussion that mentions the trigger phrase", () => {
+    expect(checkContainsTrigger(createMockDiscussionContext())).toBe(true);
+  });
+
+  it("should check the discussion title", () => {
+    const context = createMockDiscussionContext();
+    const payload = context.payload as any;
+    payload.discussion = {
+      ...payload.discussion,
+      title: "/claude retries?",
+      body: "How are retries configured?",
+    };
+    expect(checkContainsTrigger(context)).toBe(true);
+  });
+
+  it("should return false for a discussion without the trigger phrase", () => {
+    const context = createMockDiscussionContext();
+    const payload = context.payload as any;
+    payload.discussion = { ...payload.discussion, body: "No mention here" };
+    expect(checkContainsTrigger(context)).toBe(false);
+  });
+
+  it("should return false for edited discussions", () => {
+    expect(
+      checkContainsTrigger(
+        createMockDiscussionContext({ eventAction: "edited" }),
+      ),
+    ).toBe(false);
+  });
+
+  it("should return true for comments and replies that mention the trigger phrase", () => {
+    expect(
+      checkContainsTrigger(
+        createMockDiscussionContext({ commentBody: "/claude, any idea?" }),
+      ),
+    ).toBe(true);
+    expect(
+      checkContainsTrigger(
+        createMockDiscussionContext({
+          commentBody: "Agreed. /claude can you confirm?",
+          replyToId: "DC_parent",
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it("should ignore the discussion body on comment events", () => {
+    expect(
+      checkContainsTrigger(
+        createMockDiscussionContext({ commentBody: "Thanks!" }),
+      ),
+    ).toBe(false);
+  });
+});
+
 describe("escapeRegExp", () => {
   it("should escape special regex characters", () => {
     expect(escapeRegExp(".*+?^${}()|[]\\")).toBe(
@@ -0,0 +1,197 @@
+import { describe, test, expect, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  checkWorkflowChanges,
+  checkWorkflowChangesSupported,
+  parseWorkflowChangePaths,
+  readWorkflowChanges,
+  recordWorkflowChanges,
+  rejectWorkflowChanges,
+  validateWorkflow,
+} from "../src/github/operations/workflow-changes";
+
+describe("parseWorkflowChangePaths", () => {
+  test("parses newline- and comma-separated paths", () => {
+    expect(
+      parseWorkflowChangePaths(
+        ".github/workflows/ci.yml, ./.github/workflows/release.yaml\n\n.github/workflows/ci.yml",
+      ),
+    ).toEqual([".github/workflows/ci.yml", ".github/workflows/release.yaml"]);
+  });
+
+  test("returns no paths for an empty input", () => {
+    expect(parseWorkflowChangePaths("")).toEqual([]);
+    expect(parseWorkflowChangePaths(undefined)).toEqual([]);
+  });
+
+  test("rejects paths outside .github/workflows", () => {
+    expect(() => parseWorkflowChangePaths("src/ci.yml")).toThrow(
+      'allow_workflow_changes only accepts .yml or .yaml files directly under .github/workflows/, got "src/ci.yml"',
+    );
+    expect(() =>
+      parseWorkflowChangePaths(".github/workflows/nested/ci.yml"),
+    ).toThrow();
+    expect(() => parseWorkflowChangePaths(".github/workflows/*")).toThrow();
+  });
+});
+
+describe("checkWorkflowChangesSupported", () => {
+  test("requires the api commit strategy", () => {
+    const inputs = {
+      allowWorkflowChanges: ".github/workflows/ci.yml",
+      commitStrategy: "api" as const,
+    };
+
+    expect(() => checkWorkflowChangesSupported(inputs)).not.toThrow();
+    expect(() =>
+      checkWorkflowChangesSupported({ ...inputs, commitStrategy: "git" }),
+    ).toThrow("allow_workflow_changes requires commit_strategy: api");
+    expect(() =>
+      checkWorkflowChangesSupported({
+        ...inputs,
+        commitStrategy: "git-ssh-signed",
+      }),
+    ).toThrow("(got git-ssh-signed)");
+    expect(() =>
+      checkWorkflowChangesSupported({
+        allowWorkflowChanges: "",
+        commitStrategy: "git",
+      }),
+    ).not.toThrow();
+  });
+});
+
+describe("checkWorkflowChanges", () => {
+  test("returns the allowed workflow files among the paths", () => {
+    expect(
+      checkWorkflowChanges(
+        ["src/index.ts", "./.github/workflows/ci.yml"],
+        [".github/workflows/ci.yml"],
+      ),
+    ).toEqual([".github/workflows/ci.yml"]);
+  });
+
+  test("rejects workflow files that are not listed", () => {
+    expect(() =>
+      checkWorkflowChanges(
+        [".github/workflows/ci.yml", ".github/workflows/deploy.yml"],
+        [".github/workflows/ci.yml"],
+      ),
+    ).toThrow(
+      "Changing .github/workflows/deploy.yml is not allowed. Only these workflow files may be changed: .github/workflows/ci.yml",
+    );
+  });
+
+  test("points to the input when no workflow changes are allowed", () => {
+    expect(() =>
+      checkWorkflowChanges([".github/workflows/ci.yml"], []),
+    ).toThrow("They can be enabled with the allow_workflow_changes input");
+  });
+});
+
+describe("rejectWorkflowChanges", () => {
+  test("accepts paths outside the workflows directory", () => {
+    expect(() =>
+      rejectWorkflowChanges(["src/index.ts", ".github/dependabot.yml"]),
+    ).not.toThrow();
+  });
+
+  test("rejects workflow files and points to commit_files", () => {
+    expect(() =>
+      rejectWorkflowChanges(["src/index.ts", "./.github/workflows/ci.yml"]),
+    ).toThrow(
+      "Workflow files (.github/workflows/ci.yml) cannot be committed here. Use mcp__github_file_ops__commit_files",
+    );
+  });
+});
+
+describe("validateWorkflow", () => {
+  test("accepts a valid workflow", () => {
+    expect(
+      validateWorkflow(`name: CI
+on:
+  push:
+    branches: [main]
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: actions/checkout@v4
+      - run: bun test
+        env:
+          TOKEN: \${{ secrets.TOKEN }}
+  release:
+    needs: test
+    uses: ./.github/workflows/release.yml
+`),
+    ).toEqual([]);
+  });
+
+  test("reports invalid YAML", () => {
+    const problems = validateWorkflow("on: [push\njobs: {");
+    expect(problems).toHaveLength(1);
+    expect(problems[0]).toStartWith("invalid YAML:");
+  });
+
+  test("reports malformed workflows", () => {
+    expect(
+      validateWorkflow(`jobs:
+  build:
+    steps:
+      - name: Nothing to do
+      - uses: actions/checkout@v4
+        run: echo hi
+  deploy:
+    needs: [build, missing]
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo \${{ github.sha
+`),
+    ).toEqual([
+      '"on" is required to say which events trigger the workflow',
+      'jobs.build: "runs-on" is required',
+      'jobs.build.steps[0]: a step must have exactly one of "uses" or "run"',
+      'jobs.build.steps[1]: a step must have exactly one of "uses" or "run"',
+      'jobs.deploy: needs unknown job "missing"',
+      "jobs.deploy.steps[0].run: unclosed ${{ expression",
+    ]);
+  });
+
+  test("requires at least one job", () => {
+    expect(validateWorkflow("on: push\njobs: {}\n")).toEqual([
+      '"jobs" must be a mapping with at least one job',
+    ]);
+  });
+});
+
+describe("recordWorkflowChanges", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "workflow-changes-test-"));
+  });
+
+  afterEach(async () => {
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  test("collects the workflow files committed during the run", async () => {
+    const file = join(tempDir, "changes.txt");
+
+    expect(await readWorkflowChanges(file)).toEqual([]);
+
+    await recordWorkflowChanges([".github/workflows/ci.yml"], file);
+    await recordWorkflowChanges([], file);
+    await recordWorkflowChanges(
+      [".github/workflows/ci.yml", ".github/workflows/release.yml"],
+      file,
+    );
+
+    expect(await readWorkflowChanges(file)).toEqual([
+      ".github/workflows/ci.yml",
+      ".github/workflows/release.yml",
+    ]);
+  });
+});